@@ -59,6 +59,16 @@ const router = createRouter({
 					name: 'event-detail',
 					component: () => import('../views/EventDetail.vue'),
 				},
+				{
+					path: 'projects/:slug/replays/:replayId',
+					name: 'replay-detail',
+					component: () => import('../views/ReplayDetail.vue'),
+				},
+				{
+					path: 'projects/:slug/performance',
+					name: 'performance',
+					component: () => import('../views/Performance.vue'),
+				},
 				{
 					path: 'projects/:slug/releases',
 					name: 'releases',
@@ -69,6 +79,11 @@ const router = createRouter({
 					name: 'release-detail',
 					component: () => import('../views/ReleaseDetail.vue'),
 				},
+				{
+					path: 'projects/:slug/monitors',
+					name: 'monitors',
+					component: () => import('../views/Monitors.vue'),
+				},
 				{
 					path: 'projects/:slug/settings',
 					name: 'project-settings',
@@ -84,6 +99,11 @@ const router = createRouter({
 					name: 'project-filters',
 					component: () => import('../views/ProjectFilters.vue'),
 				},
+				{
+					path: 'projects/:slug/sampling',
+					name: 'project-sampling',
+					component: () => import('../views/ProjectSampling.vue'),
+				},
 			],
 		},
 	],
@@ -1,5 +1,16 @@
 import { DurableObject } from 'cloudflare:workers';
-import type { ApiToken, Env, Project, ProjectMember, Session, User } from '../types';
+import { normalizeAllowedDomain } from '../lib/origins';
+import { fail, ok } from '../lib/rpc-result';
+import type {
+	ApiToken,
+	ClientKey,
+	Env,
+	Project,
+	ProjectMember,
+	Session,
+	TailScript,
+	User,
+} from '../types';
 
 const SCHEMA = `
 CREATE TABLE IF NOT EXISTS users (
@@ -58,8 +69,52 @@ CREATE TABLE IF NOT EXISTS api_tokens (
 );
 CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens(user_id);
 CREATE INDEX IF NOT EXISTS idx_api_tokens_hash ON api_tokens(token_hash);
+
+CREATE TABLE IF NOT EXISTS tail_scripts (
+  script_name TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_tail_scripts_project ON tail_scripts(project_id);
+
+CREATE TABLE IF NOT EXISTS client_keys (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  public_key TEXT UNIQUE NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  rate_limit INTEGER,
+  last_used_at TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_client_keys_project ON client_keys(project_id);
 `;
 
+// Projects without an explicit list accept ingestion from any origin
+const DEFAULT_ALLOWED_DOMAINS = ['*'];
+const MAX_ALLOWED_DOMAINS = 50;
+
+// Cloudflare Worker script names: lowercase letters, digits, dashes and underscores
+const SCRIPT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+const MAX_CLIENT_KEYS = 20;
+// Usage is recorded at most this often so ingestion stays read-mostly
+const KEY_USAGE_INTERVAL_MS = 60 * 1000;
+
+function parseAllowedDomains(value: SqlStorageValue): string[] {
+	return value ? JSON.parse(value as string) : DEFAULT_ALLOWED_DOMAINS;
+}
+
+function isValidKeyRateLimit(rateLimit: unknown): boolean {
+	return (
+		rateLimit === undefined ||
+		rateLimit === null ||
+		(typeof rateLimit === 'number' && Number.isInteger(rateLimit) && rateLimit > 0)
+	);
+}
+
 export class AuthState extends DurableObject<Env> {
 	private sql: SqlStorage;
 	private initialized = false;
@@ -67,6 +122,7 @@ export class AuthState extends DurableObject<Env> {
 	constructor(ctx: DurableObjectState, env: Env) {
 		super(ctx, env);
 		this.sql = ctx.storage.sql;
+		ctx.blockConcurrencyWhile(() => this.ensureSchema());
 	}
 
 	private async ensureSchema(): Promise<void> {
@@ -78,98 +134,33 @@ export class AuthState extends DurableObject<Env> {
 		} catch {
 			// Column already exists
 		}
-		this.initialized = true;
-	}
-
-	async fetch(request: Request): Promise<Response> {
-		await this.ensureSchema();
-
-		const url = new URL(request.url);
-		const path = url.pathname;
-
+		// Migration: add allowed_domains column (JSON array)
 		try {
-			switch (path) {
-				case '/register':
-					return this.handleRegister(request);
-				case '/login':
-					return this.handleLogin(request);
-				case '/logout':
-					return this.handleLogout(request);
-				case '/validate-session':
-					return this.handleValidateSession(request);
-				case '/me':
-					return this.handleGetMe(request);
-				case '/create-project':
-					return this.handleCreateProject(request);
-				case '/list-projects':
-					return this.handleListProjects(request);
-				case '/get-project':
-					return this.handleGetProject(request);
-				case '/get-project-by-key':
-					return this.handleGetProjectByKey(request);
-				case '/delete-project':
-					return this.handleDeleteProject(request);
-				case '/update-project':
-					return this.handleUpdateProject(request);
-				case '/check-access':
-					return this.handleCheckAccess(request);
-				case '/create-api-token':
-					return this.handleCreateApiToken(request);
-				case '/list-api-tokens':
-					return this.handleListApiTokens(request);
-				case '/revoke-api-token':
-					return this.handleRevokeApiToken(request);
-				case '/validate-api-token':
-					return this.handleValidateApiToken(request);
-				case '/list-project-members':
-					return this.handleListProjectMembers(request);
-				case '/add-project-member':
-					return this.handleAddProjectMember(request);
-				case '/remove-project-member':
-					return this.handleRemoveProjectMember(request);
-				case '/update-project-member':
-					return this.handleUpdateProjectMember(request);
-				case '/list-users':
-					return this.handleListUsers(request);
-				default:
-					return new Response(JSON.stringify({ error: 'not_found' }), {
-						status: 404,
-						headers: { 'Content-Type': 'application/json' },
-					});
-			}
-		} catch (error) {
-			console.error('AuthState error:', error);
-			return new Response(
-				JSON.stringify({
-					error: 'internal_error',
-					message: error instanceof Error ? error.message : 'Unknown error',
-				}),
-				{ status: 500, headers: { 'Content-Type': 'application/json' } },
-			);
+			this.sql.exec('ALTER TABLE projects ADD COLUMN allowed_domains TEXT');
+		} catch {
+			// Column already exists
 		}
+		// Migration: a project's original public key becomes its first client key
+		this.sql.exec(
+			`INSERT INTO client_keys (id, project_id, name, public_key, enabled, created_at)
+			 SELECT lower(hex(randomblob(16))), id, 'Default', public_key, 1, created_at FROM projects
+			 WHERE public_key NOT IN (SELECT public_key FROM client_keys)`,
+		);
+		this.initialized = true;
 	}
 
-	private async handleRegister(request: Request): Promise<Response> {
-		const { email, password, name } = (await request.json()) as {
-			email: string;
-			password: string;
-			name: string;
-		};
-
+	async register({ email, password, name }: { email: string; password: string; name: string }) {
 		if (!email || !password || !name) {
-			return this.jsonResponse(
-				{ error: 'missing_fields', message: 'Email, password, and name are required' },
-				400,
-			);
+			return fail(400, {
+				error: 'missing_fields',
+				message: 'Email, password, and name are required',
+			});
 		}
 
 		// Check if user already exists
 		const existing = this.sql.exec('SELECT id FROM users WHERE email = ?', email).toArray();
 		if (existing.length > 0) {
-			return this.jsonResponse(
-				{ error: 'user_exists', message: 'User with this email already exists' },
-				409,
-			);
+			return fail(409, { error: 'user_exists', message: 'User with this email already exists' });
 		}
 
 		// Check if this is the first user (becomes admin)
@@ -207,20 +198,12 @@ export class AuthState extends DurableObject<Env> {
 			updatedAt: now,
 		};
 
-		return this.jsonResponse({ user, token: session.id });
+		return ok({ user, token: session.id });
 	}
 
-	private async handleLogin(request: Request): Promise<Response> {
-		const { email, password } = (await request.json()) as {
-			email: string;
-			password: string;
-		};
-
+	async login({ email, password }: { email: string; password: string }) {
 		if (!email || !password) {
-			return this.jsonResponse(
-				{ error: 'missing_fields', message: 'Email and password are required' },
-				400,
-			);
+			return fail(400, { error: 'missing_fields', message: 'Email and password are required' });
 		}
 
 		// Find user
@@ -232,10 +215,7 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (userRows.length === 0) {
-			return this.jsonResponse(
-				{ error: 'invalid_credentials', message: 'Invalid email or password' },
-				401,
-			);
+			return fail(401, { error: 'invalid_credentials', message: 'Invalid email or password' });
 		}
 
 		const userRow = userRows[0];
@@ -243,10 +223,7 @@ export class AuthState extends DurableObject<Env> {
 		// Verify password
 		const valid = await this.verifyPassword(password, userRow.password_hash as string);
 		if (!valid) {
-			return this.jsonResponse(
-				{ error: 'invalid_credentials', message: 'Invalid email or password' },
-				401,
-			);
+			return fail(401, { error: 'invalid_credentials', message: 'Invalid email or password' });
 		}
 
 		// Create session
@@ -261,24 +238,20 @@ export class AuthState extends DurableObject<Env> {
 			updatedAt: userRow.updated_at as string,
 		};
 
-		return this.jsonResponse({ user, token: session.id });
+		return ok({ user, token: session.id });
 	}
 
-	private async handleLogout(request: Request): Promise<Response> {
-		const { token } = (await request.json()) as { token: string };
-
+	async logout({ token }: { token: string }) {
 		if (token) {
 			this.sql.exec('DELETE FROM sessions WHERE id = ?', token);
 		}
 
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
 	}
 
-	private async handleValidateSession(request: Request): Promise<Response> {
-		const { token } = (await request.json()) as { token: string };
-
+	async validateSession({ token }: { token: string }) {
 		if (!token) {
-			return this.jsonResponse({ error: 'missing_token' }, 400);
+			return fail(400, { error: 'missing_token' });
 		}
 
 		// Clean expired sessions periodically
@@ -298,7 +271,7 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'invalid_session' }, 401);
+			return fail(401, { error: 'invalid_session' });
 		}
 
 		const row = rows[0];
@@ -319,31 +292,24 @@ export class AuthState extends DurableObject<Env> {
 			createdAt: row.session_created as string,
 		};
 
-		return this.jsonResponse({ user, session });
+		return ok({ user, session });
 	}
 
-	private async handleGetMe(request: Request): Promise<Response> {
-		const { token } = (await request.json()) as { token: string };
-		return this.handleValidateSession(
-			new Request(request.url, {
-				method: 'POST',
-				body: JSON.stringify({ token }),
-			}),
-		);
+	async getMe({ token }: { token: string }) {
+		return this.validateSession({ token });
 	}
 
-	private async handleCreateProject(request: Request): Promise<Response> {
-		const { name, platform, userId } = (await request.json()) as {
-			name: string;
-			platform?: string;
-			userId: string;
-		};
-
+	async createProject({
+		name,
+		platform,
+		userId,
+	}: {
+		name: string;
+		platform?: string;
+		userId: string;
+	}) {
 		if (!name || !userId) {
-			return this.jsonResponse(
-				{ error: 'missing_fields', message: 'Name and userId are required' },
-				400,
-			);
+			return fail(400, { error: 'missing_fields', message: 'Name and userId are required' });
 		}
 
 		// Generate unique slug
@@ -372,6 +338,15 @@ export class AuthState extends DurableObject<Env> {
 			userId,
 		);
 
+		this.sql.exec(
+			'INSERT INTO client_keys (id, project_id, name, public_key, enabled, created_at) VALUES (?, ?, ?, ?, 1, ?)',
+			crypto.randomUUID(),
+			projectId,
+			'Default',
+			publicKey,
+			now,
+		);
+
 		// Add creator as owner
 		this.sql.exec(
 			'INSERT INTO project_members (project_id, user_id, role, created_at) VALUES (?, ?, ?, ?)',
@@ -387,23 +362,22 @@ export class AuthState extends DurableObject<Env> {
 			slug,
 			platform: platform || 'javascript',
 			publicKey,
+			allowedDomains: DEFAULT_ALLOWED_DOMAINS,
 			createdAt: now,
 			createdBy: userId,
 		};
 
-		return this.jsonResponse({ project });
+		return ok({ project });
 	}
 
-	private async handleListProjects(request: Request): Promise<Response> {
-		const { userId } = (await request.json()) as { userId: string };
-
+	async listProjects({ userId }: { userId: string }) {
 		if (!userId) {
-			return this.jsonResponse({ error: 'missing_user_id' }, 400);
+			return fail(400, { error: 'missing_user_id' });
 		}
 
 		const rows = this.sql
 			.exec(
-				`SELECT p.id, p.name, p.slug, p.platform, p.public_key, p.webhook_url, p.created_at, p.created_by, pm.role as member_role
+				`SELECT p.id, p.name, p.slug, p.platform, p.public_key, p.webhook_url, p.allowed_domains, p.created_at, p.created_by, pm.role as member_role
        FROM projects p
        JOIN project_members pm ON p.id = pm.project_id
        WHERE pm.user_id = ?
@@ -419,26 +393,25 @@ export class AuthState extends DurableObject<Env> {
 			platform: row.platform as string,
 			publicKey: row.public_key as string,
 			webhookUrl: (row.webhook_url as string) || null,
+			allowedDomains: parseAllowedDomains(row.allowed_domains),
 			createdAt: row.created_at as string,
 			createdBy: row.created_by as string,
 			memberRole: row.member_role as string,
 		}));
 
-		return this.jsonResponse({ projects });
+		return ok({ projects });
 	}
 
-	private async handleGetProject(request: Request): Promise<Response> {
-		const { slug, userId } = (await request.json()) as { slug: string; userId: string };
-
+	async getProject({ slug, userId }: { slug: string; userId: string }) {
 		if (!slug) {
-			return this.jsonResponse({ error: 'missing_slug' }, 400);
+			return fail(400, { error: 'missing_slug' });
 		}
 
 		let rows;
 		if (userId) {
 			rows = this.sql
 				.exec(
-					`SELECT p.id, p.name, p.slug, p.platform, p.public_key, p.webhook_url, p.created_at, p.created_by
+					`SELECT p.id, p.name, p.slug, p.platform, p.public_key, p.webhook_url, p.allowed_domains, p.created_at, p.created_by
        FROM projects p
        JOIN project_members pm ON p.id = pm.project_id AND pm.user_id = ?
        WHERE p.slug = ?`,
@@ -449,7 +422,7 @@ export class AuthState extends DurableObject<Env> {
 		} else {
 			rows = this.sql
 				.exec(
-					`SELECT p.id, p.name, p.slug, p.platform, p.public_key, p.webhook_url, p.created_at, p.created_by
+					`SELECT p.id, p.name, p.slug, p.platform, p.public_key, p.webhook_url, p.allowed_domains, p.created_at, p.created_by
        FROM projects p
        WHERE p.slug = ?`,
 					slug,
@@ -458,7 +431,7 @@ export class AuthState extends DurableObject<Env> {
 		}
 
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'project_not_found' }, 404);
+			return fail(404, { error: 'project_not_found' });
 		}
 
 		const row = rows[0];
@@ -470,29 +443,38 @@ export class AuthState extends DurableObject<Env> {
 			platform: row.platform as string,
 			publicKey: row.public_key as string,
 			webhookUrl: (row.webhook_url as string) || null,
+			allowedDomains: parseAllowedDomains(row.allowed_domains),
 			createdAt: row.created_at as string,
 			createdBy: row.created_by as string,
 		};
 
-		return this.jsonResponse({ project });
+		return ok({ project });
 	}
 
-	private async handleGetProjectByKey(request: Request): Promise<Response> {
-		const { publicKey } = (await request.json()) as { publicKey: string };
-
+	/**
+	 * Resolve an enabled client key to its project. `project.publicKey` stays the
+	 * project's primary key; the key that matched is returned as `clientKey`. Pass
+	 * `touch: false` for re-checks that should not count as the key being used.
+	 */
+	async getProjectByKey({ publicKey, touch = true }: { publicKey: string; touch?: boolean }) {
 		if (!publicKey) {
-			return this.jsonResponse({ error: 'missing_key' }, 400);
+			return fail(400, { error: 'missing_key' });
 		}
 
 		const rows = this.sql
 			.exec(
-				'SELECT id, name, slug, platform, public_key, webhook_url, created_at, created_by FROM projects WHERE public_key = ?',
+				`SELECT p.id, p.name, p.slug, p.platform, p.public_key, p.webhook_url, p.allowed_domains, p.created_at, p.created_by,
+				   k.id AS key_id, k.name AS key_name, k.public_key AS key_public_key, k.enabled AS key_enabled,
+				   k.rate_limit AS key_rate_limit, k.last_used_at AS key_last_used_at, k.created_at AS key_created_at
+				 FROM client_keys k
+				 JOIN projects p ON k.project_id = p.id
+				 WHERE k.public_key = ? AND k.enabled = 1`,
 				publicKey,
 			)
 			.toArray();
 
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'project_not_found' }, 404);
+			return fail(404, { error: 'project_not_found' });
 		}
 
 		const row = rows[0];
@@ -504,18 +486,42 @@ export class AuthState extends DurableObject<Env> {
 			platform: row.platform as string,
 			publicKey: row.public_key as string,
 			webhookUrl: (row.webhook_url as string) || null,
+			allowedDomains: parseAllowedDomains(row.allowed_domains),
 			createdAt: row.created_at as string,
 			createdBy: row.created_by as string,
 		};
 
-		return this.jsonResponse({ project });
-	}
+		const clientKey = this.rowToClientKey({
+			id: row.key_id,
+			project_id: row.id,
+			name: row.key_name,
+			public_key: row.key_public_key,
+			enabled: row.key_enabled,
+			rate_limit: row.key_rate_limit,
+			last_used_at: row.key_last_used_at,
+			created_at: row.key_created_at,
+		});
 
-	private async handleDeleteProject(request: Request): Promise<Response> {
-		const { projectId, userId } = (await request.json()) as { projectId: string; userId: string };
+		const now = new Date();
+		if (
+			touch &&
+			(!clientKey.lastUsedAt ||
+				now.getTime() - new Date(clientKey.lastUsedAt).getTime() >= KEY_USAGE_INTERVAL_MS)
+		) {
+			clientKey.lastUsedAt = now.toISOString();
+			this.sql.exec(
+				'UPDATE client_keys SET last_used_at = ? WHERE id = ?',
+				clientKey.lastUsedAt,
+				clientKey.id,
+			);
+		}
 
+		return ok({ project, clientKey });
+	}
+
+	async deleteProject({ projectId, userId }: { projectId: string; userId: string }) {
 		if (!projectId || !userId) {
-			return this.jsonResponse({ error: 'missing_fields' }, 400);
+			return fail(400, { error: 'missing_fields' });
 		}
 
 		// Check if user is owner
@@ -528,27 +534,28 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (memberRows.length === 0 || memberRows[0].role !== 'owner') {
-			return this.jsonResponse(
-				{ error: 'forbidden', message: 'Only project owner can delete' },
-				403,
-			);
+			return fail(403, { error: 'forbidden', message: 'Only project owner can delete' });
 		}
 
 		// Delete project (cascade deletes members)
 		this.sql.exec('DELETE FROM projects WHERE id = ?', projectId);
 
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
 	}
 
-	private async handleUpdateProject(request: Request): Promise<Response> {
-		const { projectId, userId, webhookUrl } = (await request.json()) as {
-			projectId: string;
-			userId: string;
-			webhookUrl?: string | null;
-		};
-
+	async updateProject({
+		projectId,
+		userId,
+		webhookUrl,
+		allowedDomains,
+	}: {
+		projectId: string;
+		userId: string;
+		webhookUrl?: string | null;
+		allowedDomains?: string[];
+	}) {
 		if (!projectId || !userId) {
-			return this.jsonResponse({ error: 'missing_fields' }, 400);
+			return fail(400, { error: 'missing_fields' });
 		}
 
 		// Check user has access
@@ -561,16 +568,13 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (memberRows.length === 0) {
-			return this.jsonResponse({ error: 'forbidden', message: 'No access to this project' }, 403);
+			return fail(403, { error: 'forbidden', message: 'No access to this project' });
 		}
 
 		// Only owner/admin can update settings
 		const role = memberRows[0].role as string;
 		if (role !== 'owner' && role !== 'admin') {
-			return this.jsonResponse(
-				{ error: 'forbidden', message: 'Only owner or admin can update settings' },
-				403,
-			);
+			return fail(403, { error: 'forbidden', message: 'Only owner or admin can update settings' });
 		}
 
 		// Validate webhook URL
@@ -578,13 +582,10 @@ export class AuthState extends DurableObject<Env> {
 			try {
 				const parsed = new URL(webhookUrl);
 				if (parsed.protocol !== 'https:') {
-					return this.jsonResponse(
-						{ error: 'invalid_url', message: 'Webhook URL must use HTTPS' },
-						400,
-					);
+					return fail(400, { error: 'invalid_url', message: 'Webhook URL must use HTTPS' });
 				}
 			} catch {
-				return this.jsonResponse({ error: 'invalid_url', message: 'Invalid webhook URL' }, 400);
+				return fail(400, { error: 'invalid_url', message: 'Invalid webhook URL' });
 			}
 		}
 
@@ -596,21 +597,41 @@ export class AuthState extends DurableObject<Env> {
 			params.push(webhookUrl || null);
 		}
 
+		if (allowedDomains !== undefined) {
+			if (!Array.isArray(allowedDomains) || allowedDomains.length > MAX_ALLOWED_DOMAINS) {
+				return fail(400, {
+					error: 'invalid_domains',
+					message: `allowedDomains must be a list of at most ${MAX_ALLOWED_DOMAINS} entries`,
+				});
+			}
+			const normalized: string[] = [];
+			for (const entry of allowedDomains) {
+				const domain = typeof entry === 'string' ? normalizeAllowedDomain(entry) : null;
+				if (!domain) {
+					return fail(400, {
+						error: 'invalid_domains',
+						message: `Invalid allowed domain: ${entry}`,
+					});
+				}
+				normalized.push(domain);
+			}
+			updates.push('allowed_domains = ?');
+			params.push(JSON.stringify([...new Set(normalized)]));
+		}
+
 		if (updates.length === 0) {
-			return this.jsonResponse({ error: 'no_updates' }, 400);
+			return fail(400, { error: 'no_updates' });
 		}
 
 		params.push(projectId);
 		this.sql.exec(`UPDATE projects SET ${updates.join(', ')} WHERE id = ?`, ...params);
 
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
 	}
 
-	private async handleCheckAccess(request: Request): Promise<Response> {
-		const { projectId, userId } = (await request.json()) as { projectId: string; userId: string };
-
+	async checkAccess({ projectId, userId }: { projectId: string; userId: string }) {
 		if (!projectId || !userId) {
-			return this.jsonResponse({ error: 'missing_fields' }, 400);
+			return fail(400, { error: 'missing_fields' });
 		}
 
 		const memberRows = this.sql
@@ -622,40 +643,36 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		const member = memberRows.length > 0 ? memberRows[0] : null;
-		return this.jsonResponse({
+		return ok({
 			hasAccess: !!member,
-			role: member?.role || null,
+			role: (member?.role as ProjectMember['role']) || null,
 		});
 	}
 
-	private async handleCreateApiToken(request: Request): Promise<Response> {
-		const { userId, name, expiresAt } = (await request.json()) as {
-			userId: string;
-			name: string;
-			expiresAt?: string;
-		};
-
+	async createApiToken({
+		userId,
+		name,
+		expiresAt,
+	}: {
+		userId: string;
+		name: string;
+		expiresAt?: string;
+	}) {
 		if (!userId || !name) {
-			return this.jsonResponse(
-				{ error: 'missing_fields', message: 'userId and name are required' },
-				400,
-			);
+			return fail(400, { error: 'missing_fields', message: 'userId and name are required' });
 		}
 
 		// Validate expiresAt if provided
 		if (expiresAt !== undefined && expiresAt !== null) {
 			const expiry = new Date(expiresAt);
 			if (isNaN(expiry.getTime())) {
-				return this.jsonResponse(
-					{ error: 'invalid_date', message: 'expiresAt must be a valid ISO date string' },
-					400,
-				);
+				return fail(400, {
+					error: 'invalid_date',
+					message: 'expiresAt must be a valid ISO date string',
+				});
 			}
 			if (expiry <= new Date()) {
-				return this.jsonResponse(
-					{ error: 'invalid_date', message: 'expiresAt must be a future date' },
-					400,
-				);
+				return fail(400, { error: 'invalid_date', message: 'expiresAt must be a future date' });
 			}
 		}
 
@@ -664,10 +681,7 @@ export class AuthState extends DurableObject<Env> {
 			.exec('SELECT COUNT(*) as count FROM api_tokens WHERE user_id = ?', userId)
 			.one();
 		if ((countResult?.count as number) >= 10) {
-			return this.jsonResponse(
-				{ error: 'limit_exceeded', message: 'Maximum of 10 API tokens per user' },
-				400,
-			);
+			return fail(400, { error: 'limit_exceeded', message: 'Maximum of 10 API tokens per user' });
 		}
 
 		// Generate raw token: wst_ + 64 hex chars
@@ -701,14 +715,12 @@ export class AuthState extends DurableObject<Env> {
 			createdAt: now,
 		};
 
-		return this.jsonResponse({ token, rawToken });
+		return ok({ token, rawToken });
 	}
 
-	private async handleListApiTokens(request: Request): Promise<Response> {
-		const { userId } = (await request.json()) as { userId: string };
-
+	async listApiTokens({ userId }: { userId: string }) {
 		if (!userId) {
-			return this.jsonResponse({ error: 'missing_user_id' }, 400);
+			return fail(400, { error: 'missing_user_id' });
 		}
 
 		const rows = this.sql
@@ -728,17 +740,12 @@ export class AuthState extends DurableObject<Env> {
 			createdAt: row.created_at as string,
 		}));
 
-		return this.jsonResponse({ tokens });
+		return ok({ tokens });
 	}
 
-	private async handleRevokeApiToken(request: Request): Promise<Response> {
-		const { tokenId, userId } = (await request.json()) as {
-			tokenId: string;
-			userId: string;
-		};
-
+	async revokeApiToken({ tokenId, userId }: { tokenId: string; userId: string }) {
 		if (!tokenId || !userId) {
-			return this.jsonResponse({ error: 'missing_fields' }, 400);
+			return fail(400, { error: 'missing_fields' });
 		}
 
 		// Verify the token belongs to the user
@@ -747,22 +754,20 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (rows.length === 0) {
-			return this.jsonResponse(
-				{ error: 'not_found', message: 'Token not found or does not belong to user' },
-				404,
-			);
+			return fail(404, {
+				error: 'not_found',
+				message: 'Token not found or does not belong to user',
+			});
 		}
 
 		this.sql.exec('DELETE FROM api_tokens WHERE id = ?', tokenId);
 
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
 	}
 
-	private async handleValidateApiToken(request: Request): Promise<Response> {
-		const { token } = (await request.json()) as { token: string };
-
+	async validateApiToken({ token }: { token: string }) {
 		if (!token || !token.startsWith('wst_')) {
-			return this.jsonResponse({ error: 'invalid_token' }, 401);
+			return fail(401, { error: 'invalid_token' });
 		}
 
 		// Hash the token and look it up
@@ -780,7 +785,7 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'invalid_token' }, 401);
+			return fail(401, { error: 'invalid_token' });
 		}
 
 		const row = rows[0];
@@ -788,7 +793,7 @@ export class AuthState extends DurableObject<Env> {
 		// Check expiration
 		const expiresAt = row.expires_at as string | null;
 		if (expiresAt && new Date(expiresAt) < new Date()) {
-			return this.jsonResponse({ error: 'token_expired' }, 401);
+			return fail(401, { error: 'token_expired' });
 		}
 
 		// Update last_used_at
@@ -815,14 +820,12 @@ export class AuthState extends DurableObject<Env> {
 			createdAt: row.created_at as string,
 		};
 
-		return this.jsonResponse({ user, session });
+		return ok({ user, session });
 	}
 
-	private async handleListProjectMembers(request: Request): Promise<Response> {
-		const { projectId } = (await request.json()) as { projectId: string };
-
+	async listProjectMembers({ projectId }: { projectId: string }) {
 		if (!projectId) {
-			return this.jsonResponse({ error: 'missing_fields' }, 400);
+			return fail(400, { error: 'missing_fields' });
 		}
 
 		const rows = this.sql
@@ -844,28 +847,27 @@ export class AuthState extends DurableObject<Env> {
 			createdAt: row.created_at as string,
 		}));
 
-		return this.jsonResponse({ members });
+		return ok({ members });
 	}
 
-	private async handleAddProjectMember(request: Request): Promise<Response> {
-		const { projectId, email, role } = (await request.json()) as {
-			projectId: string;
-			email: string;
-			role: string;
-		};
-
+	async addProjectMember({
+		projectId,
+		email,
+		role,
+	}: {
+		projectId: string;
+		email: string;
+		role: string;
+	}) {
 		if (!projectId || !email || !role) {
-			return this.jsonResponse(
-				{ error: 'missing_fields', message: 'projectId, email, and role are required' },
-				400,
-			);
+			return fail(400, {
+				error: 'missing_fields',
+				message: 'projectId, email, and role are required',
+			});
 		}
 
 		if (role !== 'admin' && role !== 'member') {
-			return this.jsonResponse(
-				{ error: 'invalid_role', message: 'Role must be admin or member' },
-				400,
-			);
+			return fail(400, { error: 'invalid_role', message: 'Role must be admin or member' });
 		}
 
 		// Look up user by email
@@ -874,10 +876,7 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (userRows.length === 0) {
-			return this.jsonResponse(
-				{ error: 'user_not_found', message: 'No user found with that email' },
-				404,
-			);
+			return fail(404, { error: 'user_not_found', message: 'No user found with that email' });
 		}
 
 		const user = userRows[0];
@@ -889,10 +888,10 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (existing.length > 0) {
-			return this.jsonResponse(
-				{ error: 'already_member', message: 'User is already a member of this project' },
-				409,
-			);
+			return fail(409, {
+				error: 'already_member',
+				message: 'User is already a member of this project',
+			});
 		}
 
 		const now = new Date().toISOString();
@@ -912,17 +911,12 @@ export class AuthState extends DurableObject<Env> {
 			createdAt: now,
 		};
 
-		return this.jsonResponse({ member });
+		return ok({ member });
 	}
 
-	private async handleRemoveProjectMember(request: Request): Promise<Response> {
-		const { projectId, userId } = (await request.json()) as {
-			projectId: string;
-			userId: string;
-		};
-
+	async removeProjectMember({ projectId, userId }: { projectId: string; userId: string }) {
 		if (!projectId || !userId) {
-			return this.jsonResponse({ error: 'missing_fields' }, 400);
+			return fail(400, { error: 'missing_fields' });
 		}
 
 		// Check that the user being removed is NOT the owner
@@ -935,17 +929,14 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (memberRows.length === 0) {
-			return this.jsonResponse(
-				{ error: 'not_found', message: 'User is not a member of this project' },
-				404,
-			);
+			return fail(404, { error: 'not_found', message: 'User is not a member of this project' });
 		}
 
 		if (memberRows[0].role === 'owner') {
-			return this.jsonResponse(
-				{ error: 'cannot_remove_owner', message: 'Cannot remove the project owner' },
-				400,
-			);
+			return fail(400, {
+				error: 'cannot_remove_owner',
+				message: 'Cannot remove the project owner',
+			});
 		}
 
 		this.sql.exec(
@@ -954,25 +945,24 @@ export class AuthState extends DurableObject<Env> {
 			userId,
 		);
 
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
 	}
 
-	private async handleUpdateProjectMember(request: Request): Promise<Response> {
-		const { projectId, userId, role } = (await request.json()) as {
-			projectId: string;
-			userId: string;
-			role: string;
-		};
-
+	async updateProjectMember({
+		projectId,
+		userId,
+		role,
+	}: {
+		projectId: string;
+		userId: string;
+		role: string;
+	}) {
 		if (!projectId || !userId || !role) {
-			return this.jsonResponse({ error: 'missing_fields' }, 400);
+			return fail(400, { error: 'missing_fields' });
 		}
 
 		if (role !== 'admin' && role !== 'member') {
-			return this.jsonResponse(
-				{ error: 'invalid_role', message: 'Role must be admin or member' },
-				400,
-			);
+			return fail(400, { error: 'invalid_role', message: 'Role must be admin or member' });
 		}
 
 		// Check that target user is not the owner
@@ -985,17 +975,11 @@ export class AuthState extends DurableObject<Env> {
 			.toArray();
 
 		if (memberRows.length === 0) {
-			return this.jsonResponse(
-				{ error: 'not_found', message: 'User is not a member of this project' },
-				404,
-			);
+			return fail(404, { error: 'not_found', message: 'User is not a member of this project' });
 		}
 
 		if (memberRows[0].role === 'owner') {
-			return this.jsonResponse(
-				{ error: 'cannot_modify_owner', message: 'Cannot change the owner role' },
-				400,
-			);
+			return fail(400, { error: 'cannot_modify_owner', message: 'Cannot change the owner role' });
 		}
 
 		this.sql.exec(
@@ -1026,16 +1010,12 @@ export class AuthState extends DurableObject<Env> {
 			createdAt: row.created_at as string,
 		};
 
-		return this.jsonResponse({ member });
+		return ok({ member });
 	}
 
-	private async handleListUsers(request: Request): Promise<Response> {
-		const { requestingUserRole } = (await request.json()) as {
-			requestingUserRole: string;
-		};
-
+	async listUsers({ requestingUserRole }: { requestingUserRole: string }) {
 		if (requestingUserRole !== 'admin') {
-			return this.jsonResponse({ error: 'forbidden', message: 'Only admins can list users' }, 403);
+			return fail(403, { error: 'forbidden', message: 'Only admins can list users' });
 		}
 
 		const rows = this.sql
@@ -1050,7 +1030,356 @@ export class AuthState extends DurableObject<Env> {
 			createdAt: row.created_at as string,
 		}));
 
-		return this.jsonResponse({ users });
+		return ok({ users });
+	}
+
+	async listTailScripts({ projectId }: { projectId: string }) {
+		if (!projectId) {
+			return fail(400, { error: 'missing_fields' });
+		}
+
+		const rows = this.sql
+			.exec(
+				'SELECT script_name, project_id, created_at FROM tail_scripts WHERE project_id = ? ORDER BY script_name ASC',
+				projectId,
+			)
+			.toArray();
+
+		const scripts: TailScript[] = rows.map((row) => ({
+			scriptName: row.script_name as string,
+			projectId: row.project_id as string,
+			createdAt: row.created_at as string,
+		}));
+
+		return ok({ scripts });
+	}
+
+	async addTailScript({ projectId, scriptName }: { projectId: string; scriptName: string }) {
+		if (!projectId || !scriptName) {
+			return fail(400, {
+				error: 'missing_fields',
+				message: 'projectId and scriptName are required',
+			});
+		}
+
+		const name = typeof scriptName === 'string' ? scriptName.trim().toLowerCase() : '';
+		if (!SCRIPT_NAME_PATTERN.test(name)) {
+			return fail(400, { error: 'invalid_script_name', message: 'Invalid Worker script name' });
+		}
+
+		// A script reports to a single project
+		const existing = this.sql
+			.exec('SELECT project_id FROM tail_scripts WHERE script_name = ?', name)
+			.toArray();
+
+		if (existing.length > 0) {
+			return fail(409, {
+				error: 'script_already_mapped',
+				message:
+					existing[0].project_id === projectId
+						? 'Script is already mapped to this project'
+						: 'Script is already mapped to another project',
+			});
+		}
+
+		const script: TailScript = {
+			scriptName: name,
+			projectId,
+			createdAt: new Date().toISOString(),
+		};
+		this.sql.exec(
+			'INSERT INTO tail_scripts (script_name, project_id, created_at) VALUES (?, ?, ?)',
+			script.scriptName,
+			script.projectId,
+			script.createdAt,
+		);
+
+		return ok({ script }, 201);
+	}
+
+	async removeTailScript({ projectId, scriptName }: { projectId: string; scriptName: string }) {
+		if (!projectId || !scriptName) {
+			return fail(400, { error: 'missing_fields' });
+		}
+
+		const result = this.sql.exec(
+			'DELETE FROM tail_scripts WHERE project_id = ? AND script_name = ?',
+			projectId,
+			scriptName,
+		);
+
+		if (result.rowsWritten === 0) {
+			return fail(404, { error: 'not_found', message: 'Script is not mapped to this project' });
+		}
+
+		return ok({ success: true });
+	}
+
+	/**
+	 * Resolve Worker script names to the projects their trace events belong to.
+	 * Scripts without a mapping are left out.
+	 */
+	async resolveTailScripts({ scriptNames }: { scriptNames: string[] }) {
+		if (!Array.isArray(scriptNames)) {
+			return fail(400, { error: 'missing_fields' });
+		}
+
+		const projects: Record<string, Project> = {};
+		for (const scriptName of new Set(scriptNames)) {
+			const rows = this.sql
+				.exec(
+					`SELECT p.id, p.name, p.slug, p.platform, p.public_key, p.webhook_url, p.allowed_domains, p.created_at, p.created_by
+					FROM tail_scripts ts
+					JOIN projects p ON ts.project_id = p.id
+					WHERE ts.script_name = ?`,
+					scriptName,
+				)
+				.toArray();
+
+			if (rows.length === 0) continue;
+			const row = rows[0];
+			projects[scriptName] = {
+				id: row.id as string,
+				name: row.name as string,
+				slug: row.slug as string,
+				platform: row.platform as string,
+				publicKey: row.public_key as string,
+				webhookUrl: (row.webhook_url as string) || null,
+				allowedDomains: parseAllowedDomains(row.allowed_domains),
+				createdAt: row.created_at as string,
+				createdBy: row.created_by as string,
+			};
+		}
+
+		return ok({ projects });
+	}
+
+	async listClientKeys({ projectId }: { projectId: string }) {
+		if (!projectId) {
+			return fail(400, { error: 'missing_fields' });
+		}
+
+		const rows = this.sql
+			.exec(
+				'SELECT * FROM client_keys WHERE project_id = ? ORDER BY created_at ASC, rowid ASC',
+				projectId,
+			)
+			.toArray();
+
+		return ok({ keys: rows.map((row) => this.rowToClientKey(row)) });
+	}
+
+	async createClientKey({
+		projectId,
+		name,
+		rateLimit,
+	}: {
+		projectId: string;
+		name: string;
+		rateLimit?: number | null;
+	}) {
+		if (!projectId) {
+			return fail(400, { error: 'missing_fields' });
+		}
+
+		const keyName = typeof name === 'string' ? name.trim() : '';
+		if (!keyName || keyName.length > 100) {
+			return fail(400, { error: 'invalid_name', message: 'Name must be 1-100 characters' });
+		}
+
+		if (!isValidKeyRateLimit(rateLimit)) {
+			return fail(400, {
+				error: 'invalid_rate_limit',
+				message: 'Rate limit must be a positive whole number of events per hour',
+			});
+		}
+
+		const countRow = this.sql
+			.exec('SELECT COUNT(*) as cnt FROM client_keys WHERE project_id = ?', projectId)
+			.one();
+		if ((countRow.cnt as number) >= MAX_CLIENT_KEYS) {
+			return fail(400, {
+				error: 'limit_reached',
+				message: `Maximum of ${MAX_CLIENT_KEYS} client keys per project`,
+			});
+		}
+
+		const key: ClientKey = {
+			id: crypto.randomUUID(),
+			projectId,
+			name: keyName,
+			publicKey: this.generateKey(32),
+			enabled: true,
+			rateLimit: rateLimit ?? null,
+			lastUsedAt: null,
+			createdAt: new Date().toISOString(),
+		};
+		this.sql.exec(
+			'INSERT INTO client_keys (id, project_id, name, public_key, enabled, rate_limit, created_at) VALUES (?, ?, ?, ?, 1, ?, ?)',
+			key.id,
+			key.projectId,
+			key.name,
+			key.publicKey,
+			key.rateLimit,
+			key.createdAt,
+		);
+
+		return ok({ key }, 201);
+	}
+
+	async updateClientKey({
+		projectId,
+		keyId,
+		name,
+		enabled,
+		rateLimit,
+	}: {
+		projectId: string;
+		keyId: string;
+		name?: string;
+		enabled?: boolean;
+		rateLimit?: number | null;
+	}) {
+		if (!projectId || !keyId) {
+			return fail(400, { error: 'missing_fields' });
+		}
+
+		const existing = this.getClientKeyRow(projectId, keyId);
+		if (!existing) {
+			return fail(404, { error: 'key_not_found' });
+		}
+
+		const updates: string[] = [];
+		const params: (string | number | null)[] = [];
+
+		if (name !== undefined) {
+			const keyName = typeof name === 'string' ? name.trim() : '';
+			if (!keyName || keyName.length > 100) {
+				return fail(400, { error: 'invalid_name', message: 'Name must be 1-100 characters' });
+			}
+			updates.push('name = ?');
+			params.push(keyName);
+		}
+
+		if (rateLimit !== undefined) {
+			if (!isValidKeyRateLimit(rateLimit)) {
+				return fail(400, {
+					error: 'invalid_rate_limit',
+					message: 'Rate limit must be a positive whole number of events per hour',
+				});
+			}
+			updates.push('rate_limit = ?');
+			params.push(rateLimit);
+		}
+
+		if (enabled !== undefined) {
+			if (!enabled && existing.enabled === 1 && this.countEnabledKeys(projectId) <= 1) {
+				return fail(400, {
+					error: 'last_active_key',
+					message: 'A project needs at least one enabled client key',
+				});
+			}
+			updates.push('enabled = ?');
+			params.push(enabled ? 1 : 0);
+		}
+
+		if (updates.length === 0) {
+			return fail(400, { error: 'no_updates' });
+		}
+
+		params.push(keyId);
+		this.sql.exec(`UPDATE client_keys SET ${updates.join(', ')} WHERE id = ?`, ...params);
+
+		if (enabled === false) {
+			this.ensurePrimaryKey(projectId);
+		}
+
+		const row = this.getClientKeyRow(projectId, keyId);
+		return ok({ key: row ? this.rowToClientKey(row) : null });
+	}
+
+	/**
+	 * Permanently revoke a client key. SDKs still using it are rejected from then on.
+	 */
+	async revokeClientKey({ projectId, keyId }: { projectId: string; keyId: string }) {
+		if (!projectId || !keyId) {
+			return fail(400, { error: 'missing_fields' });
+		}
+
+		const existing = this.getClientKeyRow(projectId, keyId);
+		if (!existing) {
+			return fail(404, { error: 'key_not_found' });
+		}
+
+		if (existing.enabled === 1 && this.countEnabledKeys(projectId) <= 1) {
+			return fail(400, {
+				error: 'last_active_key',
+				message: 'A project needs at least one enabled client key',
+			});
+		}
+
+		this.sql.exec('DELETE FROM client_keys WHERE id = ?', keyId);
+		this.ensurePrimaryKey(projectId);
+
+		return ok({ success: true });
+	}
+
+	private getClientKeyRow(
+		projectId: string,
+		keyId: string,
+	): Record<string, SqlStorageValue> | null {
+		const rows = this.sql
+			.exec('SELECT * FROM client_keys WHERE id = ? AND project_id = ?', keyId, projectId)
+			.toArray();
+		return rows[0] ?? null;
+	}
+
+	private countEnabledKeys(projectId: string): number {
+		const row = this.sql
+			.exec(
+				'SELECT COUNT(*) as cnt FROM client_keys WHERE project_id = ? AND enabled = 1',
+				projectId,
+			)
+			.one();
+		return row.cnt as number;
+	}
+
+	/**
+	 * Keep the project's primary key (the DSN shown for the project) pointing at an
+	 * enabled key, promoting the oldest one when the primary is disabled or revoked.
+	 */
+	private ensurePrimaryKey(projectId: string): void {
+		const primary = this.sql
+			.exec(
+				`SELECT k.id FROM projects p
+				 JOIN client_keys k ON k.public_key = p.public_key AND k.enabled = 1
+				 WHERE p.id = ?`,
+				projectId,
+			)
+			.toArray();
+		if (primary.length > 0) return;
+
+		this.sql.exec(
+			`UPDATE projects SET public_key = (
+			   SELECT public_key FROM client_keys WHERE project_id = ? AND enabled = 1
+			   ORDER BY created_at ASC, rowid ASC LIMIT 1
+			 ) WHERE id = ?`,
+			projectId,
+			projectId,
+		);
+	}
+
+	private rowToClientKey(row: Record<string, SqlStorageValue>): ClientKey {
+		return {
+			id: row.id as string,
+			projectId: row.project_id as string,
+			name: row.name as string,
+			publicKey: row.public_key as string,
+			enabled: (row.enabled as number) === 1,
+			rateLimit: (row.rate_limit as number | null) ?? null,
+			lastUsedAt: (row.last_used_at as string) || null,
+			createdAt: row.created_at as string,
+		};
 	}
 
 	private async createSession(userId: string): Promise<Session> {
@@ -1107,11 +1436,4 @@ export class AuthState extends DurableObject<Env> {
 			.replace(/^-|-$/g, '')
 			.slice(0, 50);
 	}
-
-	private jsonResponse(data: unknown, status = 200): Response {
-		return new Response(JSON.stringify(data), {
-			status,
-			headers: { 'Content-Type': 'application/json' },
-		});
-	}
 }
@@ -1,13 +1,152 @@
 import { DurableObject } from 'cloudflare:workers';
+import { getNextCheckIn, isValidSchedule } from '../lib/cron';
 import {
 	extractCulprit,
 	extractMetadata,
 	extractTitle,
 	generateFingerprint,
+	getMainException,
 } from '../lib/fingerprint';
-import type { Env, FilterType, InboundFilter, Issue, ProjectSettings, SentryEvent } from '../types';
-
-const MS_PER_DAY = 24 * 60 * 60 * 1000;
+import { parseFingerprintRules } from '../lib/fingerprint-rules';
+import { DEFAULT_NORMALIZATION_LIMITS, normalizeEvent } from '../lib/normalize';
+import { fail, ok } from '../lib/rpc-result';
+import { DEFAULT_SCRUBBING_RULES, scrubData, scrubEvent } from '../lib/scrubbing';
+import { applyStacktraceRulesToEvent, parseStacktraceRules } from '../lib/stacktrace-rules';
+import {
+	buildSpanTree,
+	getTransactionName,
+	getTransactionStatus,
+	toMillis,
+} from '../lib/transactions';
+import type {
+	CategoryQuota,
+	Env,
+	EnvelopeAttachment,
+	EventAttachment,
+	FeedbackStatus,
+	FeedbackSubmission,
+	FilterType,
+	FingerprintRule,
+	InboundFilter,
+	IngestResult,
+	Issue,
+	LogEntry,
+	LogLevel,
+	Monitor,
+	MonitorCheckIn,
+	MonitorSchedule,
+	MonitorStatus,
+	NormalizationLimits,
+	Outcome,
+	OutcomeRecord,
+	ProjectSettings,
+	QuotaCategory,
+	RateLimit,
+	ReleaseHealth,
+	ReleaseHealthStats,
+	Replay,
+	ReplaySegment,
+	SamplingConditionType,
+	SamplingRule,
+	ScrubbingRules,
+	SentryCheckIn,
+	SentryEvent,
+	SentryLog,
+	SentryReplayEvent,
+	SentryTransaction,
+	SessionAggregates,
+	SessionUpdate,
+	Spike,
+	SpikeProtectionConfig,
+	StacktraceRule,
+	TransactionEvent,
+	TransactionIngestResult,
+	TransactionSummary,
+	UserFeedback,
+} from '../types';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+// SQLite rows in Durable Objects are capped at 2 MB; keep attachments well below that
+const MAX_ATTACHMENT_SIZE = 1_048_576;
+
+// Lookback windows accepted by the performance summary
+const PERFORMANCE_PERIODS: Record<string, number> = {
+	'1h': 60 * 60 * 1000,
+	'24h': MS_PER_DAY,
+	'7d': 7 * MS_PER_DAY,
+	'14d': 14 * MS_PER_DAY,
+	'30d': 30 * MS_PER_DAY,
+};
+
+// Whitelisted ORDER BY clauses for the performance summary
+const PERFORMANCE_SORTS: Record<string, string> = {
+	p50: 'p50 DESC',
+	p75: 'p75 DESC',
+	p95: 'p95 DESC',
+	p99: 'p99 DESC',
+	avg: 'avg_duration DESC',
+	count: 'count DESC',
+	failures: 'failure_count DESC',
+};
+
+const OUTCOMES: Outcome[] = ['accepted', 'filtered', 'rate_limited', 'invalid', 'client_discard'];
+
+// Data categories with their own hourly and daily quotas, stored in project_config
+const QUOTA_CATEGORIES: QuotaCategory[] = ['error', 'transaction', 'session', 'attachment'];
+
+// Upper bound for custom sensitive keys and patterns in the scrubbing rules
+const MAX_SCRUBBING_ENTRIES = 50;
+
+// Upper bound for the fingerprinting and stack trace rule texts
+const MAX_FINGERPRINTING_RULES_LENGTH = 10_000;
+const MAX_STACKTRACE_RULES_LENGTH = 10_000;
+
+// Upper bounds for the configurable normalization limits
+const MAX_NORMALIZATION_LIMITS: NormalizationLimits = {
+	maxStringLength: 65536,
+	maxBreadcrumbs: 1000,
+	maxFrames: 1000,
+	maxDepth: 32,
+	maxCollectionItems: 2000,
+};
+
+// Spike protection compares the current hour against the average of the previous 7 days
+const SPIKE_BASELINE_HOURS = 7 * 24;
+// A project with less traffic history than this (new, or quiet for the whole window) has no
+// baseline to compare against, so spike protection leaves it alone
+const SPIKE_MIN_HISTORY_HOURS = 24;
+const DEFAULT_SPIKE_MULTIPLIER = 10;
+const DEFAULT_SPIKE_CEILING = 1000;
+
+// Cron monitor defaults and limits, in minutes
+const DEFAULT_CHECKIN_MARGIN = 1;
+const DEFAULT_MAX_RUNTIME = 30;
+const MAX_MONITOR_MINUTES = 28 * 24 * 60;
+const MAX_MONITORS = 100;
+const MONITOR_SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]{0,99}$/;
+
+// Feedback fields longer than this are truncated
+const MAX_FEEDBACK_LENGTH = 4096;
+const FEEDBACK_STATUSES: FeedbackStatus[] = ['new', 'reviewed', 'spam'];
+
+// Log bodies longer than this are truncated
+const MAX_LOG_BODY_LENGTH = 8192;
+const LOG_LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+// Replay recordings are split into chunks that stay below the 2 MB row limit
+const REPLAY_CHUNK_SIZE = 1_048_576;
+const MAX_REPLAY_SEGMENT_SIZE = 10 * 1_048_576;
+// Longest URL, error and trace ID lists kept per replay
+const MAX_REPLAY_LIST_ITEMS = 100;
+
+// Exception types of the issues opened for failed monitor runs, grouped per monitor and kind
+const MONITOR_FAILURES = {
+	error: 'MonitorCheckInFailure',
+	missed: 'MonitorCheckInMissed',
+	timeout: 'MonitorCheckInTimeout',
+} as const;
 
 const SCHEMA = `
 CREATE TABLE IF NOT EXISTS issues (
@@ -78,6 +217,13 @@ CREATE TABLE IF NOT EXISTS rate_limit_counters (
   count INTEGER NOT NULL DEFAULT 0
 );
 
+CREATE TABLE IF NOT EXISTS key_rate_limit_counters (
+  key_id TEXT NOT NULL,
+  bucket TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, bucket)
+);
+
 CREATE TABLE IF NOT EXISTS event_tags (
   event_id TEXT NOT NULL,
   issue_id TEXT NOT NULL,
@@ -148,6 +294,33 @@ CREATE TABLE IF NOT EXISTS release_issues (
 );
 CREATE INDEX IF NOT EXISTS idx_release_issues_issue_id ON release_issues(issue_id);
 
+CREATE TABLE IF NOT EXISTS release_sessions (
+  sid TEXT PRIMARY KEY,
+  release TEXT NOT NULL,
+  environment TEXT NOT NULL DEFAULT '',
+  distinct_id TEXT,
+  status TEXT NOT NULL DEFAULT 'ok',
+  errors INTEGER NOT NULL DEFAULT 0,
+  seq INTEGER NOT NULL DEFAULT 0,
+  started TEXT NOT NULL,
+  last_seen TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_release_sessions_release ON release_sessions(release, environment);
+CREATE INDEX IF NOT EXISTS idx_release_sessions_last_seen ON release_sessions(last_seen);
+
+CREATE TABLE IF NOT EXISTS release_session_buckets (
+  release TEXT NOT NULL,
+  environment TEXT NOT NULL DEFAULT '',
+  bucket TEXT NOT NULL,
+  distinct_id TEXT NOT NULL DEFAULT '',
+  exited INTEGER NOT NULL DEFAULT 0,
+  errored INTEGER NOT NULL DEFAULT 0,
+  abnormal INTEGER NOT NULL DEFAULT 0,
+  crashed INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (release, environment, bucket, distinct_id)
+);
+CREATE INDEX IF NOT EXISTS idx_release_session_buckets_bucket ON release_session_buckets(bucket);
+
 CREATE TABLE IF NOT EXISTS source_maps (
   id TEXT PRIMARY KEY,
   release TEXT NOT NULL,
@@ -168,12 +341,159 @@ CREATE TABLE IF NOT EXISTS inbound_filters (
   created_at TEXT NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS sampling_rules (
+  id TEXT PRIMARY KEY,
+  condition_type TEXT NOT NULL,
+  tag_key TEXT,
+  value TEXT NOT NULL,
+  sample_rate REAL NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  description TEXT,
+  kept_count INTEGER NOT NULL DEFAULT 0,
+  dropped_count INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS fingerprint_redirects (
   fingerprint TEXT PRIMARY KEY,
   target_issue_id TEXT NOT NULL,
   created_at TEXT NOT NULL,
   FOREIGN KEY (target_issue_id) REFERENCES issues(id) ON DELETE CASCADE
 );
+
+CREATE TABLE IF NOT EXISTS event_attachments (
+  id TEXT PRIMARY KEY,
+  event_id TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  attachment_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  content BLOB NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (event_id) REFERENCES events(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_event_attachments_event ON event_attachments(event_id);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id TEXT PRIMARY KEY,
+  trace_id TEXT,
+  name TEXT NOT NULL,
+  op TEXT,
+  status TEXT NOT NULL DEFAULT 'ok',
+  start_timestamp TEXT NOT NULL,
+  duration_ms REAL NOT NULL,
+  environment TEXT,
+  release TEXT,
+  span_count INTEGER NOT NULL DEFAULT 0,
+  received_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_transactions_name ON transactions(name, duration_ms DESC);
+CREATE INDEX IF NOT EXISTS idx_transactions_received_at ON transactions(received_at);
+
+CREATE TABLE IF NOT EXISTS outcomes (
+  bucket TEXT NOT NULL,
+  outcome TEXT NOT NULL,
+  category TEXT NOT NULL,
+  reason TEXT NOT NULL DEFAULT '',
+  quantity INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket, outcome, category, reason)
+);
+
+CREATE TABLE IF NOT EXISTS spikes (
+  bucket TEXT PRIMARY KEY,
+  started_at TEXT NOT NULL,
+  baseline REAL NOT NULL,
+  threshold INTEGER NOT NULL,
+  ceiling INTEGER NOT NULL,
+  dropped INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS monitors (
+  id TEXT PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  schedule TEXT NOT NULL,
+  checkin_margin INTEGER NOT NULL,
+  max_runtime INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  health TEXT NOT NULL DEFAULT 'pending',
+  last_checkin TEXT,
+  next_checkin TEXT,
+  next_checkin_latest TEXT,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_monitors_next_checkin_latest ON monitors(next_checkin_latest);
+
+CREATE TABLE IF NOT EXISTS monitor_checkins (
+  id TEXT PRIMARY KEY,
+  monitor_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  duration REAL,
+  environment TEXT,
+  release TEXT,
+  expected_at TEXT,
+  timeout_at TEXT,
+  issue_id TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (monitor_id) REFERENCES monitors(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_monitor_checkins_monitor ON monitor_checkins(monitor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_monitor_checkins_timeout ON monitor_checkins(status, timeout_at);
+
+CREATE TABLE IF NOT EXISTS user_feedback (
+  id TEXT PRIMARY KEY,
+  event_id TEXT,
+  issue_id TEXT,
+  name TEXT,
+  email TEXT,
+  message TEXT NOT NULL,
+  url TEXT,
+  status TEXT NOT NULL DEFAULT 'new',
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_user_feedback_created_at ON user_feedback(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_feedback_event ON user_feedback(event_id);
+CREATE INDEX IF NOT EXISTS idx_user_feedback_issue ON user_feedback(issue_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS logs (
+  id TEXT PRIMARY KEY,
+  timestamp TEXT NOT NULL,
+  level TEXT NOT NULL,
+  body TEXT NOT NULL,
+  trace_id TEXT,
+  attributes TEXT NOT NULL DEFAULT '{}',
+  received_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_logs_timestamp ON logs(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_logs_trace ON logs(trace_id, timestamp);
+
+CREATE TABLE IF NOT EXISTS replays (
+  id TEXT PRIMARY KEY,
+  started_at TEXT NOT NULL,
+  finished_at TEXT NOT NULL,
+  replay_type TEXT,
+  environment TEXT,
+  release TEXT,
+  platform TEXT,
+  urls TEXT NOT NULL DEFAULT '[]',
+  error_ids TEXT NOT NULL DEFAULT '[]',
+  trace_ids TEXT NOT NULL DEFAULT '[]',
+  user TEXT,
+  received_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_replays_received ON replays(received_at);
+
+CREATE TABLE IF NOT EXISTS replay_chunks (
+  replay_id TEXT NOT NULL,
+  segment_id INTEGER NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  compressed INTEGER NOT NULL,
+  content BLOB NOT NULL,
+  PRIMARY KEY (replay_id, segment_id, chunk_index),
+  FOREIGN KEY (replay_id) REFERENCES replays(id) ON DELETE CASCADE
+);
 `;
 
 const MIGRATIONS = [
@@ -186,15 +506,45 @@ const MIGRATIONS = [
 );`,
 ];
 
+/**
+ * Append new, unique entries to a replay's URL or ID list, up to its size limit.
+ */
+function mergeReplayList(existing: string[], values: unknown): string[] {
+	const merged = new Set(existing);
+	if (Array.isArray(values)) {
+		for (const value of values) {
+			if (merged.size >= MAX_REPLAY_LIST_ITEMS) break;
+			if (typeof value === 'string' && value) merged.add(value);
+		}
+	}
+	return [...merged];
+}
+
+function isValidSampleRate(sampleRate: unknown): sampleRate is number {
+	return typeof sampleRate === 'number' && sampleRate >= 0 && sampleRate <= 1;
+}
+
+/**
+ * Integer weight for an event kept at `sampleRate`. Rounded up or down at random so that
+ * its expected value is exactly 1 / sampleRate and extrapolated counts stay unbiased.
+ */
+function extrapolationWeight(sampleRate: number): number {
+	const weight = 1 / sampleRate;
+	const whole = Math.floor(weight);
+	return whole + (Math.random() < weight - whole ? 1 : 0);
+}
+
 export class ProjectState extends DurableObject<Env> {
 	private sql: SqlStorage;
 	private initialized = false;
 	private rateLimitCount = 0;
 	private rateLimitBucket = '';
+	private spikeBaseline: { bucket: string; value: number; historyHours: number } | null = null;
 
 	constructor(ctx: DurableObjectState, env: Env) {
 		super(ctx, env);
 		this.sql = ctx.storage.sql;
+		ctx.blockConcurrencyWhile(() => this.ensureSchema());
 	}
 
 	private async ensureSchema(): Promise<void> {
@@ -218,141 +568,134 @@ export class ProjectState extends DurableObject<Env> {
 		}
 	}
 
-	async fetch(request: Request): Promise<Response> {
-		await this.ensureSchema();
+	/**
+	 * Ingest a batch of events from one envelope.
+	 * Events are normalized to the project's limits before anything else looks at them.
+	 * Scrubbing and user hashes are computed up front so that filtering, grouping and
+	 * counters for every event run synchronously inside a single storage transaction.
+	 * Grouping rules are read and parsed once for the whole batch.
+	 */
+	async ingestBatch({ events }: { events?: SentryEvent[] }) {
+		if (!Array.isArray(events)) {
+			return fail(400, { error: 'invalid_events' });
+		}
 
-		const url = new URL(request.url);
-		const path = url.pathname;
+		const limits = this.getNormalizationLimits();
+		const normalized = events.map((event) => normalizeEvent(event, limits));
+
+		const rules = this.getScrubbingRules();
+		const scrubbed = await Promise.all(normalized.map((event) => scrubEvent(event, rules)));
+		const userHashes = await Promise.all(
+			normalized.map((event) => this.hashUserIdentifier(event.user)),
+		);
+		const groupingRules = this.getGroupingRules();
 
+		let results: IngestResult[];
 		try {
-			switch (path) {
-				case '/ingest':
-					return this.handleIngest(request);
-				case '/issues':
-					return this.handleGetIssues(request);
-				case '/issue':
-					return this.handleGetIssue(request);
-				case '/issue/update':
-					return this.handleUpdateIssue(request);
-				case '/issue/delete':
-					return this.handleDeleteIssue(request);
-				case '/issues/bulk-update':
-					return this.handleBulkUpdateIssues(request);
-				case '/issue/events':
-					return this.handleGetIssueEvents(request);
-				case '/event':
-					return this.handleGetEvent(request);
-				case '/events/latest':
-					return this.handleGetLatestEvents(request);
-				case '/stats':
-					return this.handleGetStats(request);
-				case '/config':
-					return this.handleGetConfig();
-				case '/config/update':
-					return this.handleUpdateConfig(request);
-				case '/rate-limit-status':
-					return this.handleRateLimitStatus();
-				case '/tags':
-					return this.handleGetTags(request);
-				case '/tag-values':
-					return this.handleGetTagValues(request);
-				case '/settings':
-					return this.handleGetSettings();
-				case '/settings/update':
-					return this.handleUpdateSettings(request);
-				case '/environments':
-					return this.handleGetEnvironments();
-				case '/summary':
-					return this.handleGetSummary();
-				case '/issue/comments':
-					return this.handleGetComments(request);
-				case '/issue/comment/add':
-					return this.handleAddComment(request);
-				case '/issue/comment/delete':
-					return this.handleDeleteComment(request);
-				case '/issue/activity':
-					return this.handleGetActivity(request);
-				case '/releases':
-					return this.handleGetReleases(request);
-				case '/release':
-					return this.handleGetRelease(request);
-				case '/issue/snooze':
-					return this.handleSnoozeIssue(request);
-				case '/issue/unsnooze':
-					return this.handleUnsnoozeIssue(request);
-				case '/sourcemaps/upload':
-					return this.handleUploadSourceMap(request);
-				case '/sourcemaps/list':
-					return this.handleListSourceMaps(request);
-				case '/sourcemaps/get':
-					return this.handleGetSourceMap(request);
-				case '/sourcemaps/delete':
-					return this.handleDeleteSourceMap(request);
-				case '/filters':
-					return this.handleGetFilters();
-				case '/filters/create':
-					return this.handleCreateFilter(request);
-				case '/filters/update':
-					return this.handleUpdateFilter(request);
-				case '/filters/delete':
-					return this.handleDeleteFilter(request);
-				case '/issues/merge':
-					return this.handleMergeIssues(request);
-				default:
-					return new Response(JSON.stringify({ error: 'not_found' }), {
-						status: 404,
-						headers: { 'Content-Type': 'application/json' },
-					});
-			}
-		} catch (error) {
-			console.error('ProjectState error:', error);
-			return new Response(
-				JSON.stringify({
-					error: 'internal_error',
-					message: error instanceof Error ? error.message : 'Unknown error',
-				}),
-				{ status: 500, headers: { 'Content-Type': 'application/json' } },
+			results = this.ctx.storage.transactionSync(() =>
+				normalized.map((event, i) =>
+					this.ingestEvent(scrubbed[i], userHashes[i], groupingRules, event),
+				),
 			);
+		} catch (error) {
+			// The transaction rolled back; the in-memory counter must follow the stored one
+			this.warmRateLimitCounter();
+			throw error;
 		}
+
+		return ok({ results });
 	}
 
-	private async handleIngest(request: Request): Promise<Response> {
-		// Check rate limit before processing
-		const rateCheck = this.checkRateLimit();
-		if (!rateCheck.allowed) {
-			return new Response(
-				JSON.stringify({ error: 'rate_limited', message: 'Project event quota exceeded' }),
-				{
-					status: 429,
-					headers: {
-						'Content-Type': 'application/json',
-						'Retry-After': String(rateCheck.retryAfter || 3600),
-					},
-				},
-			);
+	/**
+	 * Run the ingest pipeline for one event: rate limit, inbound filters, grouping,
+	 * storage and counters. Synchronous so it can be composed into a transaction.
+	 * Inbound filters and the fingerprint use the original event, so scrubbing never changes
+	 * which issue an event joins; everything stored comes from the scrubbed one.
+	 * An event ID that is already stored (an SDK retry) returns the original result untouched.
+	 */
+	private ingestEvent(
+		event: SentryEvent,
+		userHash: string | null,
+		groupingRules: { fingerprint: FingerprintRule[]; stacktrace: StacktraceRule[] },
+		original: SentryEvent = event,
+	): IngestResult {
+		const eventId = event.event_id || crypto.randomUUID();
+
+		const duplicateRows = this.sql
+			.exec(
+				`SELECT e.issue_id, e.level, i.culprit FROM events e
+				 JOIN issues i ON i.id = e.issue_id
+				 WHERE e.id = ?`,
+				eventId,
+			)
+			.toArray();
+		if (duplicateRows.length > 0) {
+			const stored = duplicateRows[0];
+			return {
+				status: 'accepted',
+				eventId,
+				issueId: stored.issue_id as string,
+				isNewIssue: false,
+				level: (stored.level as string) || 'error',
+				culprit: (stored.culprit as string) || null,
+				duplicate: true,
+			};
 		}
 
-		const event = (await request.json()) as SentryEvent;
+		// Check rate limit before processing
+		const rateLimit = this.checkRateLimit('error');
+		if (rateLimit) {
+			this.recordOutcome('rate_limited', 'error', rateLimit.reasonCode);
+			if (rateLimit.reasonCode === 'spike_protection') {
+				const spike = this.recordSpikeDrop();
+				if (spike) {
+					return { status: 'rate_limited', eventId, rateLimit, spike };
+				}
+			}
+			return { status: 'rate_limited', eventId, rateLimit };
+		}
 
-		const eventId = event.event_id || crypto.randomUUID();
 		const now = new Date().toISOString();
 		const timestamp = event.timestamp || now;
 
-		// Generate fingerprint
-		const fingerprint = generateFingerprint(event);
+		// Generate fingerprint, applying the project's fingerprinting rules first
+		const stacktraceRules = groupingRules.stacktrace;
+		const fingerprint = generateFingerprint(original, groupingRules.fingerprint, stacktraceRules);
 
 		// Check inbound filters
 		const enabledFilters = this.sql
 			.exec('SELECT * FROM inbound_filters WHERE enabled = 1')
 			.toArray();
 
-		const matchedFilterId = this.shouldFilterEvent(event, enabledFilters);
+		const matchedFilterId = this.shouldFilterEvent(original, enabledFilters);
 		if (matchedFilterId) {
 			this.sql.exec(
 				'UPDATE inbound_filters SET dropped_count = dropped_count + 1 WHERE id = ?',
 				matchedFilterId,
 			);
-			return this.jsonResponse({ filtered: true, eventId });
+			const matchedFilter = enabledFilters.find((f) => f.id === matchedFilterId);
+			this.recordOutcome('filtered', 'error', `filter:${matchedFilter?.filter_type}`);
+			return { status: 'filtered', eventId };
+		}
+
+		// Apply dynamic sampling; each kept event stands in for the ones sampled out
+		let weight = 1;
+		const samplingRule = this.matchSamplingRule(original);
+		if (samplingRule) {
+			const sampleRate = samplingRule.sample_rate as number;
+			if (Math.random() >= sampleRate) {
+				this.sql.exec(
+					'UPDATE sampling_rules SET dropped_count = dropped_count + 1 WHERE id = ?',
+					samplingRule.id,
+				);
+				this.recordOutcome('filtered', 'error', `sampling:${samplingRule.condition_type}`);
+				return { status: 'sampled', eventId, sampleRate };
+			}
+			this.sql.exec(
+				'UPDATE sampling_rules SET kept_count = kept_count + 1 WHERE id = ?',
+				samplingRule.id,
+			);
+			weight = extrapolationWeight(sampleRate);
 		}
 		// Check if this fingerprint has been redirected (from a merged issue)
 		let effectiveFingerprint = fingerprint;
@@ -383,22 +726,23 @@ export class ProjectState extends DurableObject<Env> {
 			// Update existing issue
 			issueId = existingIssue.id as string;
 			this.sql.exec(
-				'UPDATE issues SET last_seen = ?, count = count + 1 WHERE id = ?',
+				'UPDATE issues SET last_seen = ?, count = count + ? WHERE id = ?',
 				now,
+				weight,
 				issueId,
 			);
 		} else {
 			// Create new issue
 			issueId = crypto.randomUUID();
 			const title = extractTitle(event);
-			const culprit = extractCulprit(event);
-			const metadata = extractMetadata(event);
+			const culprit = extractCulprit(event, stacktraceRules);
+			const metadata = extractMetadata(event, stacktraceRules);
 			newIssueTitle = title;
 			newIssueCulprit = culprit;
 
 			this.sql.exec(
 				`INSERT INTO issues (id, fingerprint, title, culprit, level, platform, first_seen, last_seen, count, status, metadata)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, 'unresolved', ?)`,
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'unresolved', ?)`,
 				issueId,
 				fingerprint,
 				title,
@@ -407,6 +751,7 @@ export class ProjectState extends DurableObject<Env> {
 				event.platform || 'javascript',
 				now,
 				now,
+				weight,
 				JSON.stringify(metadata),
 			);
 		}
@@ -431,6 +776,13 @@ export class ProjectState extends DurableObject<Env> {
 			JSON.stringify(event),
 		);
 
+		// Link feedback that arrived before its event
+		this.sql.exec(
+			'UPDATE user_feedback SET issue_id = ? WHERE event_id = ? AND issue_id IS NULL',
+			issueId,
+			eventId,
+		);
+
 		// Store indexed tags
 		if (event.tags && typeof event.tags === 'object') {
 			for (const [key, value] of Object.entries(event.tags)) {
@@ -455,32 +807,29 @@ export class ProjectState extends DurableObject<Env> {
 		const bucket = this.getHourBucket(timestamp);
 		this.sql.exec(
 			`INSERT INTO issue_stats (issue_id, bucket, count)
-       VALUES (?, ?, 1)
-       ON CONFLICT (issue_id, bucket) DO UPDATE SET count = count + 1`,
+       VALUES (?, ?, ?)
+       ON CONFLICT (issue_id, bucket) DO UPDATE SET count = count + excluded.count`,
 			issueId,
 			bucket,
+			weight,
 		);
 
 		// Update rate limit counter
-		this.rateLimitCount++;
-		const currentBucket = this.getHourBucket(new Date().toISOString());
-		this.sql.exec(
-			'INSERT INTO rate_limit_counters (bucket, count) VALUES (?, 1) ON CONFLICT(bucket) DO UPDATE SET count = count + 1',
-			currentBucket,
-		);
+		this.incrementRateLimitCounter();
 		// Track environment
 		const environment = event.environment || null;
 		if (environment) {
 			this.sql.exec(
 				`INSERT INTO issue_environments (issue_id, environment, first_seen, last_seen, event_count)
-				 VALUES (?, ?, ?, ?, 1)
+				 VALUES (?, ?, ?, ?, ?)
 				 ON CONFLICT (issue_id, environment) DO UPDATE SET
 				   last_seen = excluded.last_seen,
-				   event_count = event_count + 1`,
+				   event_count = event_count + excluded.event_count`,
 				issueId,
 				environment,
 				now,
 				now,
+				weight,
 			);
 		}
 
@@ -493,13 +842,14 @@ export class ProjectState extends DurableObject<Env> {
 				// Upsert release record
 				this.sql.exec(
 					`INSERT INTO releases (version, first_seen, last_seen, event_count, issue_count, new_issue_count)
-					 VALUES (?, ?, ?, 1, 0, 0)
+					 VALUES (?, ?, ?, ?, 0, 0)
 					 ON CONFLICT (version) DO UPDATE SET
 					   last_seen = ?,
-					   event_count = event_count + 1`,
+					   event_count = event_count + excluded.event_count`,
 					releaseVersion,
 					now,
 					now,
+					weight,
 					now,
 				);
 
@@ -514,16 +864,18 @@ export class ProjectState extends DurableObject<Env> {
 
 				if (existingLink.length > 0) {
 					this.sql.exec(
-						'UPDATE release_issues SET event_count = event_count + 1 WHERE release_version = ? AND issue_id = ?',
+						'UPDATE release_issues SET event_count = event_count + ? WHERE release_version = ? AND issue_id = ?',
+						weight,
 						releaseVersion,
 						issueId,
 					);
 				} else {
 					this.sql.exec(
-						'INSERT INTO release_issues (release_version, issue_id, first_seen_in_release, event_count) VALUES (?, ?, ?, 1)',
+						'INSERT INTO release_issues (release_version, issue_id, first_seen_in_release, event_count) VALUES (?, ?, ?, ?)',
 						releaseVersion,
 						issueId,
 						now,
+						weight,
 					);
 					// Update issue_count on the release
 					this.sql.exec(
@@ -549,46 +901,46 @@ export class ProjectState extends DurableObject<Env> {
 		}
 
 		// Track unique users
-		if (event.user) {
-			const userHash = await this.hashUserIdentifier(event.user);
-			if (userHash) {
-				const existingUserRows = this.sql
-					.exec(
-						'SELECT issue_id FROM issue_users WHERE issue_id = ? AND user_hash = ?',
-						issueId,
-						userHash,
-					)
-					.toArray();
+		if (userHash) {
+			const existingUserRows = this.sql
+				.exec(
+					'SELECT issue_id FROM issue_users WHERE issue_id = ? AND user_hash = ?',
+					issueId,
+					userHash,
+				)
+				.toArray();
 
-				if (existingUserRows.length > 0) {
-					this.sql.exec(
-						'UPDATE issue_users SET last_seen = ? WHERE issue_id = ? AND user_hash = ?',
-						now,
-						issueId,
-						userHash,
-					);
-				} else {
-					this.sql.exec(
-						'INSERT INTO issue_users (issue_id, user_hash, first_seen, last_seen) VALUES (?, ?, ?, ?)',
-						issueId,
-						userHash,
-						now,
-						now,
-					);
-					// Update user count
-					this.sql.exec('UPDATE issues SET user_count = user_count + 1 WHERE id = ?', issueId);
-				}
+			if (existingUserRows.length > 0) {
+				this.sql.exec(
+					'UPDATE issue_users SET last_seen = ? WHERE issue_id = ? AND user_hash = ?',
+					now,
+					issueId,
+					userHash,
+				);
+			} else {
+				this.sql.exec(
+					'INSERT INTO issue_users (issue_id, user_hash, first_seen, last_seen) VALUES (?, ?, ?, ?)',
+					issueId,
+					userHash,
+					now,
+					now,
+				);
+				// Update user count
+				this.sql.exec('UPDATE issues SET user_count = user_count + 1 WHERE id = ?', issueId);
 			}
 		}
 
-		return this.jsonResponse({
+		this.recordOutcome('accepted', 'error');
+
+		return {
+			status: 'accepted',
 			eventId,
 			issueId,
 			isNewIssue: !existingIssue,
 			title: newIssueTitle,
 			level: event.level || 'error',
 			culprit: newIssueCulprit ?? null,
-		});
+		};
 	}
 
 	private static readonly ALLOWED_SORT_FIELDS = new Set([
@@ -600,19 +952,25 @@ export class ProjectState extends DurableObject<Env> {
 		'title',
 	]);
 
-	private async handleGetIssues(request: Request): Promise<Response> {
-		const { status, level, environment, query, sort, cursor, limit, tags } =
-			(await request.json()) as {
-				status?: string;
-				level?: string;
-				environment?: string;
-				query?: string;
-				sort?: string;
-				cursor?: string;
-				limit?: number;
-				tags?: string[];
-			};
-
+	async getIssues({
+		status,
+		level,
+		environment,
+		query,
+		sort,
+		cursor,
+		limit,
+		tags,
+	}: {
+		status?: string;
+		level?: string;
+		environment?: string;
+		query?: string;
+		sort?: string;
+		cursor?: string;
+		limit?: number;
+		tags?: string[];
+	}) {
 		const pageLimit = Math.min(limit || 25, 100);
 		const sortField = sort && ProjectState.ALLOWED_SORT_FIELDS.has(sort) ? sort : 'last_seen';
 		const sortOrder = 'DESC';
@@ -679,20 +1037,18 @@ export class ProjectState extends DurableObject<Env> {
 				? (issues[issues.length - 1] as Issue)[sortField as keyof Issue]
 				: undefined;
 
-		return this.jsonResponse({
+		return ok({
 			issues,
 			nextCursor,
 			hasMore,
 		});
 	}
 
-	private async handleGetIssue(request: Request): Promise<Response> {
-		const { issueId } = (await request.json()) as { issueId: string };
-
+	async getIssue({ issueId }: { issueId: string }) {
 		const rows = this.sql.exec('SELECT * FROM issues WHERE id = ?', issueId).toArray();
 
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'issue_not_found' }, 404);
+			return fail(404, { error: 'issue_not_found' });
 		}
 
 		const row = rows[0];
@@ -710,22 +1066,25 @@ export class ProjectState extends DurableObject<Env> {
 			count: s.count as number,
 		}));
 
-		return this.jsonResponse({
+		return ok({
 			issue: this.rowToIssue(row),
 			stats,
 		});
 	}
 
-	private async handleUpdateIssue(request: Request): Promise<Response> {
-		const { issueId, status, userId, userName } = (await request.json()) as {
-			issueId: string;
-			status?: string;
-			userId?: string;
-			userName?: string;
-		};
-
+	async updateIssue({
+		issueId,
+		status,
+		userId,
+		userName,
+	}: {
+		issueId: string;
+		status?: string;
+		userId?: string;
+		userName?: string;
+	}) {
 		if (!issueId) {
-			return this.jsonResponse({ error: 'missing_issue_id' }, 400);
+			return fail(400, { error: 'missing_issue_id' });
 		}
 
 		const updates: string[] = [];
@@ -741,7 +1100,7 @@ export class ProjectState extends DurableObject<Env> {
 		}
 
 		if (updates.length === 0) {
-			return this.jsonResponse({ error: 'no_updates' }, 400);
+			return fail(400, { error: 'no_updates' });
 		}
 
 		params.push(issueId);
@@ -764,50 +1123,50 @@ export class ProjectState extends DurableObject<Env> {
 		}
 
 		const row = this.sql.exec('SELECT * FROM issues WHERE id = ?', issueId).one();
-		return this.jsonResponse({ issue: row ? this.rowToIssue(row) : null });
+		return ok({ issue: row ? this.rowToIssue(row) : null });
 	}
 
-	private async handleDeleteIssue(request: Request): Promise<Response> {
-		const { issueId } = (await request.json()) as { issueId: string };
-
+	async deleteIssue({ issueId }: { issueId: string }) {
 		if (!issueId) {
-			return this.jsonResponse({ error: 'missing_issue_id' }, 400);
+			return fail(400, { error: 'missing_issue_id' });
 		}
 
 		// Delete cascade handles events, stats, users
 		this.sql.exec('DELETE FROM issues WHERE id = ?', issueId);
 
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
 	}
 
-	private async handleBulkUpdateIssues(request: Request): Promise<Response> {
-		const { issueIds, status, action } = (await request.json()) as {
-			issueIds: string[];
-			status?: string;
-			action?: 'delete';
-		};
-
+	async bulkUpdateIssues({
+		issueIds,
+		status,
+		action,
+	}: {
+		issueIds: string[];
+		status?: string;
+		action?: 'delete';
+	}) {
 		if (!issueIds || !Array.isArray(issueIds) || issueIds.length === 0) {
-			return this.jsonResponse({ error: 'missing_issue_ids' }, 400);
+			return fail(400, { error: 'missing_issue_ids' });
 		}
 
 		if (issueIds.length > 100) {
-			return this.jsonResponse(
-				{ error: 'too_many_issues', message: 'Maximum 100 issues per bulk operation' },
-				400,
-			);
+			return fail(400, {
+				error: 'too_many_issues',
+				message: 'Maximum 100 issues per bulk operation',
+			});
 		}
 
 		const validStatuses = new Set(['unresolved', 'resolved', 'ignored']);
 		if (status && !validStatuses.has(status)) {
-			return this.jsonResponse({ error: 'invalid_status' }, 400);
+			return fail(400, { error: 'invalid_status' });
 		}
 
 		const placeholders = issueIds.map(() => '?').join(', ');
 
 		if (action === 'delete') {
 			const cursor = this.sql.exec(`DELETE FROM issues WHERE id IN (${placeholders})`, ...issueIds);
-			return this.jsonResponse({ success: true, affected: cursor.rowsWritten });
+			return ok({ success: true, affected: cursor.rowsWritten });
 		}
 
 		if (status) {
@@ -818,19 +1177,21 @@ export class ProjectState extends DurableObject<Env> {
 			);
 			const changedRow = this.sql.exec('SELECT changes() as n').one();
 			const affected = changedRow ? (changedRow.n as number) : 0;
-			return this.jsonResponse({ success: true, affected });
+			return ok({ success: true, affected });
 		}
 
-		return this.jsonResponse({ error: 'no_action' }, 400);
+		return fail(400, { error: 'no_action' });
 	}
 
-	private async handleGetIssueEvents(request: Request): Promise<Response> {
-		const { issueId, cursor, limit } = (await request.json()) as {
-			issueId: string;
-			cursor?: string;
-			limit?: number;
-		};
-
+	async getIssueEvents({
+		issueId,
+		cursor,
+		limit,
+	}: {
+		issueId: string;
+		cursor?: string;
+		limit?: number;
+	}) {
 		const pageLimit = Math.min(limit || 25, 100);
 
 		let sql = 'SELECT * FROM events WHERE issue_id = ?';
@@ -846,39 +1207,41 @@ export class ProjectState extends DurableObject<Env> {
 
 		const rows = this.sql.exec(sql, ...params).toArray();
 		const hasMore = rows.length > pageLimit;
-		const events = rows.slice(0, pageLimit).map((row) => JSON.parse(row.data as string));
+		const stacktraceRules = this.getStacktraceRules().rules;
+		const events = rows
+			.slice(0, pageLimit)
+			.map((row) => applyStacktraceRulesToEvent(JSON.parse(row.data as string), stacktraceRules));
 
 		const nextCursor =
 			hasMore && events.length > 0
 				? (events[events.length - 1] as SentryEvent).timestamp
 				: undefined;
 
-		return this.jsonResponse({
+		return ok({
 			events,
 			nextCursor,
 			hasMore,
 		});
 	}
 
-	private async handleGetEvent(request: Request): Promise<Response> {
-		const { eventId } = (await request.json()) as { eventId: string };
-
+	async getEvent({ eventId }: { eventId: string }) {
 		const rows = this.sql.exec('SELECT * FROM events WHERE id = ?', eventId).toArray();
 
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'event_not_found' }, 404);
+			return fail(404, { error: 'event_not_found' });
 		}
 
 		const row = rows[0];
-		return this.jsonResponse({
-			event: JSON.parse(row.data as string),
+		return ok({
+			event: applyStacktraceRulesToEvent(
+				JSON.parse(row.data as string),
+				this.getStacktraceRules().rules,
+			),
 			issueId: row.issue_id,
 		});
 	}
 
-	private async handleGetLatestEvents(request: Request): Promise<Response> {
-		const { limit } = (await request.json()) as { limit?: number };
-
+	async getLatestEvents({ limit }: { limit?: number }) {
 		const pageLimit = Math.min(limit || 25, 100);
 
 		const rows = this.sql
@@ -890,16 +1253,18 @@ export class ProjectState extends DurableObject<Env> {
 			issueId: row.issue_id,
 		}));
 
-		return this.jsonResponse({ events });
+		return ok({ events });
 	}
 
-	private async handleGetStats(request: Request): Promise<Response> {
-		const { interval, start, end } = (await request.json()) as {
-			interval?: '1h' | '1d' | '1w';
-			start?: string;
-			end?: string;
-		};
-
+	async getStats({
+		interval,
+		start,
+		end,
+	}: {
+		interval?: '1h' | '1d' | '1w';
+		start?: string;
+		end?: string;
+	}) {
 		const endDate = end ? new Date(end) : new Date();
 		const startDate = start
 			? new Date(start)
@@ -907,6 +1272,9 @@ export class ProjectState extends DurableObject<Env> {
 					endDate.getTime() -
 						(interval === '1w' ? 7 : interval === '1d' ? 1 : 1) * 24 * 60 * 60 * 1000,
 				);
+		if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+			return fail(400, { error: 'invalid_date', message: 'start and end must be valid dates' });
+		}
 
 		// Aggregate stats by bucket
 		const rows = this.sql
@@ -928,11 +1296,10 @@ export class ProjectState extends DurableObject<Env> {
 
 		const total = series.reduce((sum, s) => sum + s.count, 0);
 
-		return this.jsonResponse({ total, series });
+		return ok({ total, series });
 	}
 
-	private async handleGetTags(request: Request): Promise<Response> {
-		const { limit } = (await request.json()) as { limit?: number };
+	async getTags({ limit }: { limit?: number }) {
 		const facetLimit = Math.min(limit || 10, 50);
 
 		const keys = this.sql
@@ -971,18 +1338,12 @@ export class ProjectState extends DurableObject<Env> {
 			};
 		});
 
-		return this.jsonResponse({ facets });
+		return ok({ facets });
 	}
 
-	private async handleGetTagValues(request: Request): Promise<Response> {
-		const { key, query, limit } = (await request.json()) as {
-			key: string;
-			query?: string;
-			limit?: number;
-		};
-
+	async getTagValues({ key, query, limit }: { key: string; query?: string; limit?: number }) {
 		if (!key) {
-			return this.jsonResponse({ error: 'missing_key' }, 400);
+			return fail(400, { error: 'missing_key' });
 		}
 
 		const pageLimit = Math.min(limit || 25, 100);
@@ -1008,15 +1369,10 @@ export class ProjectState extends DurableObject<Env> {
 			eventCount: row.event_count as number,
 		}));
 
-		return this.jsonResponse({ key, values });
+		return ok({ key, values });
 	}
 
-	private async handleGetReleases(request: Request): Promise<Response> {
-		const { cursor, limit } = (await request.json()) as {
-			cursor?: string;
-			limit?: number;
-		};
-
+	async getReleases({ cursor, limit }: { cursor?: string; limit?: number }) {
 		const pageLimit = Math.min(limit || 25, 100);
 		const params: (string | number)[] = [];
 
@@ -1044,18 +1400,16 @@ export class ProjectState extends DurableObject<Env> {
 		const nextCursor =
 			hasMore && releases.length > 0 ? releases[releases.length - 1].lastSeen : undefined;
 
-		return this.jsonResponse({ releases, nextCursor, hasMore });
+		return ok({ releases, nextCursor, hasMore });
 	}
 
-	private async handleGetRelease(request: Request): Promise<Response> {
-		const { version } = (await request.json()) as { version: string };
-
+	async getRelease({ version }: { version: string }) {
 		const releaseRows = this.sql
 			.exec('SELECT * FROM releases WHERE version = ?', version)
 			.toArray();
 
 		if (releaseRows.length === 0) {
-			return this.jsonResponse({ error: 'release_not_found' }, 404);
+			return fail(404, { error: 'release_not_found' });
 		}
 
 		const row = releaseRows[0];
@@ -1087,93 +1441,649 @@ export class ProjectState extends DurableObject<Env> {
 			releaseEventCount: r.release_event_count as number,
 		}));
 
-		return this.jsonResponse({ release, issues });
+		const health = this.getReleaseHealth(version);
+
+		return ok({ release, issues, health });
 	}
 
-	private handleGetEnvironments(): Response {
-		const rows = this.sql
-			.exec(
-				`SELECT environment, COUNT(DISTINCT issue_id) as issue_count, MAX(last_seen) as last_seen
-			 FROM issue_environments
-			 GROUP BY environment
-			 ORDER BY last_seen DESC`,
-			)
-			.toArray();
+	/**
+	 * Ingest the transactions of one envelope. Like `ingestBatch`, scrubbing runs up front
+	 * so that quota checks, storage and counters for every transaction run synchronously
+	 * inside a single storage transaction.
+	 */
+	async ingestTransactions({ transactions }: { transactions?: SentryTransaction[] }) {
+		if (!Array.isArray(transactions)) {
+			return fail(400, { error: 'invalid_transactions' });
+		}
 
-		const environments = rows.map((row) => ({
-			name: row.environment as string,
-			issueCount: row.issue_count as number,
-			lastSeen: row.last_seen as string,
-		}));
+		const rules = this.getScrubbingRules();
+		const scrubbed = await Promise.all(transactions.map((t) => scrubEvent(t, rules)));
+
+		let results: TransactionIngestResult[];
+		try {
+			results = this.ctx.storage.transactionSync(() =>
+				transactions.map((transaction, i) => this.storeTransaction(transaction, scrubbed[i])),
+			);
+		} catch (error) {
+			// The transaction rolled back; the in-memory counter must follow the stored one
+			this.warmRateLimitCounter();
+			throw error;
+		}
 
-		return this.jsonResponse({ environments });
+		return ok({ results });
 	}
 
-	private async handleGetSummary(): Promise<Response> {
-		const now = new Date();
-		const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
-		const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+	/**
+	 * Store one transaction: rate limit, validation, storage and counters. Synchronous so
+	 * it can be composed into a storage transaction.
+	 */
+	private storeTransaction(
+		transaction: SentryTransaction,
+		data: SentryTransaction,
+	): TransactionIngestResult {
+		const eventId = transaction.event_id || crypto.randomUUID().replace(/-/g, '');
+
+		// An SDK retry of a stored transaction is neither counted nor stored again
+		const duplicate = this.sql.exec('SELECT 1 FROM transactions WHERE id = ?', eventId).toArray();
+		if (duplicate.length > 0) {
+			return { status: 'accepted', eventId, duplicate: true };
+		}
 
-		// Issue counts by status
-		const statusCounts = this.sql
-			.exec('SELECT status, COUNT(*) as count FROM issues GROUP BY status')
-			.toArray();
+		// Transactions share the project event quota with errors
+		const rateLimit = this.checkRateLimit('transaction');
+		if (rateLimit) {
+			this.recordOutcome('rate_limited', 'transaction', rateLimit.reasonCode);
+			const spike = rateLimit.reasonCode === 'spike_protection' ? this.recordSpikeDrop() : null;
+			return { status: 'rate_limited', eventId, rateLimit, ...(spike ? { spike } : {}) };
+		}
 
-		const issuesByStatus: Record<string, number> = {};
-		for (const row of statusCounts) {
-			issuesByStatus[row.status as string] = row.count as number;
+		const start = toMillis(transaction.start_timestamp);
+		const end = toMillis(transaction.timestamp);
+		if (start === null || end === null) {
+			return {
+				status: 'invalid',
+				eventId,
+				message: 'start_timestamp and timestamp must be valid timestamps',
+			};
 		}
 
-		// Event counts for 24h and 7d
-		const events24h = this.sql
-			.exec('SELECT COUNT(*) as count FROM events WHERE received_at >= ?', oneDayAgo)
-			.one();
-		const events7d = this.sql
-			.exec('SELECT COUNT(*) as count FROM events WHERE received_at >= ?', sevenDaysAgo)
-			.one();
+		const trace = transaction.contexts?.trace;
 
-		// Error trend: hourly buckets for last 7 days
-		const trendRows = this.sql
+		this.sql.exec(
+			`INSERT OR IGNORE INTO transactions (id, trace_id, name, op, status, start_timestamp, duration_ms, environment, release, span_count, received_at, data)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			eventId,
+			trace?.trace_id || null,
+			getTransactionName(transaction),
+			trace?.op || null,
+			getTransactionStatus(transaction),
+			new Date(start).toISOString(),
+			Math.max(0, end - start),
+			transaction.environment || null,
+			transaction.release || null,
+			transaction.spans?.length || 0,
+			new Date().toISOString(),
+			JSON.stringify(data),
+		);
+
+		this.incrementRateLimitCounter();
+		this.recordOutcome('accepted', 'transaction');
+
+		return { status: 'accepted', eventId };
+	}
+
+	async getPerformance({
+		period,
+		environment,
+		sort,
+		limit,
+	}: {
+		period?: string;
+		environment?: string;
+		sort?: string;
+		limit?: number;
+	}) {
+		const periodMs = PERFORMANCE_PERIODS[period || '24h'] ?? PERFORMANCE_PERIODS['24h'];
+		const since = new Date(Date.now() - periodMs).toISOString();
+		const orderBy = PERFORMANCE_SORTS[sort || 'p95'] ?? PERFORMANCE_SORTS.p95;
+		const pageLimit = Math.min(limit || 50, 100);
+
+		const params: (string | number)[] = [since];
+		let where = 'received_at >= ?';
+		if (environment) {
+			where += ' AND environment = ?';
+			params.push(environment);
+		}
+		params.push(pageLimit);
+
+		// Percentiles use the nearest-rank method: the smallest duration whose
+		// rank within its transaction name reaches p * count.
+		const rows = this.sql
 			.exec(
-				`SELECT bucket, SUM(count) as count FROM issue_stats
-				 WHERE bucket >= ? GROUP BY bucket ORDER BY bucket ASC`,
-				sevenDaysAgo,
+				`WITH ranked AS (
+				   SELECT name, duration_ms, status, received_at,
+				     ROW_NUMBER() OVER (PARTITION BY name ORDER BY duration_ms) AS rn,
+				     COUNT(*) OVER (PARTITION BY name) AS cnt
+				   FROM transactions WHERE ${where}
+				 )
+				 SELECT name,
+				   MAX(cnt) AS count,
+				   SUM(status NOT IN ('ok', 'cancelled', 'unknown')) AS failure_count,
+				   AVG(duration_ms) AS avg_duration,
+				   MAX(received_at) AS last_seen,
+				   MIN(CASE WHEN rn >= cnt * 0.50 THEN duration_ms END) AS p50,
+				   MIN(CASE WHEN rn >= cnt * 0.75 THEN duration_ms END) AS p75,
+				   MIN(CASE WHEN rn >= cnt * 0.95 THEN duration_ms END) AS p95,
+				   MIN(CASE WHEN rn >= cnt * 0.99 THEN duration_ms END) AS p99
+				 FROM ranked
+				 GROUP BY name
+				 ORDER BY ${orderBy}
+				 LIMIT ?`,
+				...params,
 			)
 			.toArray();
 
-		const trend = trendRows.map((row) => ({
-			bucket: row.bucket as string,
+		const transactions: TransactionSummary[] = rows.map((row) => ({
+			name: row.name as string,
 			count: row.count as number,
+			failureCount: row.failure_count as number,
+			avgDuration: row.avg_duration as number,
+			p50: row.p50 as number,
+			p75: row.p75 as number,
+			p95: row.p95 as number,
+			p99: row.p99 as number,
+			lastSeen: row.last_seen as string,
 		}));
 
-		// Top 5 most active unresolved issues
-		const topIssueRows = this.sql
+		return ok({ transactions });
+	}
+
+	async getTransactions({
+		name,
+		sort,
+		limit,
+	}: {
+		name: string;
+		sort?: 'duration' | 'recent';
+		limit?: number;
+	}) {
+		if (!name) {
+			return fail(400, { error: 'missing_name' });
+		}
+
+		const pageLimit = Math.min(limit || 25, 100);
+		const orderBy = sort === 'recent' ? 'received_at DESC' : 'duration_ms DESC';
+
+		const rows = this.sql
 			.exec(
-				`SELECT * FROM issues WHERE status = 'unresolved'
-				 ORDER BY issues.count DESC LIMIT 5`,
+				`SELECT * FROM transactions WHERE name = ? ORDER BY ${orderBy} LIMIT ?`,
+				name,
+				pageLimit,
 			)
 			.toArray();
 
-		const topIssues = topIssueRows.map((row) => this.rowToIssue(row));
-
-		// Total unique users affected
-		const userCountRow = this.sql
-			.exec('SELECT COUNT(DISTINCT user_hash) as count FROM issue_users')
-			.one();
-
-		return this.jsonResponse({
-			issuesByStatus,
-			events24h: (events24h?.count as number) || 0,
-			events7d: (events7d?.count as number) || 0,
-			trend,
-			topIssues,
-			totalUsers: (userCountRow?.count as number) || 0,
-		});
+		return ok({ transactions: rows.map((row) => this.rowToTransaction(row)) });
 	}
 
-	private async handleGetComments(request: Request): Promise<Response> {
-		const { issueId } = (await request.json()) as { issueId: string };
+	async getTransaction({ eventId }: { eventId: string }) {
+		const rows = this.sql.exec('SELECT * FROM transactions WHERE id = ?', eventId).toArray();
+		if (rows.length === 0) {
+			return fail(404, { error: 'transaction_not_found' });
+		}
+
+		const data = JSON.parse(rows[0].data as string) as SentryTransaction;
+
+		return ok({
+			transaction: this.rowToTransaction(rows[0]),
+			spanTree: buildSpanTree(data),
+			data,
+		});
+	}
+
+	private rowToTransaction(row: Record<string, SqlStorageValue>): TransactionEvent {
+		return {
+			id: row.id as string,
+			traceId: row.trace_id as string | null,
+			name: row.name as string,
+			op: row.op as string | null,
+			status: row.status as string | null,
+			startTimestamp: row.start_timestamp as string,
+			duration: row.duration_ms as number,
+			environment: row.environment as string | null,
+			release: row.release as string | null,
+			spanCount: row.span_count as number,
+			receivedAt: row.received_at as string,
+		};
+	}
+
+	/**
+	 * Count data by what happened to it, in hourly buckets per category and reason.
+	 */
+	private recordOutcome(
+		outcome: Outcome,
+		category: string,
+		reason?: string,
+		quantity = 1,
+		timestamp?: string,
+	): void {
+		this.sql.exec(
+			`INSERT INTO outcomes (bucket, outcome, category, reason, quantity)
+			 VALUES (?, ?, ?, ?, ?)
+			 ON CONFLICT (bucket, outcome, category, reason) DO UPDATE SET quantity = quantity + excluded.quantity`,
+			this.getHourBucket(timestamp || new Date().toISOString()),
+			outcome,
+			category,
+			reason || '',
+			quantity,
+		);
+	}
+
+	async recordOutcomes({ outcomes }: { outcomes?: OutcomeRecord[] }) {
+		if (!Array.isArray(outcomes)) {
+			return fail(400, { error: 'invalid_outcomes' });
+		}
+
+		let recorded = 0;
+		for (const record of outcomes) {
+			const quantity = record.quantity ?? 1;
+			if (
+				!OUTCOMES.includes(record.outcome) ||
+				typeof record.category !== 'string' ||
+				record.category.length === 0 ||
+				record.category.length > 64 ||
+				!Number.isInteger(quantity) ||
+				quantity <= 0
+			) {
+				continue;
+			}
+
+			// Ignore client timestamps that cannot be bucketed
+			const timestamp =
+				record.timestamp && !Number.isNaN(Date.parse(record.timestamp))
+					? record.timestamp
+					: undefined;
+
+			this.recordOutcome(
+				record.outcome,
+				record.category,
+				record.reason?.slice(0, 200),
+				quantity,
+				timestamp,
+			);
+			recorded++;
+		}
+
+		return ok({ recorded });
+	}
+
+	async getOutcomes({
+		interval,
+		start,
+		end,
+		category,
+	}: {
+		interval?: '1h' | '1d' | '1w';
+		start?: string;
+		end?: string;
+		category?: string;
+	}) {
+		const endDate = end ? new Date(end) : new Date();
+		const startDate = start
+			? new Date(start)
+			: new Date(
+					endDate.getTime() - (interval === '1w' ? 7 : interval === '1h' ? 1 / 24 : 1) * MS_PER_DAY,
+				);
+		if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+			return fail(400, { error: 'invalid_date', message: 'start and end must be valid dates' });
+		}
+
+		// Include the bucket that contains the start time
+		const params: string[] = [this.getHourBucket(startDate.toISOString()), endDate.toISOString()];
+		let where = 'bucket >= ? AND bucket <= ?';
+		if (category) {
+			where += ' AND category = ?';
+			params.push(category);
+		}
+
+		const seriesRows = this.sql
+			.exec(
+				`SELECT bucket, outcome, SUM(quantity) as quantity
+				 FROM outcomes WHERE ${where}
+				 GROUP BY bucket, outcome
+				 ORDER BY bucket ASC`,
+				...params,
+			)
+			.toArray();
+
+		const emptyCounts = (): Record<Outcome, number> => ({
+			accepted: 0,
+			filtered: 0,
+			rate_limited: 0,
+			invalid: 0,
+			client_discard: 0,
+		});
+
+		const totals = emptyCounts();
+		const buckets = new Map<string, Record<Outcome, number>>();
+		for (const row of seriesRows) {
+			const bucket = row.bucket as string;
+			const outcome = row.outcome as Outcome;
+			const quantity = row.quantity as number;
+			if (!buckets.has(bucket)) {
+				buckets.set(bucket, emptyCounts());
+			}
+			buckets.get(bucket)![outcome] += quantity;
+			totals[outcome] += quantity;
+		}
+
+		const series = [...buckets.entries()].map(([bucket, counts]) => ({ bucket, ...counts }));
+
+		const reasonRows = this.sql
+			.exec(
+				`SELECT outcome, category, reason, SUM(quantity) as quantity
+				 FROM outcomes WHERE ${where} AND outcome != 'accepted'
+				 GROUP BY outcome, category, reason
+				 ORDER BY quantity DESC`,
+				...params,
+			)
+			.toArray();
+
+		const reasons = reasonRows.map((row) => ({
+			outcome: row.outcome as Outcome,
+			category: row.category as string,
+			reason: (row.reason as string) || null,
+			quantity: row.quantity as number,
+		}));
+
+		return ok({ totals, series, reasons });
+	}
+
+	async ingestSessions({
+		sessions = [],
+		aggregates = [],
+	}: {
+		sessions?: SessionUpdate[];
+		aggregates?: SessionAggregates[];
+	}) {
+		// Sessions are not subject to the event quota, only to their own category quota
+		const rateLimit = this.checkRateLimit('session');
+		if (rateLimit) {
+			const dropped =
+				sessions.length + aggregates.reduce((sum, a) => sum + (a.aggregates?.length || 0), 0);
+			this.recordOutcome('rate_limited', 'session', rateLimit.reasonCode, dropped);
+			return fail(429, { error: 'rate_limited', message: 'Quota exceeded', rateLimit });
+		}
+
+		const now = new Date().toISOString();
+		let accepted = 0;
+
+		for (const session of sessions) {
+			const release = session.attrs?.release;
+			if (!session.sid || !release) {
+				continue;
+			}
+
+			const seq = typeof session.seq === 'number' ? session.seq : 0;
+			const existing = this.sql
+				.exec('SELECT seq FROM release_sessions WHERE sid = ?', session.sid)
+				.toArray();
+
+			// Updates can arrive out of order; never let an older update overwrite a newer one
+			if (existing.length > 0 && (existing[0].seq as number) > seq) {
+				continue;
+			}
+
+			this.sql.exec(
+				`INSERT INTO release_sessions (sid, release, environment, distinct_id, status, errors, seq, started, last_seen)
+				 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+				 ON CONFLICT (sid) DO UPDATE SET
+				   status = excluded.status,
+				   errors = MAX(errors, excluded.errors),
+				   seq = excluded.seq,
+				   last_seen = excluded.last_seen`,
+				session.sid,
+				release,
+				session.attrs?.environment || '',
+				session.did || null,
+				session.status || 'ok',
+				Math.max(0, Number(session.errors) || 0),
+				seq,
+				session.started || now,
+				now,
+			);
+			this.touchRelease(release, now);
+			accepted++;
+		}
+
+		for (const payload of aggregates) {
+			const release = payload.attrs?.release;
+			if (!release) {
+				continue;
+			}
+
+			for (const aggregate of payload.aggregates) {
+				const started = new Date(aggregate.started);
+				if (Number.isNaN(started.getTime())) {
+					continue;
+				}
+
+				this.sql.exec(
+					`INSERT INTO release_session_buckets (release, environment, bucket, distinct_id, exited, errored, abnormal, crashed)
+					 VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+					 ON CONFLICT (release, environment, bucket, distinct_id) DO UPDATE SET
+					   exited = exited + excluded.exited,
+					   errored = errored + excluded.errored,
+					   abnormal = abnormal + excluded.abnormal,
+					   crashed = crashed + excluded.crashed`,
+					release,
+					payload.attrs?.environment || '',
+					this.getHourBucket(started.toISOString()),
+					aggregate.did || '',
+					Math.max(0, Number(aggregate.exited) || 0),
+					Math.max(0, Number(aggregate.errored) || 0),
+					Math.max(0, Number(aggregate.abnormal) || 0),
+					Math.max(0, Number(aggregate.crashed) || 0),
+				);
+				accepted++;
+			}
+			this.touchRelease(release, now);
+		}
+
+		if (accepted > 0) {
+			this.recordOutcome('accepted', 'session', undefined, accepted);
+		}
+
+		return ok({ accepted });
+	}
+
+	/**
+	 * Make sure a release seen only through sessions still shows up in the releases list.
+	 */
+	private touchRelease(version: string, now: string): void {
+		this.sql.exec(
+			`INSERT INTO releases (version, first_seen, last_seen, event_count, issue_count, new_issue_count)
+			 VALUES (?, ?, ?, 0, 0, 0)
+			 ON CONFLICT (version) DO UPDATE SET last_seen = ?`,
+			version,
+			now,
+			now,
+			now,
+		);
+	}
+
+	/**
+	 * Compute crash-free session and user rates for a release, overall and per environment.
+	 * Individual session updates and pre-aggregated buckets are combined. A session counts
+	 * as errored only if it had errors but did not crash or end abnormally.
+	 */
+	private getReleaseHealth(version: string): ReleaseHealth {
+		const sessionRows = this.sql
+			.exec(
+				`SELECT environment,
+				   SUM(total) as total, SUM(crashed) as crashed,
+				   SUM(errored) as errored, SUM(abnormal) as abnormal
+				 FROM (
+				   SELECT environment,
+				     1 as total,
+				     status = 'crashed' as crashed,
+				     status = 'abnormal' as abnormal,
+				     status NOT IN ('crashed', 'abnormal') AND (status = 'errored' OR errors > 0) as errored
+				   FROM release_sessions WHERE release = ?
+				   UNION ALL
+				   SELECT environment, exited + errored + abnormal + crashed, crashed, abnormal, errored
+				   FROM release_session_buckets WHERE release = ?
+				 )
+				 GROUP BY environment
+				 ORDER BY environment ASC`,
+				version,
+				version,
+			)
+			.toArray();
+
+		const userSql = `SELECT environment, COUNT(DISTINCT did) as total,
+			   COUNT(DISTINCT CASE WHEN crashed THEN did END) as crashed
+			 FROM (
+			   SELECT environment, distinct_id as did, status = 'crashed' as crashed
+			   FROM release_sessions WHERE release = ? AND distinct_id IS NOT NULL
+			   UNION ALL
+			   SELECT environment, distinct_id, crashed > 0
+			   FROM release_session_buckets WHERE release = ? AND distinct_id != ''
+			 )`;
+
+		const userRows = this.sql.exec(`${userSql} GROUP BY environment`, version, version).toArray();
+		const overallUsers = this.sql.exec(userSql, version, version).toArray()[0];
+
+		const crashFreeRate = (total: number, crashed: number): number | null =>
+			total > 0 ? Math.round((1 - crashed / total) * 10000) / 100 : null;
+
+		const buildStats = (
+			sessions: Record<string, SqlStorageValue> | undefined,
+			users: Record<string, SqlStorageValue> | undefined,
+		): ReleaseHealthStats => {
+			const sessionTotal = (sessions?.total as number) || 0;
+			const sessionCrashed = (sessions?.crashed as number) || 0;
+			const userTotal = (users?.total as number) || 0;
+			const userCrashed = (users?.crashed as number) || 0;
+			return {
+				sessions: {
+					total: sessionTotal,
+					crashed: sessionCrashed,
+					errored: (sessions?.errored as number) || 0,
+					abnormal: (sessions?.abnormal as number) || 0,
+					crashFreeRate: crashFreeRate(sessionTotal, sessionCrashed),
+				},
+				users: {
+					total: userTotal,
+					crashed: userCrashed,
+					crashFreeRate: crashFreeRate(userTotal, userCrashed),
+				},
+			};
+		};
+
+		const environments = sessionRows.map((row) => ({
+			environment: (row.environment as string) || null,
+			...buildStats(
+				row,
+				userRows.find((u) => u.environment === row.environment),
+			),
+		}));
+
+		const totals = sessionRows.reduce<Record<string, number>>(
+			(acc, row) => {
+				acc.total += row.total as number;
+				acc.crashed += row.crashed as number;
+				acc.errored += row.errored as number;
+				acc.abnormal += row.abnormal as number;
+				return acc;
+			},
+			{ total: 0, crashed: 0, errored: 0, abnormal: 0 },
+		);
+
+		return { ...buildStats(totals, overallUsers), environments };
+	}
+
+	getEnvironments() {
+		const rows = this.sql
+			.exec(
+				`SELECT environment, COUNT(DISTINCT issue_id) as issue_count, MAX(last_seen) as last_seen
+			 FROM issue_environments
+			 GROUP BY environment
+			 ORDER BY last_seen DESC`,
+			)
+			.toArray();
+
+		const environments = rows.map((row) => ({
+			name: row.environment as string,
+			issueCount: row.issue_count as number,
+			lastSeen: row.last_seen as string,
+		}));
+
+		return ok({ environments });
+	}
+
+	async getSummary() {
+		const now = new Date();
+		const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
+		const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+		// Issue counts by status
+		const statusCounts = this.sql
+			.exec('SELECT status, COUNT(*) as count FROM issues GROUP BY status')
+			.toArray();
+
+		const issuesByStatus: Record<string, number> = {};
+		for (const row of statusCounts) {
+			issuesByStatus[row.status as string] = row.count as number;
+		}
+
+		// Event counts for 24h and 7d
+		const events24h = this.sql
+			.exec('SELECT COUNT(*) as count FROM events WHERE received_at >= ?', oneDayAgo)
+			.one();
+		const events7d = this.sql
+			.exec('SELECT COUNT(*) as count FROM events WHERE received_at >= ?', sevenDaysAgo)
+			.one();
+
+		// Error trend: hourly buckets for last 7 days
+		const trendRows = this.sql
+			.exec(
+				`SELECT bucket, SUM(count) as count FROM issue_stats
+				 WHERE bucket >= ? GROUP BY bucket ORDER BY bucket ASC`,
+				sevenDaysAgo,
+			)
+			.toArray();
+
+		const trend = trendRows.map((row) => ({
+			bucket: row.bucket as string,
+			count: row.count as number,
+		}));
+
+		// Top 5 most active unresolved issues
+		const topIssueRows = this.sql
+			.exec(
+				`SELECT * FROM issues WHERE status = 'unresolved'
+				 ORDER BY issues.count DESC LIMIT 5`,
+			)
+			.toArray();
+
+		const topIssues = topIssueRows.map((row) => this.rowToIssue(row));
+
+		// Total unique users affected
+		const userCountRow = this.sql
+			.exec('SELECT COUNT(DISTINCT user_hash) as count FROM issue_users')
+			.one();
+
+		return ok({
+			issuesByStatus,
+			events24h: (events24h?.count as number) || 0,
+			events7d: (events7d?.count as number) || 0,
+			trend,
+			topIssues,
+			totalUsers: (userCountRow?.count as number) || 0,
+		});
+	}
 
+	async getComments({ issueId }: { issueId: string }) {
 		const rows = this.sql
 			.exec('SELECT * FROM issue_comments WHERE issue_id = ? ORDER BY created_at ASC', issueId)
 			.toArray();
@@ -1187,23 +2097,26 @@ export class ProjectState extends DurableObject<Env> {
 			createdAt: row.created_at as string,
 		}));
 
-		return this.jsonResponse({ comments });
+		return ok({ comments });
 	}
 
-	private async handleAddComment(request: Request): Promise<Response> {
-		const { issueId, userId, userName, body } = (await request.json()) as {
-			issueId: string;
-			userId: string;
-			userName: string;
-			body: string;
-		};
-
+	async addComment({
+		issueId,
+		userId,
+		userName,
+		body,
+	}: {
+		issueId: string;
+		userId: string;
+		userName: string;
+		body: string;
+	}) {
 		if (!body || body.trim().length === 0) {
-			return this.jsonResponse({ error: 'comment_body_required' }, 400);
+			return fail(400, { error: 'comment_body_required' });
 		}
 
 		if (body.length > 2000) {
-			return this.jsonResponse({ error: 'comment_body_too_long' }, 400);
+			return fail(400, { error: 'comment_body_too_long' });
 		}
 
 		const commentId = crypto.randomUUID();
@@ -1242,25 +2155,27 @@ export class ProjectState extends DurableObject<Env> {
 			createdAt: now,
 		};
 
-		return this.jsonResponse({ comment }, 201);
+		return ok({ comment }, 201);
 	}
 
-	private async handleDeleteComment(request: Request): Promise<Response> {
-		const { commentId, userId, issueId } = (await request.json()) as {
-			commentId: string;
-			userId: string;
-			issueId: string;
-		};
-
+	async deleteComment({
+		commentId,
+		userId,
+		issueId,
+	}: {
+		commentId: string;
+		userId: string;
+		issueId: string;
+	}) {
 		const rows = this.sql.exec('SELECT * FROM issue_comments WHERE id = ?', commentId).toArray();
 
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'comment_not_found' }, 404);
+			return fail(404, { error: 'comment_not_found' });
 		}
 
 		const comment = rows[0];
 		if (comment.user_id !== userId) {
-			return this.jsonResponse({ error: 'forbidden' }, 403);
+			return fail(403, { error: 'forbidden' });
 		}
 
 		this.sql.exec('DELETE FROM issue_comments WHERE id = ?', commentId);
@@ -1273,16 +2188,18 @@ export class ProjectState extends DurableObject<Env> {
 			commentId,
 		);
 
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
 	}
 
-	private async handleGetActivity(request: Request): Promise<Response> {
-		const { issueId, cursor, limit } = (await request.json()) as {
-			issueId: string;
-			cursor?: string;
-			limit?: number;
-		};
-
+	async getActivity({
+		issueId,
+		cursor,
+		limit,
+	}: {
+		issueId: string;
+		cursor?: string;
+		limit?: number;
+	}) {
 		const pageLimit = Math.min(limit || 50, 100);
 
 		let sql = 'SELECT * FROM issue_activity WHERE issue_id = ?';
@@ -1314,7 +2231,7 @@ export class ProjectState extends DurableObject<Env> {
 		const lastEntry = activity.length > 0 ? activity[activity.length - 1] : undefined;
 		const nextCursor = hasMore && lastEntry ? `${lastEntry.createdAt}|${lastEntry.id}` : undefined;
 
-		return this.jsonResponse({ activity, nextCursor, hasMore });
+		return ok({ activity, nextCursor, hasMore });
 	}
 
 	private async scheduleNextAlarm(): Promise<void> {
@@ -1339,24 +2256,37 @@ export class ProjectState extends DurableObject<Env> {
 			candidates.push(new Date(next).getTime());
 		}
 
+		// Consider the earliest cron monitor deadline (missed check-in or run timeout)
+		const monitorRows = this.sql
+			.exec(
+				`SELECT MIN(deadline) as next FROM (
+				   SELECT next_checkin_latest AS deadline FROM monitors
+				   WHERE status = 'active' AND next_checkin_latest IS NOT NULL
+				   UNION ALL
+				   SELECT timeout_at AS deadline FROM monitor_checkins
+				   WHERE status = 'in_progress' AND timeout_at IS NOT NULL
+				 )`,
+			)
+			.toArray();
+
+		const monitorDeadline = monitorRows[0]?.next as string | null;
+		if (monitorDeadline) {
+			candidates.push(new Date(monitorDeadline).getTime());
+		}
+
 		if (candidates.length > 0) {
 			await this.ctx.storage.setAlarm(Math.min(...candidates));
 		}
 	}
 
-	private async handleSnoozeIssue(request: Request): Promise<Response> {
-		const { issueId, duration } = (await request.json()) as {
-			issueId: string;
-			duration: string;
-		};
-
+	async snoozeIssue({ issueId, duration }: { issueId: string; duration: string }) {
 		if (!issueId || !duration) {
-			return this.jsonResponse({ error: 'missing_parameters' }, 400);
+			return fail(400, { error: 'missing_parameters' });
 		}
 
 		const rows = this.sql.exec('SELECT id FROM issues WHERE id = ?', issueId).toArray();
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'issue_not_found' }, 404);
+			return fail(404, { error: 'issue_not_found' });
 		}
 
 		this.sql.exec('UPDATE issues SET snoozed_until = ? WHERE id = ?', duration, issueId);
@@ -1364,25 +2294,23 @@ export class ProjectState extends DurableObject<Env> {
 		await this.scheduleNextAlarm();
 
 		const row = this.sql.exec('SELECT * FROM issues WHERE id = ?', issueId).one();
-		return this.jsonResponse({ issue: row ? this.rowToIssue(row) : null });
+		return ok({ issue: row ? this.rowToIssue(row) : null });
 	}
 
-	private async handleUnsnoozeIssue(request: Request): Promise<Response> {
-		const { issueId } = (await request.json()) as { issueId: string };
-
+	async unsnoozeIssue({ issueId }: { issueId: string }) {
 		if (!issueId) {
-			return this.jsonResponse({ error: 'missing_issue_id' }, 400);
+			return fail(400, { error: 'missing_issue_id' });
 		}
 
 		const rows = this.sql.exec('SELECT id FROM issues WHERE id = ?', issueId).toArray();
 		if (rows.length === 0) {
-			return this.jsonResponse({ error: 'issue_not_found' }, 404);
+			return fail(404, { error: 'issue_not_found' });
 		}
 
 		this.sql.exec('UPDATE issues SET snoozed_until = NULL WHERE id = ?', issueId);
 
 		const row = this.sql.exec('SELECT * FROM issues WHERE id = ?', issueId).one();
-		return this.jsonResponse({ issue: row ? this.rowToIssue(row) : null });
+		return ok({ issue: row ? this.rowToIssue(row) : null });
 	}
 
 	private static readonly VALID_FILTER_TYPES = new Set([
@@ -1404,16 +2332,12 @@ export class ProjectState extends DurableObject<Env> {
 
 			switch (filterType) {
 				case 'message': {
-					const message = (
-						event.exception?.values?.[0]?.value ||
-						event.message ||
-						''
-					).toLowerCase();
+					const message = (getMainException(event)?.value || event.message || '').toLowerCase();
 					matched = message.includes(pattern);
 					break;
 				}
 				case 'error_type': {
-					const type = (event.exception?.values?.[0]?.type || '').toLowerCase();
+					const type = (getMainException(event)?.type || '').toLowerCase();
 					matched = type.includes(pattern);
 					break;
 				}
@@ -1438,40 +2362,33 @@ export class ProjectState extends DurableObject<Env> {
 		return null;
 	}
 
-	private handleGetFilters(): Response {
+	getFilters() {
 		const rows = this.sql.exec('SELECT * FROM inbound_filters ORDER BY created_at DESC').toArray();
 		const filters = rows.map((row) => this.rowToFilter(row));
-		return this.jsonResponse({ filters });
+		return ok({ filters });
 	}
 
-	private async handleCreateFilter(request: Request): Promise<Response> {
-		const { filterType, pattern, description } = (await request.json()) as {
-			filterType: string;
-			pattern: string;
-			description?: string;
-		};
-
+	async createFilter({
+		filterType,
+		pattern,
+		description,
+	}: {
+		filterType: string;
+		pattern: string;
+		description?: string;
+	}) {
 		if (!filterType || !ProjectState.VALID_FILTER_TYPES.has(filterType)) {
-			return this.jsonResponse(
-				{ error: 'invalid_filter_type', message: 'Invalid filter type' },
-				400,
-			);
+			return fail(400, { error: 'invalid_filter_type', message: 'Invalid filter type' });
 		}
 
 		if (!pattern || pattern.length === 0 || pattern.length > 500) {
-			return this.jsonResponse(
-				{ error: 'invalid_pattern', message: 'Pattern must be 1-500 characters' },
-				400,
-			);
+			return fail(400, { error: 'invalid_pattern', message: 'Pattern must be 1-500 characters' });
 		}
 
 		// Enforce a limit of 100 filters per project
 		const countRow = this.sql.exec('SELECT COUNT(*) as cnt FROM inbound_filters').one();
 		if (countRow && (countRow.cnt as number) >= 100) {
-			return this.jsonResponse(
-				{ error: 'limit_reached', message: 'Maximum of 100 filters per project' },
-				400,
-			);
+			return fail(400, { error: 'limit_reached', message: 'Maximum of 100 filters per project' });
 		}
 
 		const id = crypto.randomUUID();
@@ -1488,19 +2405,22 @@ export class ProjectState extends DurableObject<Env> {
 		);
 
 		const row = this.sql.exec('SELECT * FROM inbound_filters WHERE id = ?', id).one();
-		return this.jsonResponse({ filter: row ? this.rowToFilter(row) : null }, 201);
+		return ok({ filter: row ? this.rowToFilter(row) : null }, 201);
 	}
 
-	private async handleUpdateFilter(request: Request): Promise<Response> {
-		const { filterId, enabled, pattern, description } = (await request.json()) as {
-			filterId: string;
-			enabled?: boolean;
-			pattern?: string;
-			description?: string | null;
-		};
-
+	async updateFilter({
+		filterId,
+		enabled,
+		pattern,
+		description,
+	}: {
+		filterId: string;
+		enabled?: boolean;
+		pattern?: string;
+		description?: string | null;
+	}) {
 		if (!filterId) {
-			return this.jsonResponse({ error: 'missing_filter_id' }, 400);
+			return fail(400, { error: 'missing_filter_id' });
 		}
 
 		// Check filter exists
@@ -1508,7 +2428,7 @@ export class ProjectState extends DurableObject<Env> {
 			.exec('SELECT id FROM inbound_filters WHERE id = ?', filterId)
 			.toArray();
 		if (existing.length === 0) {
-			return this.jsonResponse({ error: 'filter_not_found' }, 404);
+			return fail(404, { error: 'filter_not_found' });
 		}
 
 		const updates: string[] = [];
@@ -1521,10 +2441,7 @@ export class ProjectState extends DurableObject<Env> {
 
 		if (pattern !== undefined) {
 			if (pattern.length === 0 || pattern.length > 500) {
-				return this.jsonResponse(
-					{ error: 'invalid_pattern', message: 'Pattern must be 1-500 characters' },
-					400,
-				);
+				return fail(400, { error: 'invalid_pattern', message: 'Pattern must be 1-500 characters' });
 			}
 			updates.push('pattern = ?');
 			params.push(pattern);
@@ -1536,21 +2453,19 @@ export class ProjectState extends DurableObject<Env> {
 		}
 
 		if (updates.length === 0) {
-			return this.jsonResponse({ error: 'no_updates' }, 400);
+			return fail(400, { error: 'no_updates' });
 		}
 
 		params.push(filterId);
 		this.sql.exec(`UPDATE inbound_filters SET ${updates.join(', ')} WHERE id = ?`, ...params);
 
 		const row = this.sql.exec('SELECT * FROM inbound_filters WHERE id = ?', filterId).one();
-		return this.jsonResponse({ filter: row ? this.rowToFilter(row) : null });
+		return ok({ filter: row ? this.rowToFilter(row) : null });
 	}
 
-	private async handleDeleteFilter(request: Request): Promise<Response> {
-		const { filterId } = (await request.json()) as { filterId: string };
-
+	async deleteFilter({ filterId }: { filterId: string }) {
 		if (!filterId) {
-			return this.jsonResponse({ error: 'missing_filter_id' }, 400);
+			return fail(400, { error: 'missing_filter_id' });
 		}
 
 		// Check filter exists
@@ -1558,11 +2473,11 @@ export class ProjectState extends DurableObject<Env> {
 			.exec('SELECT id FROM inbound_filters WHERE id = ?', filterId)
 			.toArray();
 		if (existing.length === 0) {
-			return this.jsonResponse({ error: 'filter_not_found' }, 404);
+			return fail(404, { error: 'filter_not_found' });
 		}
 
 		this.sql.exec('DELETE FROM inbound_filters WHERE id = ?', filterId);
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
 	}
 
 	private rowToFilter(row: Record<string, SqlStorageValue>): InboundFilter {
@@ -1577,140 +2492,1675 @@ export class ProjectState extends DurableObject<Env> {
 		};
 	}
 
-	private getHourBucket(timestamp: string): string {
-		const date = new Date(timestamp);
-		date.setMinutes(0, 0, 0);
-		return date.toISOString();
+	private static readonly VALID_SAMPLING_CONDITIONS = new Set([
+		'environment',
+		'release',
+		'level',
+		'transaction',
+		'tag',
+	]);
+
+	/**
+	 * Find the first enabled sampling rule, oldest first, whose condition matches the event.
+	 */
+	private matchSamplingRule(event: SentryEvent): Record<string, SqlStorageValue> | null {
+		const rules = this.sql
+			.exec('SELECT * FROM sampling_rules WHERE enabled = 1 ORDER BY created_at ASC, rowid ASC')
+			.toArray();
+
+		for (const rule of rules) {
+			const value = rule.value as string;
+			let matched = false;
+
+			switch (rule.condition_type) {
+				case 'environment':
+					matched = (event.environment || '').toLowerCase() === value.toLowerCase();
+					break;
+				case 'release':
+					matched = event.release === value;
+					break;
+				case 'level':
+					matched = (event.level || 'error') === value;
+					break;
+				case 'transaction':
+					matched = event.transaction === value;
+					break;
+				case 'tag':
+					matched = event.tags?.[rule.tag_key as string] === value;
+					break;
+			}
+
+			if (matched) {
+				return rule;
+			}
+		}
+		return null;
 	}
 
-	private async hashUserIdentifier(user: SentryEvent['user']): Promise<string | null> {
-		if (!user) return null;
+	/**
+	 * List sampling rules with the effective sample rate of the last 24 hours: the share of
+	 * error events that were kept, across all rules and the events no rule matched.
+	 */
+	getSamplingRules() {
+		const rows = this.sql
+			.exec('SELECT * FROM sampling_rules ORDER BY created_at ASC, rowid ASC')
+			.toArray();
+		const rules = rows.map((row) => this.rowToSamplingRule(row));
 
-		const identifier = user.id || user.email || user.ip_address || user.username;
-		if (!identifier) return null;
+		const since = this.getHourBucket(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+		const totals = this.sql
+			.exec(
+				`SELECT
+				   COALESCE(SUM(CASE WHEN outcome = 'accepted' THEN quantity ELSE 0 END), 0) AS kept,
+				   COALESCE(SUM(CASE WHEN outcome = 'filtered' AND reason LIKE 'sampling:%' THEN quantity ELSE 0 END), 0) AS sampled_out
+				 FROM outcomes WHERE category = 'error' AND bucket >= ?`,
+				since,
+			)
+			.one();
+		const kept = totals.kept as number;
+		const seen = kept + (totals.sampled_out as number);
 
-		const encoder = new TextEncoder();
-		const data = encoder.encode(identifier);
-		const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-		const hashArray = Array.from(new Uint8Array(hashBuffer));
-		return hashArray
-			.map((b) => b.toString(16).padStart(2, '0'))
-			.join('')
-			.slice(0, 32);
+		return ok({ rules, effectiveSampleRate: seen > 0 ? kept / seen : null });
 	}
 
-	private rowToIssue(row: Record<string, SqlStorageValue>): Issue {
-		return {
+	async createSamplingRule({
+		conditionType,
+		tagKey,
+		value,
+		sampleRate,
+		description,
+	}: {
+		conditionType: string;
+		tagKey?: string;
+		value: string;
+		sampleRate: number;
+		description?: string;
+	}) {
+		if (!conditionType || !ProjectState.VALID_SAMPLING_CONDITIONS.has(conditionType)) {
+			return fail(400, { error: 'invalid_condition_type', message: 'Invalid condition type' });
+		}
+
+		if (conditionType === 'tag' && (!tagKey || tagKey.length > 200)) {
+			return fail(400, { error: 'invalid_tag_key', message: 'Tag key must be 1-200 characters' });
+		}
+
+		if (!value || value.length > 500) {
+			return fail(400, { error: 'invalid_value', message: 'Value must be 1-500 characters' });
+		}
+
+		if (!isValidSampleRate(sampleRate)) {
+			return fail(400, {
+				error: 'invalid_sample_rate',
+				message: 'Sample rate must be between 0 and 1',
+			});
+		}
+
+		// Enforce a limit of 100 sampling rules per project
+		const countRow = this.sql.exec('SELECT COUNT(*) as cnt FROM sampling_rules').one();
+		if (countRow && (countRow.cnt as number) >= 100) {
+			return fail(400, {
+				error: 'limit_reached',
+				message: 'Maximum of 100 sampling rules per project',
+			});
+		}
+
+		const id = crypto.randomUUID();
+		const now = new Date().toISOString();
+
+		this.sql.exec(
+			`INSERT INTO sampling_rules (id, condition_type, tag_key, value, sample_rate, enabled, description, kept_count, dropped_count, created_at)
+			 VALUES (?, ?, ?, ?, ?, 1, ?, 0, 0, ?)`,
+			id,
+			conditionType,
+			conditionType === 'tag' ? (tagKey as string) : null,
+			value,
+			sampleRate,
+			description || null,
+			now,
+		);
+
+		const row = this.sql.exec('SELECT * FROM sampling_rules WHERE id = ?', id).one();
+		return ok({ rule: row ? this.rowToSamplingRule(row) : null }, 201);
+	}
+
+	async updateSamplingRule({
+		ruleId,
+		enabled,
+		value,
+		sampleRate,
+		description,
+	}: {
+		ruleId: string;
+		enabled?: boolean;
+		value?: string;
+		sampleRate?: number;
+		description?: string | null;
+	}) {
+		if (!ruleId) {
+			return fail(400, { error: 'missing_rule_id' });
+		}
+
+		const existing = this.sql.exec('SELECT id FROM sampling_rules WHERE id = ?', ruleId).toArray();
+		if (existing.length === 0) {
+			return fail(404, { error: 'sampling_rule_not_found' });
+		}
+
+		const updates: string[] = [];
+		const params: (string | number | null)[] = [];
+
+		if (enabled !== undefined) {
+			updates.push('enabled = ?');
+			params.push(enabled ? 1 : 0);
+		}
+
+		if (value !== undefined) {
+			if (!value || value.length > 500) {
+				return fail(400, { error: 'invalid_value', message: 'Value must be 1-500 characters' });
+			}
+			updates.push('value = ?');
+			params.push(value);
+		}
+
+		if (sampleRate !== undefined) {
+			if (!isValidSampleRate(sampleRate)) {
+				return fail(400, {
+					error: 'invalid_sample_rate',
+					message: 'Sample rate must be between 0 and 1',
+				});
+			}
+			updates.push('sample_rate = ?');
+			params.push(sampleRate);
+		}
+
+		if (description !== undefined) {
+			updates.push('description = ?');
+			params.push(description);
+		}
+
+		if (updates.length === 0) {
+			return fail(400, { error: 'no_updates' });
+		}
+
+		params.push(ruleId);
+		this.sql.exec(`UPDATE sampling_rules SET ${updates.join(', ')} WHERE id = ?`, ...params);
+
+		const row = this.sql.exec('SELECT * FROM sampling_rules WHERE id = ?', ruleId).one();
+		return ok({ rule: row ? this.rowToSamplingRule(row) : null });
+	}
+
+	async deleteSamplingRule({ ruleId }: { ruleId: string }) {
+		if (!ruleId) {
+			return fail(400, { error: 'missing_rule_id' });
+		}
+
+		const existing = this.sql.exec('SELECT id FROM sampling_rules WHERE id = ?', ruleId).toArray();
+		if (existing.length === 0) {
+			return fail(404, { error: 'sampling_rule_not_found' });
+		}
+
+		this.sql.exec('DELETE FROM sampling_rules WHERE id = ?', ruleId);
+		return ok({ success: true });
+	}
+
+	private rowToSamplingRule(row: Record<string, SqlStorageValue>): SamplingRule {
+		return {
+			id: row.id as string,
+			conditionType: row.condition_type as SamplingConditionType,
+			tagKey: (row.tag_key as string) || null,
+			value: row.value as string,
+			sampleRate: row.sample_rate as number,
+			enabled: (row.enabled as number) === 1,
+			description: row.description as string | null,
+			keptCount: row.kept_count as number,
+			droppedCount: row.dropped_count as number,
+			createdAt: row.created_at as string,
+		};
+	}
+
+	private getHourBucket(timestamp: string): string {
+		const date = new Date(timestamp);
+		date.setMinutes(0, 0, 0);
+		return date.toISOString();
+	}
+
+	private async hashUserIdentifier(user: SentryEvent['user']): Promise<string | null> {
+		if (!user) return null;
+
+		const identifier = user.id || user.email || user.ip_address || user.username;
+		if (!identifier) return null;
+
+		const encoder = new TextEncoder();
+		const data = encoder.encode(identifier);
+		const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+		const hashArray = Array.from(new Uint8Array(hashBuffer));
+		return hashArray
+			.map((b) => b.toString(16).padStart(2, '0'))
+			.join('')
+			.slice(0, 32);
+	}
+
+	private rowToIssue(row: Record<string, SqlStorageValue>): Issue {
+		return {
+			id: row.id as string,
+			fingerprint: row.fingerprint as string,
+			title: row.title as string,
+			culprit: row.culprit as string | null,
+			level: row.level as Issue['level'],
+			platform: row.platform as string,
+			firstSeen: row.first_seen as string,
+			lastSeen: row.last_seen as string,
+			count: row.count as number,
+			userCount: row.user_count as number,
+			status: row.status as Issue['status'],
+			snoozedUntil: (row.snoozed_until as string) || null,
+			metadata: JSON.parse((row.metadata as string) || '{}'),
+		};
+	}
+
+	private warmRateLimitCounter(): void {
+		const bucket = this.getHourBucket(new Date().toISOString());
+		this.rateLimitBucket = bucket;
+		// Check persisted counter first
+		const row = this.sql
+			.exec('SELECT count FROM rate_limit_counters WHERE bucket = ?', bucket)
+			.toArray();
+		if (row.length > 0) {
+			this.rateLimitCount = row[0].count as number;
+		} else {
+			// Fallback: sum from issue_stats for this hour
+			const statsRow = this.sql
+				.exec('SELECT COALESCE(SUM(count), 0) as total FROM issue_stats WHERE bucket = ?', bucket)
+				.one();
+			this.rateLimitCount = (statsRow?.total as number) || 0;
+		}
+	}
+
+	/**
+	 * Check whether one more item of a category can be accepted.
+	 * Errors and transactions share the project-wide hourly event quota; every
+	 * category can additionally have its own hourly and daily quota.
+	 * Returns the limit that was hit, or null when the item is allowed.
+	 */
+	private checkRateLimit(category: QuotaCategory): RateLimit | null {
+		if (category === 'error' || category === 'transaction') {
+			const retryAfter = this.checkProjectQuota();
+			if (retryAfter !== null) {
+				return { categories: ['error', 'transaction'], retryAfter, reasonCode: 'project_quota' };
+			}
+
+			if (this.isSpikeThrottled()) {
+				return {
+					categories: ['error', 'transaction'],
+					retryAfter: this.secondsUntilNextHour(),
+					reasonCode: 'spike_protection',
+				};
+			}
+		}
+
+		const quota = this.getQuota(category);
+		const now = new Date();
+
+		if (quota.hourly > 0) {
+			const hourStart = this.getHourBucket(now.toISOString());
+			if (this.getAcceptedCount(category, hourStart) >= quota.hourly) {
+				const nextHour = new Date(hourStart).getTime() + 60 * 60 * 1000;
+				return {
+					categories: [category],
+					retryAfter: Math.ceil((nextHour - now.getTime()) / 1000),
+					reasonCode: 'hourly_quota',
+				};
+			}
+		}
+
+		if (quota.daily > 0) {
+			const dayStart = this.getDayStart(now);
+			if (this.getAcceptedCount(category, dayStart.toISOString()) >= quota.daily) {
+				const nextDay = dayStart.getTime() + MS_PER_DAY;
+				return {
+					categories: [category],
+					retryAfter: Math.ceil((nextDay - now.getTime()) / 1000),
+					reasonCode: 'daily_quota',
+				};
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Check the project-wide hourly event quota.
+	 * Returns the seconds until the quota resets when it is exhausted, otherwise null.
+	 */
+	private checkProjectQuota(): number | null {
+		const maxPerHour = this.getConfigValue('max_events_per_hour');
+		if (!maxPerHour || maxPerHour === '0') {
+			return null;
+		}
+		const limit = Number.parseInt(maxPerHour, 10);
+		if (limit <= 0) return null;
+
+		this.rollRateLimitBucket();
+
+		if (this.rateLimitCount >= limit) {
+			return this.secondsUntilNextHour();
+		}
+		return null;
+	}
+
+	/**
+	 * Reset the in-memory hourly counter when a new hour starts. Older counters are
+	 * kept for the spike protection baseline window.
+	 */
+	private rollRateLimitBucket(): string {
+		const currentBucket = this.getHourBucket(new Date().toISOString());
+		if (currentBucket !== this.rateLimitBucket) {
+			this.rateLimitBucket = currentBucket;
+			this.rateLimitCount = 0;
+			const windowStart = new Date(
+				new Date(currentBucket).getTime() - SPIKE_BASELINE_HOURS * MS_PER_HOUR,
+			).toISOString();
+			this.sql.exec('DELETE FROM rate_limit_counters WHERE bucket < ?', windowStart);
+		}
+		return currentBucket;
+	}
+
+	private secondsUntilNextHour(): number {
+		const now = new Date();
+		const nextHour = new Date(now);
+		nextHour.setMinutes(0, 0, 0);
+		nextHour.setHours(nextHour.getHours() + 1);
+		return Math.ceil((nextHour.getTime() - now.getTime()) / 1000);
+	}
+
+	/**
+	 * Whether spike protection should drop the next event: the current hour is above
+	 * multiplier x baseline and has already reached the spike ceiling. Projects with
+	 * less than SPIKE_MIN_HISTORY_HOURS of history are never throttled.
+	 */
+	private isSpikeThrottled(): boolean {
+		const config = this.getSpikeConfig();
+		if (!config.enabled) return false;
+
+		this.rollRateLimitBucket();
+		if (this.rateLimitCount < config.ceiling) return false;
+		if (this.getSpikeHistoryHours() < SPIKE_MIN_HISTORY_HOURS) return false;
+
+		return this.rateLimitCount > this.getSpikeThreshold(config);
+	}
+
+	private getSpikeThreshold(config: SpikeProtectionConfig): number {
+		return Math.ceil(this.getSpikeBaseline() * config.multiplier);
+	}
+
+	/**
+	 * Average events per hour over the baseline window, excluding the current hour.
+	 */
+	private getSpikeBaseline(): number {
+		return this.loadSpikeBaseline().value;
+	}
+
+	/**
+	 * Hours between the oldest traffic in the baseline window and the current hour.
+	 */
+	private getSpikeHistoryHours(): number {
+		return this.loadSpikeBaseline().historyHours;
+	}
+
+	/**
+	 * Hourly volume over the baseline window. Received counts from rate_limit_counters
+	 * take precedence; issue_stats fills in hours from before the counters were kept.
+	 * Cached until the hour changes.
+	 */
+	private loadSpikeBaseline(): { value: number; historyHours: number } {
+		const currentBucket = this.rollRateLimitBucket();
+		if (this.spikeBaseline?.bucket === currentBucket) {
+			return this.spikeBaseline;
+		}
+
+		const windowStart = new Date(
+			new Date(currentBucket).getTime() - SPIKE_BASELINE_HOURS * MS_PER_HOUR,
+		).toISOString();
+		const hourly = new Map<string, number>();
+		const statsRows = this.sql
+			.exec(
+				`SELECT bucket, SUM(count) as count FROM issue_stats
+				 WHERE bucket >= ? AND bucket < ? GROUP BY bucket`,
+				windowStart,
+				currentBucket,
+			)
+			.toArray();
+		for (const row of statsRows) {
+			hourly.set(row.bucket as string, row.count as number);
+		}
+		const counterRows = this.sql
+			.exec(
+				'SELECT bucket, count FROM rate_limit_counters WHERE bucket >= ? AND bucket < ?',
+				windowStart,
+				currentBucket,
+			)
+			.toArray();
+		for (const row of counterRows) {
+			hourly.set(row.bucket as string, row.count as number);
+		}
+
+		let total = 0;
+		let oldest = currentBucket;
+		for (const [bucket, count] of hourly) {
+			total += count;
+			if (count > 0 && bucket < oldest) oldest = bucket;
+		}
+		const value = Math.round((total / SPIKE_BASELINE_HOURS) * 100) / 100;
+		const historyHours =
+			(new Date(currentBucket).getTime() - new Date(oldest).getTime()) / MS_PER_HOUR;
+		this.spikeBaseline = { bucket: currentBucket, value, historyHours };
+		return this.spikeBaseline;
+	}
+
+	/**
+	 * Count an event dropped by spike protection in the current hour's spike entry.
+	 * Returns the spike when this drop started it, so the caller can send a notification.
+	 */
+	private recordSpikeDrop(): Spike | null {
+		const bucket = this.rollRateLimitBucket();
+		const updated = this.sql.exec(
+			'UPDATE spikes SET dropped = dropped + 1 WHERE bucket = ?',
+			bucket,
+		).rowsWritten;
+		if (updated > 0) return null;
+
+		const config = this.getSpikeConfig();
+		const spike: Spike = {
+			bucket,
+			startedAt: new Date().toISOString(),
+			baseline: this.getSpikeBaseline(),
+			threshold: this.getSpikeThreshold(config),
+			ceiling: config.ceiling,
+			dropped: 1,
+		};
+		this.sql.exec(
+			`INSERT INTO spikes (bucket, started_at, baseline, threshold, ceiling, dropped)
+			 VALUES (?, ?, ?, ?, ?, ?)`,
+			spike.bucket,
+			spike.startedAt,
+			spike.baseline,
+			spike.threshold,
+			spike.ceiling,
+			spike.dropped,
+		);
+		return spike;
+	}
+
+	private getSpikeConfig(): SpikeProtectionConfig {
+		const multiplier = Number.parseFloat(this.getConfigValue('spike_multiplier') || '');
+		const ceiling = Number.parseInt(this.getConfigValue('spike_ceiling') || '', 10);
+		return {
+			enabled: this.getConfigValue('spike_protection_enabled') === '1',
+			multiplier: Number.isNaN(multiplier) ? DEFAULT_SPIKE_MULTIPLIER : multiplier,
+			ceiling: Number.isNaN(ceiling) ? DEFAULT_SPIKE_CEILING : ceiling,
+		};
+	}
+
+	/**
+	 * Hours in which spike protection dropped events, most recent first.
+	 */
+	getSpikes({ limit = 50 }: { limit?: number } = {}) {
+		const rows = this.sql
+			.exec('SELECT * FROM spikes ORDER BY bucket DESC LIMIT ?', Math.min(limit, 100))
+			.toArray();
+		const spikes: Spike[] = rows.map((row) => ({
+			bucket: row.bucket as string,
+			startedAt: row.started_at as string,
+			baseline: row.baseline as number,
+			threshold: row.threshold as number,
+			ceiling: row.ceiling as number,
+			dropped: row.dropped as number,
+		}));
+		return ok({ spikes });
+	}
+
+	/**
+	 * Count accepted items of a category since the given hour bucket, using the outcome counters.
+	 */
+	private getAcceptedCount(category: QuotaCategory, since: string): number {
+		const row = this.sql
+			.exec(
+				`SELECT COALESCE(SUM(quantity), 0) as total FROM outcomes
+				 WHERE outcome = 'accepted' AND category = ? AND bucket >= ?`,
+				category,
+				since,
+			)
+			.one();
+		return (row?.total as number) || 0;
+	}
+
+	private getDayStart(date: Date): Date {
+		const day = new Date(date);
+		day.setUTCHours(0, 0, 0, 0);
+		return day;
+	}
+
+	private getQuota(category: QuotaCategory): CategoryQuota {
+		return {
+			hourly: Number.parseInt(this.getConfigValue(`quota_${category}_hourly`) || '0', 10),
+			daily: Number.parseInt(this.getConfigValue(`quota_${category}_daily`) || '0', 10),
+		};
+	}
+
+	private incrementRateLimitCounter(): void {
+		const currentBucket = this.rollRateLimitBucket();
+		this.rateLimitCount++;
+		this.sql.exec(
+			'INSERT INTO rate_limit_counters (bucket, count) VALUES (?, 1) ON CONFLICT(bucket) DO UPDATE SET count = count + 1',
+			currentBucket,
+		);
+	}
+
+	private getConfigValue(key: string): string | null {
+		const rows = this.sql.exec('SELECT value FROM project_config WHERE key = ?', key).toArray();
+		return rows.length > 0 ? (rows[0].value as string) : null;
+	}
+
+	private setConfigValue(key: string, value: string): void {
+		this.sql.exec(
+			'INSERT INTO project_config (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = ?',
+			key,
+			value,
+			value,
+		);
+	}
+
+	getConfig() {
+		const maxEventsPerHour = this.getConfigValue('max_events_per_hour') || '0';
+		const quotas = Object.fromEntries(
+			QUOTA_CATEGORIES.map((category) => [category, this.getQuota(category)]),
+		) as Record<QuotaCategory, CategoryQuota>;
+		return ok({
+			config: {
+				maxEventsPerHour: Number.parseInt(maxEventsPerHour, 10),
+				quotas,
+				spikeProtection: this.getSpikeConfig(),
+			},
+		});
+	}
+
+	async updateConfig({
+		maxEventsPerHour,
+		quotas,
+		spikeProtection,
+	}: {
+		maxEventsPerHour?: number;
+		quotas?: Partial<Record<QuotaCategory, Partial<CategoryQuota>>>;
+		spikeProtection?: Partial<SpikeProtectionConfig>;
+	}) {
+		if (maxEventsPerHour !== undefined) {
+			if (typeof maxEventsPerHour !== 'number' || maxEventsPerHour < 0) {
+				return fail(400, {
+					error: 'invalid_value',
+					message: 'maxEventsPerHour must be a non-negative number',
+				});
+			}
+		}
+
+		// Validate every quota before writing any of them
+		const updates: Array<[string, string]> = [];
+		for (const [category, quota] of Object.entries(quotas || {})) {
+			if (!QUOTA_CATEGORIES.includes(category as QuotaCategory)) {
+				return fail(400, {
+					error: 'invalid_category',
+					message: `Quota category must be one of: ${QUOTA_CATEGORIES.join(', ')}`,
+				});
+			}
+			for (const window of ['hourly', 'daily'] as const) {
+				const value = quota?.[window];
+				if (value === undefined) continue;
+				if (typeof value !== 'number' || value < 0) {
+					return fail(400, {
+						error: 'invalid_value',
+						message: `${category} ${window} quota must be a non-negative number`,
+					});
+				}
+				updates.push([`quota_${category}_${window}`, String(Math.floor(value))]);
+			}
+		}
+
+		if (spikeProtection) {
+			const { enabled, multiplier, ceiling } = spikeProtection;
+			if (enabled !== undefined) {
+				if (typeof enabled !== 'boolean') {
+					return fail(400, { error: 'invalid_value', message: 'enabled must be a boolean' });
+				}
+				updates.push(['spike_protection_enabled', enabled ? '1' : '0']);
+			}
+			if (multiplier !== undefined) {
+				if (typeof multiplier !== 'number' || multiplier < 1) {
+					return fail(400, {
+						error: 'invalid_value',
+						message: 'multiplier must be a number of at least 1',
+					});
+				}
+				updates.push(['spike_multiplier', String(multiplier)]);
+			}
+			if (ceiling !== undefined) {
+				if (typeof ceiling !== 'number' || ceiling < 0) {
+					return fail(400, {
+						error: 'invalid_value',
+						message: 'ceiling must be a non-negative number',
+					});
+				}
+				updates.push(['spike_ceiling', String(Math.floor(ceiling))]);
+			}
+		}
+
+		if (maxEventsPerHour !== undefined) {
+			this.setConfigValue('max_events_per_hour', String(Math.floor(maxEventsPerHour)));
+		}
+		for (const [key, value] of updates) {
+			this.setConfigValue(key, value);
+		}
+
+		return this.getConfig();
+	}
+
+	/**
+	 * Count an envelope's events and transactions against a client key's hourly limit.
+	 * When they would exceed it, or the limit is already used up, nothing is counted and
+	 * the limit is returned.
+	 */
+	async checkKeyRateLimit({
+		keyId,
+		limit,
+		errors,
+		transactions,
+	}: {
+		keyId: string;
+		limit: number;
+		errors: number;
+		transactions: number;
+	}) {
+		if (!keyId || !(limit > 0)) {
+			return fail(400, { error: 'missing_fields' });
+		}
+
+		const bucket = this.getHourBucket(new Date().toISOString());
+		this.sql.exec(
+			'DELETE FROM key_rate_limit_counters WHERE key_id = ? AND bucket < ?',
+			keyId,
+			bucket,
+		);
+		const rows = this.sql
+			.exec(
+				'SELECT count FROM key_rate_limit_counters WHERE key_id = ? AND bucket = ?',
+				keyId,
+				bucket,
+			)
+			.toArray();
+		const count = rows.length > 0 ? (rows[0].count as number) : 0;
+
+		if (count >= limit || count + errors + transactions > limit) {
+			if (errors > 0) this.recordOutcome('rate_limited', 'error', 'key_quota', errors);
+			if (transactions > 0) {
+				this.recordOutcome('rate_limited', 'transaction', 'key_quota', transactions);
+			}
+			const rateLimit: RateLimit = {
+				categories: ['error', 'transaction'],
+				retryAfter: this.secondsUntilNextHour(),
+				reasonCode: 'key_quota',
+			};
+			return ok({ rateLimit });
+		}
+
+		this.sql.exec(
+			`INSERT INTO key_rate_limit_counters (key_id, bucket, count) VALUES (?, ?, ?)
+			 ON CONFLICT (key_id, bucket) DO UPDATE SET count = count + excluded.count`,
+			keyId,
+			bucket,
+			errors + transactions,
+		);
+		return ok({ rateLimit: null });
+	}
+
+	getRateLimitStatus() {
+		const maxPerHour = Number.parseInt(this.getConfigValue('max_events_per_hour') || '0', 10);
+		const currentBucket = this.getHourBucket(new Date().toISOString());
+		let currentCount = this.rateLimitCount;
+		if (currentBucket !== this.rateLimitBucket) {
+			currentCount = 0;
+		}
+		const dayStart = this.getDayStart(new Date()).toISOString();
+		const quotas = QUOTA_CATEGORIES.map((category) => {
+			const quota = this.getQuota(category);
+			return {
+				category,
+				hourly: { limit: quota.hourly, used: this.getAcceptedCount(category, currentBucket) },
+				daily: { limit: quota.daily, used: this.getAcceptedCount(category, dayStart) },
+			};
+		});
+
+		const spikeConfig = this.getSpikeConfig();
+		const spikeActive =
+			this.sql.exec('SELECT 1 FROM spikes WHERE bucket = ?', currentBucket).toArray().length > 0;
+
+		return ok({
+			maxEventsPerHour: maxPerHour,
+			currentHourCount: currentCount,
+			currentBucket,
+			isLimited: maxPerHour > 0 && currentCount >= maxPerHour,
+			quotas,
+			spikeProtection: {
+				...spikeConfig,
+				baseline: this.getSpikeBaseline(),
+				threshold: this.getSpikeThreshold(spikeConfig),
+				isActive: spikeActive,
+			},
+		});
+	}
+
+	/**
+	 * Record cron monitor check-ins from one envelope.
+	 * Check-ins carrying a `monitor_config` create or update their monitor, as Sentry SDKs
+	 * upsert monitors that way. Failed runs open an issue, returned for webhook delivery.
+	 */
+	async ingestCheckIns({ checkIns }: { checkIns?: SentryCheckIn[] }) {
+		if (!Array.isArray(checkIns)) {
+			return fail(400, { error: 'invalid_check_ins' });
+		}
+
+		const issues = this.ctx.storage.transactionSync(() =>
+			checkIns.flatMap((checkIn) => {
+				const issue = this.ingestCheckIn(checkIn);
+				return issue ? [issue] : [];
+			}),
+		);
+		await this.scheduleNextAlarm();
+
+		return ok({ issues });
+	}
+
+	private ingestCheckIn(checkIn: SentryCheckIn): IngestResult | null {
+		const slug = checkIn.monitor_slug.toLowerCase();
+		let monitor = this.getMonitorBySlug(slug);
+
+		if (checkIn.monitor_config) {
+			const { schedule, timezone } = checkIn.monitor_config;
+			const config = {
+				// SDKs send the crontab's time zone next to the schedule
+				schedule: schedule?.type === 'crontab' && timezone ? { ...schedule, timezone } : schedule,
+				checkinMargin: checkIn.monitor_config.checkin_margin ?? DEFAULT_CHECKIN_MARGIN,
+				maxRuntime: checkIn.monitor_config.max_runtime ?? DEFAULT_MAX_RUNTIME,
+			};
+			const invalid = this.validateMonitorConfig(config);
+			if (!invalid && !monitor && MONITOR_SLUG_PATTERN.test(slug)) {
+				// The DSN is public, so check-ins may only create monitors up to the same limit
+				if (this.monitorLimitReached()) {
+					this.recordOutcome('invalid', 'monitor', 'monitor_limit');
+					return null;
+				}
+				this.insertMonitor({ slug, name: checkIn.monitor_slug, ...config });
+				monitor = this.getMonitorBySlug(slug);
+			} else if (!invalid && monitor) {
+				this.sql.exec(
+					'UPDATE monitors SET schedule = ?, checkin_margin = ?, max_runtime = ? WHERE id = ?',
+					JSON.stringify(config.schedule),
+					config.checkinMargin,
+					config.maxRuntime,
+					monitor.id,
+				);
+				monitor = { ...monitor, ...config };
+			}
+		}
+
+		if (!monitor) {
+			this.recordOutcome('invalid', 'monitor', 'monitor_not_found');
+			return null;
+		}
+		if (monitor.status === 'disabled') {
+			this.recordOutcome('filtered', 'monitor', 'monitor_disabled');
+			return null;
+		}
+
+		const now = new Date();
+		const nowIso = now.toISOString();
+		const status =
+			checkIn.status === 'in_progress' || checkIn.status === 'ok' ? checkIn.status : 'error';
+		const existing = this.sql
+			.exec(
+				'SELECT status, created_at FROM monitor_checkins WHERE id = ? AND monitor_id = ?',
+				checkIn.check_in_id,
+				monitor.id,
+			)
+			.toArray()[0];
+
+		if (existing) {
+			// Only a run that is still in progress can be finished; later updates are stale
+			if (existing.status !== 'in_progress') {
+				this.recordOutcome('invalid', 'monitor', 'check_in_finished');
+				return null;
+			}
+			const duration =
+				checkIn.duration ??
+				(now.getTime() - new Date(existing.created_at as string).getTime()) / 1000;
+			this.sql.exec(
+				`UPDATE monitor_checkins SET status = ?, duration = ?, timeout_at = ?, updated_at = ?
+				 WHERE id = ?`,
+				status,
+				status === 'in_progress' ? null : duration,
+				status === 'in_progress' ? this.addMinutes(now, monitor.maxRuntime) : null,
+				nowIso,
+				checkIn.check_in_id,
+			);
+		} else {
+			this.sql.exec(
+				`INSERT INTO monitor_checkins (id, monitor_id, status, duration, environment, release, expected_at, timeout_at, created_at, updated_at)
+				 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				checkIn.check_in_id,
+				monitor.id,
+				status,
+				checkIn.duration ?? null,
+				checkIn.environment || null,
+				checkIn.release || null,
+				monitor.nextCheckIn,
+				status === 'in_progress' ? this.addMinutes(now, monitor.maxRuntime) : null,
+				nowIso,
+				nowIso,
+			);
+
+			// A new run moves the expected time of the next one
+			this.setNextCheckIn(monitor, getNextCheckIn(monitor.schedule, now));
+			this.sql.exec('UPDATE monitors SET last_checkin = ? WHERE id = ?', nowIso, monitor.id);
+		}
+
+		if (status !== 'in_progress') {
+			this.sql.exec('UPDATE monitors SET health = ? WHERE id = ?', status, monitor.id);
+		}
+		this.recordOutcome('accepted', 'monitor');
+
+		if (status === 'error') {
+			return this.openMonitorIssue(monitor, 'error', checkIn.check_in_id, {
+				environment: checkIn.environment,
+				release: checkIn.release,
+			});
+		}
+		return null;
+	}
+
+	/**
+	 * Mark runs that exceeded their max runtime as timed out, and record a missed
+	 * check-in for monitors whose expected check-in is past its margin.
+	 */
+	private detectMonitorFailures(): void {
+		const now = new Date();
+		const nowIso = now.toISOString();
+
+		const timedOut = this.sql
+			.exec(
+				`SELECT c.id AS checkin_id, c.environment, c.release, m.*
+				 FROM monitor_checkins c JOIN monitors m ON m.id = c.monitor_id
+				 WHERE c.status = 'in_progress' AND c.timeout_at <= ?`,
+				nowIso,
+			)
+			.toArray();
+		for (const row of timedOut) {
+			const monitor = this.rowToMonitor(row);
+			const checkInId = row.checkin_id as string;
+			this.sql.exec(
+				`UPDATE monitor_checkins SET status = 'timeout', timeout_at = NULL, updated_at = ?
+				 WHERE id = ?`,
+				nowIso,
+				checkInId,
+			);
+			this.sql.exec("UPDATE monitors SET health = 'timeout' WHERE id = ?", monitor.id);
+			this.openMonitorIssue(monitor, 'timeout', checkInId, {
+				environment: row.environment as string | null,
+				release: row.release as string | null,
+			});
+		}
+
+		const overdue = this.sql
+			.exec("SELECT * FROM monitors WHERE status = 'active' AND next_checkin_latest <= ?", nowIso)
+			.toArray();
+		for (const row of overdue) {
+			const monitor = this.rowToMonitor(row);
+			const expectedAt = new Date(monitor.nextCheckIn ?? nowIso);
+			const checkInId = crypto.randomUUID().replace(/-/g, '');
+			this.sql.exec(
+				`INSERT INTO monitor_checkins (id, monitor_id, status, expected_at, created_at, updated_at)
+				 VALUES (?, ?, 'missed', ?, ?, ?)`,
+				checkInId,
+				monitor.id,
+				expectedAt.toISOString(),
+				nowIso,
+				nowIso,
+			);
+			this.sql.exec("UPDATE monitors SET health = 'missed' WHERE id = ?", monitor.id);
+
+			// Runs missed while the alarm was not firing collapse into this one entry
+			let next = getNextCheckIn(monitor.schedule, expectedAt);
+			if (next && next.getTime() + monitor.checkinMargin * 60_000 <= now.getTime()) {
+				next = getNextCheckIn(monitor.schedule, now);
+			}
+			this.setNextCheckIn(monitor, next);
+
+			this.openMonitorIssue(monitor, 'missed', checkInId, {});
+		}
+	}
+
+	/**
+	 * Open (or add an event to) the issue for a failed monitor run through the regular
+	 * ingest pipeline, and link it to the check-in.
+	 */
+	private openMonitorIssue(
+		monitor: Monitor,
+		kind: keyof typeof MONITOR_FAILURES,
+		checkInId: string,
+		{ environment, release }: { environment?: string | null; release?: string | null },
+	): IngestResult {
+		const messages = {
+			error: `Monitor ${monitor.slug} reported a failed check-in`,
+			missed: `Monitor ${monitor.slug} missed its expected check-in`,
+			timeout: `Monitor ${monitor.slug} exceeded its max runtime of ${monitor.maxRuntime} minutes`,
+		};
+
+		const result = this.ingestEvent(
+			{
+				event_id: crypto.randomUUID().replace(/-/g, ''),
+				timestamp: new Date().toISOString(),
+				platform: 'other',
+				level: 'error',
+				logger: 'monitors',
+				environment: environment || undefined,
+				release: release || undefined,
+				exception: { values: [{ type: MONITOR_FAILURES[kind], value: messages[kind] }] },
+				fingerprint: ['monitor', monitor.slug, kind],
+				tags: { 'monitor.slug': monitor.slug },
+				contexts: {
+					monitor: { id: monitor.id, slug: monitor.slug, name: monitor.name, checkInId },
+				},
+			},
+			null,
+			this.getGroupingRules(),
+		);
+
+		if (result.status === 'accepted') {
+			this.sql.exec(
+				'UPDATE monitor_checkins SET issue_id = ? WHERE id = ?',
+				result.issueId,
+				checkInId,
+			);
+		}
+		return result;
+	}
+
+	getMonitors() {
+		const rows = this.sql.exec('SELECT * FROM monitors ORDER BY name').toArray();
+		return ok({ monitors: rows.map((row) => this.rowToMonitor(row)) });
+	}
+
+	async getMonitor({ monitorSlug, limit = 50 }: { monitorSlug: string; limit?: number }) {
+		const monitor = this.getMonitorBySlug(monitorSlug);
+		if (!monitor) {
+			return fail(404, { error: 'monitor_not_found' });
+		}
+
+		const checkIns = this.sql
+			.exec(
+				'SELECT * FROM monitor_checkins WHERE monitor_id = ? ORDER BY created_at DESC LIMIT ?',
+				monitor.id,
+				Math.min(Math.max(limit, 1), 200),
+			)
+			.toArray()
+			.map((row) => this.rowToCheckIn(row));
+
+		return ok({ monitor, checkIns });
+	}
+
+	async createMonitor({
+		slug,
+		name,
+		schedule,
+		checkinMargin = DEFAULT_CHECKIN_MARGIN,
+		maxRuntime = DEFAULT_MAX_RUNTIME,
+	}: {
+		slug: string;
+		name?: string;
+		schedule: MonitorSchedule;
+		checkinMargin?: number;
+		maxRuntime?: number;
+	}) {
+		if (typeof slug !== 'string' || !MONITOR_SLUG_PATTERN.test(slug)) {
+			return fail(400, {
+				error: 'invalid_slug',
+				message: 'Slug must be lowercase letters, numbers, dashes or underscores',
+			});
+		}
+
+		const invalid = this.validateMonitorConfig({ schedule, checkinMargin, maxRuntime });
+		if (invalid) {
+			return fail(400, invalid);
+		}
+
+		if (this.getMonitorBySlug(slug)) {
+			return fail(409, { error: 'monitor_exists', message: 'A monitor with this slug exists' });
+		}
+
+		if (this.monitorLimitReached()) {
+			return fail(400, { error: 'limit_reached', message: 'Maximum of 100 monitors per project' });
+		}
+
+		this.insertMonitor({ slug, name: name?.trim() || slug, schedule, checkinMargin, maxRuntime });
+		return ok({ monitor: this.getMonitorBySlug(slug) }, 201);
+	}
+
+	async updateMonitor({
+		monitorSlug,
+		name,
+		schedule,
+		checkinMargin,
+		maxRuntime,
+		status,
+	}: {
+		monitorSlug: string;
+		name?: string;
+		schedule?: MonitorSchedule;
+		checkinMargin?: number;
+		maxRuntime?: number;
+		status?: MonitorStatus;
+	}) {
+		const monitor = this.getMonitorBySlug(monitorSlug);
+		if (!monitor) {
+			return fail(404, { error: 'monitor_not_found' });
+		}
+
+		if (status !== undefined && status !== 'active' && status !== 'disabled') {
+			return fail(400, { error: 'invalid_status', message: 'Status must be active or disabled' });
+		}
+		if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+			return fail(400, { error: 'invalid_name', message: 'Name must not be empty' });
+		}
+
+		const updated: Monitor = {
+			...monitor,
+			name: name?.trim() ?? monitor.name,
+			schedule: schedule ?? monitor.schedule,
+			checkinMargin: checkinMargin ?? monitor.checkinMargin,
+			maxRuntime: maxRuntime ?? monitor.maxRuntime,
+			status: status ?? monitor.status,
+		};
+		const invalid = this.validateMonitorConfig(updated);
+		if (invalid) {
+			return fail(400, invalid);
+		}
+
+		this.sql.exec(
+			`UPDATE monitors SET name = ?, schedule = ?, checkin_margin = ?, max_runtime = ?, status = ?
+			 WHERE id = ?`,
+			updated.name,
+			JSON.stringify(updated.schedule),
+			updated.checkinMargin,
+			updated.maxRuntime,
+			updated.status,
+			monitor.id,
+		);
+
+		// Once running, a changed schedule or a re-enabled monitor expects its next run from now
+		if (monitor.lastCheckIn && (schedule || checkinMargin !== undefined || status)) {
+			this.setNextCheckIn(updated, getNextCheckIn(updated.schedule, new Date()));
+			await this.scheduleNextAlarm();
+		}
+
+		return ok({ monitor: this.getMonitorBySlug(monitorSlug) });
+	}
+
+	async deleteMonitor({ monitorSlug }: { monitorSlug: string }) {
+		const monitor = this.getMonitorBySlug(monitorSlug);
+		if (!monitor) {
+			return fail(404, { error: 'monitor_not_found' });
+		}
+
+		this.sql.exec('DELETE FROM monitor_checkins WHERE monitor_id = ?', monitor.id);
+		this.sql.exec('DELETE FROM monitors WHERE id = ?', monitor.id);
+		return ok({ success: true });
+	}
+
+	private validateMonitorConfig({
+		schedule,
+		checkinMargin,
+		maxRuntime,
+	}: {
+		schedule: MonitorSchedule;
+		checkinMargin: number;
+		maxRuntime: number;
+	}): { error: string; message: string } | null {
+		if (!isValidSchedule(schedule)) {
+			return {
+				error: 'invalid_schedule',
+				message: 'Schedule must be a valid crontab expression or a positive interval',
+			};
+		}
+		for (const [field, value] of [
+			['checkinMargin', checkinMargin],
+			['maxRuntime', maxRuntime],
+		] as const) {
+			if (!Number.isInteger(value) || value < 1 || value > MAX_MONITOR_MINUTES) {
+				return {
+					error: 'invalid_monitor_config',
+					message: `${field} must be a whole number of minutes between 1 and ${MAX_MONITOR_MINUTES}`,
+				};
+			}
+		}
+		return null;
+	}
+
+	private monitorLimitReached(): boolean {
+		const countRow = this.sql.exec('SELECT COUNT(*) as cnt FROM monitors').one();
+		return (countRow.cnt as number) >= MAX_MONITORS;
+	}
+
+	private insertMonitor({
+		slug,
+		name,
+		schedule,
+		checkinMargin,
+		maxRuntime,
+	}: {
+		slug: string;
+		name: string;
+		schedule: MonitorSchedule;
+		checkinMargin: number;
+		maxRuntime: number;
+	}): void {
+		// Missed check-ins are only tracked once the first check-in arrives
+		this.sql.exec(
+			`INSERT INTO monitors (id, slug, name, schedule, checkin_margin, max_runtime, created_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			crypto.randomUUID(),
+			slug,
+			name,
+			JSON.stringify(schedule),
+			checkinMargin,
+			maxRuntime,
+			new Date().toISOString(),
+		);
+	}
+
+	private setNextCheckIn(monitor: Monitor, next: Date | null): void {
+		this.sql.exec(
+			'UPDATE monitors SET next_checkin = ?, next_checkin_latest = ? WHERE id = ?',
+			next ? next.toISOString() : null,
+			next ? this.addMinutes(next, monitor.checkinMargin) : null,
+			monitor.id,
+		);
+	}
+
+	private addMinutes(date: Date, minutes: number): string {
+		return new Date(date.getTime() + minutes * 60_000).toISOString();
+	}
+
+	private getMonitorBySlug(slug: string): Monitor | null {
+		const rows = this.sql.exec('SELECT * FROM monitors WHERE slug = ?', slug).toArray();
+		return rows.length > 0 ? this.rowToMonitor(rows[0]) : null;
+	}
+
+	private rowToMonitor(row: Record<string, SqlStorageValue>): Monitor {
+		return {
+			id: row.id as string,
+			slug: row.slug as string,
+			name: row.name as string,
+			schedule: JSON.parse(row.schedule as string),
+			checkinMargin: row.checkin_margin as number,
+			maxRuntime: row.max_runtime as number,
+			status: row.status as MonitorStatus,
+			health: row.health as Monitor['health'],
+			lastCheckIn: (row.last_checkin as string) || null,
+			nextCheckIn: (row.next_checkin as string) || null,
+			createdAt: row.created_at as string,
+		};
+	}
+
+	private rowToCheckIn(row: Record<string, SqlStorageValue>): MonitorCheckIn {
+		return {
+			id: row.id as string,
+			status: row.status as MonitorCheckIn['status'],
+			duration: (row.duration as number | null) ?? null,
+			environment: (row.environment as string) || null,
+			release: (row.release as string) || null,
+			expectedAt: (row.expected_at as string) || null,
+			issueId: (row.issue_id as string) || null,
+			createdAt: row.created_at as string,
+			updatedAt: row.updated_at as string,
+		};
+	}
+
+	/**
+	 * Store user feedback, linked to the issue of its event when that event is already stored.
+	 * Feedback is re-delivered with the same id on SDK retries, so duplicates are ignored.
+	 */
+	async storeFeedback({ feedback }: { feedback?: FeedbackSubmission[] }) {
+		if (!Array.isArray(feedback)) {
+			return fail(400, { error: 'invalid_feedback' });
+		}
+
+		const now = new Date().toISOString();
+		this.ctx.storage.transactionSync(() => {
+			for (const entry of feedback) {
+				const issueRow = entry.eventId
+					? this.sql.exec('SELECT issue_id FROM events WHERE id = ?', entry.eventId).toArray()[0]
+					: undefined;
+
+				this.sql.exec(
+					`INSERT OR IGNORE INTO user_feedback (id, event_id, issue_id, name, email, message, url, created_at)
+					 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+					entry.id,
+					entry.eventId,
+					(issueRow?.issue_id as string) ?? null,
+					entry.name?.slice(0, 200) || null,
+					entry.email?.slice(0, 200) || null,
+					entry.message.slice(0, MAX_FEEDBACK_LENGTH),
+					entry.url?.slice(0, MAX_FEEDBACK_LENGTH) || null,
+					now,
+				);
+				this.recordOutcome('accepted', 'feedback');
+			}
+		});
+
+		return ok({ stored: feedback.length });
+	}
+
+	async getFeedback({
+		status,
+		issueId,
+		cursor,
+		limit,
+	}: {
+		status?: string;
+		issueId?: string;
+		cursor?: string;
+		limit?: number;
+	}) {
+		const pageLimit = Math.min(limit || 25, 100);
+
+		let sql = `SELECT f.*, i.title AS issue_title FROM user_feedback f
+			 LEFT JOIN issues i ON i.id = f.issue_id WHERE 1 = 1`;
+		const params: (string | number)[] = [];
+
+		if (status) {
+			sql += ' AND f.status = ?';
+			params.push(status);
+		}
+
+		if (issueId) {
+			sql += ' AND f.issue_id = ?';
+			params.push(issueId);
+		}
+
+		if (cursor) {
+			sql += ' AND f.created_at < ?';
+			params.push(cursor);
+		}
+
+		sql += ' ORDER BY f.created_at DESC LIMIT ?';
+		params.push(pageLimit + 1);
+
+		const rows = this.sql.exec(sql, ...params).toArray();
+		const hasMore = rows.length > pageLimit;
+		const feedback = rows.slice(0, pageLimit).map((row) => this.rowToFeedback(row));
+
+		return ok({
+			feedback,
+			nextCursor: hasMore ? feedback[feedback.length - 1].createdAt : undefined,
+			hasMore,
+		});
+	}
+
+	async updateFeedback({ feedbackId, status }: { feedbackId: string; status: FeedbackStatus }) {
+		if (!FEEDBACK_STATUSES.includes(status)) {
+			return fail(400, {
+				error: 'invalid_status',
+				message: 'Status must be one of: new, reviewed, spam',
+			});
+		}
+
+		const existing = this.sql
+			.exec('SELECT id FROM user_feedback WHERE id = ?', feedbackId)
+			.toArray();
+		if (existing.length === 0) {
+			return fail(404, { error: 'feedback_not_found' });
+		}
+
+		this.sql.exec('UPDATE user_feedback SET status = ? WHERE id = ?', status, feedbackId);
+
+		const row = this.sql
+			.exec(
+				`SELECT f.*, i.title AS issue_title FROM user_feedback f
+				 LEFT JOIN issues i ON i.id = f.issue_id WHERE f.id = ?`,
+				feedbackId,
+			)
+			.one();
+		return ok({ feedback: this.rowToFeedback(row) });
+	}
+
+	private rowToFeedback(row: Record<string, SqlStorageValue>): UserFeedback {
+		return {
+			id: row.id as string,
+			eventId: (row.event_id as string) || null,
+			issueId: (row.issue_id as string) || null,
+			issueTitle: (row.issue_title as string) || null,
+			name: (row.name as string) || null,
+			email: (row.email as string) || null,
+			message: row.message as string,
+			url: (row.url as string) || null,
+			status: row.status as FeedbackStatus,
+			createdAt: row.created_at as string,
+		};
+	}
+
+	/**
+	 * Store structured logs from `log` envelope items. Attributes are flattened to their
+	 * values and scrubbed with the project's rules like events are.
+	 */
+	async ingestLogs({ logs }: { logs?: SentryLog[] }) {
+		if (!Array.isArray(logs)) {
+			return fail(400, { error: 'invalid_logs' });
+		}
+
+		const rules = this.getScrubbingRules();
+		const entries = logs.map((log) => {
+			const attributes: Record<string, unknown> = {};
+			for (const [key, attribute] of Object.entries(log.attributes ?? {})) {
+				attributes[key] =
+					attribute && typeof attribute === 'object' && 'value' in attribute
+						? attribute.value
+						: attribute;
+			}
+			return scrubData({ body: log.body, attributes }, rules);
+		});
+
+		const now = new Date().toISOString();
+		this.ctx.storage.transactionSync(() => {
+			logs.forEach((log, i) => {
+				const timestamp = new Date(log.timestamp * 1000);
+				this.sql.exec(
+					`INSERT INTO logs (id, timestamp, level, body, trace_id, attributes, received_at)
+					 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+					crypto.randomUUID(),
+					Number.isNaN(timestamp.getTime()) ? now : timestamp.toISOString(),
+					log.level,
+					String(entries[i].body).slice(0, MAX_LOG_BODY_LENGTH),
+					log.trace_id?.replace(/-/g, '').toLowerCase() || null,
+					JSON.stringify(entries[i].attributes),
+					now,
+				);
+			});
+			this.recordOutcome('accepted', 'log_item', undefined, logs.length);
+		});
+
+		return ok({ stored: logs.length });
+	}
+
+	/**
+	 * Store session replay segments. Each segment's recording is kept as received,
+	 * split into chunks; a retried segment replaces the stored one. The replay's
+	 * metadata is merged from the `replay_event` sent with each segment.
+	 */
+	async ingestReplays({ segments }: { segments?: ReplaySegment[] }) {
+		if (!Array.isArray(segments)) {
+			return fail(400, { error: 'invalid_replays' });
+		}
+
+		const rules = this.getScrubbingRules();
+		let stored = 0;
+
+		this.ctx.storage.transactionSync(() => {
+			for (const segment of segments) {
+				if (segment.recording.byteLength > MAX_REPLAY_SEGMENT_SIZE) {
+					this.recordOutcome('invalid', 'replay', 'too_large');
+					continue;
+				}
+
+				this.upsertReplay(segment.replayId, segment.event && scrubData(segment.event, rules));
+
+				this.sql.exec(
+					'DELETE FROM replay_chunks WHERE replay_id = ? AND segment_id = ?',
+					segment.replayId,
+					segment.segmentId,
+				);
+				for (let i = 0; i * REPLAY_CHUNK_SIZE < segment.recording.byteLength; i++) {
+					const chunk = segment.recording.slice(i * REPLAY_CHUNK_SIZE, (i + 1) * REPLAY_CHUNK_SIZE);
+					this.sql.exec(
+						`INSERT INTO replay_chunks (replay_id, segment_id, chunk_index, compressed, content)
+						 VALUES (?, ?, ?, ?, ?)`,
+						segment.replayId,
+						segment.segmentId,
+						i,
+						segment.compressed ? 1 : 0,
+						chunk.buffer,
+					);
+				}
+
+				this.recordOutcome('accepted', 'replay');
+				stored++;
+			}
+		});
+
+		return ok({ stored });
+	}
+
+	private upsertReplay(replayId: string, event: SentryReplayEvent | null): void {
+		const now = new Date().toISOString();
+		const timestampMs = toMillis(event?.timestamp);
+		const startMs = toMillis(event?.replay_start_timestamp);
+		const timestamp = timestampMs !== null ? new Date(timestampMs).toISOString() : now;
+		const startedAt = startMs !== null ? new Date(startMs).toISOString() : timestamp;
+
+		const existing = this.sql.exec('SELECT * FROM replays WHERE id = ?', replayId).toArray()[0];
+		if (!existing) {
+			this.sql.exec(
+				`INSERT INTO replays (id, started_at, finished_at, replay_type, environment, release, platform, urls, error_ids, trace_ids, user, received_at)
+				 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				replayId,
+				startedAt,
+				timestamp,
+				event?.replay_type || null,
+				event?.environment || null,
+				event?.release || null,
+				event?.platform || null,
+				JSON.stringify(mergeReplayList([], event?.urls)),
+				JSON.stringify(mergeReplayList([], event?.error_ids)),
+				JSON.stringify(mergeReplayList([], event?.trace_ids)),
+				event?.user ? JSON.stringify(event.user) : null,
+				now,
+			);
+			return;
+		}
+
+		this.sql.exec(
+			`UPDATE replays SET
+			   started_at = MIN(started_at, ?), finished_at = MAX(finished_at, ?),
+			   replay_type = COALESCE(replay_type, ?), environment = COALESCE(environment, ?),
+			   release = COALESCE(release, ?), platform = COALESCE(platform, ?),
+			   urls = ?, error_ids = ?, trace_ids = ?, user = COALESCE(?, user), received_at = ?
+			 WHERE id = ?`,
+			startedAt,
+			timestamp,
+			event?.replay_type || null,
+			event?.environment || null,
+			event?.release || null,
+			event?.platform || null,
+			JSON.stringify(mergeReplayList(JSON.parse(existing.urls as string), event?.urls)),
+			JSON.stringify(mergeReplayList(JSON.parse(existing.error_ids as string), event?.error_ids)),
+			JSON.stringify(mergeReplayList(JSON.parse(existing.trace_ids as string), event?.trace_ids)),
+			event?.user ? JSON.stringify(event.user) : null,
+			now,
+			replayId,
+		);
+	}
+
+	/**
+	 * Get a replay's metadata and the IDs of its stored segments, in order.
+	 */
+	async getReplay({ replayId }: { replayId: string }) {
+		if (!replayId) {
+			return fail(400, { error: 'missing_replay_id' });
+		}
+
+		const row = this.sql.exec('SELECT * FROM replays WHERE id = ?', replayId).toArray()[0];
+		if (!row) {
+			return fail(404, { error: 'replay_not_found' });
+		}
+
+		const segments = this.sql
+			.exec(
+				`SELECT segment_id, SUM(LENGTH(content)) AS size FROM replay_chunks
+				 WHERE replay_id = ? GROUP BY segment_id ORDER BY segment_id ASC`,
+				replayId,
+			)
+			.toArray();
+
+		const replay: Replay = {
 			id: row.id as string,
-			fingerprint: row.fingerprint as string,
-			title: row.title as string,
-			culprit: row.culprit as string | null,
-			level: row.level as Issue['level'],
-			platform: row.platform as string,
-			firstSeen: row.first_seen as string,
-			lastSeen: row.last_seen as string,
-			count: row.count as number,
-			userCount: row.user_count as number,
-			status: row.status as Issue['status'],
-			snoozedUntil: (row.snoozed_until as string) || null,
-			metadata: JSON.parse((row.metadata as string) || '{}'),
+			startedAt: row.started_at as string,
+			finishedAt: row.finished_at as string,
+			replayType: (row.replay_type as string) || null,
+			environment: (row.environment as string) || null,
+			release: (row.release as string) || null,
+			platform: (row.platform as string) || null,
+			urls: JSON.parse(row.urls as string),
+			errorIds: JSON.parse(row.error_ids as string),
+			traceIds: JSON.parse(row.trace_ids as string),
+			user: row.user ? JSON.parse(row.user as string) : null,
+			segmentCount: segments.length,
+			size: segments.reduce((sum, segment) => sum + (segment.size as number), 0),
 		};
-	}
 
-	private warmRateLimitCounter(): void {
-		const bucket = this.getHourBucket(new Date().toISOString());
-		this.rateLimitBucket = bucket;
-		// Check persisted counter first
-		const row = this.sql
-			.exec('SELECT count FROM rate_limit_counters WHERE bucket = ?', bucket)
-			.toArray();
-		if (row.length > 0) {
-			this.rateLimitCount = row[0].count as number;
-		} else {
-			// Fallback: sum from issue_stats for this hour
-			const statsRow = this.sql
-				.exec('SELECT COALESCE(SUM(count), 0) as total FROM issue_stats WHERE bucket = ?', bucket)
-				.one();
-			this.rateLimitCount = (statsRow?.total as number) || 0;
-		}
+		return ok({ replay, segmentIds: segments.map((segment) => segment.segment_id as number) });
 	}
 
-	private checkRateLimit(): { allowed: boolean; retryAfter?: number } {
-		const maxPerHour = this.getConfigValue('max_events_per_hour');
-		if (!maxPerHour || maxPerHour === '0') {
-			return { allowed: true };
+	/**
+	 * Get one recording segment, reassembled from its chunks.
+	 */
+	async getReplaySegment({ replayId, segmentId }: { replayId: string; segmentId: number }) {
+		if (!replayId || typeof segmentId !== 'number') {
+			return fail(400, { error: 'missing_parameters' });
 		}
-		const limit = Number.parseInt(maxPerHour, 10);
-		if (limit <= 0) return { allowed: true };
 
-		const currentBucket = this.getHourBucket(new Date().toISOString());
-		if (currentBucket !== this.rateLimitBucket) {
-			// New hour — reset counter and clean old buckets
-			this.rateLimitBucket = currentBucket;
-			this.rateLimitCount = 0;
-			this.sql.exec('DELETE FROM rate_limit_counters WHERE bucket < ?', currentBucket);
+		const chunks = this.sql
+			.exec(
+				`SELECT compressed, content FROM replay_chunks
+				 WHERE replay_id = ? AND segment_id = ? ORDER BY chunk_index ASC`,
+				replayId,
+				segmentId,
+			)
+			.toArray();
+
+		if (chunks.length === 0) {
+			return fail(404, { error: 'segment_not_found' });
 		}
 
-		if (this.rateLimitCount >= limit) {
-			// Calculate seconds until next hour
-			const now = new Date();
-			const nextHour = new Date(now);
-			nextHour.setMinutes(0, 0, 0);
-			nextHour.setHours(nextHour.getHours() + 1);
-			const retryAfter = Math.ceil((nextHour.getTime() - now.getTime()) / 1000);
-			return { allowed: false, retryAfter };
+		const parts = chunks.map((chunk) => new Uint8Array(chunk.content as ArrayBuffer));
+		const content = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+		let offset = 0;
+		for (const part of parts) {
+			content.set(part, offset);
+			offset += part.byteLength;
 		}
-		return { allowed: true };
-	}
 
-	private getConfigValue(key: string): string | null {
-		const rows = this.sql.exec('SELECT value FROM project_config WHERE key = ?', key).toArray();
-		return rows.length > 0 ? (rows[0].value as string) : null;
+		return ok({ compressed: chunks[0].compressed === 1, content });
 	}
 
-	private setConfigValue(key: string, value: string): void {
-		this.sql.exec(
-			'INSERT INTO project_config (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = ?',
-			key,
-			value,
-			value,
-		);
-	}
+	/**
+	 * Search structured logs, newest first. `attributes` matches attribute values exactly;
+	 * `query` matches a substring of the body.
+	 */
+	async getLogs({
+		from,
+		to,
+		level,
+		traceId,
+		query,
+		attributes,
+		cursor,
+		limit,
+	}: {
+		from?: string;
+		to?: string;
+		level?: string;
+		traceId?: string;
+		query?: string;
+		attributes?: Record<string, string>;
+		cursor?: string;
+		limit?: number;
+	}) {
+		const pageLimit = Math.min(limit || 50, 200);
+
+		let sql = 'SELECT * FROM logs WHERE 1 = 1';
+		const params: (string | number)[] = [];
 
-	private handleGetConfig(): Response {
-		const maxEventsPerHour = this.getConfigValue('max_events_per_hour') || '0';
-		return this.jsonResponse({
-			config: { maxEventsPerHour: Number.parseInt(maxEventsPerHour, 10) },
-		});
-	}
+		if (from) {
+			sql += ' AND timestamp >= ?';
+			params.push(from);
+		}
 
-	private async handleUpdateConfig(request: Request): Promise<Response> {
-		const { maxEventsPerHour } = (await request.json()) as { maxEventsPerHour?: number };
-		if (maxEventsPerHour !== undefined) {
-			if (typeof maxEventsPerHour !== 'number' || maxEventsPerHour < 0) {
-				return this.jsonResponse(
-					{ error: 'invalid_value', message: 'maxEventsPerHour must be a non-negative number' },
-					400,
-				);
+		if (to) {
+			sql += ' AND timestamp <= ?';
+			params.push(to);
+		}
+
+		if (level) {
+			const levels = level
+				.split(',')
+				.filter((l): l is LogLevel => LOG_LEVELS.includes(l as LogLevel));
+			if (levels.length === 0) {
+				return fail(400, {
+					error: 'invalid_level',
+					message: `Level must be one of: ${LOG_LEVELS.join(', ')}`,
+				});
 			}
-			this.setConfigValue('max_events_per_hour', String(Math.floor(maxEventsPerHour)));
+			sql += ` AND level IN (${levels.map(() => '?').join(', ')})`;
+			params.push(...levels);
 		}
-		return this.handleGetConfig();
-	}
 
-	private handleRateLimitStatus(): Response {
-		const maxPerHour = Number.parseInt(this.getConfigValue('max_events_per_hour') || '0', 10);
-		const currentBucket = this.getHourBucket(new Date().toISOString());
-		let currentCount = this.rateLimitCount;
-		if (currentBucket !== this.rateLimitBucket) {
-			currentCount = 0;
+		if (traceId) {
+			sql += ' AND trace_id = ?';
+			params.push(traceId.replace(/-/g, '').toLowerCase());
 		}
-		return this.jsonResponse({
-			maxEventsPerHour: maxPerHour,
-			currentHourCount: currentCount,
-			currentBucket,
-			isLimited: maxPerHour > 0 && currentCount >= maxPerHour,
-		});
+
+		if (query) {
+			sql += " AND body LIKE ? ESCAPE '\\'";
+			const escaped = query.replace(/\\/g, '\\\\').replace(/%/g, '\\%').replace(/_/g, '\\_');
+			params.push(`%${escaped}%`);
+		}
+
+		for (const [key, value] of Object.entries(attributes ?? {})) {
+			// Attribute names are dotted (e.g. sentry.environment), so quote the JSON path key
+			sql += ' AND CAST(json_extract(attributes, ?) AS TEXT) = ?';
+			params.push(`$."${key.replace(/"/g, '')}"`, value);
+		}
+
+		if (cursor) {
+			// Composite cursor: "timestamp|id" to avoid skipping entries with same timestamp
+			const [cursorTime, cursorId] = cursor.split('|');
+			sql += ' AND (timestamp < ? OR (timestamp = ? AND id < ?))';
+			params.push(cursorTime, cursorTime, cursorId);
+		}
+
+		sql += ' ORDER BY timestamp DESC, id DESC LIMIT ?';
+		params.push(pageLimit + 1);
+
+		const rows = this.sql.exec(sql, ...params).toArray();
+		const hasMore = rows.length > pageLimit;
+
+		const logs: LogEntry[] = rows.slice(0, pageLimit).map((row) => ({
+			id: row.id as string,
+			timestamp: row.timestamp as string,
+			level: row.level as LogLevel,
+			body: row.body as string,
+			traceId: (row.trace_id as string) || null,
+			attributes: JSON.parse((row.attributes as string) || '{}'),
+		}));
+
+		const lastEntry = logs.length > 0 ? logs[logs.length - 1] : undefined;
+		const nextCursor = hasMore && lastEntry ? `${lastEntry.timestamp}|${lastEntry.id}` : undefined;
+
+		return ok({ logs, nextCursor, hasMore });
 	}
 
 	async alarm(): Promise<void> {
@@ -1723,6 +4173,9 @@ export class ProjectState extends DurableObject<Env> {
 			now,
 		);
 
+		// Open issues for missed and timed-out cron monitor runs
+		this.detectMonitorFailures();
+
 		// Handle data retention if enabled
 		const retentionDays = this.getRetentionDays();
 		if (retentionDays > 0) {
@@ -1734,13 +4187,36 @@ export class ProjectState extends DurableObject<Env> {
 			// Delete old issue_stats buckets
 			this.sql.exec('DELETE FROM issue_stats WHERE bucket < ?', cutoffDate);
 
+			// Delete old transactions
+			this.sql.exec('DELETE FROM transactions WHERE received_at < ?', cutoffDate);
+
+			// Delete old outcome counters and spike history
+			this.sql.exec('DELETE FROM outcomes WHERE bucket < ?', cutoffDate);
+			this.sql.exec('DELETE FROM spikes WHERE bucket < ?', cutoffDate);
+
+			// Delete old monitor check-ins and user feedback
+			this.sql.exec('DELETE FROM monitor_checkins WHERE created_at < ?', cutoffDate);
+			this.sql.exec('DELETE FROM user_feedback WHERE created_at < ?', cutoffDate);
+
+			// Delete old structured logs
+			this.sql.exec('DELETE FROM logs WHERE received_at < ?', cutoffDate);
+
+			// Delete replays without new segments since the cutoff (cascades to their chunks)
+			this.sql.exec('DELETE FROM replays WHERE received_at < ?', cutoffDate);
+
+			// Delete old release health data
+			this.sql.exec('DELETE FROM release_sessions WHERE last_seen < ?', cutoffDate);
+			this.sql.exec('DELETE FROM release_session_buckets WHERE bucket < ?', cutoffDate);
+
 			// Clean up issue_users whose last activity is before the cutoff
 			this.sql.exec('DELETE FROM issue_users WHERE last_seen < ?', cutoffDate);
 
-			// Recalculate issue counts from remaining events
+			// Recalculate issue counts from the remaining hourly stats, which carry the
+			// sampling-extrapolated counts, but never below the events still stored
 			this.sql.exec(`
-				UPDATE issues SET count = (
-					SELECT COUNT(*) FROM events WHERE events.issue_id = issues.id
+				UPDATE issues SET count = MAX(
+					(SELECT COUNT(*) FROM events WHERE events.issue_id = issues.id),
+					(SELECT COALESCE(SUM(count), 0) FROM issue_stats WHERE issue_stats.issue_id = issues.id)
 				)
 			`);
 
@@ -1758,7 +4234,7 @@ export class ProjectState extends DurableObject<Env> {
 			this.sql.exec('DELETE FROM issue_users WHERE issue_id NOT IN (SELECT id FROM issues)');
 		}
 
-		// Schedule next alarm (earliest of next retention run or next snooze expiry)
+		// Schedule next alarm (earliest of next retention run, snooze expiry or monitor deadline)
 		await this.scheduleNextAlarm();
 	}
 
@@ -1767,26 +4243,212 @@ export class ProjectState extends DurableObject<Env> {
 		return rows.length > 0 ? Number.parseInt(rows[0].value as string, 10) : 0;
 	}
 
-	private handleGetSettings(): Response {
+	getSettings() {
 		const retentionDays = this.getRetentionDays();
-		return this.jsonResponse({ retentionDays });
+		return ok({ retentionDays });
+	}
+
+	private getScrubbingRules(): ScrubbingRules {
+		const rows = this.sql
+			.exec("SELECT value FROM settings WHERE key = 'scrubbing_rules'")
+			.toArray();
+		if (rows.length === 0) return DEFAULT_SCRUBBING_RULES;
+		return { ...DEFAULT_SCRUBBING_RULES, ...JSON.parse(rows[0].value as string) };
+	}
+
+	getScrubbing() {
+		return ok({ rules: this.getScrubbingRules() });
+	}
+
+	async updateScrubbing(update: Partial<ScrubbingRules>) {
+		const rules = { ...this.getScrubbingRules() };
+
+		for (const key of ['scrubDefaults', 'anonymizeIp', 'hashEmails'] as const) {
+			if (update[key] === undefined) continue;
+			if (typeof update[key] !== 'boolean') {
+				return fail(400, { error: 'invalid_value', message: `${key} must be a boolean` });
+			}
+			rules[key] = update[key];
+		}
+
+		for (const key of ['sensitiveKeys', 'customPatterns'] as const) {
+			const values = update[key];
+			if (values === undefined) continue;
+			if (
+				!Array.isArray(values) ||
+				values.length > MAX_SCRUBBING_ENTRIES ||
+				values.some((v) => typeof v !== 'string' || !v.trim() || v.length > 200)
+			) {
+				return fail(400, {
+					error: 'invalid_value',
+					message: `${key} must be a list of at most ${MAX_SCRUBBING_ENTRIES} non-empty strings of up to 200 characters`,
+				});
+			}
+			rules[key] = values.map((v) => v.trim());
+		}
+
+		for (const pattern of rules.customPatterns) {
+			try {
+				new RegExp(pattern);
+			} catch {
+				return fail(400, {
+					error: 'invalid_pattern',
+					message: `Invalid regular expression: ${pattern}`,
+				});
+			}
+		}
+
+		this.sql.exec(
+			"INSERT OR REPLACE INTO settings (key, value) VALUES ('scrubbing_rules', ?)",
+			JSON.stringify(rules),
+		);
+
+		return ok({ rules });
+	}
+
+	private getFingerprintingRules(): { text: string; rules: FingerprintRule[] } {
+		const rows = this.sql
+			.exec("SELECT value FROM settings WHERE key = 'fingerprinting_rules'")
+			.toArray();
+		const text = rows.length > 0 ? (rows[0].value as string) : '';
+		return { text, rules: parseFingerprintRules(text).rules };
+	}
+
+	getFingerprinting() {
+		const { text, rules } = this.getFingerprintingRules();
+		return ok({ rules: text, ruleCount: rules.length });
+	}
+
+	/**
+	 * Replace the fingerprinting rules. The text is rejected as a whole if any line
+	 * fails to parse; new events are grouped by the new rules, existing issues stay as they are.
+	 */
+	async updateFingerprinting({ rules }: { rules?: string }) {
+		if (typeof rules !== 'string' || rules.length > MAX_FINGERPRINTING_RULES_LENGTH) {
+			return fail(400, {
+				error: 'invalid_value',
+				message: `rules must be a string of up to ${MAX_FINGERPRINTING_RULES_LENGTH} characters`,
+			});
+		}
+
+		const parsed = parseFingerprintRules(rules);
+		if (parsed.errors.length > 0) {
+			const [first] = parsed.errors;
+			return fail(400, {
+				error: 'invalid_rules',
+				message: `Line ${first.line}, column ${first.column}: ${first.message}`,
+				errors: parsed.errors,
+			});
+		}
+
+		this.sql.exec(
+			"INSERT OR REPLACE INTO settings (key, value) VALUES ('fingerprinting_rules', ?)",
+			rules,
+		);
+
+		return ok({ rules, ruleCount: parsed.rules.length });
+	}
+
+	private getGroupingRules(): { fingerprint: FingerprintRule[]; stacktrace: StacktraceRule[] } {
+		return {
+			fingerprint: this.getFingerprintingRules().rules,
+			stacktrace: this.getStacktraceRules().rules,
+		};
+	}
+
+	private getStacktraceRules(): { text: string; rules: StacktraceRule[] } {
+		const rows = this.sql
+			.exec("SELECT value FROM settings WHERE key = 'stacktrace_rules'")
+			.toArray();
+		const text = rows.length > 0 ? (rows[0].value as string) : '';
+		return { text, rules: parseStacktraceRules(text).rules };
+	}
+
+	getStacktrace() {
+		const { text, rules } = this.getStacktraceRules();
+		return ok({ rules: text, ruleCount: rules.length });
+	}
+
+	/**
+	 * Replace the stack trace rules. Like fingerprinting rules, they only change the
+	 * grouping of new events; stack traces are shown with the current rules applied.
+	 */
+	async updateStacktrace({ rules }: { rules?: string }) {
+		if (typeof rules !== 'string' || rules.length > MAX_STACKTRACE_RULES_LENGTH) {
+			return fail(400, {
+				error: 'invalid_value',
+				message: `rules must be a string of up to ${MAX_STACKTRACE_RULES_LENGTH} characters`,
+			});
+		}
+
+		const parsed = parseStacktraceRules(rules);
+		if (parsed.errors.length > 0) {
+			const [first] = parsed.errors;
+			return fail(400, {
+				error: 'invalid_rules',
+				message: `Line ${first.line}, column ${first.column}: ${first.message}`,
+				errors: parsed.errors,
+			});
+		}
+
+		this.sql.exec(
+			"INSERT OR REPLACE INTO settings (key, value) VALUES ('stacktrace_rules', ?)",
+			rules,
+		);
+
+		return ok({ rules, ruleCount: parsed.rules.length });
+	}
+
+	private getNormalizationLimits(): NormalizationLimits {
+		const rows = this.sql
+			.exec("SELECT value FROM settings WHERE key = 'normalization_limits'")
+			.toArray();
+		if (rows.length === 0) return DEFAULT_NORMALIZATION_LIMITS;
+		return { ...DEFAULT_NORMALIZATION_LIMITS, ...JSON.parse(rows[0].value as string) };
+	}
+
+	getNormalization() {
+		return ok({ limits: this.getNormalizationLimits() });
 	}
 
-	private async handleUpdateSettings(request: Request): Promise<Response> {
-		const { retentionDays } = (await request.json()) as ProjectSettings;
+	async updateNormalization(update: Partial<NormalizationLimits>) {
+		const limits = { ...this.getNormalizationLimits() };
+
+		for (const key of Object.keys(DEFAULT_NORMALIZATION_LIMITS) as (keyof NormalizationLimits)[]) {
+			const value = update[key];
+			if (value === undefined) continue;
+			if (
+				typeof value !== 'number' ||
+				!Number.isInteger(value) ||
+				value < 1 ||
+				value > MAX_NORMALIZATION_LIMITS[key]
+			) {
+				return fail(400, {
+					error: 'invalid_value',
+					message: `${key} must be an integer between 1 and ${MAX_NORMALIZATION_LIMITS[key]}`,
+				});
+			}
+			limits[key] = value;
+		}
+
+		this.sql.exec(
+			"INSERT OR REPLACE INTO settings (key, value) VALUES ('normalization_limits', ?)",
+			JSON.stringify(limits),
+		);
+
+		return ok({ limits });
+	}
 
+	async updateSettings({ retentionDays }: ProjectSettings) {
 		if (
 			typeof retentionDays !== 'number' ||
 			!Number.isInteger(retentionDays) ||
 			retentionDays < 0
 		) {
-			return this.jsonResponse(
-				{
-					error: 'invalid_retention_days',
-					message: 'retentionDays must be 0 or a positive integer',
-				},
-				400,
-			);
+			return fail(400, {
+				error: 'invalid_retention_days',
+				message: 'retentionDays must be 0 or a positive integer',
+			});
 		}
 
 		this.sql.exec(
@@ -1797,30 +4459,32 @@ export class ProjectState extends DurableObject<Env> {
 		// Reschedule alarm considering both retention and pending snoozes
 		await this.scheduleNextAlarm();
 
-		return this.jsonResponse({ retentionDays });
+		return ok({ retentionDays });
 	}
 
-	private async handleUploadSourceMap(request: Request): Promise<Response> {
-		const { release, fileUrl, content } = (await request.json()) as {
-			release: string;
-			fileUrl: string;
-			content: string;
-		};
-
+	async uploadSourceMap({
+		release,
+		fileUrl,
+		content,
+	}: {
+		release: string;
+		fileUrl: string;
+		content: string;
+	}) {
 		if (!release || release.length > 200) {
-			return this.jsonResponse({ error: 'invalid_release' }, 400);
+			return fail(400, { error: 'invalid_release' });
 		}
 		if (!fileUrl || fileUrl.length > 500) {
-			return this.jsonResponse({ error: 'invalid_file_url' }, 400);
+			return fail(400, { error: 'invalid_file_url' });
 		}
 		if (!content || content.length > 5_242_880) {
-			return this.jsonResponse({ error: 'content_too_large', maxSize: '5MB' }, 400);
+			return fail(400, { error: 'content_too_large', maxSize: '5MB' });
 		}
 
 		try {
 			JSON.parse(content);
 		} catch {
-			return this.jsonResponse({ error: 'invalid_source_map_json' }, 400);
+			return fail(400, { error: 'invalid_source_map_json' });
 		}
 
 		const id = crypto.randomUUID();
@@ -1843,14 +4507,12 @@ export class ProjectState extends DurableObject<Env> {
 			size,
 		);
 
-		return this.jsonResponse({
+		return ok({
 			sourceMap: { id, release, fileUrl, createdAt: now, size },
 		});
 	}
 
-	private async handleListSourceMaps(request: Request): Promise<Response> {
-		const { release } = (await request.json()) as { release?: string };
-
+	async listSourceMaps({ release }: { release?: string }) {
 		let sql = 'SELECT id, release, file_url, created_at, size FROM source_maps';
 		const params: string[] = [];
 
@@ -1870,16 +4532,18 @@ export class ProjectState extends DurableObject<Env> {
 			size: row.size as number,
 		}));
 
-		return this.jsonResponse({ sourceMaps });
+		return ok({ sourceMaps });
 	}
 
-	private async handleGetSourceMap(request: Request): Promise<Response> {
-		const { id, release, fileUrl } = (await request.json()) as {
-			id?: string;
-			release?: string;
-			fileUrl?: string;
-		};
-
+	async getSourceMap({
+		id,
+		release,
+		fileUrl,
+	}: {
+		id?: string;
+		release?: string;
+		fileUrl?: string;
+	}) {
 		let row: Record<string, SqlStorageValue> | undefined;
 		if (id) {
 			row = this.sql.exec('SELECT * FROM source_maps WHERE id = ?', id).toArray()[0];
@@ -1888,14 +4552,14 @@ export class ProjectState extends DurableObject<Env> {
 				.exec('SELECT * FROM source_maps WHERE release = ? AND file_url = ?', release, fileUrl)
 				.toArray()[0];
 		} else {
-			return this.jsonResponse({ error: 'missing_id_or_release_and_file_url' }, 400);
+			return fail(400, { error: 'missing_id_or_release_and_file_url' });
 		}
 
 		if (!row) {
-			return this.jsonResponse({ error: 'source_map_not_found' }, 404);
+			return fail(404, { error: 'source_map_not_found' });
 		}
 
-		return this.jsonResponse({
+		return ok({
 			sourceMap: {
 				id: row.id as string,
 				release: row.release as string,
@@ -1907,35 +4571,153 @@ export class ProjectState extends DurableObject<Env> {
 		});
 	}
 
-	private async handleDeleteSourceMap(request: Request): Promise<Response> {
-		const { id } = (await request.json()) as { id: string };
-
+	async deleteSourceMap({ id }: { id: string }) {
 		if (!id) {
-			return this.jsonResponse({ error: 'missing_id' }, 400);
+			return fail(400, { error: 'missing_id' });
 		}
 
 		this.sql.exec('DELETE FROM source_maps WHERE id = ?', id);
-		return this.jsonResponse({ success: true });
+		return ok({ success: true });
+	}
+
+	async storeAttachment({
+		eventId,
+		filename = 'attachment',
+		contentType = 'application/octet-stream',
+		attachmentType = 'event.attachment',
+		content,
+	}: EnvelopeAttachment) {
+		if (!eventId) {
+			return fail(400, { error: 'missing_event_id' });
+		}
+
+		if (filename.length > 500) {
+			return fail(400, { error: 'invalid_filename' });
+		}
+
+		if (content.byteLength > MAX_ATTACHMENT_SIZE) {
+			this.recordOutcome('invalid', 'attachment', 'too_large');
+			return fail(413, { error: 'attachment_too_large', maxSize: '1MB' });
+		}
+
+		// Attachments for events that were filtered, rate limited or never sent are dropped
+		const eventRows = this.sql.exec('SELECT id FROM events WHERE id = ?', eventId).toArray();
+		if (eventRows.length === 0) {
+			return fail(404, { error: 'event_not_found' });
+		}
+
+		// SDKs resend envelopes that got no answer; an attachment already stored for the event
+		// is neither stored nor counted against the quota again
+		const storedRows = this.sql
+			.exec(
+				`SELECT id, event_id, filename, content_type, attachment_type, size, created_at
+				 FROM event_attachments WHERE event_id = ? AND filename = ?`,
+				eventId,
+				filename,
+			)
+			.toArray();
+		if (storedRows.length > 0) {
+			return ok({ attachment: this.rowToAttachment(storedRows[0]) });
+		}
+
+		const rateLimit = this.checkRateLimit('attachment');
+		if (rateLimit) {
+			this.recordOutcome('rate_limited', 'attachment', rateLimit.reasonCode);
+			return fail(429, { error: 'rate_limited', message: 'Quota exceeded', rateLimit });
+		}
+
+		const id = crypto.randomUUID();
+		const now = new Date().toISOString();
+
+		this.sql.exec(
+			`INSERT INTO event_attachments (id, event_id, filename, content_type, attachment_type, size, content, created_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+			id,
+			eventId,
+			filename,
+			contentType,
+			attachmentType,
+			content.byteLength,
+			content.slice().buffer,
+			now,
+		);
+
+		const attachment: EventAttachment = {
+			id,
+			eventId,
+			filename,
+			contentType,
+			attachmentType,
+			size: content.byteLength,
+			createdAt: now,
+		};
+
+		this.recordOutcome('accepted', 'attachment');
+
+		return ok({ attachment }, 201);
+	}
+
+	async listAttachments({ eventId }: { eventId: string }) {
+		if (!eventId) {
+			return fail(400, { error: 'missing_event_id' });
+		}
+
+		const rows = this.sql
+			.exec(
+				`SELECT id, event_id, filename, content_type, attachment_type, size, created_at
+				 FROM event_attachments WHERE event_id = ? ORDER BY created_at ASC`,
+				eventId,
+			)
+			.toArray();
+
+		const attachments = rows.map((row) => this.rowToAttachment(row));
+		return ok({ attachments });
+	}
+
+	async getAttachment({ eventId, attachmentId }: { eventId: string; attachmentId: string }) {
+		if (!eventId || !attachmentId) {
+			return fail(400, { error: 'missing_parameters' });
+		}
+
+		const row = this.sql
+			.exec('SELECT * FROM event_attachments WHERE id = ? AND event_id = ?', attachmentId, eventId)
+			.toArray()[0];
+
+		if (!row) {
+			return fail(404, { error: 'attachment_not_found' });
+		}
+
+		return ok({
+			attachment: this.rowToAttachment(row),
+			content: new Uint8Array(row.content as ArrayBuffer),
+		});
 	}
 
-	private async handleMergeIssues(request: Request): Promise<Response> {
-		const { primaryIssueId, issueIds } = (await request.json()) as {
-			primaryIssueId: string;
-			issueIds: string[];
+	private rowToAttachment(row: Record<string, SqlStorageValue>): EventAttachment {
+		return {
+			id: row.id as string,
+			eventId: row.event_id as string,
+			filename: row.filename as string,
+			contentType: row.content_type as string,
+			attachmentType: row.attachment_type as string,
+			size: row.size as number,
+			createdAt: row.created_at as string,
 		};
+	}
 
+	async mergeIssues({ primaryIssueId, issueIds }: { primaryIssueId: string; issueIds: string[] }) {
 		// Validate primary issue exists
 		const primaryRows = this.sql
 			.exec('SELECT id FROM issues WHERE id = ?', primaryIssueId)
 			.toArray();
 		if (primaryRows.length === 0) {
-			return this.jsonResponse({ error: 'primary_issue_not_found' }, 404);
+			return fail(404, { error: 'primary_issue_not_found' });
 		}
 
 		// Filter out primary from merge list
 		const secondaryIds = issueIds.filter((id) => id !== primaryIssueId);
 		if (secondaryIds.length === 0) {
-			return this.jsonResponse({ error: 'no_issues_to_merge' }, 400);
+			return fail(400, { error: 'no_issues_to_merge' });
 		}
 
 		// Validate all secondary issues exist
@@ -1945,7 +4727,7 @@ export class ProjectState extends DurableObject<Env> {
 			.toArray();
 
 		if (secondaryRows.length !== secondaryIds.length) {
-			return this.jsonResponse({ error: 'some_issues_not_found' }, 404);
+			return fail(404, { error: 'some_issues_not_found' });
 		}
 
 		// Move events from secondary issues to primary
@@ -1962,6 +4744,13 @@ export class ProjectState extends DurableObject<Env> {
 			...secondaryIds,
 		);
 
+		// Move user feedback along with its events
+		this.sql.exec(
+			`UPDATE user_feedback SET issue_id = ? WHERE issue_id IN (${placeholders})`,
+			primaryIssueId,
+			...secondaryIds,
+		);
+
 		// Merge issue_stats: add counts to primary, handling bucket conflicts
 		for (const secondaryId of secondaryIds) {
 			const statsRows = this.sql
@@ -2048,13 +4837,19 @@ export class ProjectState extends DurableObject<Env> {
 			);
 		}
 
+		// Counts add up rather than being recounted, as sampled issues count more events than they store
+		const mergedCount = this.sql
+			.exec(
+				`SELECT SUM(count) as total FROM issues WHERE id IN (?, ${placeholders})`,
+				primaryIssueId,
+				...secondaryIds,
+			)
+			.one();
+
 		// Delete secondary issues (CASCADE removes their stats, users, environments)
 		this.sql.exec(`DELETE FROM issues WHERE id IN (${placeholders})`, ...secondaryIds);
 
 		// Recalculate primary issue aggregates from actual data
-		const eventCount = this.sql
-			.exec('SELECT COUNT(*) as cnt FROM events WHERE issue_id = ?', primaryIssueId)
-			.one();
 		const userCount = this.sql
 			.exec('SELECT COUNT(*) as cnt FROM issue_users WHERE issue_id = ?', primaryIssueId)
 			.one();
@@ -2067,7 +4862,7 @@ export class ProjectState extends DurableObject<Env> {
 
 		this.sql.exec(
 			`UPDATE issues SET count = ?, user_count = ?, first_seen = COALESCE(?, first_seen), last_seen = COALESCE(?, last_seen) WHERE id = ?`,
-			eventCount?.cnt ?? 0,
+			mergedCount?.total ?? 0,
 			userCount?.cnt ?? 0,
 			firstEvent?.ts,
 			lastEvent?.ts,
@@ -2076,16 +4871,9 @@ export class ProjectState extends DurableObject<Env> {
 
 		const updatedIssue = this.sql.exec('SELECT * FROM issues WHERE id = ?', primaryIssueId).one();
 
-		return this.jsonResponse({
+		return ok({
 			issue: updatedIssue ? this.rowToIssue(updatedIssue) : null,
 			mergedCount: secondaryIds.length,
 		});
 	}
-
-	private jsonResponse(data: unknown, status = 200): Response {
-		return new Response(JSON.stringify(data), {
-			status,
-			headers: { 'Content-Type': 'application/json' },
-		});
-	}
 }
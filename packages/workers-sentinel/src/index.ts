@@ -1,17 +1,27 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { authMiddleware } from './middleware/auth';
+import { handleQueue } from './queue';
 import { adminRoutes } from './routes/admin';
 import { authRoutes, tokenRoutes } from './routes/auth';
+import { clientKeyRoutes } from './routes/client-keys';
 import { eventRoutes } from './routes/events';
+import { feedbackRoutes } from './routes/feedback';
 import { filterRoutes } from './routes/filters';
 import { ingestionRoutes } from './routes/ingestion';
 import { issueRoutes } from './routes/issues';
+import { logRoutes } from './routes/logs';
 import { memberRoutes } from './routes/members';
+import { monitorRoutes } from './routes/monitors';
+import { performanceRoutes } from './routes/performance';
 import { projectRoutes } from './routes/projects';
 import { releaseRoutes } from './routes/releases';
+import { replayRoutes } from './routes/replays';
+import { samplingRoutes } from './routes/sampling';
 import { sourcemapRoutes } from './routes/sourcemaps';
-import type { AuthContext, Env } from './types';
+import { tailScriptRoutes } from './routes/tail-scripts';
+import { handleTail } from './tail';
+import type { AuthContext, Env, IngestMessage } from './types';
 
 // Re-export Durable Objects
 export { AuthState } from './durable-objects/auth-state';
@@ -26,17 +36,28 @@ type Variables = {
 
 const app = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+// Ingestion routes (DSN auth, not session auth)
+// Mounted before the dashboard CORS policy because they answer CORS for browser SDKs themselves
+app.route('/api', ingestionRoutes);
+
 // CORS for dashboard
 app.use(
 	'/api/*',
 	cors({
 		origin: '*',
 		allowHeaders: ['Content-Type', 'Authorization'],
+		exposeHeaders: ['X-Sentry-Rate-Limits', 'Retry-After'],
 		allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
 		credentials: true,
 	}),
 );
 
+// Errors thrown inside Durable Object RPC methods surface here
+app.onError((err, c) => {
+	console.error('Unhandled error:', err);
+	return c.json({ error: 'internal_error', message: err.message || 'Unknown error' }, 500);
+});
+
 // Health check
 app.get('/api/health', (c) => c.json({ status: 'ok', timestamp: new Date().toISOString() }));
 
@@ -48,9 +69,6 @@ app.use('/api/auth/tokens/*', authMiddleware);
 app.use('/api/auth/tokens', authMiddleware);
 app.route('/api/auth/tokens', tokenRoutes);
 
-// Ingestion routes (DSN auth, not session auth)
-app.route('/api', ingestionRoutes);
-
 // Protected routes (session auth required)
 app.use('/api/projects/*', authMiddleware);
 app.route('/api/projects', projectRoutes);
@@ -60,6 +78,14 @@ app.route('/api/projects', eventRoutes);
 app.route('/api/projects', releaseRoutes);
 app.route('/api/projects', sourcemapRoutes);
 app.route('/api/projects', filterRoutes);
+app.route('/api/projects', samplingRoutes);
+app.route('/api/projects', performanceRoutes);
+app.route('/api/projects', monitorRoutes);
+app.route('/api/projects', feedbackRoutes);
+app.route('/api/projects', tailScriptRoutes);
+app.route('/api/projects', clientKeyRoutes);
+app.route('/api/projects', logRoutes);
+app.route('/api/projects', replayRoutes);
 
 // Admin routes (session auth required)
 app.use('/api/admin/*', authMiddleware);
@@ -73,6 +99,27 @@ app.get('*', (c) => {
 
 export default app;
 
-export function workersSentinel() {
-	return app;
+export interface WorkersSentinelOptions {
+	/**
+	 * Also export a `tail()` handler so this Worker can be a Tail Worker consumer for
+	 * Workers that don't run the Sentry SDK.
+	 */
+	tail?: boolean;
+	/**
+	 * Also export a `queue()` handler that consumes the `INGEST_QUEUE` for queue-backed
+	 * ingestion.
+	 */
+	queue?: boolean;
+}
+
+export function workersSentinel(options: WorkersSentinelOptions = {}) {
+	if (!options.tail && !options.queue) {
+		return app;
+	}
+
+	return {
+		fetch: app.fetch,
+		...(options.tail && { tail: handleTail }),
+		...(options.queue && { queue: handleQueue }),
+	} satisfies ExportedHandler<Env, IngestMessage>;
 }
@@ -0,0 +1,387 @@
+import type { ProjectState } from './durable-objects/project-state';
+import {
+	extractAttachments,
+	extractCheckIns,
+	extractClientReports,
+	extractEvents,
+	extractFeedback,
+	extractLogs,
+	extractReplays,
+	extractSessionAggregates,
+	extractSessions,
+	extractTransactions,
+} from './lib/envelope-parser';
+import { notifyNewIssues, notifySpike } from './lib/webhook';
+import type {
+	ClientKey,
+	Env,
+	EnvelopeContents,
+	IngestMessage,
+	IngestResult,
+	OutcomeRecord,
+	ParsedEnvelope,
+	Project,
+	RateLimit,
+	TransactionIngestResult,
+} from './types';
+
+/**
+ * Envelope ingestion shared by the HTTP ingestion route and the RPC entrypoint, so that
+ * every item type is stored the same way whichever path the SDK sends it through.
+ */
+
+export type EnvelopeIngestResult =
+	| { rateLimited: false; eventId: string | null; rateLimits: RateLimit[] }
+	// The request is answered with a 429 carrying these limits
+	| { rateLimited: true; message: string; rateLimits: RateLimit[] };
+
+export function emptyEnvelopeContents(): EnvelopeContents {
+	return {
+		events: [],
+		transactions: [],
+		attachments: [],
+		sessions: [],
+		sessionAggregates: [],
+		clientOutcomes: [],
+		checkIns: [],
+		feedback: [],
+		logs: [],
+		replays: [],
+	};
+}
+
+export function extractEnvelopeContents(envelope: ParsedEnvelope): EnvelopeContents {
+	return {
+		events: extractEvents(envelope),
+		transactions: extractTransactions(envelope),
+		attachments: extractAttachments(envelope),
+		sessions: extractSessions(envelope),
+		sessionAggregates: extractSessionAggregates(envelope),
+		clientOutcomes: extractClientReports(envelope),
+		checkIns: extractCheckIns(envelope),
+		feedback: extractFeedback(envelope),
+		logs: extractLogs(envelope),
+		replays: extractReplays(envelope),
+	};
+}
+
+export function isEnvelopeEmpty(contents: EnvelopeContents): boolean {
+	return Object.values(contents).every((items: unknown[]) => items.length === 0);
+}
+
+/**
+ * Store everything an envelope carries in the project's ProjectState. Failures of
+ * individual item types are logged and never fail the rest of the envelope.
+ * In queue mode the envelope is enqueued instead and the request is answered without
+ * waiting on ProjectState; the queue consumer stores it the same way.
+ */
+export async function ingestEnvelope(
+	env: Env,
+	ctx: Pick<ExecutionContext, 'waitUntil'>,
+	project: Project,
+	clientKey: ClientKey,
+	contents: EnvelopeContents,
+): Promise<EnvelopeIngestResult> {
+	if (env.INGEST_QUEUE && (await enqueueEnvelope(env.INGEST_QUEUE, clientKey, contents))) {
+		return { rateLimited: false, eventId: firstEventId(contents, []), rateLimits: [] };
+	}
+
+	const projectStateId = env.PROJECT_STATE.idFromName(project.id);
+	const projectState = env.PROJECT_STATE.get(projectStateId);
+
+	// Record SDK-side drops reported by the client
+	if (contents.clientOutcomes.length > 0) {
+		await recordOutcomes(projectState, contents.clientOutcomes);
+	}
+
+	const keyLimit = await checkKeyRateLimit(projectState, clientKey, contents);
+	if (keyLimit) {
+		return {
+			rateLimited: true,
+			message: 'Client key rate limit exceeded',
+			rateLimits: [keyLimit],
+		};
+	}
+
+	// Ingest all events from the envelope in one round trip
+	let results: IngestResult[] = [];
+	if (contents.events.length > 0) {
+		try {
+			const result = await projectState.ingestBatch({ events: contents.events });
+
+			if (result.ok) {
+				results = result.data.results;
+			} else {
+				console.error('Ingest error:', result.error);
+			}
+		} catch (error) {
+			console.error('Ingest error:', error);
+		}
+	}
+
+	return storeEnvelopeItems(ctx, project, projectState, contents, results);
+}
+
+/**
+ * Enqueue an envelope received through a client key for the queue consumer. Returns false
+ * when it could not be enqueued (for example when the message is over the queue's size
+ * limit), in which case the caller ingests it directly.
+ */
+async function enqueueEnvelope(
+	queue: Queue<IngestMessage>,
+	clientKey: ClientKey,
+	contents: EnvelopeContents,
+): Promise<boolean> {
+	try {
+		await queue.send({ projectId: clientKey.projectId, publicKey: clientKey.publicKey, contents });
+		return true;
+	} catch (error) {
+		console.error('Queue error:', error);
+		return false;
+	}
+}
+
+/**
+ * Check the client key's own hourly limit on events and transactions, returning the limit
+ * when it is used up; the key then cannot store any other item type either.
+ */
+export async function checkKeyRateLimit(
+	projectState: DurableObjectStub<ProjectState>,
+	clientKey: ClientKey,
+	contents: EnvelopeContents,
+): Promise<RateLimit | null> {
+	if (!clientKey.rateLimit || isEnvelopeEmpty({ ...contents, clientOutcomes: [] })) {
+		return null;
+	}
+
+	try {
+		const result = await projectState.checkKeyRateLimit({
+			keyId: clientKey.id,
+			limit: clientKey.rateLimit,
+			errors: contents.events.length,
+			transactions: contents.transactions.length,
+		});
+
+		if (result.ok && result.data.rateLimit) {
+			return result.data.rateLimit;
+		}
+	} catch (error) {
+		console.error('Key rate limit error:', error);
+	}
+	return null;
+}
+
+/**
+ * Store every item of an envelope other than its events and client outcomes, once the
+ * events are written; `results` are the events' ingest results, in order.
+ */
+export async function storeEnvelopeItems(
+	ctx: Pick<ExecutionContext, 'waitUntil'>,
+	project: Project,
+	projectState: DurableObjectStub<ProjectState>,
+	contents: EnvelopeContents,
+	results: IngestResult[],
+): Promise<EnvelopeIngestResult> {
+	const { transactions, attachments, sessions, sessionAggregates } = contents;
+
+	// Limits hit by categories that do not reject the whole request, reported to the SDK
+	const rateLimits: RateLimit[] = [];
+
+	// Events and transactions over the project quota answer the request with a 429; the
+	// rest of the envelope is still stored
+	const quotaLimits: RateLimit[] = [];
+
+	const eventLimit = notifyRateLimited(ctx, project, results);
+	if (eventLimit) quotaLimits.push(eventLimit);
+
+	// Record release health sessions (not subject to the event quota)
+	if (sessions.length > 0 || sessionAggregates.length > 0) {
+		try {
+			const result = await projectState.ingestSessions({ sessions, aggregates: sessionAggregates });
+
+			if (!result.ok && result.error.rateLimit) {
+				rateLimits.push(result.error.rateLimit);
+			} else if (!result.ok) {
+				console.error('Session error:', result.error);
+			}
+		} catch (error) {
+			console.error('Session error:', error);
+		}
+	}
+
+	// Record cron monitor check-ins; failed runs open issues like events do
+	let monitorIssues: IngestResult[] = [];
+	if (contents.checkIns.length > 0) {
+		try {
+			const result = await projectState.ingestCheckIns({ checkIns: contents.checkIns });
+
+			if (result.ok) {
+				monitorIssues = result.data.issues;
+			} else {
+				console.error('Check-in error:', result.error);
+			}
+		} catch (error) {
+			console.error('Check-in error:', error);
+		}
+	}
+
+	// Store user feedback; it is linked to its event's issue whichever arrives first
+	if (contents.feedback.length > 0) {
+		try {
+			const result = await projectState.storeFeedback({ feedback: contents.feedback });
+
+			if (!result.ok) {
+				console.error('Feedback error:', result.error);
+			}
+		} catch (error) {
+			console.error('Feedback error:', error);
+		}
+	}
+
+	// Store structured logs; they are correlated with events through their trace ID
+	if (contents.logs.length > 0) {
+		try {
+			const result = await projectState.ingestLogs({ logs: contents.logs });
+
+			if (!result.ok) {
+				console.error('Log error:', result.error);
+			}
+		} catch (error) {
+			console.error('Log error:', error);
+		}
+	}
+
+	// Store session replay segments; events link to them through contexts.replay.replay_id
+	if (contents.replays.length > 0) {
+		try {
+			const result = await projectState.ingestReplays({ segments: contents.replays });
+
+			if (!result.ok) {
+				console.error('Replay error:', result.error);
+			}
+		} catch (error) {
+			console.error('Replay error:', error);
+		}
+	}
+
+	// Ingest all transactions into the performance pipeline in one round trip
+	if (transactions.length > 0) {
+		let transactionResults: TransactionIngestResult[] = [];
+		try {
+			const result = await projectState.ingestTransactions({ transactions });
+
+			if (result.ok) {
+				transactionResults = result.data.results;
+			} else {
+				console.error('Transaction error:', result.error);
+			}
+		} catch (error) {
+			console.error('Transaction error:', error);
+		}
+
+		for (const r of transactionResults) {
+			if (r.status === 'invalid') {
+				console.error('Transaction error:', r.message);
+			}
+		}
+
+		const rateLimit = notifyRateLimited(ctx, project, transactionResults);
+		if (rateLimit) quotaLimits.push(rateLimit);
+	}
+
+	// Store attachments after their event so they can be linked to it; those of rate
+	// limited events are dropped with the event
+	const rateLimitedEvents = new Map<string, RateLimit>();
+	for (const r of results) {
+		if (r.status === 'rate_limited') rateLimitedEvents.set(r.eventId, r.rateLimit);
+	}
+	const droppedAttachments: OutcomeRecord[] = [];
+	for (const attachment of attachments) {
+		const eventLimit = rateLimitedEvents.get(attachment.eventId);
+		if (eventLimit) {
+			droppedAttachments.push({
+				outcome: 'rate_limited',
+				category: 'attachment',
+				reason: eventLimit.reasonCode,
+			});
+			continue;
+		}
+
+		try {
+			const result = await projectState.storeAttachment(attachment);
+
+			if (!result.ok && result.error.rateLimit) {
+				rateLimits.push(result.error.rateLimit);
+			} else if (!result.ok) {
+				console.error('Attachment error:', result.error);
+			}
+		} catch (error) {
+			console.error('Attachment error:', error);
+		}
+	}
+
+	if (droppedAttachments.length > 0) {
+		await recordOutcomes(projectState, droppedAttachments);
+	}
+
+	notifyNewIssues(ctx, project, [...results, ...monitorIssues]);
+
+	if (quotaLimits.length > 0) {
+		return {
+			rateLimited: true,
+			message: 'Project event quota exceeded',
+			rateLimits: [...quotaLimits, ...rateLimits],
+		};
+	}
+
+	return { rateLimited: false, eventId: firstEventId(contents, results), rateLimits };
+}
+
+// The first event ID is the standard Sentry response
+function firstEventId(contents: EnvelopeContents, results: IngestResult[]): string | null {
+	return (
+		results[0]?.eventId ||
+		contents.events[0]?.event_id ||
+		contents.transactions[0]?.event_id ||
+		contents.attachments[0]?.eventId ||
+		null
+	);
+}
+
+/**
+ * Send the spike webhook for results that started a spike, and return the limit of the
+ * first rate limited result, if any.
+ */
+function notifyRateLimited(
+	ctx: Pick<ExecutionContext, 'waitUntil'>,
+	project: Project,
+	results: Array<IngestResult | TransactionIngestResult>,
+): RateLimit | null {
+	let rateLimit: RateLimit | null = null;
+	for (const r of results) {
+		if (r.status !== 'rate_limited') continue;
+		rateLimit ??= r.rateLimit;
+		if (r.spike) {
+			notifySpike(ctx, project, r.spike);
+		}
+	}
+	return rateLimit;
+}
+
+/**
+ * Record outcome counters in ProjectState. Failures are logged and never fail ingestion.
+ */
+export async function recordOutcomes(
+	projectState: DurableObjectStub<ProjectState>,
+	outcomes: OutcomeRecord[],
+): Promise<void> {
+	try {
+		const result = await projectState.recordOutcomes({ outcomes });
+
+		if (!result.ok) {
+			console.error('Outcome error:', result.error);
+		}
+	} catch (error) {
+		console.error('Outcome error:', error);
+	}
+}
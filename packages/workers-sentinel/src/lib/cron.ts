@@ -0,0 +1,275 @@
+import type { MonitorIntervalUnit, MonitorSchedule } from '../types';
+
+interface CronExpression {
+	minutes: Set<number>;
+	hours: Set<number>;
+	days: Set<number>;
+	months: Set<number>;
+	weekdays: Set<number>;
+	// Standard cron semantics: when both day fields are restricted, either may match; a
+	// field is unrestricted when it allows every value, however it is written (`*`, `*/1`, `1-31`)
+	anyDay: boolean;
+	anyWeekday: boolean;
+}
+
+export const INTERVAL_UNITS: MonitorIntervalUnit[] = [
+	'minute',
+	'hour',
+	'day',
+	'week',
+	'month',
+	'year',
+];
+
+const ALIASES: Record<string, string> = {
+	'@yearly': '0 0 1 1 *',
+	'@annually': '0 0 1 1 *',
+	'@monthly': '0 0 1 * *',
+	'@weekly': '0 0 * * 0',
+	'@daily': '0 0 * * *',
+	'@midnight': '0 0 * * *',
+	'@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+	'jan',
+	'feb',
+	'mar',
+	'apr',
+	'may',
+	'jun',
+	'jul',
+	'aug',
+	'sep',
+	'oct',
+	'nov',
+	'dec',
+];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Upper bound on the field-by-field search, so an impossible date (e.g. 30 February) ends
+const MAX_SEARCH_STEPS = 100_000;
+
+function parseValue(value: string, names: string[] | null, offset: number): number {
+	const index = names ? names.indexOf(value.toLowerCase()) : -1;
+	if (index !== -1) return index + offset;
+	return /^\d+$/.test(value) ? Number.parseInt(value, 10) : Number.NaN;
+}
+
+function parseField(
+	field: string,
+	min: number,
+	max: number,
+	names: string[] | null = null,
+	offset = 0,
+): Set<number> | null {
+	const values = new Set<number>();
+
+	for (const part of field.split(',')) {
+		const [range, stepText, ...rest] = part.split('/');
+		if (rest.length > 0) return null;
+
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (!Number.isInteger(step) || step < 1) return null;
+
+		let start: number;
+		let end: number;
+		if (range === '*') {
+			start = min;
+			end = max;
+		} else if (range.includes('-')) {
+			const [from, to] = range.split('-');
+			start = parseValue(from, names, offset);
+			end = parseValue(to, names, offset);
+		} else {
+			start = parseValue(range, names, offset);
+			end = stepText === undefined ? start : max;
+		}
+
+		if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) {
+			return null;
+		}
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parse a five-field crontab expression (minute hour day-of-month month day-of-week),
+ * or one of the `@hourly`/`@daily`/`@weekly`/`@monthly`/`@yearly` aliases.
+ * Returns null when the expression is invalid.
+ */
+export function parseCrontab(expression: string): CronExpression | null {
+	const trimmed = expression.trim().toLowerCase();
+	const fields = (ALIASES[trimmed] ?? trimmed).split(/\s+/);
+	if (fields.length !== 5) return null;
+
+	const minutes = parseField(fields[0], 0, 59);
+	const hours = parseField(fields[1], 0, 23);
+	const days = parseField(fields[2], 1, 31);
+	const months = parseField(fields[3], 1, 12, MONTH_NAMES, 1);
+	const weekdays = parseField(fields[4], 0, 7, WEEKDAY_NAMES);
+	if (!minutes || !hours || !days || !months || !weekdays) return null;
+
+	// Sunday may be written as 0 or 7
+	if (weekdays.delete(7)) weekdays.add(0);
+
+	return {
+		minutes,
+		hours,
+		days,
+		months,
+		weekdays,
+		anyDay: days.size === 31,
+		anyWeekday: weekdays.size === 7,
+	};
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+	const dayMatch = cron.days.has(date.getUTCDate());
+	const weekdayMatch = cron.weekdays.has(date.getUTCDay());
+	if (cron.anyDay || cron.anyWeekday) return dayMatch && weekdayMatch;
+	return dayMatch || weekdayMatch;
+}
+
+// Search on wall-clock time, with the time zone's fields held in the UTC fields of a Date
+function nextWallClockRun(cron: CronExpression, after: Date): Date | null {
+	const date = new Date(after.getTime());
+	date.setUTCSeconds(0, 0);
+	date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+	for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+		if (!cron.months.has(date.getUTCMonth() + 1)) {
+			date.setUTCMonth(date.getUTCMonth() + 1, 1);
+			date.setUTCHours(0, 0, 0, 0);
+		} else if (!matchesDay(cron, date)) {
+			date.setUTCDate(date.getUTCDate() + 1);
+			date.setUTCHours(0, 0, 0, 0);
+		} else if (!cron.hours.has(date.getUTCHours())) {
+			date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+		} else if (!cron.minutes.has(date.getUTCMinutes())) {
+			date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+		} else {
+			return date;
+		}
+	}
+
+	return null;
+}
+
+function isValidTimezone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+function getTimezoneOffset(timeZone: string, date: Date): number {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: 'numeric',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: 'numeric',
+		second: 'numeric',
+	}).formatToParts(date);
+	const field = (type: Intl.DateTimeFormatPartTypes) =>
+		Number(parts.find((part) => part.type === type)?.value);
+	const wallClock = Date.UTC(
+		field('year'),
+		field('month') - 1,
+		field('day'),
+		field('hour'),
+		field('minute'),
+		field('second'),
+	);
+	return wallClock - (date.getTime() - date.getUTCMilliseconds());
+}
+
+function nextCrontabRun(cron: CronExpression, after: Date, timeZone = 'UTC'): Date | null {
+	if (timeZone === 'UTC') return nextWallClockRun(cron, after);
+
+	// Wall-clock times repeated when clocks go back can map to an instant before `after`,
+	// in which case the search goes on from there
+	let wallClock = new Date(after.getTime() + getTimezoneOffset(timeZone, after));
+	for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+		const next = nextWallClockRun(cron, wallClock);
+		if (!next) return null;
+
+		const guess = new Date(next.getTime() - getTimezoneOffset(timeZone, next));
+		const run = new Date(next.getTime() - getTimezoneOffset(timeZone, guess));
+		if (run > after) return run;
+		wallClock = next;
+	}
+
+	return null;
+}
+
+function addInterval(date: Date, value: number, unit: MonitorIntervalUnit): Date {
+	const next = new Date(date.getTime());
+	switch (unit) {
+		case 'minute':
+			next.setUTCMinutes(next.getUTCMinutes() + value);
+			break;
+		case 'hour':
+			next.setUTCHours(next.getUTCHours() + value);
+			break;
+		case 'day':
+			next.setUTCDate(next.getUTCDate() + value);
+			break;
+		case 'week':
+			next.setUTCDate(next.getUTCDate() + value * 7);
+			break;
+		case 'month':
+			next.setUTCMonth(next.getUTCMonth() + value);
+			break;
+		case 'year':
+			next.setUTCFullYear(next.getUTCFullYear() + value);
+			break;
+	}
+	return next;
+}
+
+/**
+ * Check that a monitor schedule is well formed and will run again.
+ */
+export function isValidSchedule(schedule: MonitorSchedule): boolean {
+	if (!schedule || typeof schedule !== 'object') return false;
+	if (schedule.type === 'interval') {
+		return (
+			Number.isInteger(schedule.value) &&
+			schedule.value > 0 &&
+			INTERVAL_UNITS.includes(schedule.unit)
+		);
+	}
+	if (schedule.type === 'crontab' && typeof schedule.value === 'string') {
+		const { timezone } = schedule;
+		if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+			return false;
+		}
+		const cron = parseCrontab(schedule.value);
+		return cron !== null && nextCrontabRun(cron, new Date(), timezone) !== null;
+	}
+	return false;
+}
+
+/**
+ * Compute when a monitor is next expected to check in after the given time.
+ * Crontab schedules are evaluated in their time zone (UTC by default); interval schedules
+ * count from `after`.
+ */
+export function getNextCheckIn(schedule: MonitorSchedule, after: Date): Date | null {
+	if (schedule.type === 'interval') {
+		return addInterval(after, schedule.value, schedule.unit);
+	}
+	const cron = parseCrontab(schedule.value);
+	return cron ? nextCrontabRun(cron, after, schedule.timezone) : null;
+}
@@ -1,4 +1,32 @@
-import type { EnvelopeHeader, EnvelopeItem, ParsedEnvelope, SentryEvent } from '../types';
+import type {
+	ClientReport,
+	EnvelopeAttachment,
+	EnvelopeHeader,
+	EnvelopeItem,
+	EnvelopeItemHeader,
+	FeedbackContext,
+	FeedbackSubmission,
+	LogLevel,
+	OutcomeRecord,
+	ParsedEnvelope,
+	ReplaySegment,
+	SentryCheckIn,
+	SentryEvent,
+	SentryLog,
+	SentryReplayEvent,
+	SentryTransaction,
+	SentryUserReport,
+	SessionAggregates,
+	SessionUpdate,
+} from '../types';
+import { toMillis } from './transactions';
+
+const NEWLINE = 0x0a;
+
+/**
+ * Item types whose payload is opaque binary data and must not be decoded as text.
+ */
+const BINARY_ITEM_TYPES = new Set(['attachment', 'replay_recording']);
 
 /**
  * Parse a Sentry envelope.
@@ -6,80 +34,116 @@ import type { EnvelopeHeader, EnvelopeItem, ParsedEnvelope, SentryEvent } from '
  * ```
  * {header_json}\n
  * {item_header_json}\n
- * {item_payload_json}\n
+ * {item_payload}\n
  * {item_header_json}\n
- * {item_payload_json}\n
+ * {item_payload}\n
  * ...
  * ```
+ *
+ * The body is walked byte by byte so that items carrying a `length` header are
+ * read exactly, even when their payload contains newlines or binary data
+ * (attachments, minidumps, replay recordings). Items without `length` extend to the next newline.
  */
-export function parseEnvelope(body: string): ParsedEnvelope {
-	const lines = body.split('\n');
+export function parseEnvelope(body: ArrayBuffer | Uint8Array | string): ParsedEnvelope {
+	const bytes =
+		typeof body === 'string'
+			? new TextEncoder().encode(body)
+			: body instanceof Uint8Array
+				? body
+				: new Uint8Array(body);
 
-	if (lines.length < 1) {
+	if (bytes.length === 0) {
 		throw new Error('Invalid envelope: empty body');
 	}
 
+	const decoder = new TextDecoder();
+	let offset = 0;
+
+	// Read up to the next newline (or end of body) and advance past it
+	const readLine = (): Uint8Array | null => {
+		if (offset >= bytes.length) {
+			return null;
+		}
+		let end = bytes.indexOf(NEWLINE, offset);
+		if (end === -1) {
+			end = bytes.length;
+		}
+		const line = bytes.subarray(offset, end);
+		offset = end + 1;
+		return line;
+	};
+
 	// Parse envelope header (first line)
 	let header: EnvelopeHeader;
 	try {
-		header = JSON.parse(lines[0]);
+		header = JSON.parse(decoder.decode(readLine()!));
 	} catch {
 		throw new Error('Invalid envelope: failed to parse header');
 	}
 
 	const items: EnvelopeItem[] = [];
-	let i = 1;
 
 	// Parse items (pairs of header + payload)
-	while (i < lines.length) {
+	while (offset < bytes.length) {
+		const headerLine = readLine()!;
+		const headerText = decoder.decode(headerLine).trim();
+
 		// Skip empty lines
-		if (!lines[i] || lines[i].trim() === '') {
-			i++;
+		if (headerText === '') {
 			continue;
 		}
 
 		// Parse item header
-		let itemHeader: { type: string; length?: number; content_type?: string };
+		let itemHeader: EnvelopeItemHeader;
 		try {
-			itemHeader = JSON.parse(lines[i]);
+			itemHeader = JSON.parse(headerText);
 		} catch {
 			// May be end of envelope or malformed
-			i++;
 			continue;
 		}
 
-		i++;
+		let payloadBytes: Uint8Array;
 
-		// Parse item payload
-		if (i >= lines.length) {
-			break;
+		if (typeof itemHeader.length === 'number') {
+			// Fixed-length payload: read exactly `length` bytes
+			if (itemHeader.length < 0 || offset + itemHeader.length > bytes.length) {
+				throw new Error('Invalid envelope: item length exceeds body size');
+			}
+			payloadBytes = bytes.subarray(offset, offset + itemHeader.length);
+			offset += itemHeader.length;
+
+			// The newline after a fixed-length payload is optional
+			if (bytes[offset] === NEWLINE) {
+				offset++;
+			}
+		} else {
+			// Implicit length: payload runs until the next newline
+			const line = readLine();
+			if (line === null) {
+				break;
+			}
+			payloadBytes = line;
 		}
 
 		let payload: unknown;
 
-		if (itemHeader.length !== undefined) {
-			// Binary/fixed-length payload
-			const payloadStr = lines[i].substring(0, itemHeader.length);
+		if (BINARY_ITEM_TYPES.has(itemHeader.type)) {
+			// Copy so the payload does not keep the whole body alive
+			payload = payloadBytes.slice();
+		} else {
+			const payloadStr = decoder.decode(payloadBytes);
 			try {
 				payload = JSON.parse(payloadStr);
 			} catch {
 				payload = payloadStr;
 			}
-		} else {
-			// JSON payload
-			try {
-				payload = JSON.parse(lines[i]);
-			} catch {
-				payload = lines[i];
-			}
 		}
 
 		items.push({
 			type: itemHeader.type as EnvelopeItem['type'],
+			headers: itemHeader,
 			payload,
 		});
-
-		i++;
 	}
 
 	return { header, items };
@@ -137,13 +201,14 @@ export function extractKeyFromAuthHeader(header: string): string | null {
 }
 
 /**
- * Validate and extract event items from an envelope.
+ * Validate and extract error event items from an envelope.
+ * Transactions are handled separately by {@link extractTransactions}.
  */
 export function extractEvents(envelope: ParsedEnvelope): SentryEvent[] {
 	const events: SentryEvent[] = [];
 
 	for (const item of envelope.items) {
-		if (item.type === 'event' || item.type === 'transaction') {
+		if (item.type === 'event') {
 			const event = item.payload as SentryEvent;
 
 			// Ensure event_id
@@ -163,18 +228,331 @@ export function extractEvents(envelope: ParsedEnvelope): SentryEvent[] {
 	return events;
 }
 
+/**
+ * Extract transaction items from an envelope.
+ * Transactions without both a start and end timestamp have no duration and are skipped.
+ */
+export function extractTransactions(envelope: ParsedEnvelope): SentryTransaction[] {
+	const transactions: SentryTransaction[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type !== 'transaction') {
+			continue;
+		}
+
+		const transaction = item.payload as SentryTransaction;
+		if (!transaction || transaction.start_timestamp == null || transaction.timestamp == null) {
+			continue;
+		}
+
+		if (!transaction.event_id) {
+			transaction.event_id = crypto.randomUUID().replace(/-/g, '');
+		}
+
+		transactions.push(transaction);
+	}
+
+	return transactions;
+}
+
+/**
+ * Extract attachment items from an envelope.
+ * Attachments belong to the event named in the envelope header; envelopes
+ * without an event_id carry nothing to attach to and their attachments are skipped.
+ */
+export function extractAttachments(envelope: ParsedEnvelope): EnvelopeAttachment[] {
+	const eventId = envelope.header.event_id;
+	if (!eventId) {
+		return [];
+	}
+
+	const attachments: EnvelopeAttachment[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type !== 'attachment') {
+			continue;
+		}
+
+		let content: Uint8Array;
+		if (item.payload instanceof Uint8Array) {
+			content = item.payload;
+		} else if (item.payload instanceof ArrayBuffer) {
+			content = new Uint8Array(item.payload);
+		} else if (typeof item.payload === 'string') {
+			content = new TextEncoder().encode(item.payload);
+		} else {
+			continue;
+		}
+
+		attachments.push({
+			eventId,
+			filename: item.headers.filename || 'attachment',
+			contentType: item.headers.content_type || 'application/octet-stream',
+			attachmentType: item.headers.attachment_type || 'event.attachment',
+			content,
+		});
+	}
+
+	return attachments;
+}
+
+/**
+ * Extract release health session updates from an envelope.
+ * Sessions without a release cannot contribute to release health and are skipped.
+ */
+export function extractSessions(envelope: ParsedEnvelope): SessionUpdate[] {
+	const sessions: SessionUpdate[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type !== 'session') {
+			continue;
+		}
+
+		const session = item.payload as SessionUpdate;
+		if (session && typeof session.sid === 'string' && session.attrs?.release) {
+			sessions.push(session);
+		}
+	}
+
+	return sessions;
+}
+
+/**
+ * Extract pre-aggregated session counts from an envelope.
+ */
+export function extractSessionAggregates(envelope: ParsedEnvelope): SessionAggregates[] {
+	const aggregates: SessionAggregates[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type !== 'sessions') {
+			continue;
+		}
+
+		const payload = item.payload as SessionAggregates;
+		if (payload && Array.isArray(payload.aggregates) && payload.attrs?.release) {
+			aggregates.push(payload);
+		}
+	}
+
+	return aggregates;
+}
+
+/**
+ * Extract client reports (SDK-side dropped event counts) from an envelope,
+ * flattened into one outcome per discarded reason and category.
+ */
+export function extractClientReports(envelope: ParsedEnvelope): OutcomeRecord[] {
+	const outcomes: OutcomeRecord[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type !== 'client_report') {
+			continue;
+		}
+
+		const report = item.payload as ClientReport;
+		if (!report || !Array.isArray(report.discarded_events)) {
+			continue;
+		}
+
+		const reportedAt = toMillis(report.timestamp);
+		const timestamp = reportedAt !== null ? new Date(reportedAt).toISOString() : undefined;
+
+		for (const discarded of report.discarded_events) {
+			if (!discarded?.category || !(discarded.quantity > 0)) {
+				continue;
+			}
+
+			outcomes.push({
+				outcome: 'client_discard',
+				category: discarded.category,
+				reason: discarded.reason,
+				quantity: discarded.quantity,
+				timestamp,
+			});
+		}
+	}
+
+	return outcomes;
+}
+
+/**
+ * Extract cron monitor check-ins from an envelope.
+ * Check-ins without a monitor slug cannot be attributed and are skipped.
+ */
+export function extractCheckIns(envelope: ParsedEnvelope): SentryCheckIn[] {
+	const checkIns: SentryCheckIn[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type !== 'check_in') {
+			continue;
+		}
+
+		const checkIn = item.payload as SentryCheckIn;
+		if (!checkIn || typeof checkIn.monitor_slug !== 'string' || !checkIn.monitor_slug) {
+			continue;
+		}
+
+		if (!checkIn.check_in_id) {
+			checkIn.check_in_id = crypto.randomUUID().replace(/-/g, '');
+		}
+
+		checkIns.push(checkIn);
+	}
+
+	return checkIns;
+}
+
+/**
+ * Extract user feedback from an envelope: `feedback` items sent by the feedback widget
+ * and legacy `user_report` items, normalized to one shape. Feedback without a message is skipped.
+ */
+export function extractFeedback(envelope: ParsedEnvelope): FeedbackSubmission[] {
+	const feedback: FeedbackSubmission[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type === 'user_report') {
+			const report = item.payload as SentryUserReport;
+			if (!report || typeof report.comments !== 'string' || !report.comments.trim()) {
+				continue;
+			}
+
+			feedback.push({
+				id: crypto.randomUUID().replace(/-/g, ''),
+				eventId: report.event_id || null,
+				name: report.name,
+				email: report.email,
+				message: report.comments,
+			});
+		} else if (item.type === 'feedback') {
+			const event = item.payload as SentryEvent;
+			const context = event?.contexts?.feedback as FeedbackContext | undefined;
+			if (!context || typeof context.message !== 'string' || !context.message.trim()) {
+				continue;
+			}
+
+			feedback.push({
+				id: event.event_id || crypto.randomUUID().replace(/-/g, ''),
+				eventId: context.associated_event_id || null,
+				name: context.name || event.user?.username,
+				email: context.contact_email || event.user?.email,
+				message: context.message,
+				url: context.url,
+			});
+		}
+	}
+
+	return feedback;
+}
+
+const LOG_LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+/**
+ * Extract structured logs from `log` items. Each item carries a batch in its `items` array;
+ * entries without a string body are skipped and unknown levels are treated as info.
+ */
+export function extractLogs(envelope: ParsedEnvelope): SentryLog[] {
+	const logs: SentryLog[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type !== 'log') continue;
+
+		const entries = (item.payload as { items?: unknown })?.items;
+		if (!Array.isArray(entries)) continue;
+
+		for (const entry of entries as SentryLog[]) {
+			if (!entry || typeof entry.body !== 'string') continue;
+
+			const level = (entry.level as string) === 'warning' ? 'warn' : entry.level;
+			logs.push({
+				...entry,
+				level: LOG_LEVELS.includes(level) ? level : 'info',
+				timestamp: typeof entry.timestamp === 'number' ? entry.timestamp : Date.now() / 1000,
+			});
+		}
+	}
+
+	return logs;
+}
+
+/**
+ * Extract session replay segments. A `replay_recording` payload is a JSON header line
+ * (`{"segment_id":0}`) followed by the rrweb events, zlib-compressed by default; the
+ * `replay_event` item sent with it carries the segment's metadata.
+ */
+export function extractReplays(envelope: ParsedEnvelope): ReplaySegment[] {
+	const replayEvent = envelope.items.find((item) => item.type === 'replay_event')?.payload as
+		| SentryReplayEvent
+		| undefined;
+	const segments: ReplaySegment[] = [];
+
+	for (const item of envelope.items) {
+		if (item.type !== 'replay_recording') continue;
+
+		const bytes =
+			item.payload instanceof Uint8Array
+				? item.payload
+				: typeof item.payload === 'string'
+					? new TextEncoder().encode(item.payload)
+					: null;
+		if (!bytes) continue;
+
+		const headerEnd = bytes.indexOf(NEWLINE);
+		if (headerEnd === -1) continue;
+
+		let segmentId: unknown;
+		try {
+			segmentId = JSON.parse(new TextDecoder().decode(bytes.subarray(0, headerEnd))).segment_id;
+		} catch {
+			continue;
+		}
+
+		const replayId = replayEvent?.replay_id || envelope.header.event_id;
+		if (!replayId || typeof segmentId !== 'number') continue;
+
+		const recording = bytes.slice(headerEnd + 1);
+		segments.push({
+			replayId: replayId.replace(/-/g, '').toLowerCase(),
+			segmentId,
+			event: replayEvent?.segment_id === segmentId ? replayEvent : null,
+			recording,
+			// A zlib stream starts with 0x78; uncompressed recordings are a JSON array
+			compressed: recording[0] === 0x78,
+		});
+	}
+
+	return segments;
+}
+
+/**
+ * Decode a stored replay recording segment into its rrweb events.
+ */
+export async function decodeReplayRecording(
+	content: Uint8Array,
+	compressed: boolean,
+): Promise<unknown[]> {
+	let bytes = content;
+	if (compressed) {
+		const ds = new DecompressionStream('deflate');
+		const decompressed = new Response(content).body!.pipeThrough(ds);
+		bytes = new Uint8Array(await new Response(decompressed).arrayBuffer());
+	}
+
+	const events = JSON.parse(new TextDecoder().decode(bytes));
+	return Array.isArray(events) ? events : [];
+}
+
 /**
  * Decompress gzip-encoded body if necessary.
  */
 export async function maybeDecompress(
 	body: ArrayBuffer,
 	contentEncoding: string | null,
-): Promise<string> {
+): Promise<Uint8Array> {
 	if (contentEncoding === 'gzip') {
 		const ds = new DecompressionStream('gzip');
 		const decompressed = new Response(body).body!.pipeThrough(ds);
-		return await new Response(decompressed).text();
+		return new Uint8Array(await new Response(decompressed).arrayBuffer());
 	}
 
-	return new TextDecoder().decode(body);
+	return new Uint8Array(body);
 }
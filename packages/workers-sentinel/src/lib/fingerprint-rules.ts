@@ -0,0 +1,185 @@
+import type { FingerprintRule, RuleMatcher, RuleSyntaxError, SentryEvent } from '../types';
+import {
+	FRAME_MATCHER_KEYS,
+	globMatch,
+	isSyntaxError,
+	matchesFrame,
+	parseRuleText,
+	type RuleScanner,
+	resolveKey,
+} from './rule-syntax';
+
+/**
+ * Matcher keys and their aliases, besides `tags.<key>`.
+ */
+const MATCHER_KEYS: Record<string, string> = {
+	'error.type': 'error.type',
+	type: 'error.type',
+	'error.value': 'error.value',
+	value: 'error.value',
+	message: 'message',
+	logger: 'logger',
+	level: 'level',
+	transaction: 'transaction',
+	release: 'release',
+	environment: 'environment',
+	...FRAME_MATCHER_KEYS,
+};
+
+/**
+ * Variables that can be used in fingerprint values, e.g. `{{ transaction }}`.
+ */
+const VARIABLE_KEYS: Record<string, string> = {
+	default: 'default',
+	'error.type': 'error.type',
+	type: 'error.type',
+	'error.value': 'error.value',
+	value: 'error.value',
+	message: 'message',
+	logger: 'logger',
+	level: 'level',
+	transaction: 'transaction',
+	release: 'release',
+	environment: 'environment',
+	'stack.function': 'stack.function',
+	function: 'stack.function',
+	'stack.module': 'stack.module',
+	module: 'stack.module',
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+function resolveEventKey(keys: Record<string, string>, key: string): string | null {
+	if (key.startsWith('tags.') && key.length > 5) return key;
+	return resolveKey(keys, key);
+}
+
+/**
+ * Parse fingerprinting rules, one per line:
+ *
+ *     # Group all database timeouts together
+ *     error.type:DatabaseError message:"*timeout*" -> database-timeout
+ *     stack.function:connect* !tags.region:eu-* -> connection-error, {{ transaction }}
+ *
+ * Each matcher is `key:pattern`, optionally negated with `!`; patterns are globs
+ * (`*` and `?`) and may be quoted. After `->` come the comma-separated fingerprint
+ * values, which may reference event data through `{{ variable }}`. Lines that fail
+ * to parse are reported with their position and left out of the returned rules.
+ */
+export function parseFingerprintRules(text: string): {
+	rules: FingerprintRule[];
+	errors: RuleSyntaxError[];
+} {
+	return parseRuleText(text, parseRule);
+}
+
+function parseRule(scanner: RuleScanner): FingerprintRule | RuleSyntaxError {
+	const matchers: RuleMatcher[] = [];
+	while (!scanner.startsWith('->')) {
+		if (scanner.done) {
+			return scanner.error("Expected '->' followed by a fingerprint");
+		}
+
+		const matcher = scanner.readMatcher(
+			(key) => resolveEventKey(MATCHER_KEYS, key),
+			'error.type:DatabaseError',
+		);
+		if (isSyntaxError(matcher)) return matcher;
+		matchers.push(matcher);
+		scanner.skipWhitespace();
+	}
+
+	if (matchers.length === 0) {
+		return scanner.error("Expected at least one matcher before '->'");
+	}
+	scanner.pos += 2;
+
+	const fingerprint: string[] = [];
+	while (true) {
+		scanner.skipWhitespace();
+		const valueStart = scanner.pos;
+		let raw: string;
+		if (scanner.peek() === '"') {
+			const quoted = scanner.readValue();
+			if (isSyntaxError(quoted)) return quoted;
+			raw = quoted;
+		} else {
+			// Unquoted values run to the next comma so variables can contain spaces
+			while (!scanner.done && scanner.peek() !== ',') scanner.pos++;
+			raw = scanner.line.slice(valueStart, scanner.pos).trim();
+		}
+		if (!raw.trim()) return scanner.error('Expected a fingerprint value', valueStart);
+
+		for (const [match, name] of raw.matchAll(VARIABLE_PATTERN)) {
+			if (!resolveEventKey(VARIABLE_KEYS, name)) {
+				return scanner.error(`Unknown variable '${match}'`, valueStart);
+			}
+		}
+		fingerprint.push(
+			raw.replace(
+				VARIABLE_PATTERN,
+				(_, name: string) => `{{ ${resolveEventKey(VARIABLE_KEYS, name)} }}`,
+			),
+		);
+
+		scanner.skipWhitespace();
+		if (scanner.done) break;
+		if (scanner.peek() !== ',') return scanner.error("Expected ',' between fingerprint values");
+		scanner.pos++;
+	}
+
+	return { line: scanner.lineNumber, matchers, fingerprint };
+}
+
+/**
+ * Find the first rule whose matchers all hold for the event.
+ */
+export function findFingerprintRule(
+	event: SentryEvent,
+	rules: FingerprintRule[],
+): FingerprintRule | null {
+	return rules.find((rule) => matchesRule(event, rule)) ?? null;
+}
+
+function matchesRule(event: SentryEvent, rule: FingerprintRule): boolean {
+	const frameMatchers = rule.matchers.filter((m) => m.key.startsWith('stack.'));
+
+	for (const matcher of rule.matchers) {
+		if (matcher.key.startsWith('stack.')) continue;
+		const matched = eventValues(event, matcher.key).some((v) => globMatch(matcher.pattern, v));
+		if (matched === matcher.negated) return false;
+	}
+
+	if (frameMatchers.length === 0) return true;
+
+	const frames = (event.exception?.values ?? []).flatMap((exc) => exc.stacktrace?.frames ?? []);
+	return frames.some((frame) => matchesFrame(frame, frameMatchers));
+}
+
+function eventValues(event: SentryEvent, key: string): string[] {
+	const exceptions = event.exception?.values ?? [];
+	let values: Array<string | undefined>;
+
+	switch (key) {
+		case 'error.type':
+			values = exceptions.map((exc) => exc.type);
+			break;
+		case 'error.value':
+			values = exceptions.map((exc) => exc.value);
+			break;
+		case 'message':
+			values = [event.message, ...exceptions.map((exc) => exc.value)];
+			break;
+		case 'logger':
+		case 'level':
+		case 'transaction':
+		case 'release':
+		case 'environment':
+			values = [event[key]];
+			break;
+		default:
+			values = key.startsWith('tags.') ? [event.tags?.[key.slice(5)]] : [];
+	}
+
+	return values.filter((v): v is string => typeof v === 'string');
+}
@@ -1,15 +1,45 @@
-import type { IssueMetadata, SentryEvent, StackFrame, Stacktrace } from '../types';
+import type {
+	ExceptionValue,
+	FingerprintRule,
+	IssueMetadata,
+	SentryEvent,
+	StackFrame,
+	Stacktrace,
+	StacktraceRule,
+} from '../types';
+import { findFingerprintRule } from './fingerprint-rules';
+import { applyStacktraceRules } from './stacktrace-rules';
 
 /**
  * Generate a fingerprint for grouping events into issues.
  * Priority:
- * 1. Explicit fingerprint from SDK (if not default)
- * 2. Exception-based grouping (type + message + top frames)
- * 3. Message-based grouping
- * 4. Fallback to event ID (no grouping)
+ * 1. First matching project fingerprinting rule
+ * 2. Explicit fingerprint from SDK (if not default)
+ * 3. Exception-based grouping (type + message + top frames of every chained exception)
+ * 4. Message-based grouping
+ * 5. Fallback to event ID (no grouping)
+ * Stack trace rules decide which frames count as in-app and which are left out.
  */
-export function generateFingerprint(event: SentryEvent): string {
-	// Priority 1: Explicit fingerprint from SDK
+export function generateFingerprint(
+	event: SentryEvent,
+	rules: FingerprintRule[] = [],
+	stacktraceRules: StacktraceRule[] = [],
+): string {
+	// Priority 1: Project fingerprinting rules
+	const rule = findFingerprintRule(event, rules);
+	if (rule) {
+		return hashArray(
+			rule.fingerprint.map((value) =>
+				value.replace(/\{\{ ([\w.-]+) \}\}/g, (_, name: string) =>
+					name === 'default'
+						? generateFingerprint(event, [], stacktraceRules)
+						: fingerprintVariable(event, name, stacktraceRules),
+				),
+			),
+		);
+	}
+
+	// Priority 2: Explicit fingerprint from SDK
 	if (event.fingerprint && event.fingerprint.length > 0) {
 		const nonDefault = event.fingerprint.filter((f) => f !== '{{ default }}');
 		if (nonDefault.length > 0) {
@@ -17,28 +47,29 @@ export function generateFingerprint(event: SentryEvent): string {
 		}
 	}
 
-	// Priority 2: Exception-based grouping
+	// Priority 3: Exception-based grouping, over the whole chain of causes
 	if (event.exception?.values && event.exception.values.length > 0) {
-		const exc = event.exception.values[0];
 		const parts: string[] = [];
 
-		// Exception type
-		parts.push(exc.type || 'Error');
+		for (const exc of event.exception.values) {
+			// Exception type
+			parts.push(exc.type || 'Error');
 
-		// Normalized message (remove variable parts like IDs, timestamps)
-		const normalizedMessage = normalizeMessage(exc.value || '');
-		parts.push(normalizedMessage);
+			// Normalized message (remove variable parts like IDs, timestamps)
+			const normalizedMessage = normalizeMessage(exc.value || '');
+			parts.push(normalizedMessage);
 
-		// Top in-app frames
-		const topFrames = getTopFrames(exc.stacktrace, 3);
-		for (const frame of topFrames) {
-			parts.push(formatFrame(frame));
+			// Top in-app frames
+			const topFrames = getTopFrames(exc.stacktrace, 3, stacktraceRules);
+			for (const frame of topFrames) {
+				parts.push(formatFrame(frame));
+			}
 		}
 
 		return hashArray(parts);
 	}
 
-	// Priority 3: Message-based grouping
+	// Priority 4: Message-based grouping
 	if (event.message) {
 		const normalizedMessage = normalizeMessage(event.message);
 		return hashArray([event.level || 'error', normalizedMessage]);
@@ -48,12 +79,67 @@ export function generateFingerprint(event: SentryEvent): string {
 	return hashArray([event.event_id]);
 }
 
+/**
+ * Resolve a `{{ variable }}` in a fingerprinting rule's values. Missing data resolves
+ * to a placeholder such as `<no-transaction>` so those events still group together.
+ */
+function fingerprintVariable(
+	event: SentryEvent,
+	name: string,
+	stacktraceRules: StacktraceRule[],
+): string {
+	const exc = getMainException(event);
+	let value: string | undefined;
+
+	switch (name) {
+		case 'error.type':
+			value = exc?.type;
+			break;
+		case 'error.value':
+			value = exc?.value && normalizeMessage(exc.value);
+			break;
+		case 'message': {
+			const message = event.message || exc?.value;
+			value = message && normalizeMessage(message);
+			break;
+		}
+		case 'stack.function':
+			value = getCulpritFrame(event, stacktraceRules)?.function;
+			break;
+		case 'stack.module':
+			value = getCulpritFrame(event, stacktraceRules)?.module;
+			break;
+		case 'logger':
+		case 'level':
+		case 'transaction':
+		case 'release':
+		case 'environment':
+			value = event[name];
+			break;
+		default:
+			value = name.startsWith('tags.') ? event.tags?.[name.slice(5)] : undefined;
+	}
+
+	return value || `<no-${name}>`;
+}
+
+/**
+ * Get the exception an event is about. Chained exceptions are ordered from the
+ * innermost cause to the outermost exception, so that is the last value, unless
+ * mechanism IDs mark another value as the root (`exception_id` 0).
+ */
+export function getMainException(event: SentryEvent): ExceptionValue | null {
+	const values = event.exception?.values;
+	if (!values || values.length === 0) return null;
+	return values.find((exc) => exc.mechanism?.exception_id === 0) ?? values[values.length - 1];
+}
+
 /**
  * Extract the title for an issue from an event.
  */
 export function extractTitle(event: SentryEvent): string {
-	if (event.exception?.values && event.exception.values.length > 0) {
-		const exc = event.exception.values[0];
+	const exc = getMainException(event);
+	if (exc) {
 		const type = exc.type || 'Error';
 		const value = exc.value || '';
 
@@ -73,35 +159,34 @@ export function extractTitle(event: SentryEvent): string {
 /**
  * Extract the culprit (location) from an event.
  */
-export function extractCulprit(event: SentryEvent): string | null {
+export function extractCulprit(
+	event: SentryEvent,
+	stacktraceRules: StacktraceRule[] = [],
+): string | null {
 	// Use transaction if available
 	if (event.transaction) {
 		return event.transaction;
 	}
 
 	// Extract from stack trace
-	if (event.exception?.values && event.exception.values.length > 0) {
-		const exc = event.exception.values[0];
-		const frame = getTopFrame(exc.stacktrace);
-
-		if (frame) {
-			const parts: string[] = [];
+	const frame = getCulpritFrame(event, stacktraceRules);
+	if (frame) {
+		const parts: string[] = [];
 
-			if (frame.filename) {
-				parts.push(frame.filename);
-			}
+		if (frame.filename) {
+			parts.push(frame.filename);
+		}
 
-			if (frame.function && frame.function !== '<anonymous>') {
-				parts.push(`in ${frame.function}`);
-			}
+		if (frame.function && frame.function !== '<anonymous>') {
+			parts.push(`in ${frame.function}`);
+		}
 
-			if (frame.lineno) {
-				parts.push(`at line ${frame.lineno}`);
-			}
+		if (frame.lineno) {
+			parts.push(`at line ${frame.lineno}`);
+		}
 
-			if (parts.length > 0) {
-				return parts.join(' ');
-			}
+		if (parts.length > 0) {
+			return parts.join(' ');
 		}
 	}
 
@@ -111,18 +196,21 @@ export function extractCulprit(event: SentryEvent): string | null {
 /**
  * Extract metadata for quick display.
  */
-export function extractMetadata(event: SentryEvent): IssueMetadata {
+export function extractMetadata(
+	event: SentryEvent,
+	stacktraceRules: StacktraceRule[] = [],
+): IssueMetadata {
 	const metadata: IssueMetadata = {
 		type: 'Error',
 		value: '',
 	};
 
-	if (event.exception?.values && event.exception.values.length > 0) {
-		const exc = event.exception.values[0];
+	const exc = getMainException(event);
+	if (exc) {
 		metadata.type = exc.type || 'Error';
 		metadata.value = (exc.value || '').slice(0, 200);
 
-		const frame = getTopFrame(exc.stacktrace);
+		const frame = getCulpritFrame(event, stacktraceRules);
 		if (frame) {
 			metadata.filename = frame.filename;
 			metadata.function = frame.function;
@@ -136,15 +224,22 @@ export function extractMetadata(event: SentryEvent): IssueMetadata {
 }
 
 /**
- * Get the top N in-app frames from a stacktrace.
+ * Get the top N in-app frames from a stacktrace, after applying the project's
+ * stack trace rules. Frames excluded from grouping are skipped.
  */
-function getTopFrames(stacktrace: Stacktrace | undefined, count: number): StackFrame[] {
+function getTopFrames(
+	stacktrace: Stacktrace | undefined,
+	count: number,
+	rules: StacktraceRule[],
+): StackFrame[] {
 	if (!stacktrace?.frames || stacktrace.frames.length === 0) {
 		return [];
 	}
 
 	// Frames are usually in reverse order (most recent last)
-	const frames = [...stacktrace.frames].reverse();
+	const frames = applyStacktraceRules(stacktrace.frames, rules)
+		.filter((f) => !f.exclude_from_grouping)
+		.reverse();
 
 	// Prefer in-app frames
 	const inAppFrames = frames.filter((f) => f.in_app !== false);
@@ -159,11 +254,31 @@ function getTopFrames(stacktrace: Stacktrace | undefined, count: number): StackF
 /**
  * Get the top frame from a stacktrace.
  */
-function getTopFrame(stacktrace: Stacktrace | undefined): StackFrame | null {
-	const frames = getTopFrames(stacktrace, 1);
+function getTopFrame(
+	stacktrace: Stacktrace | undefined,
+	rules: StacktraceRule[],
+): StackFrame | null {
+	const frames = getTopFrames(stacktrace, 1, rules);
 	return frames.length > 0 ? frames[0] : null;
 }
 
+/**
+ * Get the frame an event's culprit points at: the top frame of the main exception,
+ * or of the nearest cause that has a stack trace.
+ */
+function getCulpritFrame(event: SentryEvent, rules: StacktraceRule[]): StackFrame | null {
+	const main = getMainException(event);
+	if (!main) return null;
+
+	const values = event.exception?.values ?? [];
+	const causes = values.slice(0, values.indexOf(main)).reverse();
+	for (const exc of [main, ...causes]) {
+		const frame = getTopFrame(exc.stacktrace, rules);
+		if (frame) return frame;
+	}
+	return null;
+}
+
 /**
  * Format a stack frame for fingerprinting.
  */
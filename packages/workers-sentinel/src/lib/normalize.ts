@@ -0,0 +1,456 @@
+import type {
+	Breadcrumb,
+	EventUser,
+	ExceptionInterface,
+	ExceptionValue,
+	NormalizationLimits,
+	RequestContext,
+	SentryEvent,
+	Stacktrace,
+	Thread,
+	ThreadsInterface,
+} from '../types';
+
+export const DEFAULT_NORMALIZATION_LIMITS: NormalizationLimits = {
+	maxStringLength: 8192,
+	maxBreadcrumbs: 100,
+	maxFrames: 250,
+	maxDepth: 8,
+	maxCollectionItems: 200,
+};
+
+type EventLevel = NonNullable<SentryEvent['level']>;
+
+const LEVELS: EventLevel[] = ['fatal', 'error', 'warning', 'info', 'debug'];
+
+const LEVEL_ALIASES: Record<string, EventLevel> = {
+	critical: 'fatal',
+	warn: 'warning',
+	log: 'info',
+};
+
+// Fields with a known shape; everything else on the event is treated as a free-form databag
+const KNOWN_FIELDS = new Set([
+	'event_id',
+	'timestamp',
+	'platform',
+	'level',
+	'logger',
+	'transaction',
+	'server_name',
+	'release',
+	'dist',
+	'environment',
+	'tags',
+	'extra',
+	'user',
+	'contexts',
+	'request',
+	'exception',
+	'stacktrace',
+	'threads',
+	'breadcrumbs',
+	'fingerprint',
+	'message',
+	'logentry',
+	'_meta',
+]);
+
+type Path = (string | number)[];
+
+interface NormalizeContext {
+	limits: NormalizationLimits;
+	meta: Record<string, unknown>;
+}
+
+/**
+ * Validate an incoming event against the `SentryEvent` shape and trim it to the limits.
+ * Fields of the wrong type are dropped, levels are clamped to the known enum, and
+ * breadcrumbs, stack frames (of exceptions, threads and the event itself), strings and nested
+ * data are cut down. Every change is noted
+ * in `_meta`, keyed by the path of the affected field, in the format Sentry uses:
+ * `{ "breadcrumbs": { "": { "len": 3000, "rem": [["!limit", "x"]] } } }`.
+ */
+export function normalizeEvent(raw: unknown, limits: NormalizationLimits): SentryEvent {
+	const ctx: NormalizeContext = { limits, meta: {} };
+	const input = isObject(raw) ? raw : {};
+
+	const rest: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(input)) {
+		if (!KNOWN_FIELDS.has(key)) rest[key] = value;
+	}
+
+	const event: Record<string, unknown> = {
+		...(normalizeDatabag(rest, ctx, []) as Record<string, unknown>),
+		event_id: normalizeEventId(input.event_id, ctx),
+		timestamp: normalizeTimestamp(input.timestamp, ctx, ['timestamp']) ?? new Date().toISOString(),
+		platform: stringField(input.platform, ctx, ['platform']),
+		level: normalizeLevel(input.level, ctx),
+		logger: stringField(input.logger, ctx, ['logger']),
+		transaction: stringField(input.transaction, ctx, ['transaction']),
+		server_name: stringField(input.server_name, ctx, ['server_name']),
+		release: stringField(input.release, ctx, ['release']),
+		dist: stringField(input.dist, ctx, ['dist']),
+		environment: stringField(input.environment, ctx, ['environment']),
+		message: normalizeMessage(input.message ?? input.logentry, ctx),
+		tags: normalizeTags(input.tags, ctx),
+		extra: objectField(input.extra, ctx, ['extra']),
+		user: normalizeUser(input.user, ctx),
+		contexts: objectField(input.contexts, ctx, ['contexts']),
+		request: normalizeRequest(input.request, ctx),
+		exception: normalizeException(input.exception, ctx),
+		stacktrace: normalizeStacktrace(input.stacktrace, ctx, ['stacktrace']),
+		threads: normalizeThreads(input.threads, ctx),
+		breadcrumbs: normalizeBreadcrumbs(input.breadcrumbs, ctx),
+		fingerprint: normalizeFingerprint(input.fingerprint, ctx),
+	};
+
+	for (const key of Object.keys(event)) {
+		if (event[key] === undefined) delete event[key];
+	}
+	if (Object.keys(ctx.meta).length > 0) {
+		event._meta = ctx.meta;
+	}
+
+	return event as unknown as SentryEvent;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function addMeta(ctx: NormalizeContext, path: Path, entry: Record<string, unknown>): void {
+	let node = ctx.meta;
+	for (const segment of path) {
+		const key = String(segment);
+		if (!isObject(node[key])) node[key] = {};
+		node = node[key] as Record<string, unknown>;
+	}
+	node[''] = { ...(node[''] as Record<string, unknown>), ...entry };
+}
+
+function invalid(ctx: NormalizeContext, path: Path, reason: string): void {
+	addMeta(ctx, path, { err: [['invalid_data', { reason }]] });
+}
+
+function trimString(value: string, ctx: NormalizeContext, path: Path): string {
+	const max = ctx.limits.maxStringLength;
+	if (value.length <= max) return value;
+	addMeta(ctx, path, { len: value.length, rem: [['!limit', 's']] });
+	return `${value.slice(0, Math.max(0, max - 3))}...`;
+}
+
+function stringField(value: unknown, ctx: NormalizeContext, path: Path): string | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value === 'string') return trimString(value, ctx, path);
+	if (typeof value === 'number' || typeof value === 'boolean') {
+		return trimString(String(value), ctx, path);
+	}
+	invalid(ctx, path, 'expected a string');
+	return undefined;
+}
+
+/**
+ * Trim free-form data: long strings, collections with too many items and nesting deeper
+ * than the depth limit, which is replaced with null.
+ */
+function normalizeDatabag(value: unknown, ctx: NormalizeContext, path: Path, depth = 0): unknown {
+	if (typeof value === 'string') return trimString(value, ctx, path);
+	if (value === null || typeof value !== 'object') return value;
+
+	const entries: [string | number, unknown][] = Array.isArray(value)
+		? value.map((item, i) => [i, item])
+		: Object.entries(value);
+
+	if (depth >= ctx.limits.maxDepth) {
+		addMeta(ctx, path, { len: entries.length, rem: [['!limit', 'x']] });
+		return null;
+	}
+
+	const kept = entries.slice(0, ctx.limits.maxCollectionItems);
+	if (kept.length < entries.length) {
+		addMeta(ctx, path, { len: entries.length, rem: [['!limit', 'x']] });
+	}
+
+	const normalized = kept.map(
+		([key, item]) => [key, normalizeDatabag(item, ctx, [...path, key], depth + 1)] as const,
+	);
+	return Array.isArray(value) ? normalized.map(([, item]) => item) : Object.fromEntries(normalized);
+}
+
+function objectField(
+	value: unknown,
+	ctx: NormalizeContext,
+	path: Path,
+): Record<string, unknown> | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (!isObject(value)) {
+		invalid(ctx, path, 'expected an object');
+		return undefined;
+	}
+	return normalizeDatabag(value, ctx, path) as Record<string, unknown>;
+}
+
+function normalizeEventId(value: unknown, ctx: NormalizeContext): string {
+	if (value !== undefined && value !== null) {
+		const eventId = typeof value === 'string' ? value.replace(/-/g, '').toLowerCase() : '';
+		if (/^[0-9a-f]{32}$/.test(eventId)) return eventId;
+		invalid(ctx, ['event_id'], 'expected a UUID');
+	}
+	return crypto.randomUUID().replace(/-/g, '');
+}
+
+// SDKs send either RFC 3339 strings or seconds since the epoch
+function normalizeTimestamp(value: unknown, ctx: NormalizeContext, path: Path): string | undefined {
+	if (value === undefined || value === null) return undefined;
+
+	let date: Date | null = null;
+	if (typeof value === 'number') {
+		date = new Date(value * 1000);
+	} else if (typeof value === 'string') {
+		date = new Date(/^\d+(\.\d+)?$/.test(value) ? Number(value) * 1000 : value);
+	}
+
+	if (!date || Number.isNaN(date.getTime())) {
+		invalid(ctx, path, 'expected a timestamp');
+		return undefined;
+	}
+	return date.toISOString();
+}
+
+function normalizeLevel(value: unknown, ctx: NormalizeContext): EventLevel | undefined {
+	if (value === undefined || value === null) return undefined;
+
+	const level = typeof value === 'string' ? value.toLowerCase() : '';
+	if (LEVELS.includes(level as EventLevel)) return level as EventLevel;
+	if (LEVEL_ALIASES[level]) return LEVEL_ALIASES[level];
+
+	invalid(ctx, ['level'], `expected one of ${LEVELS.join(', ')}`);
+	return 'error';
+}
+
+// `message` may also be a log entry object with the formatted text
+function normalizeMessage(value: unknown, ctx: NormalizeContext): string | undefined {
+	if (isObject(value)) {
+		return stringField(value.formatted ?? value.message, ctx, ['message']);
+	}
+	return stringField(value, ctx, ['message']);
+}
+
+// Tags arrive as an object or as a list of [key, value] pairs
+function normalizeTags(value: unknown, ctx: NormalizeContext): Record<string, string> | undefined {
+	if (value === undefined || value === null) return undefined;
+
+	const pairs = Array.isArray(value) ? value : isObject(value) ? Object.entries(value) : null;
+	if (!pairs) {
+		invalid(ctx, ['tags'], 'expected an object');
+		return undefined;
+	}
+
+	const kept = pairs.slice(0, ctx.limits.maxCollectionItems);
+	if (kept.length < pairs.length) {
+		addMeta(ctx, ['tags'], { len: pairs.length, rem: [['!limit', 'x']] });
+	}
+
+	const tags: Record<string, string> = {};
+	for (const pair of kept) {
+		if (!Array.isArray(pair) || pair.length !== 2 || typeof pair[0] !== 'string') continue;
+		const [key, tagValue] = pair;
+		if (
+			typeof tagValue === 'string' ||
+			typeof tagValue === 'number' ||
+			typeof tagValue === 'boolean'
+		) {
+			tags[key] = trimString(String(tagValue), ctx, ['tags', key]);
+		} else if (tagValue !== null && tagValue !== undefined) {
+			invalid(ctx, ['tags', key], 'expected a string');
+		}
+	}
+	return tags;
+}
+
+function normalizeUser(value: unknown, ctx: NormalizeContext): EventUser | undefined {
+	const user = objectField(value, ctx, ['user']);
+	if (!user) return undefined;
+
+	for (const key of ['id', 'email', 'ip_address', 'username']) {
+		if (key in user) {
+			user[key] = stringField(user[key], ctx, ['user', key]);
+		}
+	}
+	return user as EventUser;
+}
+
+function normalizeRequest(value: unknown, ctx: NormalizeContext): RequestContext | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (!isObject(value)) {
+		invalid(ctx, ['request'], 'expected an object');
+		return undefined;
+	}
+
+	// Headers and query strings may also be lists of [name, value] pairs
+	const pairsToObject = (pairs: unknown[]) =>
+		Object.fromEntries(
+			pairs.filter((pair): pair is [string, unknown] => Array.isArray(pair) && pair.length === 2),
+		);
+	const headers = Array.isArray(value.headers) ? pairsToObject(value.headers) : value.headers;
+	let queryString = value.query_string;
+	if (Array.isArray(queryString) || isObject(queryString)) {
+		const params = Array.isArray(queryString) ? pairsToObject(queryString) : queryString;
+		queryString = new URLSearchParams(params as Record<string, string>).toString();
+	}
+
+	const request = normalizeDatabag({ ...value, headers, query_string: queryString }, ctx, [
+		'request',
+	]) as Record<string, unknown>;
+	for (const key of ['url', 'method', 'query_string']) {
+		if (key in request) {
+			request[key] = stringField(request[key], ctx, ['request', key]);
+		}
+	}
+	if (request.headers !== undefined && !isObject(request.headers)) {
+		invalid(ctx, ['request', 'headers'], 'expected an object');
+		request.headers = undefined;
+	}
+	return request as RequestContext;
+}
+
+// Exceptions arrive as `{ values: [...] }` or as a bare list
+function normalizeException(value: unknown, ctx: NormalizeContext): ExceptionInterface | undefined {
+	if (value === undefined || value === null) return undefined;
+
+	const values = Array.isArray(value)
+		? value
+		: isObject(value) && Array.isArray(value.values)
+			? value.values
+			: null;
+	if (!values) {
+		invalid(ctx, ['exception'], 'expected a list of exceptions');
+		return undefined;
+	}
+
+	return {
+		values: values.flatMap((exception, i) =>
+			isObject(exception)
+				? [normalizeExceptionValue(exception, ctx, ['exception', 'values', i])]
+				: [],
+		),
+	};
+}
+
+function normalizeExceptionValue(
+	exception: Record<string, unknown>,
+	ctx: NormalizeContext,
+	path: Path,
+): ExceptionValue {
+	const { stacktrace, ...rest } = exception;
+	const normalized = normalizeDatabag(rest, ctx, path) as Record<string, unknown>;
+
+	for (const key of ['type', 'value', 'module']) {
+		if (key in normalized) {
+			normalized[key] = stringField(normalized[key], ctx, [...path, key]);
+		}
+	}
+	const trace = normalizeStacktrace(stacktrace, ctx, [...path, 'stacktrace']);
+	if (trace) normalized.stacktrace = trace;
+
+	return normalized as unknown as ExceptionValue;
+}
+
+// Threads arrive as `{ values: [...] }` or as a bare list
+function normalizeThreads(value: unknown, ctx: NormalizeContext): ThreadsInterface | undefined {
+	if (value === undefined || value === null) return undefined;
+
+	const values = Array.isArray(value)
+		? value
+		: isObject(value) && Array.isArray(value.values)
+			? value.values
+			: null;
+	if (!values) {
+		invalid(ctx, ['threads'], 'expected a list of threads');
+		return undefined;
+	}
+
+	return {
+		values: values.flatMap((thread, i) => {
+			if (!isObject(thread)) return [];
+			const path = ['threads', 'values', i];
+			const { stacktrace, ...rest } = thread;
+			const normalized = normalizeDatabag(rest, ctx, path) as Record<string, unknown>;
+			const trace = normalizeStacktrace(stacktrace, ctx, [...path, 'stacktrace']);
+			if (trace) normalized.stacktrace = trace;
+			return [normalized as Thread];
+		}),
+	};
+}
+
+function normalizeStacktrace(
+	value: unknown,
+	ctx: NormalizeContext,
+	path: Path,
+): Stacktrace | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (!isObject(value) || !Array.isArray(value.frames)) {
+		invalid(ctx, path, 'expected a stack trace with frames');
+		return undefined;
+	}
+
+	let frames = value.frames.filter(isObject);
+	const max = ctx.limits.maxFrames;
+	if (frames.length > max) {
+		addMeta(ctx, [...path, 'frames'], { len: frames.length, rem: [['!limit', 'x']] });
+		// Keep the outermost and innermost frames; the middle of a deep recursion adds little
+		const head = Math.floor(max / 2);
+		frames = [...frames.slice(0, head), ...frames.slice(frames.length - (max - head))];
+	}
+
+	const { frames: _frames, ...rest } = value;
+	return {
+		...(normalizeDatabag(rest, ctx, path) as Record<string, unknown>),
+		frames: frames.map((frame, i) => normalizeDatabag(frame, ctx, [...path, 'frames', i])),
+	} as Stacktrace;
+}
+
+// Breadcrumbs arrive as `{ values: [...] }` or as a bare list
+function normalizeBreadcrumbs(value: unknown, ctx: NormalizeContext): Breadcrumb[] | undefined {
+	if (value === undefined || value === null) return undefined;
+
+	const values = Array.isArray(value)
+		? value
+		: isObject(value) && Array.isArray(value.values)
+			? value.values
+			: null;
+	if (!values) {
+		invalid(ctx, ['breadcrumbs'], 'expected a list of breadcrumbs');
+		return undefined;
+	}
+
+	let breadcrumbs = values.filter(isObject);
+	const max = ctx.limits.maxBreadcrumbs;
+	if (breadcrumbs.length > max) {
+		addMeta(ctx, ['breadcrumbs'], { len: breadcrumbs.length, rem: [['!limit', 'x']] });
+		// Keep the most recent breadcrumbs, the ones leading up to the event
+		breadcrumbs = breadcrumbs.slice(breadcrumbs.length - max);
+	}
+
+	return breadcrumbs.map((breadcrumb, i) => {
+		const path = ['breadcrumbs', i];
+		const normalized = normalizeDatabag(breadcrumb, ctx, path) as Record<string, unknown>;
+		if ('timestamp' in breadcrumb) {
+			normalized.timestamp = normalizeTimestamp(breadcrumb.timestamp, ctx, [...path, 'timestamp']);
+		}
+		return normalized as Breadcrumb;
+	});
+}
+
+function normalizeFingerprint(value: unknown, ctx: NormalizeContext): string[] | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (
+		!Array.isArray(value) ||
+		value.some((part) => typeof part !== 'string' && typeof part !== 'number')
+	) {
+		invalid(ctx, ['fingerprint'], 'expected a list of strings');
+		return undefined;
+	}
+	return value.map((part, i) => trimString(String(part), ctx, ['fingerprint', i]));
+}
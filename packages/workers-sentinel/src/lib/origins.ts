@@ -0,0 +1,63 @@
+interface DomainPattern {
+	scheme: string | null;
+	host: string;
+	port: string | null;
+}
+
+const DOMAIN_PATTERN =
+	/^(?:(https?):\/\/)?(\*|(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d{1,5}|\*))?\/?$/;
+
+const DEFAULT_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443' };
+
+function parseDomainPattern(entry: string): DomainPattern | null {
+	const match = entry.trim().toLowerCase().match(DOMAIN_PATTERN);
+	if (!match) return null;
+	return {
+		scheme: match[1] || null,
+		host: match[2],
+		port: match[3] && match[3] !== '*' ? match[3] : null,
+	};
+}
+
+/**
+ * Normalize an allowed-domain entry, or return null when it is not a valid pattern.
+ */
+export function normalizeAllowedDomain(entry: string): string | null {
+	return parseDomainPattern(entry) ? entry.trim().toLowerCase().replace(/\/$/, '') : null;
+}
+
+/**
+ * Check a browser request's Origin (or Referer) against a project's allowed domains.
+ * Entries are `*`, a host such as `example.com` or `localhost:3000`, or a wildcard host
+ * such as `*.example.com` (which also matches `example.com`), optionally with a scheme.
+ * Requests without either header come from servers and are always allowed.
+ */
+export function isOriginAllowed(
+	source: string | null | undefined,
+	allowedDomains: string[],
+): boolean {
+	if (!source) return true;
+	if (allowedDomains.includes('*')) return true;
+
+	let url: URL;
+	try {
+		url = new URL(source);
+	} catch {
+		return false;
+	}
+	const host = url.hostname.toLowerCase();
+	const port = url.port || DEFAULT_PORTS[url.protocol] || '';
+
+	return allowedDomains.some((entry) => {
+		const pattern = parseDomainPattern(entry);
+		if (!pattern) return false;
+		if (pattern.scheme && `${pattern.scheme}:` !== url.protocol) return false;
+		if (pattern.port && pattern.port !== port) return false;
+		if (pattern.host === '*') return true;
+		if (pattern.host.startsWith('*.')) {
+			const base = pattern.host.slice(2);
+			return host === base || host.endsWith(`.${base}`);
+		}
+		return host === pattern.host;
+	});
+}
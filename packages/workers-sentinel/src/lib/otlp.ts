@@ -0,0 +1,478 @@
+import type { SentryEvent } from '../types';
+import {
+	asBytes,
+	asDouble,
+	asFixed64,
+	asInt64,
+	asString,
+	readFields,
+	toHex,
+	WIRE_FIXED64,
+} from './protobuf';
+import { parseStackTrace } from './stacktrace';
+
+// OTLP/JSON shapes (protobuf payloads are decoded into the same shapes)
+
+interface OtlpAnyValue {
+	stringValue?: string;
+	boolValue?: boolean;
+	intValue?: string | number;
+	doubleValue?: number;
+	arrayValue?: { values?: OtlpAnyValue[] };
+	kvlistValue?: { values?: OtlpKeyValue[] };
+	bytesValue?: string;
+}
+
+interface OtlpKeyValue {
+	key: string;
+	value?: OtlpAnyValue;
+}
+
+interface OtlpResource {
+	attributes?: OtlpKeyValue[];
+}
+
+interface OtlpScope {
+	name?: string;
+	version?: string;
+}
+
+interface OtlpLogRecord {
+	timeUnixNano?: string;
+	observedTimeUnixNano?: string;
+	severityNumber?: number;
+	severityText?: string;
+	body?: OtlpAnyValue;
+	attributes?: OtlpKeyValue[];
+	traceId?: string;
+	spanId?: string;
+}
+
+interface OtlpSpanEvent {
+	timeUnixNano?: string;
+	name?: string;
+	attributes?: OtlpKeyValue[];
+}
+
+interface OtlpSpan {
+	traceId?: string;
+	spanId?: string;
+	parentSpanId?: string;
+	name?: string;
+	attributes?: OtlpKeyValue[];
+	events?: OtlpSpanEvent[];
+}
+
+export interface OtlpLogsRequest {
+	resourceLogs?: Array<{
+		resource?: OtlpResource;
+		scopeLogs?: Array<{ scope?: OtlpScope; logRecords?: OtlpLogRecord[] }>;
+	}>;
+}
+
+export interface OtlpTracesRequest {
+	resourceSpans?: Array<{
+		resource?: OtlpResource;
+		scopeSpans?: Array<{ scope?: OtlpScope; spans?: OtlpSpan[] }>;
+	}>;
+}
+
+export type OtlpSignal = 'logs' | 'traces';
+
+// SeverityNumber values: 17-20 are ERROR, 21-24 are FATAL
+const SEVERITY_ERROR = 17;
+const SEVERITY_FATAL = 21;
+
+// Resource attributes that map to event fields rather than tags
+const RESOURCE_FIELD_KEYS = new Set([
+	'service.version',
+	'deployment.environment',
+	'deployment.environment.name',
+	'telemetry.sdk.language',
+]);
+
+// telemetry.sdk.language values whose Sentry platform name differs
+const SDK_PLATFORMS: Record<string, string> = {
+	nodejs: 'node',
+	webjs: 'javascript',
+	dotnet: 'csharp',
+	cpp: 'native',
+};
+
+/**
+ * Decode an OTLP/HTTP request body (JSON or protobuf) and convert it into Sentry events.
+ * Throws when the body cannot be decoded.
+ */
+export function parseOtlpRequest(
+	signal: OtlpSignal,
+	body: Uint8Array,
+	contentType: string,
+): SentryEvent[] {
+	const isProtobuf = contentType.includes('application/x-protobuf');
+
+	if (signal === 'logs') {
+		const request: OtlpLogsRequest = isProtobuf
+			? decodeLogsRequest(body)
+			: JSON.parse(new TextDecoder().decode(body));
+		return otlpLogsToEvents(request);
+	}
+
+	const request: OtlpTracesRequest = isProtobuf
+		? decodeTracesRequest(body)
+		: JSON.parse(new TextDecoder().decode(body));
+	return otlpTracesToEvents(request);
+}
+
+/**
+ * Convert ERROR and FATAL log records into events. Records carrying `exception.*`
+ * attributes become exceptions; the rest become message events.
+ */
+export function otlpLogsToEvents(request: OtlpLogsRequest): SentryEvent[] {
+	const events: SentryEvent[] = [];
+
+	for (const resourceLogs of request.resourceLogs ?? []) {
+		const resource = attributesToRecord(resourceLogs.resource?.attributes);
+
+		for (const scopeLogs of resourceLogs.scopeLogs ?? []) {
+			for (const record of scopeLogs.logRecords ?? []) {
+				const severity = getSeverity(record);
+				if (severity < SEVERITY_ERROR) continue;
+
+				const attributes = attributesToRecord(record.attributes);
+				const event: SentryEvent = {
+					...baseEvent(resource, record.timeUnixNano || record.observedTimeUnixNano),
+					level: severity >= SEVERITY_FATAL ? 'fatal' : 'error',
+					logger: scopeLogs.scope?.name || undefined,
+					extra: attributes,
+				};
+
+				const bodyText = anyValueToString(record.body);
+				if (typeof attributes['exception.type'] === 'string' || attributes['exception.message']) {
+					event.exception = { values: [exceptionFromAttributes(attributes, bodyText)] };
+				} else {
+					event.message = bodyText;
+				}
+
+				setTraceContext(event, record.traceId, record.spanId);
+				events.push(event);
+			}
+		}
+	}
+
+	return events;
+}
+
+/**
+ * Convert span events named `exception` into events, with the span as the transaction.
+ */
+export function otlpTracesToEvents(request: OtlpTracesRequest): SentryEvent[] {
+	const events: SentryEvent[] = [];
+
+	for (const resourceSpans of request.resourceSpans ?? []) {
+		const resource = attributesToRecord(resourceSpans.resource?.attributes);
+
+		for (const scopeSpans of resourceSpans.scopeSpans ?? []) {
+			for (const span of scopeSpans.spans ?? []) {
+				for (const spanEvent of span.events ?? []) {
+					if (spanEvent.name !== 'exception') continue;
+
+					const attributes = attributesToRecord(spanEvent.attributes);
+					const event: SentryEvent = {
+						...baseEvent(resource, spanEvent.timeUnixNano),
+						level: 'error',
+						logger: scopeSpans.scope?.name || undefined,
+						transaction: span.name || undefined,
+						exception: { values: [exceptionFromAttributes(attributes, '')] },
+						extra: attributesToRecord(span.attributes),
+					};
+
+					setTraceContext(event, span.traceId, span.spanId);
+					events.push(event);
+				}
+			}
+		}
+	}
+
+	return events;
+}
+
+function baseEvent(
+	resource: Record<string, unknown>,
+	timeUnixNano: string | undefined,
+): SentryEvent {
+	const tags: Record<string, string> = {};
+	for (const [key, value] of Object.entries(resource)) {
+		if (RESOURCE_FIELD_KEYS.has(key)) continue;
+		if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+			tags[key] = String(value).slice(0, 200);
+		}
+	}
+
+	const environment = resource['deployment.environment.name'] ?? resource['deployment.environment'];
+	const version = resource['service.version'];
+	const serviceName = resource['service.name'];
+	const language = resource['telemetry.sdk.language'];
+
+	return {
+		event_id: crypto.randomUUID().replace(/-/g, ''),
+		timestamp: nanosToIso(timeUnixNano),
+		platform: typeof language === 'string' ? (SDK_PLATFORMS[language] ?? language) : 'other',
+		server_name: typeof resource['host.name'] === 'string' ? resource['host.name'] : undefined,
+		environment: typeof environment === 'string' ? environment : undefined,
+		release:
+			typeof version === 'string'
+				? typeof serviceName === 'string'
+					? `${serviceName}@${version}`
+					: version
+				: undefined,
+		tags,
+	};
+}
+
+function exceptionFromAttributes(attributes: Record<string, unknown>, fallbackMessage: string) {
+	const stacktrace = parseStackTrace(stringAttribute(attributes, 'exception.stacktrace'));
+	return {
+		type: stringAttribute(attributes, 'exception.type') || 'Error',
+		value: stringAttribute(attributes, 'exception.message') || fallbackMessage,
+		...(stacktrace ? { stacktrace } : {}),
+		mechanism: {
+			type: 'otlp',
+			handled: attributes['exception.escaped'] !== true,
+		},
+	};
+}
+
+function setTraceContext(event: SentryEvent, traceId?: string, spanId?: string): void {
+	if (!traceId) return;
+	event.contexts = { trace: { trace_id: traceId, ...(spanId ? { span_id: spanId } : {}) } };
+}
+
+function getSeverity(record: OtlpLogRecord): number {
+	const severity = Number(record.severityNumber);
+	if (Number.isFinite(severity) && severity > 0) return severity;
+
+	// Some exporters only set the text
+	const text = record.severityText?.toUpperCase() ?? '';
+	if (text.startsWith('FATAL') || text === 'CRITICAL') return SEVERITY_FATAL;
+	if (text.startsWith('ERROR')) return SEVERITY_ERROR;
+	return 0;
+}
+
+function stringAttribute(attributes: Record<string, unknown>, key: string): string | undefined {
+	const value = attributes[key];
+	return typeof value === 'string' ? value : undefined;
+}
+
+function nanosToIso(nanos: string | undefined): string {
+	try {
+		const millis = Number(BigInt(nanos ?? 0) / 1_000_000n);
+		if (millis > 0) return new Date(millis).toISOString();
+	} catch {
+		// Not an integer string
+	}
+	return new Date().toISOString();
+}
+
+function attributesToRecord(attributes: OtlpKeyValue[] | undefined): Record<string, unknown> {
+	const record: Record<string, unknown> = {};
+	for (const attribute of attributes ?? []) {
+		if (attribute?.key) record[attribute.key] = anyValueToJs(attribute.value);
+	}
+	return record;
+}
+
+function anyValueToJs(value: OtlpAnyValue | undefined): unknown {
+	if (!value) return null;
+	if (value.stringValue !== undefined) return value.stringValue;
+	if (value.boolValue !== undefined) return value.boolValue;
+	if (value.intValue !== undefined) return Number(value.intValue);
+	if (value.doubleValue !== undefined) return value.doubleValue;
+	if (value.arrayValue) return (value.arrayValue.values ?? []).map(anyValueToJs);
+	if (value.kvlistValue) return attributesToRecord(value.kvlistValue.values);
+	if (value.bytesValue !== undefined) return value.bytesValue;
+	return null;
+}
+
+function anyValueToString(value: OtlpAnyValue | undefined): string {
+	const js = anyValueToJs(value);
+	if (js === null) return '';
+	return typeof js === 'string' ? js : JSON.stringify(js);
+}
+
+// Protobuf decoding (opentelemetry/proto/collector/{logs,trace}/v1)
+
+function decodeLogsRequest(bytes: Uint8Array): OtlpLogsRequest {
+	const resourceLogs: NonNullable<OtlpLogsRequest['resourceLogs']> = [];
+
+	for (const { field, value } of readFields(bytes)) {
+		if (field !== 1) continue;
+		const entry: (typeof resourceLogs)[number] = { scopeLogs: [] };
+		for (const inner of readFields(asBytes(value))) {
+			if (inner.field === 1) entry.resource = decodeResource(asBytes(inner.value));
+			if (inner.field === 2) {
+				const scopeLogs: { scope?: OtlpScope; logRecords: OtlpLogRecord[] } = { logRecords: [] };
+				for (const scopeField of readFields(asBytes(inner.value))) {
+					if (scopeField.field === 1) scopeLogs.scope = decodeScope(asBytes(scopeField.value));
+					if (scopeField.field === 2) {
+						scopeLogs.logRecords.push(decodeLogRecord(asBytes(scopeField.value)));
+					}
+				}
+				entry.scopeLogs?.push(scopeLogs);
+			}
+		}
+		resourceLogs.push(entry);
+	}
+
+	return { resourceLogs };
+}
+
+function decodeTracesRequest(bytes: Uint8Array): OtlpTracesRequest {
+	const resourceSpans: NonNullable<OtlpTracesRequest['resourceSpans']> = [];
+
+	for (const { field, value } of readFields(bytes)) {
+		if (field !== 1) continue;
+		const entry: (typeof resourceSpans)[number] = { scopeSpans: [] };
+		for (const inner of readFields(asBytes(value))) {
+			if (inner.field === 1) entry.resource = decodeResource(asBytes(inner.value));
+			if (inner.field === 2) {
+				const scopeSpans: { scope?: OtlpScope; spans: OtlpSpan[] } = { spans: [] };
+				for (const scopeField of readFields(asBytes(inner.value))) {
+					if (scopeField.field === 1) scopeSpans.scope = decodeScope(asBytes(scopeField.value));
+					if (scopeField.field === 2) scopeSpans.spans.push(decodeSpan(asBytes(scopeField.value)));
+				}
+				entry.scopeSpans?.push(scopeSpans);
+			}
+		}
+		resourceSpans.push(entry);
+	}
+
+	return { resourceSpans };
+}
+
+function decodeResource(bytes: Uint8Array): OtlpResource {
+	const attributes: OtlpKeyValue[] = [];
+	for (const { field, value } of readFields(bytes)) {
+		if (field === 1) attributes.push(decodeKeyValue(asBytes(value)));
+	}
+	return { attributes };
+}
+
+function decodeScope(bytes: Uint8Array): OtlpScope {
+	const scope: OtlpScope = {};
+	for (const { field, value } of readFields(bytes)) {
+		if (field === 1) scope.name = asString(value);
+		if (field === 2) scope.version = asString(value);
+	}
+	return scope;
+}
+
+function decodeLogRecord(bytes: Uint8Array): OtlpLogRecord {
+	const record: OtlpLogRecord = { attributes: [] };
+	for (const { field, value } of readFields(bytes)) {
+		switch (field) {
+			case 1:
+				record.timeUnixNano = asFixed64(value).toString();
+				break;
+			case 2:
+				record.severityNumber = Number(asInt64(value));
+				break;
+			case 3:
+				record.severityText = asString(value);
+				break;
+			case 5:
+				record.body = decodeAnyValue(asBytes(value));
+				break;
+			case 6:
+				record.attributes?.push(decodeKeyValue(asBytes(value)));
+				break;
+			case 9:
+				record.traceId = toHex(asBytes(value));
+				break;
+			case 10:
+				record.spanId = toHex(asBytes(value));
+				break;
+			case 11:
+				record.observedTimeUnixNano = asFixed64(value).toString();
+				break;
+		}
+	}
+	return record;
+}
+
+function decodeSpan(bytes: Uint8Array): OtlpSpan {
+	const span: OtlpSpan = { attributes: [], events: [] };
+	for (const { field, value } of readFields(bytes)) {
+		switch (field) {
+			case 1:
+				span.traceId = toHex(asBytes(value));
+				break;
+			case 2:
+				span.spanId = toHex(asBytes(value));
+				break;
+			case 4:
+				span.parentSpanId = toHex(asBytes(value));
+				break;
+			case 5:
+				span.name = asString(value);
+				break;
+			case 9:
+				span.attributes?.push(decodeKeyValue(asBytes(value)));
+				break;
+			case 11:
+				span.events?.push(decodeSpanEvent(asBytes(value)));
+				break;
+		}
+	}
+	return span;
+}
+
+function decodeSpanEvent(bytes: Uint8Array): OtlpSpanEvent {
+	const event: OtlpSpanEvent = { attributes: [] };
+	for (const { field, value } of readFields(bytes)) {
+		if (field === 1) event.timeUnixNano = asFixed64(value).toString();
+		if (field === 2) event.name = asString(value);
+		if (field === 3) event.attributes?.push(decodeKeyValue(asBytes(value)));
+	}
+	return event;
+}
+
+function decodeKeyValue(bytes: Uint8Array): OtlpKeyValue {
+	const keyValue: OtlpKeyValue = { key: '' };
+	for (const { field, value } of readFields(bytes)) {
+		if (field === 1) keyValue.key = asString(value);
+		if (field === 2) keyValue.value = decodeAnyValue(asBytes(value));
+	}
+	return keyValue;
+}
+
+function decodeAnyValue(bytes: Uint8Array): OtlpAnyValue {
+	for (const { field, wireType, value } of readFields(bytes)) {
+		switch (field) {
+			case 1:
+				return { stringValue: asString(value) };
+			case 2:
+				return { boolValue: asInt64(value) !== 0n };
+			case 3:
+				return { intValue: asInt64(value).toString() };
+			case 4:
+				return { doubleValue: wireType === WIRE_FIXED64 ? asDouble(value) : 0 };
+			case 5: {
+				const values: OtlpAnyValue[] = [];
+				for (const item of readFields(asBytes(value))) {
+					if (item.field === 1) values.push(decodeAnyValue(asBytes(item.value)));
+				}
+				return { arrayValue: { values } };
+			}
+			case 6: {
+				const values: OtlpKeyValue[] = [];
+				for (const item of readFields(asBytes(value))) {
+					if (item.field === 1) values.push(decodeKeyValue(asBytes(item.value)));
+				}
+				return { kvlistValue: { values } };
+			}
+			case 7:
+				return { bytesValue: btoa(String.fromCharCode(...asBytes(value))) };
+		}
+	}
+	return {};
+}
@@ -0,0 +1,116 @@
+/**
+ * Minimal protobuf wire-format reader: just enough to decode OTLP requests without
+ * generated code. Fields are returned in wire order; callers pick them by number.
+ */
+
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+export const WIRE_FIXED32 = 5;
+
+export interface ProtobufField {
+	field: number;
+	wireType: number;
+	// varint value, or the raw bytes of fixed-width and length-delimited fields
+	value: bigint | Uint8Array;
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [bigint, number] {
+	let result = 0n;
+	let shift = 0n;
+	let pos = offset;
+
+	while (pos < bytes.length) {
+		const byte = bytes[pos++];
+		result |= BigInt(byte & 0x7f) << shift;
+		if ((byte & 0x80) === 0) {
+			return [result, pos];
+		}
+		shift += 7n;
+		if (shift > 63n) break;
+	}
+
+	throw new Error('Invalid protobuf varint');
+}
+
+/**
+ * Split an encoded message into its fields.
+ * Throws on truncated input or deprecated group wire types.
+ */
+export function readFields(bytes: Uint8Array): ProtobufField[] {
+	const fields: ProtobufField[] = [];
+	let pos = 0;
+
+	while (pos < bytes.length) {
+		const [key, afterKey] = readVarint(bytes, pos);
+		const field = Number(key >> 3n);
+		const wireType = Number(key & 7n);
+		pos = afterKey;
+
+		let value: bigint | Uint8Array;
+		let length: number;
+		switch (wireType) {
+			case WIRE_VARINT:
+				[value, pos] = readVarint(bytes, pos);
+				fields.push({ field, wireType, value });
+				continue;
+			case WIRE_FIXED64:
+				length = 8;
+				break;
+			case WIRE_FIXED32:
+				length = 4;
+				break;
+			case WIRE_LENGTH_DELIMITED: {
+				const [size, afterSize] = readVarint(bytes, pos);
+				length = Number(size);
+				pos = afterSize;
+				break;
+			}
+			default:
+				throw new Error(`Unsupported protobuf wire type ${wireType}`);
+		}
+
+		if (pos + length > bytes.length) {
+			throw new Error('Truncated protobuf message');
+		}
+		value = bytes.subarray(pos, pos + length);
+		pos += length;
+		fields.push({ field, wireType, value });
+	}
+
+	return fields;
+}
+
+export function asString(value: bigint | Uint8Array): string {
+	return value instanceof Uint8Array ? new TextDecoder().decode(value) : '';
+}
+
+export function asBytes(value: bigint | Uint8Array): Uint8Array {
+	return value instanceof Uint8Array ? value : new Uint8Array();
+}
+
+/**
+ * Varint as a signed 64-bit integer (int64 fields encode negatives in ten bytes).
+ */
+export function asInt64(value: bigint | Uint8Array): bigint {
+	return typeof value === 'bigint' ? BigInt.asIntN(64, value) : 0n;
+}
+
+/**
+ * Little-endian fixed64 as an unsigned integer.
+ */
+export function asFixed64(value: bigint | Uint8Array): bigint {
+	if (!(value instanceof Uint8Array) || value.length !== 8) return 0n;
+	return new DataView(value.buffer, value.byteOffset, 8).getBigUint64(0, true);
+}
+
+export function asDouble(value: bigint | Uint8Array): number {
+	if (!(value instanceof Uint8Array) || value.length !== 8) return 0;
+	return new DataView(value.buffer, value.byteOffset, 8).getFloat64(0, true);
+}
+
+export function toHex(bytes: Uint8Array): string {
+	return Array.from(bytes)
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
@@ -0,0 +1,36 @@
+import type { RateLimit } from '../types';
+
+/**
+ * Format limits for the `X-Sentry-Rate-Limits` response header, e.g.
+ * `60:error;transaction:project:project_quota`. SDKs stop sending the listed
+ * categories for `retry_after` seconds.
+ */
+export function formatRateLimits(limits: RateLimit[]): string {
+	const seen = new Set<string>();
+	const parts: string[] = [];
+
+	for (const limit of limits) {
+		const part = `${limit.retryAfter}:${limit.categories.join(';')}:project:${limit.reasonCode}`;
+		if (!seen.has(part)) {
+			seen.add(part);
+			parts.push(part);
+		}
+	}
+
+	return parts.join(', ');
+}
+
+/**
+ * Response headers for a rejected (429) ingestion request.
+ * `Retry-After` carries the longest wait for SDKs that only understand the plain header.
+ */
+export function rateLimitHeaders(limits: RateLimit[]): Record<string, string> {
+	if (limits.length === 0) {
+		return {};
+	}
+
+	return {
+		'Retry-After': String(Math.max(...limits.map((l) => l.retryAfter))),
+		'X-Sentry-Rate-Limits': formatRateLimits(limits),
+	};
+}
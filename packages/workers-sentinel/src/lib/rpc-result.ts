@@ -0,0 +1,41 @@
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import type { RateLimit, RuleSyntaxError, Spike } from '../types';
+
+/**
+ * Error body returned by a Durable Object RPC method and relayed to API clients as-is.
+ */
+export interface RpcError {
+	error: string;
+	message?: string;
+	maxSize?: string;
+	rateLimit?: RateLimit;
+	spike?: Spike;
+	errors?: RuleSyntaxError[];
+}
+
+/**
+ * Result of a Durable Object RPC method. Failures carry the HTTP status the
+ * route should answer with, so handlers can relay them without re-mapping.
+ */
+export type RpcResult<T> =
+	| { ok: true; data: T; status?: ContentfulStatusCode }
+	| { ok: false; status: ContentfulStatusCode; error: RpcError };
+
+export function ok<T>(data: T, status?: ContentfulStatusCode): RpcResult<T> {
+	return { ok: true, data, status };
+}
+
+export function fail(status: ContentfulStatusCode, error: RpcError): RpcResult<never> {
+	return { ok: false, status, error };
+}
+
+/**
+ * Turn an RPC result into a JSON response: the data on success, the error body otherwise.
+ */
+export function toJson<T>(c: Context, result: RpcResult<T>): Response {
+	if (!result.ok) {
+		return c.json(result.error, result.status);
+	}
+	return c.json(result.data as object, result.status ?? 200);
+}
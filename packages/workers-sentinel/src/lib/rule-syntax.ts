@@ -0,0 +1,175 @@
+import type { RuleMatcher, RuleSyntaxError, StackFrame } from '../types';
+
+/**
+ * Frame matcher keys shared by fingerprinting and stack trace rules. A rule's frame
+ * matchers must all hold for the same frame.
+ */
+export const FRAME_MATCHER_KEYS: Record<string, string> = {
+	'stack.function': 'stack.function',
+	function: 'stack.function',
+	'stack.module': 'stack.module',
+	module: 'stack.module',
+	'stack.abs_path': 'stack.abs_path',
+	path: 'stack.abs_path',
+};
+
+export function resolveKey(keys: Record<string, string>, key: string): string | null {
+	return Object.hasOwn(keys, key) ? keys[key] : null;
+}
+
+/**
+ * Parse rule text line by line. Blank lines and `#` comments are skipped; lines that
+ * fail to parse are reported with their position and left out of the returned rules.
+ */
+export function parseRuleText<T>(
+	text: string,
+	parseLine: (scanner: RuleScanner) => T | RuleSyntaxError,
+): { rules: T[]; errors: RuleSyntaxError[] } {
+	const rules: T[] = [];
+	const errors: RuleSyntaxError[] = [];
+
+	text.split(/\r?\n/).forEach((line, index) => {
+		const scanner = new RuleScanner(line, index + 1);
+		scanner.skipWhitespace();
+		if (scanner.done || scanner.peek() === '#') return;
+
+		const result = parseLine(scanner);
+		if (isSyntaxError(result)) {
+			errors.push(result);
+		} else {
+			rules.push(result);
+		}
+	});
+
+	return { rules, errors };
+}
+
+export function isSyntaxError(value: unknown): value is RuleSyntaxError {
+	return typeof value === 'object' && value !== null && 'column' in value;
+}
+
+/**
+ * Cursor over one line of rule text.
+ */
+export class RuleScanner {
+	pos = 0;
+
+	constructor(
+		readonly line: string,
+		readonly lineNumber: number,
+	) {}
+
+	get done(): boolean {
+		return this.pos >= this.line.length;
+	}
+
+	peek(): string {
+		return this.line[this.pos];
+	}
+
+	startsWith(token: string): boolean {
+		return this.line.startsWith(token, this.pos);
+	}
+
+	error(message: string, at = this.pos): RuleSyntaxError {
+		return { line: this.lineNumber, column: at + 1, message };
+	}
+
+	skipWhitespace(): void {
+		while (!this.done && /\s/.test(this.line[this.pos])) this.pos++;
+	}
+
+	/**
+	 * Read a quoted string, or a bare word up to whitespace or '->'.
+	 */
+	readValue(): string | RuleSyntaxError {
+		const { line } = this;
+		if (line[this.pos] === '"') {
+			const start = this.pos++;
+			let value = '';
+			while (!this.done && line[this.pos] !== '"') {
+				if (line[this.pos] === '\\' && this.pos + 1 < line.length) this.pos++;
+				value += line[this.pos++];
+			}
+			if (this.done) return this.error('Unterminated string', start);
+			this.pos++;
+			return value;
+		}
+
+		const start = this.pos;
+		while (!this.done && !/\s/.test(line[this.pos]) && !this.startsWith('->')) {
+			this.pos++;
+		}
+		return line.slice(start, this.pos);
+	}
+
+	/**
+	 * Read a `key:pattern` matcher, optionally negated with `!`.
+	 */
+	readMatcher(
+		resolve: (key: string) => string | null,
+		example: string,
+	): RuleMatcher | RuleSyntaxError {
+		const start = this.pos;
+		const negated = this.peek() === '!';
+		if (negated) this.pos++;
+
+		const key = /^[A-Za-z_][\w.-]*/.exec(this.line.slice(this.pos))?.[0];
+		if (!key || this.line[this.pos + key.length] !== ':') {
+			return this.error(`Expected a matcher such as ${example}`, start);
+		}
+
+		const canonical = resolve(key);
+		if (!canonical) return this.error(`Unknown matcher '${key}'`);
+		this.pos += key.length + 1;
+
+		const valueStart = this.pos;
+		const pattern = this.readValue();
+		if (isSyntaxError(pattern)) return pattern;
+		if (!pattern) return this.error(`Missing value for matcher '${key}'`, valueStart);
+
+		return { key: canonical, pattern, negated };
+	}
+}
+
+/**
+ * Check a frame against frame matchers; every matcher must hold.
+ */
+export function matchesFrame(frame: StackFrame, matchers: RuleMatcher[]): boolean {
+	return matchers.every((matcher) => {
+		const matched =
+			matcher.key === 'stack.abs_path'
+				? pathMatch(matcher.pattern, frame.abs_path || frame.filename)
+				: globMatch(
+						matcher.pattern,
+						matcher.key === 'stack.function' ? frame.function : frame.module,
+					);
+		return matched !== matcher.negated;
+	});
+}
+
+/**
+ * Case-insensitive glob match where `*` matches any run of characters and `?` one character.
+ */
+export function globMatch(pattern: string, value: string | undefined): boolean {
+	if (value === undefined) return false;
+	return new RegExp(`^${globSource(pattern)}$`, 'is').test(value);
+}
+
+/**
+ * Glob match for file paths and URLs. Relative patterns such as `node_modules/**`
+ * match at any directory, so they work for absolute paths and URLs alike.
+ */
+function pathMatch(pattern: string, value: string | undefined): boolean {
+	if (value === undefined) return false;
+	const path = value.replace(/\\/g, '/');
+	const prefix = /^[/*]/.test(pattern) ? '' : '(?:.*/)?';
+	return new RegExp(`^${prefix}${globSource(pattern)}$`, 'is').test(path);
+}
+
+function globSource(pattern: string): string {
+	return pattern
+		.split('')
+		.map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+		.join('');
+}
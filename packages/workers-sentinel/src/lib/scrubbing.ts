@@ -0,0 +1,220 @@
+import type { EventUser, ScrubbingRules } from '../types';
+
+export const FILTERED = '[Filtered]';
+
+// Values of keys containing any of these are removed when default scrubbing is enabled
+export const DEFAULT_SENSITIVE_KEYS = [
+	'password',
+	'passwd',
+	'secret',
+	'api_key',
+	'apikey',
+	'auth',
+	'credentials',
+	'token',
+	'session',
+	'cookie',
+	'private_key',
+	'privatekey',
+	'credit_card',
+	'card_number',
+];
+
+// 13 to 19 digit card numbers, optionally grouped with spaces or dashes; only matches that
+// pass the Luhn check are filtered, so timestamps and numeric IDs are kept
+const CREDIT_CARD_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+
+// Identifiers and envelope metadata that never carry personal data
+const SKIPPED_KEYS = new Set([
+	'event_id',
+	'timestamp',
+	'start_timestamp',
+	'trace_id',
+	'span_id',
+	'parent_span_id',
+	'release',
+	'dist',
+	'environment',
+	'platform',
+	'level',
+	'sdk',
+	'fingerprint',
+]);
+
+export const DEFAULT_SCRUBBING_RULES: ScrubbingRules = {
+	scrubDefaults: true,
+	sensitiveKeys: [],
+	customPatterns: [],
+	anonymizeIp: false,
+	hashEmails: false,
+};
+
+interface CompiledRules {
+	keys: string[];
+	patterns: RegExp[];
+	cardNumbers: boolean;
+}
+
+function compileRules(rules: ScrubbingRules): CompiledRules {
+	const keys = rules.sensitiveKeys.map(normalizeKey);
+	const patterns = rules.customPatterns.map((pattern) => new RegExp(pattern, 'gi'));
+	if (rules.scrubDefaults) {
+		keys.push(...DEFAULT_SENSITIVE_KEYS);
+	}
+	return { keys, patterns, cardNumbers: rules.scrubDefaults };
+}
+
+function isLuhnValid(candidate: string): boolean {
+	const digits = candidate.replace(/[ -]/g, '');
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+// Header names use dashes where payload keys use underscores, e.g. X-Api-Key and api_key
+function normalizeKey(key: string): string {
+	return key.toLowerCase().replace(/-/g, '_');
+}
+
+function isSensitiveKey(key: string, compiled: CompiledRules): boolean {
+	const normalized = normalizeKey(key);
+	return compiled.keys.some((sensitive) => normalized.includes(sensitive));
+}
+
+function scrubString(value: string, compiled: CompiledRules): string {
+	let result = value;
+	for (const pattern of compiled.patterns) {
+		result = result.replace(pattern, FILTERED);
+	}
+	if (compiled.cardNumbers) {
+		result = result.replace(CREDIT_CARD_PATTERN, (match) =>
+			isLuhnValid(match) ? FILTERED : match,
+		);
+	}
+	return result;
+}
+
+// Query strings arrive as a single string, so sensitive parameters are scrubbed one by one
+function scrubQueryString(query: string, compiled: CompiledRules): string {
+	return query
+		.split('&')
+		.map((param) => {
+			const separator = param.indexOf('=');
+			if (separator === -1) return scrubString(param, compiled);
+			const name = param.slice(0, separator);
+			if (isSensitiveKey(decodeURIComponentSafe(name), compiled)) {
+				return `${name}=${FILTERED}`;
+			}
+			return `${name}=${scrubString(param.slice(separator + 1), compiled)}`;
+		})
+		.join('&');
+}
+
+function decodeURIComponentSafe(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+function scrubValue(value: unknown, compiled: CompiledRules): unknown {
+	if (typeof value === 'string') {
+		return scrubString(value, compiled);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => scrubValue(item, compiled));
+	}
+	if (value && typeof value === 'object') {
+		const result: Record<string, unknown> = {};
+		for (const [key, child] of Object.entries(value)) {
+			if (SKIPPED_KEYS.has(key)) {
+				result[key] = child;
+			} else if (child !== null && child !== undefined && isSensitiveKey(key, compiled)) {
+				result[key] = FILTERED;
+			} else if (key === 'query_string' && typeof child === 'string') {
+				result[key] = scrubQueryString(child, compiled);
+			} else {
+				result[key] = scrubValue(child, compiled);
+			}
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * Zero the host part of an IP address: the last octet for IPv4, everything after
+ * the first 48 bits for IPv6. Values that are not IP addresses are returned as-is.
+ */
+export function anonymizeIp(ip: string): string {
+	const ipv4 = ip.match(/^(\d{1,3}\.\d{1,3}\.\d{1,3})\.\d{1,3}$/);
+	if (ipv4) {
+		return `${ipv4[1]}.0`;
+	}
+
+	if (ip.includes(':')) {
+		const [head, tail] = ip.split('::');
+		const headGroups = head ? head.split(':') : [];
+		const tailGroups = tail ? tail.split(':') : [];
+		const missing = 8 - headGroups.length - tailGroups.length;
+		if (missing < 0 || (tail === undefined && missing !== 0)) {
+			return ip;
+		}
+		const groups = [...headGroups, ...Array(missing).fill('0'), ...tailGroups];
+		if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) {
+			return ip;
+		}
+		return `${groups.slice(0, 3).join(':')}::`;
+	}
+
+	return ip;
+}
+
+async function hashEmail(email: string): Promise<string> {
+	const data = new TextEncoder().encode(email.trim().toLowerCase());
+	const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+	return Array.from(new Uint8Array(hashBuffer))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('')
+		.slice(0, 32);
+}
+
+/**
+ * Return a scrubbed copy of a payload that carries no user, such as a log record.
+ */
+export function scrubData<T>(data: T, rules: ScrubbingRules): T {
+	return scrubValue(data, compileRules(rules)) as T;
+}
+
+/**
+ * Return a scrubbed copy of an event or transaction: values under sensitive keys are
+ * replaced with `[Filtered]`, string values are matched against the scrubbing patterns,
+ * and the user's IP address and email are anonymized when the project asks for it.
+ */
+export async function scrubEvent<T extends { user?: EventUser }>(
+	event: T,
+	rules: ScrubbingRules,
+): Promise<T> {
+	const scrubbed = scrubValue(event, compileRules(rules)) as T;
+
+	if (scrubbed.user) {
+		const user = { ...scrubbed.user };
+		if (rules.anonymizeIp && user.ip_address) {
+			user.ip_address = anonymizeIp(user.ip_address);
+		}
+		if (rules.hashEmails && user.email && user.email !== FILTERED) {
+			user.email = await hashEmail(user.email);
+		}
+		scrubbed.user = user;
+	}
+
+	return scrubbed;
+}
@@ -0,0 +1,233 @@
+import type { SentryEvent } from '../types';
+
+/**
+ * Legacy `report-uri` CSP body (`application/csp-report`).
+ */
+interface CspReport {
+	'document-uri'?: string;
+	referrer?: string;
+	'violated-directive'?: string;
+	'effective-directive'?: string;
+	'original-policy'?: string;
+	disposition?: string;
+	'blocked-uri'?: string;
+	'source-file'?: string;
+	'line-number'?: number;
+	'column-number'?: number;
+	'script-sample'?: string;
+}
+
+/**
+ * Legacy Expect-CT body (`application/expect-ct-report+json`).
+ */
+interface ExpectCtReport {
+	'date-time'?: string;
+	hostname?: string;
+	port?: number;
+	'effective-expiration-date'?: string;
+}
+
+/**
+ * One entry of a Reporting API delivery (`application/reports+json`).
+ */
+interface ReportingApiReport {
+	type?: string;
+	age?: number;
+	url?: string;
+	user_agent?: string;
+	body?: Record<string, unknown>;
+}
+
+interface SecurityReportContext {
+	userAgent?: string;
+	environment?: string;
+	release?: string;
+}
+
+// Values browsers put in blocked-uri instead of a URL
+const BLOCKED_URI_KEYWORDS = ['inline', 'eval', 'self', 'wasm-eval', 'trusted-types-policy'];
+
+/**
+ * Normalize a browser security report body into Sentry events.
+ * Accepts legacy `csp-report` and `expect-ct-report` bodies as well as Reporting API
+ * arrays with `csp-violation` and `network-error` (NEL) reports. Unknown report types
+ * are skipped; a body that is not JSON throws.
+ */
+export function parseSecurityReports(
+	bodyText: string,
+	context: SecurityReportContext = {},
+): SentryEvent[] {
+	const body = JSON.parse(bodyText);
+	const events: SentryEvent[] = [];
+
+	if (Array.isArray(body)) {
+		for (const report of body as ReportingApiReport[]) {
+			const event = reportingApiToEvent(report, context);
+			if (event) events.push(event);
+		}
+	} else if (body && typeof body === 'object') {
+		if (body['csp-report']) {
+			events.push(cspToEvent(body['csp-report'], new Date(), context));
+		} else if (body['expect-ct-report']) {
+			events.push(expectCtToEvent(body['expect-ct-report'], context));
+		}
+	}
+
+	return events;
+}
+
+function reportingApiToEvent(
+	report: ReportingApiReport,
+	context: SecurityReportContext,
+): SentryEvent | null {
+	if (!report || typeof report !== 'object' || !report.body) return null;
+
+	const body = report.body;
+	const receivedAt = new Date(Date.now() - (typeof report.age === 'number' ? report.age : 0));
+	const reportContext = { ...context, userAgent: report.user_agent || context.userAgent };
+
+	if (report.type === 'csp-violation') {
+		// The Reporting API renames the csp-report fields to camelCase
+		return cspToEvent(
+			{
+				'document-uri': asString(body.documentURL) ?? report.url,
+				referrer: asString(body.referrer),
+				'effective-directive': asString(body.effectiveDirective),
+				'original-policy': asString(body.originalPolicy),
+				disposition: asString(body.disposition),
+				'blocked-uri': asString(body.blockedURL),
+				'source-file': asString(body.sourceFile),
+				'line-number': asNumber(body.lineNumber),
+				'column-number': asNumber(body.columnNumber),
+				'script-sample': asString(body.sample),
+			},
+			receivedAt,
+			reportContext,
+		);
+	}
+
+	if (report.type === 'network-error') {
+		return nelToEvent(report, receivedAt, reportContext);
+	}
+
+	return null;
+}
+
+function cspToEvent(
+	report: CspReport,
+	receivedAt: Date,
+	context: SecurityReportContext,
+): SentryEvent {
+	const directive = getEffectiveDirective(report);
+	const blockedHost = getBlockedHost(report['blocked-uri']);
+	const documentUri = report['document-uri'];
+
+	return {
+		...baseEvent(receivedAt, context, documentUri, report.referrer),
+		level: report.disposition === 'report' ? 'warning' : 'error',
+		logger: 'csp',
+		message: `Blocked '${directive}' from '${blockedHost}'`,
+		transaction: report['violated-directive'] || directive,
+		fingerprint: ['csp', directive, blockedHost],
+		tags: {
+			'csp.directive': directive,
+			'csp.blocked-host': blockedHost,
+			...(report.disposition ? { 'csp.disposition': report.disposition } : {}),
+		},
+		extra: { csp: report },
+	};
+}
+
+function expectCtToEvent(report: ExpectCtReport, context: SecurityReportContext): SentryEvent {
+	const hostname = report.hostname || 'unknown';
+	const receivedAt = report['date-time'] ? new Date(report['date-time']) : new Date();
+
+	return {
+		...baseEvent(Number.isNaN(receivedAt.getTime()) ? new Date() : receivedAt, context),
+		level: 'error',
+		logger: 'expect-ct',
+		message: `Expect-CT failed for '${hostname}'`,
+		transaction: hostname,
+		fingerprint: ['expect-ct', hostname],
+		tags: { hostname },
+		extra: { 'expect-ct': report },
+	};
+}
+
+function nelToEvent(
+	report: ReportingApiReport,
+	receivedAt: Date,
+	context: SecurityReportContext,
+): SentryEvent {
+	const body = report.body ?? {};
+	const type = asString(body.type) || 'unknown';
+	const host = getBlockedHost(report.url);
+
+	return {
+		...baseEvent(receivedAt, context, report.url, asString(body.referrer)),
+		level: 'error',
+		logger: 'nel',
+		message: `NEL: ${type} for '${host}'`,
+		transaction: host,
+		fingerprint: ['nel', type, host],
+		tags: { 'nel.type': type, 'nel.phase': asString(body.phase) || 'unknown' },
+		extra: { nel: body },
+	};
+}
+
+function baseEvent(
+	receivedAt: Date,
+	context: SecurityReportContext,
+	url?: string,
+	referrer?: string,
+): SentryEvent {
+	const headers: Record<string, string> = {};
+	if (context.userAgent) headers['User-Agent'] = context.userAgent;
+	if (referrer) headers.Referer = referrer;
+
+	return {
+		event_id: crypto.randomUUID().replace(/-/g, ''),
+		timestamp: receivedAt.toISOString(),
+		platform: 'javascript',
+		...(context.environment ? { environment: context.environment } : {}),
+		...(context.release ? { release: context.release } : {}),
+		request: { ...(url ? { url } : {}), headers },
+	};
+}
+
+/**
+ * The directive that was enforced, e.g. `script-src-elem`. Older browsers only send
+ * `violated-directive`, which also carries the directive's source list.
+ */
+function getEffectiveDirective(report: CspReport): string {
+	const directive = report['effective-directive'] || report['violated-directive'] || '';
+	return directive.trim().split(/\s+/)[0] || 'unknown';
+}
+
+/**
+ * Reduce a blocked URI to the part that identifies the offending source: the host for
+ * network URLs, the scheme for `data:`/`blob:` URIs, or the keyword browsers send for
+ * inline code and eval.
+ */
+function getBlockedHost(blockedUri: string | undefined): string {
+	const value = (blockedUri ?? '').trim();
+	// Older browsers report inline violations with an empty blocked-uri
+	if (!value) return 'inline';
+	if (BLOCKED_URI_KEYWORDS.includes(value)) return value;
+
+	try {
+		const url = new URL(value);
+		return url.host || url.protocol.replace(/:$/, '');
+	} catch {
+		// Some browsers send a bare scheme such as `data` or `blob`
+		return value.replace(/:$/, '');
+	}
+}
+
+function asString(value: unknown): string | undefined {
+	return typeof value === 'string' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+	return typeof value === 'number' ? value : undefined;
+}
@@ -0,0 +1,118 @@
+import type {
+	RuleMatcher,
+	RuleSyntaxError,
+	SentryEvent,
+	StackFrame,
+	StacktraceRule,
+} from '../types';
+import {
+	FRAME_MATCHER_KEYS,
+	isSyntaxError,
+	matchesFrame,
+	parseRuleText,
+	type RuleScanner,
+	resolveKey,
+} from './rule-syntax';
+
+const ACTION_PATTERN = /^([+-])(app|group)(?=\s|$)/;
+
+/**
+ * Parse stack trace rules, one per line:
+ *
+ *     path:node_modules/** -app
+ *     function:__wrap* -group
+ *     module:vendor/* +app
+ *
+ * Frame matchers (`path`, `function`, `module`) are followed by one or more actions:
+ * `+app`/`-app` mark matching frames as in-app or not, `-group` leaves them out of
+ * grouping and `+group` brings them back. Later rules override earlier ones.
+ */
+export function parseStacktraceRules(text: string): {
+	rules: StacktraceRule[];
+	errors: RuleSyntaxError[];
+} {
+	return parseRuleText(text, parseRule);
+}
+
+function parseRule(scanner: RuleScanner): StacktraceRule | RuleSyntaxError {
+	const matchers: RuleMatcher[] = [];
+	while (!scanner.done && !/[+-]/.test(scanner.peek())) {
+		const matcher = scanner.readMatcher(
+			(key) => resolveKey(FRAME_MATCHER_KEYS, key),
+			'path:node_modules/**',
+		);
+		if (isSyntaxError(matcher)) return matcher;
+		matchers.push(matcher);
+		scanner.skipWhitespace();
+	}
+
+	if (matchers.length === 0) {
+		return scanner.error('Expected at least one matcher before the actions');
+	}
+	if (scanner.done) {
+		return scanner.error('Expected an action: +app, -app, +group or -group');
+	}
+
+	const actions: StacktraceRule['actions'] = [];
+	while (!scanner.done) {
+		const action = ACTION_PATTERN.exec(scanner.line.slice(scanner.pos));
+		if (!action) {
+			return scanner.error('Expected an action: +app, -app, +group or -group');
+		}
+		actions.push({ flag: action[2] as 'app' | 'group', value: action[1] === '+' });
+		scanner.pos += action[0].length;
+		scanner.skipWhitespace();
+	}
+
+	return { line: scanner.lineNumber, matchers, actions };
+}
+
+/**
+ * Apply stack trace rules to frames, returning updated copies. Frames no rule
+ * matches are returned unchanged.
+ */
+export function applyStacktraceRules(frames: StackFrame[], rules: StacktraceRule[]): StackFrame[] {
+	if (rules.length === 0) return frames;
+
+	return frames.map((frame) => {
+		let result = frame;
+		for (const rule of rules) {
+			if (!matchesFrame(frame, rule.matchers)) continue;
+			for (const action of rule.actions) {
+				result =
+					action.flag === 'app'
+						? { ...result, in_app: action.value }
+						: { ...result, exclude_from_grouping: !action.value };
+			}
+		}
+		return result;
+	});
+}
+
+/**
+ * Apply stack trace rules to every exception in an event, for display.
+ */
+export function applyStacktraceRulesToEvent(
+	event: SentryEvent,
+	rules: StacktraceRule[],
+): SentryEvent {
+	if (rules.length === 0 || !event.exception?.values) return event;
+
+	return {
+		...event,
+		exception: {
+			...event.exception,
+			values: event.exception.values.map((exc) =>
+				exc.stacktrace?.frames
+					? {
+							...exc,
+							stacktrace: {
+								...exc.stacktrace,
+								frames: applyStacktraceRules(exc.stacktrace.frames, rules),
+							},
+						}
+					: exc,
+			),
+		},
+	};
+}
@@ -0,0 +1,60 @@
+import type { StackFrame, Stacktrace } from '../types';
+
+// V8: "    at fn (file:line:col)" or "    at file:line:col"
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+// Java: "	at com.example.Foo.bar(Foo.java:42)"
+const JAVA_FRAME = /^\s*at ([\w$.<>]+)\.([\w$<>]+)\((?:([^:()]+)(?::(\d+))?|[^)]*)\)$/;
+// Python: '  File "app.py", line 10, in handler'
+const PYTHON_FRAME = /^\s*File "(.+)", line (\d+), in (.+)$/;
+
+/**
+ * Parse a stack trace string from V8, Java or Python into Sentry frames (oldest call first).
+ * Returns null when no line looks like a frame.
+ */
+export function parseStackTrace(stack: string | undefined): Stacktrace | null {
+	if (!stack) return null;
+
+	const frames: StackFrame[] = [];
+	let oldestFirst = false;
+
+	for (const line of stack.split('\n')) {
+		const python = PYTHON_FRAME.exec(line);
+		if (python) {
+			// Python tracebacks already list the most recent call last
+			oldestFirst = true;
+			frames.push({
+				filename: python[1],
+				lineno: Number(python[2]),
+				function: python[3],
+				in_app: !python[1].includes('site-packages'),
+			});
+			continue;
+		}
+
+		const java = JAVA_FRAME.exec(line);
+		if (java) {
+			frames.push({
+				module: java[1],
+				function: java[2],
+				...(java[3] ? { filename: java[3] } : {}),
+				...(java[4] ? { lineno: Number(java[4]) } : {}),
+				in_app: !/^(java|javax|jdk|sun|kotlin)\./.test(java[1]),
+			});
+			continue;
+		}
+
+		const v8 = V8_FRAME.exec(line);
+		if (v8) {
+			frames.push({
+				function: v8[1] || '<anonymous>',
+				filename: v8[2],
+				lineno: Number(v8[3]),
+				colno: Number(v8[4]),
+				in_app: !v8[2].startsWith('node:') && !v8[2].includes('node_modules'),
+			});
+		}
+	}
+
+	if (frames.length === 0) return null;
+	return { frames: oldestFirst ? frames : frames.reverse() };
+}
@@ -0,0 +1,123 @@
+import type { Breadcrumb, SentryEvent } from '../types';
+import { parseStackTrace } from './stacktrace';
+
+// Console logs kept as breadcrumbs on each event of the invocation
+const MAX_BREADCRUMBS = 100;
+
+const LOG_LEVELS: Record<string, Breadcrumb['level']> = {
+	debug: 'debug',
+	log: 'info',
+	info: 'info',
+	warn: 'warning',
+	error: 'error',
+};
+
+/**
+ * Convert a Tail Worker trace item into Sentry events: one per uncaught exception and one
+ * per `console.error` call. Other console output becomes breadcrumbs on those events.
+ */
+export function traceItemToEvents(item: TraceItem): SentryEvent[] {
+	const events: SentryEvent[] = [];
+	const breadcrumbs = item.logs
+		.filter((log) => log.level !== 'error')
+		.slice(-MAX_BREADCRUMBS)
+		.map(
+			(log): Breadcrumb => ({
+				type: 'debug',
+				category: 'console',
+				level: LOG_LEVELS[log.level] ?? 'info',
+				message: formatLogMessage(log.message),
+				timestamp: new Date(log.timestamp).toISOString(),
+			}),
+		);
+
+	for (const exception of item.exceptions) {
+		const stacktrace = parseStackTrace(exception.stack);
+		events.push({
+			...baseEvent(item, exception.timestamp, breadcrumbs),
+			level: 'error',
+			exception: {
+				values: [
+					{
+						type: exception.name || 'Error',
+						value: exception.message,
+						...(stacktrace ? { stacktrace } : {}),
+						mechanism: { type: 'cloudflare.tail', handled: false },
+					},
+				],
+			},
+		});
+	}
+
+	for (const log of item.logs) {
+		if (log.level !== 'error') continue;
+		events.push({
+			...baseEvent(item, log.timestamp, breadcrumbs),
+			level: 'error',
+			logger: 'console',
+			message: formatLogMessage(log.message),
+		});
+	}
+
+	return events;
+}
+
+function baseEvent(item: TraceItem, timestamp: number, breadcrumbs: Breadcrumb[]): SentryEvent {
+	const tags: Record<string, string> = { outcome: item.outcome };
+	if (item.entrypoint) tags.entrypoint = item.entrypoint;
+
+	const event: SentryEvent = {
+		event_id: crypto.randomUUID().replace(/-/g, ''),
+		timestamp: new Date(timestamp || item.eventTimestamp || Date.now()).toISOString(),
+		platform: 'javascript',
+		logger: 'tail',
+		server_name: item.scriptName ?? undefined,
+		tags,
+		contexts: {
+			cloudflare: {
+				script_name: item.scriptName,
+				outcome: item.outcome,
+				cpu_time: item.cpuTime,
+				wall_time: item.wallTime,
+				truncated: item.truncated,
+			},
+		},
+		breadcrumbs,
+	};
+
+	if (item.scriptVersion?.id) {
+		event.release = item.scriptVersion.id;
+	}
+
+	const info = item.event;
+	if (info && 'request' in info) {
+		event.request = { url: info.request.url, method: info.request.method };
+		event.transaction = `${info.request.method} ${safePathname(info.request.url)}`;
+	} else if (info && 'cron' in info) {
+		event.transaction = `scheduled ${info.cron}`;
+	} else if (info && 'queue' in info) {
+		event.transaction = `queue ${info.queue}`;
+	} else if (info && 'rpcMethod' in info) {
+		event.transaction = `rpc ${info.rpcMethod}`;
+	}
+
+	return event;
+}
+
+/**
+ * Join console arguments the way the console prints them.
+ */
+function formatLogMessage(message: unknown): string {
+	const parts = Array.isArray(message) ? message : [message];
+	return parts
+		.map((part) => (typeof part === 'string' ? part : (JSON.stringify(part) ?? String(part))))
+		.join(' ');
+}
+
+function safePathname(url: string): string {
+	try {
+		return new URL(url).pathname;
+	} catch {
+		return url;
+	}
+}
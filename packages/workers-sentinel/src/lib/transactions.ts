@@ -0,0 +1,97 @@
+import type { SentrySpan, SentryTimestamp, SentryTransaction, SpanNode } from '../types';
+
+// Furthest a Date can be from the epoch, in milliseconds
+const MAX_DATE_MS = 8.64e15;
+
+/**
+ * Convert a Sentry timestamp (RFC 3339 string or Unix seconds) to milliseconds.
+ * Returns null when the value cannot be parsed or is out of a Date's range.
+ */
+export function toMillis(timestamp: SentryTimestamp | undefined): number | null {
+	if (typeof timestamp === 'number') {
+		const ms = timestamp * 1000;
+		return Number.isFinite(ms) && Math.abs(ms) <= MAX_DATE_MS ? ms : null;
+	}
+
+	if (typeof timestamp === 'string') {
+		const ms = Date.parse(timestamp);
+		return Number.isNaN(ms) ? null : ms;
+	}
+
+	return null;
+}
+
+/**
+ * Get a transaction's name, falling back to its root span operation.
+ */
+export function getTransactionName(transaction: SentryTransaction): string {
+	return transaction.transaction || transaction.contexts?.trace?.op || '<unlabeled transaction>';
+}
+
+/**
+ * Get a transaction's status from its trace context.
+ * SDKs report `ok` for success and a canonical gRPC-style code otherwise.
+ */
+export function getTransactionStatus(transaction: SentryTransaction): string {
+	return transaction.contexts?.trace?.status || 'ok';
+}
+
+/**
+ * Build a span tree rooted at the transaction.
+ * Spans whose parent is missing from the payload are attached to the root so
+ * that nothing the SDK sent is lost. Children are ordered by start time.
+ */
+export function buildSpanTree(transaction: SentryTransaction): SpanNode {
+	const trace = transaction.contexts?.trace;
+	const rootId = trace?.span_id || transaction.event_id;
+
+	const root = toSpanNode({
+		span_id: rootId,
+		parent_span_id: trace?.parent_span_id,
+		op: trace?.op,
+		description: getTransactionName(transaction),
+		status: trace?.status,
+		start_timestamp: transaction.start_timestamp,
+		timestamp: transaction.timestamp,
+	});
+	root.parentSpanId = null;
+
+	const nodes = new Map<string, SpanNode>([[rootId, root]]);
+	const spans = (transaction.spans || []).filter((s) => s?.span_id && s.span_id !== rootId);
+
+	for (const span of spans) {
+		nodes.set(span.span_id, toSpanNode(span));
+	}
+
+	for (const span of spans) {
+		const node = nodes.get(span.span_id)!;
+		const parent = (span.parent_span_id && nodes.get(span.parent_span_id)) || root;
+		parent.children.push(node);
+	}
+
+	sortChildren(root);
+	return root;
+}
+
+function toSpanNode(span: SentrySpan): SpanNode {
+	const start = toMillis(span.start_timestamp);
+	const end = toMillis(span.timestamp);
+
+	return {
+		spanId: span.span_id,
+		parentSpanId: span.parent_span_id || null,
+		op: span.op || null,
+		description: span.description || null,
+		status: span.status || null,
+		startTimestamp: new Date(start ?? 0).toISOString(),
+		duration: start !== null && end !== null ? Math.max(0, end - start) : 0,
+		children: [],
+	};
+}
+
+function sortChildren(node: SpanNode): void {
+	node.children.sort((a, b) => a.startTimestamp.localeCompare(b.startTimestamp));
+	for (const child of node.children) {
+		sortChildren(child);
+	}
+}
@@ -1,3 +1,5 @@
+import type { IngestResult, Project, Spike } from '../types';
+
 export interface WebhookPayload {
 	text: string;
 	project: {
@@ -45,7 +47,40 @@ export function buildWebhookPayload(
 	};
 }
 
-export async function sendWebhook(url: string, payload: WebhookPayload): Promise<void> {
+export interface SpikeWebhookPayload {
+	text: string;
+	project: {
+		id: string;
+		name: string;
+		slug: string;
+	};
+	spike: Spike;
+	timestamp: string;
+}
+
+export function buildSpikeWebhookPayload(
+	project: { id: string; name: string; slug: string },
+	spike: Spike,
+): SpikeWebhookPayload {
+	const resumesAt = new Date(new Date(spike.bucket).getTime() + 60 * 60 * 1000);
+	const resumesText = resumesAt.toISOString().slice(11, 16);
+
+	return {
+		text: `\u{1F4C8} [${project.name}] Spike protection activated: more than ${spike.threshold} events this hour (baseline ${spike.baseline}/h). Events above ${spike.ceiling} are dropped until ${resumesText} UTC`,
+		project: {
+			id: project.id,
+			name: project.name,
+			slug: project.slug,
+		},
+		spike,
+		timestamp: new Date().toISOString(),
+	};
+}
+
+export async function sendWebhook(
+	url: string,
+	payload: WebhookPayload | SpikeWebhookPayload,
+): Promise<void> {
 	try {
 		const response = await fetch(url, {
 			method: 'POST',
@@ -62,3 +97,44 @@ export async function sendWebhook(url: string, payload: WebhookPayload): Promise
 		console.error('Webhook delivery error:', error);
 	}
 }
+
+/**
+ * Fire the new issue webhook (non-blocking) for each result that opened an issue.
+ */
+export function notifyNewIssues(
+	ctx: Pick<ExecutionContext, 'waitUntil'>,
+	project: Project,
+	results: IngestResult[],
+): void {
+	if (!project.webhookUrl) return;
+	for (const r of results) {
+		if (r.status === 'accepted' && r.isNewIssue && r.title) {
+			const payload = buildWebhookPayload(
+				{ id: project.id, name: project.name, slug: project.slug },
+				{
+					id: r.issueId,
+					title: r.title,
+					level: r.level || 'error',
+					culprit: r.culprit || null,
+				},
+			);
+			ctx.waitUntil(sendWebhook(project.webhookUrl, payload));
+		}
+	}
+}
+
+/**
+ * Send the spike protection webhook (non-blocking) when the project has one configured.
+ */
+export function notifySpike(
+	ctx: Pick<ExecutionContext, 'waitUntil'>,
+	project: Project,
+	spike: Spike,
+): void {
+	if (!project.webhookUrl) return;
+	const payload = buildSpikeWebhookPayload(
+		{ id: project.id, name: project.name, slug: project.slug },
+		spike,
+	);
+	ctx.waitUntil(sendWebhook(project.webhookUrl, payload));
+}
@@ -24,37 +24,19 @@ export const authMiddleware = createMiddleware<{
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	// Choose validation endpoint based on token prefix
-	let response: Response;
-	if (token.startsWith('wst_')) {
-		// API token auth
-		response = await authState.fetch(
-			new Request('http://internal/validate-api-token', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({ token }),
-			}),
-		);
-	} else {
-		// Session token auth (existing behavior)
-		response = await authState.fetch(
-			new Request('http://internal/validate-session', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({ token }),
-			}),
-		);
-	}
+	// Choose validation method based on token prefix
+	const result = token.startsWith('wst_')
+		? await authState.validateApiToken({ token }) // API token auth
+		: await authState.validateSession({ token }); // Session token auth (existing behavior)
 
-	if (!response.ok) {
+	if (!result.ok) {
 		const message = token.startsWith('wst_')
 			? 'Invalid or expired API token'
 			: 'Invalid or expired session';
 		return c.json({ error: 'unauthorized', message }, 401);
 	}
 
-	const auth = (await response.json()) as AuthContext;
-	c.set('auth', auth);
+	c.set('auth', result.data);
 
 	return next();
 });
@@ -0,0 +1,137 @@
+import { checkKeyRateLimit, recordOutcomes, storeEnvelopeItems } from './ingest';
+import type { ClientKey, Env, IngestMessage, IngestResult, Project } from './types';
+
+/**
+ * Queue-backed ingestion for Workers Sentinel.
+ *
+ * When the Worker has an `INGEST_QUEUE` producer binding, ingestion validates the DSN,
+ * enqueues the whole envelope and answers the SDK right away. The `queue()` consumer
+ * exported by `workersSentinel({ queue: true })` then writes the envelopes into each
+ * project's ProjectState, batching their events:
+ *
+ * ```jsonc
+ * // wrangler.jsonc
+ * {
+ *   "queues": {
+ *     "producers": [{ "binding": "INGEST_QUEUE", "queue": "sentinel-ingest" }],
+ *     "consumers": [
+ *       { "queue": "sentinel-ingest", "max_retries": 3, "dead_letter_queue": "sentinel-ingest-dlq" }
+ *     ]
+ *   }
+ * }
+ * ```
+ *
+ * Key and project rate limits are still enforced by the consumer, but the SDK is no longer
+ * told about them with a 429.
+ */
+
+/**
+ * Queue consumer: ingests each project's events in one ProjectState round trip, then
+ * stores the rest of every envelope.
+ * Messages are acked once their events are written and retried when the write fails, so
+ * repeated failures end up in the dead letter queue; retries are safe because event IDs
+ * are only ever stored once, although a retried message counts against its key's limit
+ * again. Messages that can never succeed, such as ones for a deleted project, are dropped.
+ */
+export async function handleQueue(
+	batch: MessageBatch<IngestMessage>,
+	env: Env,
+	ctx: ExecutionContext,
+): Promise<void> {
+	const messagesByProject = new Map<string, Message<IngestMessage>[]>();
+	for (const message of batch.messages) {
+		const { projectId } = message.body;
+		messagesByProject.set(projectId, [...(messagesByProject.get(projectId) ?? []), message]);
+	}
+
+	const authStateId = env.AUTH_STATE.idFromName('global');
+	const authState = env.AUTH_STATE.get(authStateId);
+
+	for (const [projectId, messages] of messagesByProject) {
+		// Acked messages must not be retried if a later step throws
+		const acked = new Set<Message<IngestMessage>>();
+		const ack = (message: Message<IngestMessage>) => {
+			message.ack();
+			acked.add(message);
+		};
+
+		try {
+			// Each key is checked again in case it was revoked or the project deleted meanwhile
+			let project: Project | null = null;
+			const clientKeys = new Map<string, ClientKey>();
+			for (const publicKey of new Set(messages.map((message) => message.body.publicKey))) {
+				const projectResult = await authState.getProjectByKey({ publicKey, touch: false });
+				if (projectResult.ok && projectResult.data.project.id === projectId) {
+					project = projectResult.data.project;
+					clientKeys.set(publicKey, projectResult.data.clientKey);
+					continue;
+				}
+
+				console.error('Queue ingest error: invalid key for project', projectId);
+				for (const message of messages) {
+					if (message.body.publicKey === publicKey) ack(message);
+				}
+			}
+			if (!project) {
+				continue;
+			}
+
+			const projectStateId = env.PROJECT_STATE.idFromName(project.id);
+			const projectState = env.PROJECT_STATE.get(projectStateId);
+
+			// Envelopes over their key's limit are dropped, as the request path rejects them
+			const admitted: Message<IngestMessage>[] = [];
+			for (const message of messages) {
+				if (acked.has(message)) continue;
+				const { publicKey, contents } = message.body;
+				const keyLimit = await checkKeyRateLimit(
+					projectState,
+					clientKeys.get(publicKey) as ClientKey,
+					contents,
+				);
+				if (!keyLimit) {
+					admitted.push(message);
+					continue;
+				}
+
+				ack(message);
+				if (contents.clientOutcomes.length > 0) {
+					await recordOutcomes(projectState, contents.clientOutcomes);
+				}
+			}
+
+			const events = admitted.flatMap((message) => message.body.contents.events);
+			let results: IngestResult[] = [];
+			if (events.length > 0) {
+				const result = await projectState.ingestBatch({ events });
+				if (!result.ok) {
+					console.error('Queue ingest error:', result.error);
+					for (const message of admitted) message.retry();
+					continue;
+				}
+				results = result.data.results;
+			}
+
+			for (const message of admitted) ack(message);
+
+			// The rest of each envelope is stored after its events so that attachments can
+			// be linked to them; failures there are logged and never retry the message
+			let offset = 0;
+			for (const message of admitted) {
+				const { contents } = message.body;
+				const messageResults = results.slice(offset, offset + contents.events.length);
+				offset += contents.events.length;
+
+				if (contents.clientOutcomes.length > 0) {
+					await recordOutcomes(projectState, contents.clientOutcomes);
+				}
+				await storeEnvelopeItems(ctx, project, projectState, contents, messageResults);
+			}
+		} catch (error) {
+			console.error('Queue ingest error:', error);
+			for (const message of messages) {
+				if (!acked.has(message)) message.retry();
+			}
+		}
+	}
+}
@@ -1,4 +1,5 @@
 import { Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
 import type { AuthContext, Env } from '../types';
 
 type Variables = {
@@ -22,14 +23,6 @@ adminRoutes.get('/users', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/list-users', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ requestingUserRole: auth.user.role }),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data);
+	const result = await authState.listUsers({ requestingUserRole: auth.user.role });
+	return toJson(c, result);
 });
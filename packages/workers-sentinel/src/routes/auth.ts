@@ -1,4 +1,5 @@
 import { Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
 import type { AuthContext, Env } from '../types';
 
 type Variables = {
@@ -22,16 +23,9 @@ authRoutes.post('/register', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/register', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify(body),
-		}),
-	);
+	const result = await authState.register(body);
 
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400 | 409);
+	return toJson(c, result);
 });
 
 // Login
@@ -45,16 +39,9 @@ authRoutes.post('/login', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/login', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify(body),
-		}),
-	);
+	const result = await authState.login(body);
 
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400 | 401);
+	return toJson(c, result);
 });
 
 // Logout
@@ -69,13 +56,7 @@ authRoutes.post('/logout', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	await authState.fetch(
-		new Request('http://internal/logout', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ token }),
-		}),
-	);
+	await authState.logout({ token });
 
 	return c.json({ success: true });
 });
@@ -93,20 +74,13 @@ authRoutes.get('/me', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/validate-session', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ token }),
-		}),
-	);
+	const result = await authState.validateSession({ token });
 
-	if (!response.ok) {
+	if (!result.ok) {
 		return c.json({ error: 'unauthorized', message: 'Invalid or expired session' }, 401);
 	}
 
-	const data = await response.json();
-	return c.json(data);
+	return c.json(result.data);
 });
 
 // API Token routes (require session auth - managed via authMiddleware applied in index.ts)
@@ -133,16 +107,9 @@ tokenRoutes.get('/', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/list-api-tokens', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.listApiTokens({ userId: auth.user.id });
 
-	const data = await response.json();
-	return c.json(data, response.status as 200);
+	return toJson(c, result);
 });
 
 // Create a new API token
@@ -157,20 +124,13 @@ tokenRoutes.post('/', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/create-api-token', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				userId: auth.user.id,
-				name: body.name,
-				expiresAt: body.expiresAt,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400);
+	const result = await authState.createApiToken({
+		userId: auth.user.id,
+		name: body.name,
+		expiresAt: body.expiresAt,
+	});
+
+	return toJson(c, result);
 });
 
 // Revoke an API token
@@ -181,14 +141,7 @@ tokenRoutes.delete('/:tokenId', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/revoke-api-token', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ tokenId, userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.revokeApiToken({ tokenId, userId: auth.user.id });
 
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 404);
+	return toJson(c, result);
 });
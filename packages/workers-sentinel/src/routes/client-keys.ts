@@ -0,0 +1,172 @@
+import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
+import type { AuthContext, ClientKey, Env } from '../types';
+
+type Variables = {
+	auth?: AuthContext;
+};
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const clientKeyRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Helper to get project and check member role
+async function getProjectAndRole(
+	c: AppContext,
+	slug: string,
+): Promise<{ projectId: string; role: string } | Response> {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	// Resolve slug to project
+	const projectResult = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!projectResult.ok) {
+		return c.json({ error: 'project_not_found' }, 404);
+	}
+
+	const { project } = projectResult.data;
+
+	// Check access and get role
+	const accessResult = await authState.checkAccess({
+		projectId: project.id,
+		userId: auth.user.id,
+	});
+
+	if (!accessResult.ok || !accessResult.data.hasAccess) {
+		return c.json({ error: 'forbidden' }, 403);
+	}
+
+	return { projectId: project.id, role: accessResult.data.role! };
+}
+
+function withDsn(c: AppContext, key: ClientKey) {
+	const host = new URL(c.req.url).host;
+	return { ...key, dsn: `https://${key.publicKey}@${host}/${key.projectId}` };
+}
+
+// List a project's client keys with their DSNs
+// GET /api/projects/:slug/keys
+clientKeyRoutes.get('/:slug/keys', async (c) => {
+	const slug = c.req.param('slug');
+	const access = await getProjectAndRole(c, slug);
+
+	if (access instanceof Response) {
+		return access;
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.listClientKeys({ projectId: access.projectId });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	return c.json({ keys: result.data.keys.map((key) => withDsn(c, key)) });
+});
+
+// Create a client key
+// POST /api/projects/:slug/keys
+clientKeyRoutes.post('/:slug/keys', async (c) => {
+	const slug = c.req.param('slug');
+	const access = await getProjectAndRole(c, slug);
+
+	if (access instanceof Response) {
+		return access;
+	}
+
+	if (access.role !== 'owner' && access.role !== 'admin') {
+		return c.json(
+			{ error: 'forbidden', message: 'Only owner or admin can manage client keys' },
+			403,
+		);
+	}
+
+	const body = await c.req.json<{ name: string; rateLimit?: number | null }>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.createClientKey({
+		projectId: access.projectId,
+		name: body.name,
+		rateLimit: body.rateLimit,
+	});
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	return c.json({ key: withDsn(c, result.data.key) }, 201);
+});
+
+// Rename, enable or disable a client key, or change its rate limit
+// PATCH /api/projects/:slug/keys/:keyId
+clientKeyRoutes.patch('/:slug/keys/:keyId', async (c) => {
+	const slug = c.req.param('slug');
+	const keyId = c.req.param('keyId');
+	const access = await getProjectAndRole(c, slug);
+
+	if (access instanceof Response) {
+		return access;
+	}
+
+	if (access.role !== 'owner' && access.role !== 'admin') {
+		return c.json(
+			{ error: 'forbidden', message: 'Only owner or admin can manage client keys' },
+			403,
+		);
+	}
+
+	const body = await c.req.json<{ name?: string; enabled?: boolean; rateLimit?: number | null }>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.updateClientKey({
+		projectId: access.projectId,
+		keyId,
+		name: body.name,
+		enabled: body.enabled,
+		rateLimit: body.rateLimit,
+	});
+
+	if (!result.ok || !result.data.key) {
+		return toJson(c, result);
+	}
+
+	return c.json({ key: withDsn(c, result.data.key) });
+});
+
+// Revoke a client key
+// DELETE /api/projects/:slug/keys/:keyId
+clientKeyRoutes.delete('/:slug/keys/:keyId', async (c) => {
+	const slug = c.req.param('slug');
+	const keyId = c.req.param('keyId');
+	const access = await getProjectAndRole(c, slug);
+
+	if (access instanceof Response) {
+		return access;
+	}
+
+	if (access.role !== 'owner' && access.role !== 'admin') {
+		return c.json(
+			{ error: 'forbidden', message: 'Only owner or admin can manage client keys' },
+			403,
+		);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.revokeClientKey({ projectId: access.projectId, keyId });
+
+	return toJson(c, result);
+});
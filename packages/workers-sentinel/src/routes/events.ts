@@ -1,4 +1,5 @@
 import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
 import type { AuthContext, Env, Project } from '../types';
 
 type Variables = {
@@ -22,19 +23,13 @@ async function getProjectWithAccess(
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!response.ok) {
+	if (!result.ok) {
 		return c.json({ error: 'project_not_found' }, 404);
 	}
 
-	return response.json();
+	return result.data;
 }
 
 // List events for an issue
@@ -56,20 +51,13 @@ eventRoutes.get('/:slug/issues/:issueId/events', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/events', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				issueId,
-				cursor,
-				limit: limit ? parseInt(limit, 10) : undefined,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data);
+	const result = await projectState.getIssueEvents({
+		issueId,
+		cursor,
+		limit: limit ? parseInt(limit, 10) : undefined,
+	});
+
+	return toJson(c, result);
 });
 
 // Get a specific event
@@ -88,21 +76,9 @@ eventRoutes.get('/:slug/events/:eventId', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/event', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ eventId }),
-		}),
-	);
-
-	if (!response.ok) {
-		const error = await response.json();
-		return c.json(error, response.status as 404);
-	}
+	const result = await projectState.getEvent({ eventId });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Get latest events for a project
@@ -122,16 +98,63 @@ eventRoutes.get('/:slug/events/latest', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/events/latest', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				limit: limit ? parseInt(limit, 10) : undefined,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data);
+	const result = await projectState.getLatestEvents({
+		limit: limit ? parseInt(limit, 10) : undefined,
+	});
+
+	return toJson(c, result);
+});
+
+// List attachments for an event
+// GET /api/projects/:slug/events/:eventId/attachments
+eventRoutes.get('/:slug/events/:eventId/attachments', async (c) => {
+	const slug = c.req.param('slug');
+	const eventId = c.req.param('eventId');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.listAttachments({ eventId });
+
+	return toJson(c, result);
+});
+
+// Download an attachment
+// GET /api/projects/:slug/events/:eventId/attachments/:attachmentId
+eventRoutes.get('/:slug/events/:eventId/attachments/:attachmentId', async (c) => {
+	const slug = c.req.param('slug');
+	const eventId = c.req.param('eventId');
+	const attachmentId = c.req.param('attachmentId');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getAttachment({ eventId, attachmentId });
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	// Send the raw bytes back with the stored content type and filename
+	const { attachment, content } = result.data;
+	return new Response(content, {
+		headers: {
+			'Content-Type': attachment.contentType,
+			'Content-Length': String(attachment.size),
+			'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+		},
+	});
 });
@@ -0,0 +1,80 @@
+import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
+import type { AuthContext, Env, FeedbackStatus, Project } from '../types';
+
+type Variables = {
+	auth?: AuthContext;
+};
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const feedbackRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Helper to get project and verify access
+async function getProjectWithAccess(
+	c: AppContext,
+	slug: string,
+): Promise<{ project: Project } | Response> {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return c.json({ error: 'project_not_found' }, 404);
+	}
+
+	return result.data;
+}
+
+// List user feedback, newest first
+// GET /api/projects/:slug/feedback?status=new&issueId=...
+feedbackRoutes.get('/:slug/feedback', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getFeedback({
+		status: c.req.query('status'),
+		issueId: c.req.query('issueId'),
+		cursor: c.req.query('cursor'),
+		limit: Number.parseInt(c.req.query('limit') || '25', 10),
+	});
+
+	return toJson(c, result);
+});
+
+// Triage user feedback
+// PATCH /api/projects/:slug/feedback/:feedbackId
+feedbackRoutes.patch('/:slug/feedback/:feedbackId', async (c) => {
+	const slug = c.req.param('slug');
+	const feedbackId = c.req.param('feedbackId');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+	const body = await c.req.json<{ status: FeedbackStatus }>();
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.updateFeedback({ feedbackId, status: body.status });
+
+	return toJson(c, result);
+});
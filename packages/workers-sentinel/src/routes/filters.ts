@@ -1,4 +1,5 @@
 import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
 import type { AuthContext, Env, Project } from '../types';
 
 type Variables = {
@@ -22,19 +23,13 @@ async function getProjectWithAccess(
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!response.ok) {
+	if (!result.ok) {
 		return c.json({ error: 'project_not_found' }, 404);
 	}
 
-	return response.json();
+	return result.data;
 }
 
 // List filters for a project
@@ -52,16 +47,9 @@ filterRoutes.get('/:slug/filters', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/filters', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({}),
-		}),
-	);
+	const result = await projectState.getFilters();
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Create a filter
@@ -84,20 +72,13 @@ filterRoutes.post('/:slug/filters', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/filters/create', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				filterType: body.filterType,
-				pattern: body.pattern,
-				description: body.description,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 201 | 400);
+	const result = await projectState.createFilter({
+		filterType: body.filterType,
+		pattern: body.pattern,
+		description: body.description,
+	});
+
+	return toJson(c, result);
 });
 
 // Update a filter
@@ -121,21 +102,14 @@ filterRoutes.patch('/:slug/filters/:filterId', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/filters/update', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				filterId,
-				enabled: body.enabled,
-				pattern: body.pattern,
-				description: body.description,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400 | 404);
+	const result = await projectState.updateFilter({
+		filterId,
+		enabled: body.enabled,
+		pattern: body.pattern,
+		description: body.description,
+	});
+
+	return toJson(c, result);
 });
 
 // Delete a filter
@@ -154,14 +128,7 @@ filterRoutes.delete('/:slug/filters/:filterId', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/filters/delete', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ filterId }),
-		}),
-	);
+	const result = await projectState.deleteFilter({ filterId });
 
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 404);
+	return toJson(c, result);
 });
@@ -1,15 +1,43 @@
 import { type Context, Hono } from 'hono';
+import { cors } from 'hono/cors';
 import {
-	extractEvents,
-	extractKeyFromAuthHeader,
-	maybeDecompress,
-	parseEnvelope,
-} from '../lib/envelope-parser';
-import { buildWebhookPayload, sendWebhook } from '../lib/webhook';
-import type { Env, Project } from '../types';
+	emptyEnvelopeContents,
+	extractEnvelopeContents,
+	ingestEnvelope,
+	isEnvelopeEmpty,
+	recordOutcomes,
+} from '../ingest';
+import { extractKeyFromAuthHeader, maybeDecompress, parseEnvelope } from '../lib/envelope-parser';
+import { isOriginAllowed } from '../lib/origins';
+import { type OtlpSignal, parseOtlpRequest } from '../lib/otlp';
+import { formatRateLimits, rateLimitHeaders } from '../lib/rate-limits';
+import { parseSecurityReports } from '../lib/security-reports';
+import type { Env } from '../types';
 
 export const ingestionRoutes = new Hono<{ Bindings: Env }>();
 
+// Browser SDKs send auth and tracing headers, which makes the browser send a CORS preflight.
+// The origin is echoed here and checked against the project's allowed domains on the request itself.
+const ingestionCors = cors({
+	origin: (origin) => origin || '*',
+	allowHeaders: [
+		'Content-Type',
+		'Content-Encoding',
+		'X-Sentry-Auth',
+		'Authorization',
+		'sentry-trace',
+		'baggage',
+	],
+	allowMethods: ['GET', 'POST', 'OPTIONS'],
+	exposeHeaders: ['X-Sentry-Rate-Limits', 'Retry-After'],
+	maxAge: 86400,
+});
+
+ingestionRoutes.use('/:projectId/envelope/*', ingestionCors);
+ingestionRoutes.use('/:projectId/store/*', ingestionCors);
+ingestionRoutes.use('/:projectId/security/*', ingestionCors);
+ingestionRoutes.use('/:projectId/otlp/*', ingestionCors);
+
 // Main envelope ingestion endpoint
 // POST /api/{project_id}/envelope/
 ingestionRoutes.post('/:projectId/envelope', handleIngestion);
@@ -20,10 +48,20 @@ ingestionRoutes.post('/:projectId/envelope/', handleIngestion);
 ingestionRoutes.post('/:projectId/store', handleIngestion);
 ingestionRoutes.post('/:projectId/store/', handleIngestion);
 
-async function handleIngestion(c: Context<{ Bindings: Env }>): Promise<Response> {
-	const projectId = c.req.param('projectId');
+// Browser security reports (CSP report-uri / report-to, Expect-CT, NEL)
+// POST /api/{project_id}/security/?sentry_key=xxx
+ingestionRoutes.post('/:projectId/security', handleIngestion);
+ingestionRoutes.post('/:projectId/security/', handleIngestion);
+
+// OpenTelemetry OTLP/HTTP exporters (JSON or protobuf)
+// POST /api/{project_id}/otlp/v1/logs and /api/{project_id}/otlp/v1/traces
+ingestionRoutes.post('/:projectId/otlp/v1/logs', handleIngestion);
+ingestionRoutes.post('/:projectId/otlp/v1/traces', handleIngestion);
 
-	// Extract public key from various sources
+/**
+ * Extract the DSN public key from the query string, X-Sentry-Auth or Basic auth header.
+ */
+function extractPublicKey(c: Context<{ Bindings: Env }>): string | null {
 	let publicKey: string | null = null;
 
 	// 1. Query parameter: ?sentry_key=xxx
@@ -53,6 +91,36 @@ async function handleIngestion(c: Context<{ Bindings: Env }>): Promise<Response>
 		}
 	}
 
+	return publicKey;
+}
+
+/**
+ * The OTLP signal an OTLP/HTTP request carries, or null for other ingestion endpoints.
+ */
+function getOtlpSignal(path: string): OtlpSignal | null {
+	const match = /\/otlp\/v1\/(logs|traces)$/.exec(path);
+	return match ? (match[1] as OtlpSignal) : null;
+}
+
+/**
+ * OTLP/HTTP success response: an empty Export*ServiceResponse in the request's encoding.
+ */
+function otlpResponse(
+	c: Context<{ Bindings: Env }>,
+	contentType: string,
+	headers: Record<string, string>,
+): Response {
+	if (contentType.includes('application/x-protobuf')) {
+		return c.body(null, 200, { ...headers, 'Content-Type': 'application/x-protobuf' });
+	}
+	return c.json({ partialSuccess: {} }, { headers });
+}
+
+async function handleIngestion(c: Context<{ Bindings: Env }>): Promise<Response> {
+	const projectId = c.req.param('projectId');
+	const otlpSignal = getOtlpSignal(c.req.path);
+
+	const publicKey = extractPublicKey(c);
 	if (!publicKey) {
 		return c.json({ error: 'missing_auth', message: 'No authentication provided' }, 401);
 	}
@@ -61,131 +129,131 @@ async function handleIngestion(c: Context<{ Bindings: Env }>): Promise<Response>
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const projectResponse = await authState.fetch(
-		new Request('http://internal/get-project-by-key', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ publicKey }),
-		}),
-	);
+	const projectResult = await authState.getProjectByKey({ publicKey });
 
-	if (!projectResponse.ok) {
+	if (!projectResult.ok) {
 		return c.json({ error: 'invalid_auth', message: 'Invalid DSN' }, 401);
 	}
 
-	const projectData = (await projectResponse.json()) as { project: Project };
-	const project = projectData.project;
+	const { project, clientKey } = projectResult.data;
 
 	// Verify project ID matches (if provided in URL)
 	if (projectId && projectId !== project.id) {
 		return c.json({ error: 'project_mismatch', message: 'Project ID does not match DSN' }, 400);
 	}
 
+	// Get the ProjectState Durable Object for this project
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	// Browser SDKs may only send from the project's allowed domains
+	const origin = c.req.header('Origin') || c.req.header('Referer');
+	if (!isOriginAllowed(origin, project.allowedDomains)) {
+		await recordOutcomes(projectState, [
+			{ outcome: 'invalid', category: 'default', reason: 'disallowed_origin' },
+		]);
+		return c.json(
+			{ error: 'origin_not_allowed', message: 'Origin is not an allowed domain for this project' },
+			403,
+		);
+	}
+
 	// Parse the request body
 	const contentEncoding = c.req.header('Content-Encoding') ?? null;
 	const contentType = c.req.header('Content-Type') || '';
 	const bodyBuffer = await c.req.arrayBuffer();
 
-	let bodyText: string;
+	let body: Uint8Array;
 	try {
-		bodyText = await maybeDecompress(bodyBuffer, contentEncoding);
+		body = await maybeDecompress(bodyBuffer, contentEncoding);
 	} catch {
+		await recordOutcomes(projectState, [
+			{ outcome: 'invalid', category: 'default', reason: 'decompression_failed' },
+		]);
 		return c.json({ error: 'decompression_failed', message: 'Failed to decompress body' }, 400);
 	}
 
 	// Parse envelope or raw event
-	let events;
+	let contents = emptyEnvelopeContents();
 	try {
-		if (contentType.includes('application/json') && !bodyText.includes('\n{')) {
+		const bodyText = contentType.includes('application/json')
+			? new TextDecoder().decode(body)
+			: null;
+		if (otlpSignal) {
+			contents.events = parseOtlpRequest(otlpSignal, body, contentType);
+		} else if (/\/security\/?$/.test(c.req.path)) {
+			// Browsers send these with their own content types (csp-report, reports+json)
+			contents.events = parseSecurityReports(new TextDecoder().decode(body), {
+				userAgent: c.req.header('User-Agent'),
+				environment: c.req.query('sentry_environment'),
+				release: c.req.query('sentry_release'),
+			});
+		} else if (bodyText !== null && !bodyText.includes('\n{')) {
 			// Raw JSON event (legacy store endpoint)
 			const event = JSON.parse(bodyText);
-			events = [event];
+			if (event.type === 'transaction') {
+				contents.transactions = [event];
+			} else {
+				contents.events = [event];
+			}
 		} else {
 			// Envelope format
-			const envelope = parseEnvelope(bodyText);
-			events = extractEvents(envelope);
+			contents = extractEnvelopeContents(parseEnvelope(body));
 		}
 	} catch (error) {
 		console.error('Parse error:', error);
+		// The category is unknown when the body could not be parsed
+		await recordOutcomes(projectState, [
+			{ outcome: 'invalid', category: 'default', reason: 'parse_failed' },
+		]);
 		return c.json({ error: 'parse_failed', message: 'Failed to parse envelope' }, 400);
 	}
 
-	if (events.length === 0) {
+	if (isEnvelopeEmpty(contents)) {
+		if (otlpSignal) return otlpResponse(c, contentType, {});
 		return c.json({ id: null, message: 'No events in envelope' });
 	}
 
-	// Get the ProjectState Durable Object for this project
-	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
-	const projectState = c.env.PROJECT_STATE.get(projectStateId);
-
-	// Ingest each event
-	const results = [];
-	for (const event of events) {
-		try {
-			const response = await projectState.fetch(
-				new Request('http://internal/ingest', {
-					method: 'POST',
-					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify(event),
-				}),
-			);
-
-			if (response.status === 429) {
-				const retryAfter = response.headers.get('Retry-After') || '3600';
-				return c.json(
-					{ error: 'rate_limited', message: 'Project event quota exceeded' },
-					{ status: 429, headers: { 'Retry-After': retryAfter } },
-				);
-			}
+	const result = await ingestEnvelope(c.env, c.executionCtx, project, clientKey, contents);
 
-			if (response.ok) {
-				const result = await response.json();
-				results.push(result);
-			} else {
-				console.error('Ingest error:', await response.text());
-			}
-		} catch (error) {
-			console.error('Ingest error:', error);
-		}
+	if (result.rateLimited) {
+		return c.json(
+			{ error: 'rate_limited', message: result.message },
+			{ status: 429, headers: rateLimitHeaders(result.rateLimits) },
+		);
 	}
 
-	// Fire webhooks for new issues (non-blocking)
-	if (project.webhookUrl) {
-		for (const result of results) {
-			const r = result as {
-				eventId: string;
-				issueId: string;
-				isNewIssue?: boolean;
-				title?: string;
-				level?: string;
-				culprit?: string | null;
-			};
-			if (r.isNewIssue && r.title) {
-				const payload = buildWebhookPayload(
-					{ id: project.id, name: project.name, slug: project.slug },
-					{
-						id: r.issueId,
-						title: r.title,
-						level: r.level || 'error',
-						culprit: r.culprit || null,
-					},
-				);
-				c.executionCtx.waitUntil(sendWebhook(project.webhookUrl, payload));
-			}
-		}
+	const headers: Record<string, string> =
+		result.rateLimits.length > 0
+			? { 'X-Sentry-Rate-Limits': formatRateLimits(result.rateLimits) }
+			: {};
+	if (otlpSignal) {
+		return otlpResponse(c, contentType, headers);
 	}
 
-	// Return the first event ID (standard Sentry response)
-	const firstResult = results[0] as { eventId: string } | undefined;
-	return c.json({ id: firstResult?.eventId || events[0]?.event_id || null });
+	return c.json({ id: result.eventId }, { headers });
 }
 
 // Security endpoint - returns project configuration
 // GET /api/{project_id}/security/
 ingestionRoutes.get('/:projectId/security', async (c) => {
-	// Return CORS headers for browser SDKs
+	const publicKey = extractPublicKey(c);
+	if (!publicKey) {
+		return c.json({ error: 'missing_auth', message: 'No authentication provided' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	// Fetching the configuration does not count as using the key
+	const projectResult = await authState.getProjectByKey({ publicKey, touch: false });
+
+	if (!projectResult.ok || projectResult.data.project.id !== c.req.param('projectId')) {
+		return c.json({ error: 'invalid_auth', message: 'Invalid DSN' }, 401);
+	}
+
 	return c.json({
-		allowedDomains: ['*'],
+		allowedDomains: projectResult.data.project.allowedDomains,
 		scrubData: true,
 	});
 });
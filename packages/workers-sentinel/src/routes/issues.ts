@@ -1,4 +1,5 @@
 import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
 import type { AuthContext, Env, Project } from '../types';
 
 type Variables = {
@@ -22,19 +23,13 @@ async function getProjectWithAccess(
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!response.ok) {
+	if (!result.ok) {
 		return c.json({ error: 'project_not_found' }, 404);
 	}
 
-	return response.json();
+	return result.data;
 }
 
 // Get project summary/overview
@@ -52,16 +47,9 @@ issueRoutes.get('/:slug/summary', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/summary', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: '{}',
-		}),
-	);
+	const result = await projectState.getSummary();
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // List environments for a project
@@ -79,16 +67,9 @@ issueRoutes.get('/:slug/environments', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/environments', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({}),
-		}),
-	);
+	const result = await projectState.getEnvironments();
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // List issues for a project
@@ -116,25 +97,18 @@ issueRoutes.get('/:slug/issues', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issues', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				status,
-				level,
-				environment,
-				query,
-				sort,
-				cursor,
-				limit: limit ? parseInt(limit, 10) : undefined,
-				tags: tagParams.length > 0 ? tagParams : undefined,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data);
+	const result = await projectState.getIssues({
+		status,
+		level,
+		environment,
+		query,
+		sort,
+		cursor,
+		limit: limit ? parseInt(limit, 10) : undefined,
+		tags: tagParams.length > 0 ? tagParams : undefined,
+	});
+
+	return toJson(c, result);
 });
 
 // Bulk update issues
@@ -157,20 +131,13 @@ issueRoutes.patch('/:slug/issues/bulk', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issues/bulk-update', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				issueIds: body.issueIds,
-				status: body.status,
-				action: body.action,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400);
+	const result = await projectState.bulkUpdateIssues({
+		issueIds: body.issueIds,
+		status: body.status,
+		action: body.action,
+	});
+
+	return toJson(c, result);
 });
 
 // Get a specific issue
@@ -189,21 +156,9 @@ issueRoutes.get('/:slug/issues/:issueId', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ issueId }),
-		}),
-	);
-
-	if (!response.ok) {
-		const error = await response.json();
-		return c.json(error, response.status as 404);
-	}
+	const result = await projectState.getIssue({ issueId });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Update an issue (status, assignee)
@@ -224,22 +179,14 @@ const updateIssueHandler = async (c: AppContext) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/update', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				issueId,
-				status: body.status,
-				assignee: body.assignee,
-				userId: auth?.user.id,
-				userName: auth?.user.name,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400);
+	const result = await projectState.updateIssue({
+		issueId,
+		status: body.status,
+		userId: auth?.user.id,
+		userName: auth?.user.name,
+	});
+
+	return toJson(c, result);
 };
 
 issueRoutes.patch('/:slug/issues/:issueId', updateIssueHandler);
@@ -261,16 +208,9 @@ issueRoutes.delete('/:slug/issues/:issueId', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/delete', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ issueId }),
-		}),
-	);
+	const result = await projectState.deleteIssue({ issueId });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Merge issues
@@ -297,19 +237,12 @@ issueRoutes.post('/:slug/issues/merge', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issues/merge', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				primaryIssueId: body.primaryIssueId,
-				issueIds: body.issueIds,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400 | 404);
+	const result = await projectState.mergeIssues({
+		primaryIssueId: body.primaryIssueId,
+		issueIds: body.issueIds,
+	});
+
+	return toJson(c, result);
 });
 
 // Snooze an issue
@@ -347,16 +280,9 @@ issueRoutes.post('/:slug/issues/:issueId/snooze', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/snooze', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ issueId, duration: snoozedUntil }),
-		}),
-	);
+	const result = await projectState.snoozeIssue({ issueId, duration: snoozedUntil });
 
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400 | 404);
+	return toJson(c, result);
 });
 
 // Unsnooze an issue
@@ -375,18 +301,16 @@ issueRoutes.delete('/:slug/issues/:issueId/snooze', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/unsnooze', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ issueId }),
-		}),
-	);
+	const result = await projectState.unsnoozeIssue({ issueId });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
+// Optional date query parameters must parse, or building the range throws
+function isValidDate(value: string | undefined): boolean {
+	return value === undefined || !Number.isNaN(new Date(value).getTime());
+}
+
 // Get project stats
 // GET /api/projects/:slug/stats
 issueRoutes.get('/:slug/stats', async (c) => {
@@ -402,20 +326,44 @@ issueRoutes.get('/:slug/stats', async (c) => {
 	const interval = c.req.query('interval') as '1h' | '1d' | '1w' | undefined;
 	const start = c.req.query('start');
 	const end = c.req.query('end');
+	if (!isValidDate(start) || !isValidDate(end)) {
+		return c.json({ error: 'invalid_date', message: 'start and end must be valid dates' }, 400);
+	}
 
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/stats', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ interval, start, end }),
-		}),
-	);
+	const result = await projectState.getStats({ interval, start, end });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
+});
+
+// Get accepted vs. dropped volume over time
+// GET /api/projects/:slug/stats/outcomes
+issueRoutes.get('/:slug/stats/outcomes', async (c) => {
+	const slug = c.req.param('slug');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const interval = c.req.query('interval') as '1h' | '1d' | '1w' | undefined;
+	const start = c.req.query('start');
+	const end = c.req.query('end');
+	if (!isValidDate(start) || !isValidDate(end)) {
+		return c.json({ error: 'invalid_date', message: 'start and end must be valid dates' }, 400);
+	}
+	const category = c.req.query('category');
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getOutcomes({ interval, start, end, category });
+
+	return toJson(c, result);
 });
 
 // Get tag facets for a project
@@ -431,15 +379,9 @@ issueRoutes.get('/:slug/tags', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/tags', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ limit: limit ? parseInt(limit, 10) : undefined }),
-		}),
-	);
+	const result = await projectState.getTags({ limit: limit ? parseInt(limit, 10) : undefined });
 
-	return c.json(await response.json());
+	return toJson(c, result);
 });
 
 // Get values for a specific tag key
@@ -457,19 +399,13 @@ issueRoutes.get('/:slug/tags/:key/values', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/tag-values', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				key,
-				query,
-				limit: limit ? parseInt(limit, 10) : undefined,
-			}),
-		}),
-	);
-
-	return c.json(await response.json());
+	const result = await projectState.getTagValues({
+		key,
+		query,
+		limit: limit ? parseInt(limit, 10) : undefined,
+	});
+
+	return toJson(c, result);
 });
 
 // Get comments for an issue
@@ -488,16 +424,9 @@ issueRoutes.get('/:slug/issues/:issueId/comments', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/comments', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ issueId }),
-		}),
-	);
+	const result = await projectState.getComments({ issueId });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Add a comment to an issue
@@ -522,21 +451,14 @@ issueRoutes.post('/:slug/issues/:issueId/comments', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/comment/add', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				issueId,
-				userId: auth.user.id,
-				userName: auth.user.name,
-				body: body.body,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 201 | 400);
+	const result = await projectState.addComment({
+		issueId,
+		userId: auth.user.id,
+		userName: auth.user.name,
+		body: body.body,
+	});
+
+	return toJson(c, result);
 });
 
 // Delete a comment
@@ -561,20 +483,13 @@ issueRoutes.delete('/:slug/issues/:issueId/comments/:commentId', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/comment/delete', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				commentId,
-				userId: auth.user.id,
-				issueId,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 403 | 404);
+	const result = await projectState.deleteComment({
+		commentId,
+		userId: auth.user.id,
+		issueId,
+	});
+
+	return toJson(c, result);
 });
 
 // Get activity timeline for an issue
@@ -596,18 +511,11 @@ issueRoutes.get('/:slug/issues/:issueId/activity', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/issue/activity', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				issueId,
-				cursor,
-				limit: limit ? parseInt(limit, 10) : undefined,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data);
+	const result = await projectState.getActivity({
+		issueId,
+		cursor,
+		limit: limit ? parseInt(limit, 10) : undefined,
+	});
+
+	return toJson(c, result);
 });
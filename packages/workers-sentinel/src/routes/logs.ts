@@ -0,0 +1,75 @@
+import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
+import type { AuthContext, Env, Project } from '../types';
+
+type Variables = {
+	auth?: AuthContext;
+};
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const logRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Helper to get project and verify access
+async function getProjectWithAccess(
+	c: AppContext,
+	slug: string,
+): Promise<{ project: Project } | Response> {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return c.json({ error: 'project_not_found' }, 404);
+	}
+
+	return result.data;
+}
+
+// Search structured logs, newest first
+// GET /api/projects/:slug/logs?from=...&to=...&level=error,fatal&traceId=...&query=...&attribute=key:value
+logRoutes.get('/:slug/logs', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	// Attribute filters are repeatable: attribute=key:value
+	const attributes: Record<string, string> = {};
+	for (const filter of c.req.queries('attribute') ?? []) {
+		const separator = filter.indexOf(':');
+		if (separator <= 0) {
+			return c.json(
+				{ error: 'invalid_attribute', message: 'Attribute filters must be key:value' },
+				400,
+			);
+		}
+		attributes[filter.slice(0, separator)] = filter.slice(separator + 1);
+	}
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getLogs({
+		from: c.req.query('from'),
+		to: c.req.query('to'),
+		level: c.req.query('level'),
+		traceId: c.req.query('traceId'),
+		query: c.req.query('query'),
+		attributes,
+		cursor: c.req.query('cursor'),
+		limit: Number.parseInt(c.req.query('limit') || '50', 10),
+	});
+
+	return toJson(c, result);
+});
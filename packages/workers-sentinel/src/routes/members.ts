@@ -1,5 +1,5 @@
 import { type Context, Hono } from 'hono';
-import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { toJson } from '../lib/rpc-result';
 import type { AuthContext, Env } from '../types';
 
 type Variables = {
@@ -24,78 +24,57 @@ async function getProjectAndRole(
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
 	// Resolve slug to project
-	const getResponse = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
-
-	if (!getResponse.ok) {
+	const projectResult = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!projectResult.ok) {
 		return c.json({ error: 'project_not_found' }, 404);
 	}
 
-	const projectData = (await getResponse.json()) as { project: { id: string } };
+	const { project } = projectResult.data;
 
 	// Check access and get role
-	const accessResponse = await authState.fetch(
-		new Request('http://internal/check-access', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ projectId: projectData.project.id, userId: auth.user.id }),
-		}),
-	);
-
-	const accessData = (await accessResponse.json()) as {
-		hasAccess: boolean;
-		role: string | null;
-	};
-
-	if (!accessData.hasAccess) {
+	const accessResult = await authState.checkAccess({
+		projectId: project.id,
+		userId: auth.user.id,
+	});
+
+	if (!accessResult.ok || !accessResult.data.hasAccess) {
 		return c.json({ error: 'forbidden' }, 403);
 	}
 
-	return { projectId: projectData.project.id, role: accessData.role! };
+	return { projectId: project.id, role: accessResult.data.role! };
 }
 
 // List all members of a project
 // GET /api/projects/:slug/members
 memberRoutes.get('/:slug/members', async (c) => {
 	const slug = c.req.param('slug');
-	const result = await getProjectAndRole(c, slug);
+	const access = await getProjectAndRole(c, slug);
 
-	if (result instanceof Response) {
-		return result;
+	if (access instanceof Response) {
+		return access;
 	}
 
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/list-project-members', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ projectId: result.projectId }),
-		}),
-	);
+	const result = await authState.listProjectMembers({ projectId: access.projectId });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Add a member to a project
 // POST /api/projects/:slug/members
 memberRoutes.post('/:slug/members', async (c) => {
 	const slug = c.req.param('slug');
-	const result = await getProjectAndRole(c, slug);
+	const access = await getProjectAndRole(c, slug);
 
-	if (result instanceof Response) {
-		return result;
+	if (access instanceof Response) {
+		return access;
 	}
 
 	// Only owner or admin can add members
-	if (result.role !== 'owner' && result.role !== 'admin') {
+	if (access.role !== 'owner' && access.role !== 'admin') {
 		return c.json({ error: 'forbidden', message: 'Only owner or admin can manage members' }, 403);
 	}
 
@@ -104,20 +83,13 @@ memberRoutes.post('/:slug/members', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/add-project-member', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				projectId: result.projectId,
-				email: body.email,
-				role: body.role,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as ContentfulStatusCode);
+	const result = await authState.addProjectMember({
+		projectId: access.projectId,
+		email: body.email,
+		role: body.role,
+	});
+
+	return toJson(c, result);
 });
 
 // Update a member's role
@@ -125,13 +97,13 @@ memberRoutes.post('/:slug/members', async (c) => {
 memberRoutes.patch('/:slug/members/:userId', async (c) => {
 	const slug = c.req.param('slug');
 	const userId = c.req.param('userId');
-	const result = await getProjectAndRole(c, slug);
+	const access = await getProjectAndRole(c, slug);
 
-	if (result instanceof Response) {
-		return result;
+	if (access instanceof Response) {
+		return access;
 	}
 
-	if (result.role !== 'owner' && result.role !== 'admin') {
+	if (access.role !== 'owner' && access.role !== 'admin') {
 		return c.json({ error: 'forbidden', message: 'Only owner or admin can manage members' }, 403);
 	}
 
@@ -140,20 +112,13 @@ memberRoutes.patch('/:slug/members/:userId', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/update-project-member', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				projectId: result.projectId,
-				userId,
-				role: body.role,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as ContentfulStatusCode);
+	const result = await authState.updateProjectMember({
+		projectId: access.projectId,
+		userId,
+		role: body.role,
+	});
+
+	return toJson(c, result);
 });
 
 // Remove a member from a project
@@ -161,30 +126,23 @@ memberRoutes.patch('/:slug/members/:userId', async (c) => {
 memberRoutes.delete('/:slug/members/:userId', async (c) => {
 	const slug = c.req.param('slug');
 	const userId = c.req.param('userId');
-	const result = await getProjectAndRole(c, slug);
+	const access = await getProjectAndRole(c, slug);
 
-	if (result instanceof Response) {
-		return result;
+	if (access instanceof Response) {
+		return access;
 	}
 
-	if (result.role !== 'owner' && result.role !== 'admin') {
+	if (access.role !== 'owner' && access.role !== 'admin') {
 		return c.json({ error: 'forbidden', message: 'Only owner or admin can manage members' }, 403);
 	}
 
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/remove-project-member', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				projectId: result.projectId,
-				userId,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as ContentfulStatusCode);
+	const result = await authState.removeProjectMember({
+		projectId: access.projectId,
+		userId,
+	});
+
+	return toJson(c, result);
 });
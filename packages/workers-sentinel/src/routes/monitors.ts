@@ -0,0 +1,164 @@
+import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
+import type { AuthContext, Env, MonitorSchedule, MonitorStatus, Project } from '../types';
+
+type Variables = {
+	auth?: AuthContext;
+};
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const monitorRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Helper to get project and verify access
+async function getProjectWithAccess(
+	c: AppContext,
+	slug: string,
+): Promise<{ project: Project } | Response> {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return c.json({ error: 'project_not_found' }, 404);
+	}
+
+	return result.data;
+}
+
+// List cron monitors for a project
+// GET /api/projects/:slug/monitors
+monitorRoutes.get('/:slug/monitors', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getMonitors();
+
+	return toJson(c, result);
+});
+
+// Create a monitor
+// POST /api/projects/:slug/monitors
+monitorRoutes.post('/:slug/monitors', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+	const body = await c.req.json<{
+		slug: string;
+		name?: string;
+		schedule: MonitorSchedule;
+		checkinMargin?: number;
+		maxRuntime?: number;
+	}>();
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.createMonitor({
+		slug: body.slug,
+		name: body.name,
+		schedule: body.schedule,
+		checkinMargin: body.checkinMargin,
+		maxRuntime: body.maxRuntime,
+	});
+
+	return toJson(c, result);
+});
+
+// Get a monitor with its recent check-ins
+// GET /api/projects/:slug/monitors/:monitorSlug
+monitorRoutes.get('/:slug/monitors/:monitorSlug', async (c) => {
+	const slug = c.req.param('slug');
+	const monitorSlug = c.req.param('monitorSlug');
+	const limit = Number.parseInt(c.req.query('limit') || '50', 10);
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getMonitor({ monitorSlug, limit });
+
+	return toJson(c, result);
+});
+
+// Update a monitor
+// PATCH /api/projects/:slug/monitors/:monitorSlug
+monitorRoutes.patch('/:slug/monitors/:monitorSlug', async (c) => {
+	const slug = c.req.param('slug');
+	const monitorSlug = c.req.param('monitorSlug');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+	const body = await c.req.json<{
+		name?: string;
+		schedule?: MonitorSchedule;
+		checkinMargin?: number;
+		maxRuntime?: number;
+		status?: MonitorStatus;
+	}>();
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.updateMonitor({
+		monitorSlug,
+		name: body.name,
+		schedule: body.schedule,
+		checkinMargin: body.checkinMargin,
+		maxRuntime: body.maxRuntime,
+		status: body.status,
+	});
+
+	return toJson(c, result);
+});
+
+// Delete a monitor and its check-ins
+// DELETE /api/projects/:slug/monitors/:monitorSlug
+monitorRoutes.delete('/:slug/monitors/:monitorSlug', async (c) => {
+	const slug = c.req.param('slug');
+	const monitorSlug = c.req.param('monitorSlug');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.deleteMonitor({ monitorSlug });
+
+	return toJson(c, result);
+});
@@ -0,0 +1,116 @@
+import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
+import type { AuthContext, Env, Project } from '../types';
+
+type Variables = {
+	auth?: AuthContext;
+};
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const performanceRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Helper to get project and verify access
+async function getProjectWithAccess(
+	c: AppContext,
+	slug: string,
+): Promise<{ project: Project } | Response> {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return c.json({ error: 'project_not_found' }, 404);
+	}
+
+	return result.data;
+}
+
+// Duration percentiles per transaction name
+// GET /api/projects/:slug/performance
+performanceRoutes.get('/:slug/performance', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const period = c.req.query('period');
+	const environment = c.req.query('environment');
+	const sort = c.req.query('sort');
+	const limit = c.req.query('limit');
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getPerformance({
+		period,
+		environment,
+		sort,
+		limit: limit ? parseInt(limit, 10) : undefined,
+	});
+
+	return toJson(c, result);
+});
+
+// Sample transactions for a transaction name
+// GET /api/projects/:slug/performance/transactions?name=...
+performanceRoutes.get('/:slug/performance/transactions', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const name = c.req.query('name');
+	const sort = c.req.query('sort') as 'duration' | 'recent' | undefined;
+	const limit = c.req.query('limit');
+
+	if (!name) {
+		return c.json({ error: 'missing_name', message: 'name query parameter is required' }, 400);
+	}
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getTransactions({
+		name,
+		sort,
+		limit: limit ? parseInt(limit, 10) : undefined,
+	});
+
+	return toJson(c, result);
+});
+
+// Get a single transaction with its span tree
+// GET /api/projects/:slug/performance/transactions/:eventId
+performanceRoutes.get('/:slug/performance/transactions/:eventId', async (c) => {
+	const slug = c.req.param('slug');
+	const eventId = c.req.param('eventId');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getTransaction({ eventId });
+
+	return toJson(c, result);
+});
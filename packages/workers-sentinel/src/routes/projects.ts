@@ -1,7 +1,17 @@
 import { Hono } from 'hono';
-import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { parseFingerprintRules } from '../lib/fingerprint-rules';
+import { toJson } from '../lib/rpc-result';
+import { parseStacktraceRules } from '../lib/stacktrace-rules';
 import { buildWebhookPayload } from '../lib/webhook';
-import type { AuthContext, Env } from '../types';
+import type {
+	AuthContext,
+	CategoryQuota,
+	Env,
+	NormalizationLimits,
+	QuotaCategory,
+	ScrubbingRules,
+	SpikeProtectionConfig,
+} from '../types';
 
 type Variables = {
 	auth?: AuthContext;
@@ -19,16 +29,9 @@ projectRoutes.get('/', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/list-projects', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.listProjects({ userId: auth.user.id });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Create a new project
@@ -47,25 +50,22 @@ projectRoutes.post('/', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/create-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				name: body.name,
-				platform: body.platform,
-				userId: auth.user.id,
-			}),
-		}),
-	);
+	const result = await authState.createProject({
+		name: body.name,
+		platform: body.platform,
+		userId: auth.user.id,
+	});
 
-	const data = (await response.json()) as { project: { id: string; publicKey: string } };
+	if (!result.ok) {
+		return toJson(c, result);
+	}
 
 	// Generate DSN
+	const { project } = result.data;
 	const host = new URL(c.req.url).host;
-	const dsn = `https://${data.project.publicKey}@${host}/${data.project.id}`;
+	const dsn = `https://${project.publicKey}@${host}/${project.id}`;
 
-	return c.json({ ...data, dsn }, response.status as ContentfulStatusCode);
+	return c.json({ project, dsn });
 });
 
 // Get a specific project by slug
@@ -80,26 +80,18 @@ projectRoutes.get('/:slug', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!response.ok) {
-		const error = await response.json();
-		return c.json(error, response.status as ContentfulStatusCode);
+	if (!result.ok) {
+		return toJson(c, result);
 	}
 
-	const data = (await response.json()) as { project: { id: string; publicKey: string } };
-
 	// Generate DSN
+	const { project } = result.data;
 	const host = new URL(c.req.url).host;
-	const dsn = `https://${data.project.publicKey}@${host}/${data.project.id}`;
+	const dsn = `https://${project.publicKey}@${host}/${project.id}`;
 
-	return c.json({ ...data, dsn });
+	return c.json({ project, dsn });
 });
 
 // Get project settings
@@ -114,28 +106,304 @@ projectRoutes.get('/:slug/settings', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	const { project } = result.data;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(c, await projectState.getSettings());
+});
+
+// Get data scrubbing rules
+projectRoutes.get('/:slug/settings/scrubbing', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	const { project } = result.data;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(c, await projectState.getScrubbing());
+});
+
+// Update data scrubbing rules
+projectRoutes.put('/:slug/settings/scrubbing', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+	const body = await c.req.json<Partial<ScrubbingRules>>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	const { project } = result.data;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(
+		c,
+		await projectState.updateScrubbing({
+			scrubDefaults: body.scrubDefaults,
+			sensitiveKeys: body.sensitiveKeys,
+			customPatterns: body.customPatterns,
+			anonymizeIp: body.anonymizeIp,
+			hashEmails: body.hashEmails,
 		}),
 	);
+});
 
-	if (!response.ok) {
-		const error = await response.json();
-		return c.json(error, response.status as 404);
+// Get event normalization limits
+projectRoutes.get('/:slug/settings/normalization', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
 	}
 
-	const { project } = (await response.json()) as { project: { id: string } };
+	const { project } = result.data;
 
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const settingsResponse = await projectState.fetch(new Request('http://internal/settings'));
+	return toJson(c, await projectState.getNormalization());
+});
+
+// Update event normalization limits
+projectRoutes.put('/:slug/settings/normalization', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+	const body = await c.req.json<Partial<NormalizationLimits>>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	const { project } = result.data;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(
+		c,
+		await projectState.updateNormalization({
+			maxStringLength: body.maxStringLength,
+			maxBreadcrumbs: body.maxBreadcrumbs,
+			maxFrames: body.maxFrames,
+			maxDepth: body.maxDepth,
+			maxCollectionItems: body.maxCollectionItems,
+		}),
+	);
+});
+
+// Get fingerprinting rules
+projectRoutes.get('/:slug/settings/fingerprinting', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
 
-	const data = await settingsResponse.json();
-	return c.json(data);
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	const { project } = result.data;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(c, await projectState.getFingerprinting());
+});
+
+// Update fingerprinting rules
+projectRoutes.put('/:slug/settings/fingerprinting', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+	const body = await c.req.json<{ rules?: string }>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	const { project } = result.data;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(c, await projectState.updateFingerprinting({ rules: body.rules }));
+});
+
+// Check fingerprinting rules for syntax errors without saving them
+projectRoutes.post('/:slug/settings/fingerprinting/validate', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+	const body = await c.req.json<{ rules?: string }>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	if (typeof body.rules !== 'string') {
+		return c.json({ error: 'invalid_value', message: 'rules must be a string' }, 400);
+	}
+
+	const { rules, errors } = parseFingerprintRules(body.rules);
+
+	return c.json({ valid: errors.length === 0, ruleCount: rules.length, errors });
+});
+
+// Get stack trace rules
+projectRoutes.get('/:slug/settings/stacktrace', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	const { project } = result.data;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(c, await projectState.getStacktrace());
+});
+
+// Update stack trace rules
+projectRoutes.put('/:slug/settings/stacktrace', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+	const body = await c.req.json<{ rules?: string }>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	const { project } = result.data;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(c, await projectState.updateStacktrace({ rules: body.rules }));
+});
+
+// Check stack trace rules for syntax errors without saving them
+projectRoutes.post('/:slug/settings/stacktrace/validate', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+	const body = await c.req.json<{ rules?: string }>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	if (typeof body.rules !== 'string') {
+		return c.json({ error: 'invalid_value', message: 'rules must be a string' }, 400);
+	}
+
+	const { rules, errors } = parseStacktraceRules(body.rules);
+
+	return c.json({ valid: errors.length === 0, ruleCount: rules.length, errors });
 });
 
 // Update a project
@@ -148,13 +416,19 @@ projectRoutes.patch('/:slug', async (c) => {
 	const slug = c.req.param('slug');
 	const body = await c.req.json<{
 		webhookUrl?: string | null;
+		allowedDomains?: string[];
 		maxEventsPerHour?: number;
+		quotas?: Partial<Record<QuotaCategory, Partial<CategoryQuota>>>;
+		spikeProtection?: Partial<SpikeProtectionConfig>;
 		retentionDays?: number;
 	}>();
 
 	if (
 		body.webhookUrl === undefined &&
+		body.allowedDomains === undefined &&
 		body.maxEventsPerHour === undefined &&
+		body.quotas === undefined &&
+		body.spikeProtection === undefined &&
 		body.retentionDays === undefined
 	) {
 		return c.json({ error: 'no_updates', message: 'No fields to update were provided' }, 400);
@@ -164,64 +438,52 @@ projectRoutes.patch('/:slug', async (c) => {
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
 	// Get project first
-	const getResponse = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const getResult = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!getResponse.ok) {
-		const error = await getResponse.json();
-		return c.json(error, getResponse.status as ContentfulStatusCode);
+	if (!getResult.ok) {
+		return toJson(c, getResult);
 	}
 
-	const projectData = (await getResponse.json()) as { project: { id: string } };
+	const projectData = getResult.data;
 
 	const result: Record<string, unknown> = {};
 
-	// Update webhook URL in AuthState if provided
-	if (body.webhookUrl !== undefined) {
-		const updateResponse = await authState.fetch(
-			new Request('http://internal/update-project', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({
-					projectId: projectData.project.id,
-					userId: auth.user.id,
-					webhookUrl: body.webhookUrl,
-				}),
-			}),
-		);
+	// Update webhook URL and allowed domains in AuthState if provided
+	if (body.webhookUrl !== undefined || body.allowedDomains !== undefined) {
+		const updateResult = await authState.updateProject({
+			projectId: projectData.project.id,
+			userId: auth.user.id,
+			webhookUrl: body.webhookUrl,
+			allowedDomains: body.allowedDomains,
+		});
 
-		const data = (await updateResponse.json()) as Record<string, unknown>;
-		if (!updateResponse.ok) {
-			return c.json(data, updateResponse.status as ContentfulStatusCode);
+		if (!updateResult.ok) {
+			return toJson(c, updateResult);
 		}
 
-		Object.assign(result, data);
+		Object.assign(result, updateResult.data);
 	}
 
 	// Update rate limit config in ProjectState if provided
-	if (body.maxEventsPerHour !== undefined) {
+	if (
+		body.maxEventsPerHour !== undefined ||
+		body.quotas !== undefined ||
+		body.spikeProtection !== undefined
+	) {
 		const projectStateId = c.env.PROJECT_STATE.idFromName(projectData.project.id);
 		const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-		const configResponse = await projectState.fetch(
-			new Request('http://internal/config/update', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({ maxEventsPerHour: body.maxEventsPerHour }),
-			}),
-		);
+		const configResult = await projectState.updateConfig({
+			maxEventsPerHour: body.maxEventsPerHour,
+			quotas: body.quotas,
+			spikeProtection: body.spikeProtection,
+		});
 
-		const data = (await configResponse.json()) as Record<string, unknown>;
-		if (!configResponse.ok) {
-			return c.json(data, configResponse.status as ContentfulStatusCode);
+		if (!configResult.ok) {
+			return toJson(c, configResult);
 		}
 
-		Object.assign(result, data);
+		Object.assign(result, configResult.data);
 	}
 
 	// Update retention settings in ProjectState if provided
@@ -229,20 +491,13 @@ projectRoutes.patch('/:slug', async (c) => {
 		const projectStateId = c.env.PROJECT_STATE.idFromName(projectData.project.id);
 		const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-		const settingsResponse = await projectState.fetch(
-			new Request('http://internal/settings/update', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({ retentionDays: body.retentionDays }),
-			}),
-		);
+		const settingsResult = await projectState.updateSettings({ retentionDays: body.retentionDays });
 
-		const settingsData = (await settingsResponse.json()) as Record<string, unknown>;
-		if (!settingsResponse.ok) {
-			return c.json(settingsData, settingsResponse.status as ContentfulStatusCode);
+		if (!settingsResult.ok) {
+			return toJson(c, settingsResult);
 		}
 
-		Object.assign(result, settingsData);
+		Object.assign(result, settingsResult.data);
 	}
 
 	return c.json(Object.keys(result).length > 0 ? result : { success: true });
@@ -259,25 +514,41 @@ projectRoutes.get('/:slug/rate-limit', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const getResponse = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const getResult = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!getResponse.ok) {
-		const error = await getResponse.json();
-		return c.json(error, getResponse.status as ContentfulStatusCode);
+	if (!getResult.ok) {
+		return toJson(c, getResult);
 	}
 
-	const projectData = (await getResponse.json()) as { project: { id: string } };
+	const projectData = getResult.data;
 	const projectStateId = c.env.PROJECT_STATE.idFromName(projectData.project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(new Request('http://internal/rate-limit-status'));
-	return c.json(await response.json());
+	return toJson(c, await projectState.getRateLimitStatus());
+});
+
+// Get spike protection history for a project
+projectRoutes.get('/:slug/spikes', async (c) => {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const slug = c.req.param('slug');
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const getResult = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!getResult.ok) {
+		return toJson(c, getResult);
+	}
+
+	const projectData = getResult.data;
+	const projectStateId = c.env.PROJECT_STATE.idFromName(projectData.project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	return toJson(c, await projectState.getSpikes());
 });
 
 // Test webhook
@@ -292,23 +563,13 @@ projectRoutes.post('/:slug/test-webhook', async (c) => {
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const getResponse = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const getResult = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!getResponse.ok) {
-		const error = await getResponse.json();
-		return c.json(error, getResponse.status as ContentfulStatusCode);
+	if (!getResult.ok) {
+		return toJson(c, getResult);
 	}
 
-	const projectData = (await getResponse.json()) as {
-		project: { id: string; name: string; slug: string; webhookUrl?: string | null };
-	};
-	const project = projectData.project;
+	const { project } = getResult.data;
 
 	if (!project.webhookUrl) {
 		return c.json({ error: 'no_webhook', message: 'No webhook URL configured' }, 400);
@@ -357,33 +618,19 @@ projectRoutes.delete('/:slug', async (c) => {
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
 	// First get the project to get its ID
-	const getResponse = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const getResult = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!getResponse.ok) {
-		const error = await getResponse.json();
-		return c.json(error, getResponse.status as ContentfulStatusCode);
+	if (!getResult.ok) {
+		return toJson(c, getResult);
 	}
 
-	const projectData = (await getResponse.json()) as { project: { id: string } };
+	const projectData = getResult.data;
 
 	// Delete the project
-	const deleteResponse = await authState.fetch(
-		new Request('http://internal/delete-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				projectId: projectData.project.id,
-				userId: auth.user.id,
-			}),
-		}),
-	);
+	const deleteResult = await authState.deleteProject({
+		projectId: projectData.project.id,
+		userId: auth.user.id,
+	});
 
-	const data = await deleteResponse.json();
-	return c.json(data, deleteResponse.status as ContentfulStatusCode);
+	return toJson(c, deleteResult);
 });
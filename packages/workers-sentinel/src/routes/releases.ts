@@ -1,4 +1,5 @@
 import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
 import type { AuthContext, Env, Project } from '../types';
 
 type Variables = {
@@ -22,19 +23,13 @@ async function getProjectWithAccess(
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!response.ok) {
+	if (!result.ok) {
 		return c.json({ error: 'project_not_found' }, 404);
 	}
 
-	return response.json();
+	return result.data;
 }
 
 // List releases for a project
@@ -55,19 +50,12 @@ releaseRoutes.get('/:slug/releases', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/releases', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				cursor,
-				limit: limit ? parseInt(limit, 10) : undefined,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data);
+	const result = await projectState.getReleases({
+		cursor,
+		limit: limit ? parseInt(limit, 10) : undefined,
+	});
+
+	return toJson(c, result);
 });
 
 // Get a specific release with its issues
@@ -86,19 +74,7 @@ releaseRoutes.get('/:slug/releases/:version', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/release', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ version }),
-		}),
-	);
-
-	if (!response.ok) {
-		const error = await response.json();
-		return c.json(error, response.status as 404);
-	}
+	const result = await projectState.getRelease({ version });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
@@ -0,0 +1,103 @@
+import { type Context, Hono } from 'hono';
+import { decodeReplayRecording } from '../lib/envelope-parser';
+import { toJson } from '../lib/rpc-result';
+import type { AuthContext, Env, Project } from '../types';
+
+type Variables = {
+	auth?: AuthContext;
+};
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const replayRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Helper to get project and verify access
+async function getProjectWithAccess(
+	c: AppContext,
+	slug: string,
+): Promise<{ project: Project } | Response> {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return c.json({ error: 'project_not_found' }, 404);
+	}
+
+	return result.data;
+}
+
+// SDKs send replay IDs as UUIDs with or without dashes
+function normalizeReplayId(replayId: string): string {
+	return replayId.replace(/-/g, '').toLowerCase();
+}
+
+// Get a replay's metadata
+// GET /api/projects/:slug/replays/:replayId
+replayRoutes.get('/:slug/replays/:replayId', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getReplay({
+		replayId: normalizeReplayId(c.req.param('replayId')),
+	});
+
+	if (!result.ok) {
+		return toJson(c, result);
+	}
+
+	return c.json({ replay: result.data.replay });
+});
+
+// Get a replay's rrweb events, decoded and concatenated across segments
+// GET /api/projects/:slug/replays/:replayId/recording
+replayRoutes.get('/:slug/replays/:replayId/recording', async (c) => {
+	const slug = c.req.param('slug');
+	const replayId = normalizeReplayId(c.req.param('replayId'));
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const replayResult = await projectState.getReplay({ replayId });
+
+	if (!replayResult.ok) {
+		return toJson(c, replayResult);
+	}
+
+	// Segments are fetched one at a time to keep each RPC response small
+	const events: unknown[] = [];
+	for (const segmentId of replayResult.data.segmentIds) {
+		const segment = await projectState.getReplaySegment({ replayId, segmentId });
+		if (!segment.ok) continue;
+
+		try {
+			events.push(...(await decodeReplayRecording(segment.data.content, segment.data.compressed)));
+		} catch (error) {
+			console.error('Replay segment error:', error);
+		}
+	}
+
+	return c.json({ events });
+});
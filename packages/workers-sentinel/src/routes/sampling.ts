@@ -0,0 +1,140 @@
+import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
+import type { AuthContext, Env, Project } from '../types';
+
+type Variables = {
+	auth?: AuthContext;
+};
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const samplingRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Helper to get project and verify access
+async function getProjectWithAccess(
+	c: AppContext,
+	slug: string,
+): Promise<{ project: Project } | Response> {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!result.ok) {
+		return c.json({ error: 'project_not_found' }, 404);
+	}
+
+	return result.data;
+}
+
+// List sampling rules for a project
+// GET /api/projects/:slug/sampling-rules
+samplingRoutes.get('/:slug/sampling-rules', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.getSamplingRules();
+
+	return toJson(c, result);
+});
+
+// Create a sampling rule
+// POST /api/projects/:slug/sampling-rules
+samplingRoutes.post('/:slug/sampling-rules', async (c) => {
+	const slug = c.req.param('slug');
+	const projectResult = await getProjectWithAccess(c, slug);
+
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+	const body = await c.req.json<{
+		conditionType: string;
+		tagKey?: string;
+		value: string;
+		sampleRate: number;
+		description?: string;
+	}>();
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.createSamplingRule({
+		conditionType: body.conditionType,
+		tagKey: body.tagKey,
+		value: body.value,
+		sampleRate: body.sampleRate,
+		description: body.description,
+	});
+
+	return toJson(c, result);
+});
+
+// Update a sampling rule
+// PATCH /api/projects/:slug/sampling-rules/:ruleId
+samplingRoutes.patch('/:slug/sampling-rules/:ruleId', async (c) => {
+	const slug = c.req.param('slug');
+	const ruleId = c.req.param('ruleId');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+	const body = await c.req.json<{
+		enabled?: boolean;
+		value?: string;
+		sampleRate?: number;
+		description?: string | null;
+	}>();
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.updateSamplingRule({
+		ruleId,
+		enabled: body.enabled,
+		value: body.value,
+		sampleRate: body.sampleRate,
+		description: body.description,
+	});
+
+	return toJson(c, result);
+});
+
+// Delete a sampling rule
+// DELETE /api/projects/:slug/sampling-rules/:ruleId
+samplingRoutes.delete('/:slug/sampling-rules/:ruleId', async (c) => {
+	const slug = c.req.param('slug');
+	const ruleId = c.req.param('ruleId');
+
+	const projectResult = await getProjectWithAccess(c, slug);
+	if (projectResult instanceof Response) {
+		return projectResult;
+	}
+
+	const { project } = projectResult;
+
+	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
+	const projectState = c.env.PROJECT_STATE.get(projectStateId);
+
+	const result = await projectState.deleteSamplingRule({ ruleId });
+
+	return toJson(c, result);
+});
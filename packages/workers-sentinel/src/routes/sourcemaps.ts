@@ -1,4 +1,5 @@
 import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
 import type { AuthContext, Env, Project } from '../types';
 
 type Variables = {
@@ -22,19 +23,13 @@ async function getProjectWithAccess(
 	const authStateId = c.env.AUTH_STATE.idFromName('global');
 	const authState = c.env.AUTH_STATE.get(authStateId);
 
-	const response = await authState.fetch(
-		new Request('http://internal/get-project', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ slug, userId: auth.user.id }),
-		}),
-	);
+	const result = await authState.getProject({ slug, userId: auth.user.id });
 
-	if (!response.ok) {
+	if (!result.ok) {
 		return c.json({ error: 'project_not_found' }, 404);
 	}
 
-	return response.json();
+	return result.data;
 }
 
 // Upload a source map
@@ -53,20 +48,13 @@ sourcemapRoutes.post('/:slug/sourcemaps', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/sourcemaps/upload', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({
-				release: body.release,
-				fileUrl: body.fileUrl,
-				content: body.content,
-			}),
-		}),
-	);
-
-	const data = await response.json();
-	return c.json(data, response.status as 200 | 400);
+	const result = await projectState.uploadSourceMap({
+		release: body.release,
+		fileUrl: body.fileUrl,
+		content: body.content,
+	});
+
+	return toJson(c, result);
 });
 
 // List source maps
@@ -85,16 +73,9 @@ sourcemapRoutes.get('/:slug/sourcemaps', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/sourcemaps/list', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ release }),
-		}),
-	);
+	const result = await projectState.listSourceMaps({ release });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Get a source map by release + fileUrl for client-side resolution
@@ -118,21 +99,9 @@ sourcemapRoutes.get('/:slug/sourcemaps/resolve', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/sourcemaps/get', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ release, fileUrl }),
-		}),
-	);
-
-	if (!response.ok) {
-		const error = await response.json();
-		return c.json(error, response.status as 404);
-	}
+	const result = await projectState.getSourceMap({ release, fileUrl });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
 
 // Delete a source map
@@ -151,14 +120,7 @@ sourcemapRoutes.delete('/:slug/sourcemaps/:id', async (c) => {
 	const projectStateId = c.env.PROJECT_STATE.idFromName(project.id);
 	const projectState = c.env.PROJECT_STATE.get(projectStateId);
 
-	const response = await projectState.fetch(
-		new Request('http://internal/sourcemaps/delete', {
-			method: 'POST',
-			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify({ id }),
-		}),
-	);
+	const result = await projectState.deleteSourceMap({ id });
 
-	const data = await response.json();
-	return c.json(data);
+	return toJson(c, result);
 });
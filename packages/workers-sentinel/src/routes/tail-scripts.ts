@@ -0,0 +1,123 @@
+import { type Context, Hono } from 'hono';
+import { toJson } from '../lib/rpc-result';
+import type { AuthContext, Env } from '../types';
+
+type Variables = {
+	auth?: AuthContext;
+};
+
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+export const tailScriptRoutes = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Helper to get project and check member role
+async function getProjectAndRole(
+	c: AppContext,
+	slug: string,
+): Promise<{ projectId: string; role: string } | Response> {
+	const auth = c.get('auth');
+	if (!auth) {
+		return c.json({ error: 'unauthorized' }, 401);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	// Resolve slug to project
+	const projectResult = await authState.getProject({ slug, userId: auth.user.id });
+
+	if (!projectResult.ok) {
+		return c.json({ error: 'project_not_found' }, 404);
+	}
+
+	const { project } = projectResult.data;
+
+	// Check access and get role
+	const accessResult = await authState.checkAccess({
+		projectId: project.id,
+		userId: auth.user.id,
+	});
+
+	if (!accessResult.ok || !accessResult.data.hasAccess) {
+		return c.json({ error: 'forbidden' }, 403);
+	}
+
+	return { projectId: project.id, role: accessResult.data.role! };
+}
+
+// List the Worker scripts whose Tail Worker events are ingested into a project
+// GET /api/projects/:slug/tail-scripts
+tailScriptRoutes.get('/:slug/tail-scripts', async (c) => {
+	const slug = c.req.param('slug');
+	const access = await getProjectAndRole(c, slug);
+
+	if (access instanceof Response) {
+		return access;
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.listTailScripts({ projectId: access.projectId });
+
+	return toJson(c, result);
+});
+
+// Map a Worker script to a project
+// POST /api/projects/:slug/tail-scripts
+tailScriptRoutes.post('/:slug/tail-scripts', async (c) => {
+	const slug = c.req.param('slug');
+	const access = await getProjectAndRole(c, slug);
+
+	if (access instanceof Response) {
+		return access;
+	}
+
+	if (access.role !== 'owner' && access.role !== 'admin') {
+		return c.json(
+			{ error: 'forbidden', message: 'Only owner or admin can manage tail scripts' },
+			403,
+		);
+	}
+
+	const body = await c.req.json<{ scriptName: string }>();
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.addTailScript({
+		projectId: access.projectId,
+		scriptName: body.scriptName,
+	});
+
+	return toJson(c, result);
+});
+
+// Stop ingesting a Worker script's trace events
+// DELETE /api/projects/:slug/tail-scripts/:scriptName
+tailScriptRoutes.delete('/:slug/tail-scripts/:scriptName', async (c) => {
+	const slug = c.req.param('slug');
+	const scriptName = c.req.param('scriptName');
+	const access = await getProjectAndRole(c, slug);
+
+	if (access instanceof Response) {
+		return access;
+	}
+
+	if (access.role !== 'owner' && access.role !== 'admin') {
+		return c.json(
+			{ error: 'forbidden', message: 'Only owner or admin can manage tail scripts' },
+			403,
+		);
+	}
+
+	const authStateId = c.env.AUTH_STATE.idFromName('global');
+	const authState = c.env.AUTH_STATE.get(authStateId);
+
+	const result = await authState.removeTailScript({
+		projectId: access.projectId,
+		scriptName,
+	});
+
+	return toJson(c, result);
+});
@@ -1,10 +1,18 @@
 import { WorkerEntrypoint } from 'cloudflare:workers';
-import { extractEvents } from './lib/envelope-parser';
-import type { Env, EnvelopeItem, Project } from './types';
+import { extractEnvelopeContents, ingestEnvelope, isEnvelopeEmpty } from './ingest';
+import { formatRateLimits } from './lib/rate-limits';
+import type { Env, EnvelopeItem, EnvelopeItemHeader } from './types';
 
 // Sentry envelope format: [header, ...items] where each item is [itemHeader, payload]
 type SentryEnvelope = [Record<string, unknown>, Array<[Record<string, unknown>, unknown]>];
 
+interface CaptureResult {
+	status: number;
+	eventId?: string;
+	// Value of the X-Sentry-Rate-Limits header an HTTP ingestion request would have received
+	rateLimits?: string;
+}
+
 /**
  * RPC entrypoint for Workers Sentinel.
  *
@@ -33,7 +41,10 @@ type SentryEnvelope = [Record<string, unknown>, Array<[Record<string, unknown>,
  *         const rpcPromise = env.SENTINEL.captureEnvelope(DSN, envelope);
  *         waitUntil(rpcPromise);
  *         const result = await rpcPromise;
- *         return { statusCode: result.status };
+ *         return {
+ *           statusCode: result.status,
+ *           headers: { 'x-sentry-rate-limits': result.rateLimits ?? null, 'retry-after': null },
+ *         };
  *       },
  *       flush: async () => true,
  *     }),
@@ -48,12 +59,9 @@ export class SentinelRpc extends WorkerEntrypoint<Env> {
 	 *
 	 * @param dsn - The full DSN string (e.g., "https://publicKey@host/projectId")
 	 * @param envelope - The Sentry envelope object (not serialized)
-	 * @returns Object with status code and optional event ID
+	 * @returns Object with status code, optional event ID and any rate limits the SDK should honor
 	 */
-	async captureEnvelope(
-		dsn: string,
-		envelope: SentryEnvelope,
-	): Promise<{ status: number; eventId?: string }> {
+	async captureEnvelope(dsn: string, envelope: SentryEnvelope): Promise<CaptureResult> {
 		// Parse DSN to extract publicKey and projectId
 		let publicKey: string;
 		let projectId: string;
@@ -73,6 +81,7 @@ export class SentinelRpc extends WorkerEntrypoint<Env> {
 			header: envelope[0],
 			items: (envelope[1] || []).map(([header, payload]) => ({
 				type: (header as { type: string }).type as EnvelopeItem['type'],
+				headers: header as unknown as EnvelopeItemHeader,
 				payload,
 			})),
 		};
@@ -81,63 +90,40 @@ export class SentinelRpc extends WorkerEntrypoint<Env> {
 		const authStateId = this.env.AUTH_STATE.idFromName('global');
 		const authState = this.env.AUTH_STATE.get(authStateId);
 
-		const projectResponse = await authState.fetch(
-			new Request('http://internal/get-project-by-key', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify({ publicKey }),
-			}),
-		);
+		const projectResult = await authState.getProjectByKey({ publicKey });
 
-		if (!projectResponse.ok) {
+		if (!projectResult.ok) {
 			return { status: 401 };
 		}
 
-		const projectData = (await projectResponse.json()) as { project: Project };
-		const project = projectData.project;
+		const { project, clientKey } = projectResult.data;
 
 		// Verify project ID matches
 		if (projectId !== project.id) {
 			return { status: 400 };
 		}
 
-		// Extract events from envelope
-		const events = extractEvents(parsed);
-
-		if (events.length === 0) {
+		// Every item type is stored the same way as on the HTTP ingestion route
+		const contents = extractEnvelopeContents(parsed);
+		if (isEnvelopeEmpty(contents)) {
 			return { status: 200 };
 		}
 
-		// Get the ProjectState Durable Object for this project
-		const projectStateId = this.env.PROJECT_STATE.idFromName(project.id);
-		const projectState = this.env.PROJECT_STATE.get(projectStateId);
+		const result = await ingestEnvelope(this.env, this.ctx, project, clientKey, contents);
 
-		// Ingest each event
-		let firstEventId: string | undefined;
-		for (const event of events) {
-			try {
-				const response = await projectState.fetch(
-					new Request('http://internal/ingest', {
-						method: 'POST',
-						headers: { 'Content-Type': 'application/json' },
-						body: JSON.stringify(event),
-					}),
-				);
-
-				if (response.status === 429) {
-					return { status: 429 };
-				}
+		if (result.rateLimited) {
+			return { status: 429, rateLimits: formatRateLimits(result.rateLimits) };
+		}
 
-				if (response.ok && !firstEventId) {
-					const result = (await response.json()) as { eventId: string };
-					firstEventId = result.eventId;
-				}
-			} catch {
-				// Silently continue on ingest errors
-			}
+		if (result.rateLimits.length > 0) {
+			return {
+				status: 200,
+				eventId: result.eventId ?? undefined,
+				rateLimits: formatRateLimits(result.rateLimits),
+			};
 		}
 
-		return { status: 200, eventId: firstEventId };
+		return { status: 200, eventId: result.eventId ?? undefined };
 	}
 
 	/**
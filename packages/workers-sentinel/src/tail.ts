@@ -0,0 +1,79 @@
+import { traceItemToEvents } from './lib/trace-items';
+import { buildWebhookPayload, sendWebhook } from './lib/webhook';
+import type { Env, SentryEvent } from './types';
+
+/**
+ * Tail Worker handler for Workers Sentinel.
+ *
+ * Turns uncaught exceptions and `console.error` calls from producer Workers into events,
+ * without the Sentry SDK. Each producer's script name must be mapped to a project under
+ * the project's tail scripts, and the producer must list this Worker as a tail consumer:
+ *
+ * ```jsonc
+ * // producer wrangler.jsonc
+ * { "tail_consumers": [{ "service": "workers-sentinel" }] }
+ * ```
+ */
+export async function handleTail(
+	items: TraceItem[],
+	env: Env,
+	ctx: ExecutionContext,
+): Promise<void> {
+	const eventsByScript = new Map<string, SentryEvent[]>();
+	for (const item of items) {
+		if (!item.scriptName) continue;
+		const events = traceItemToEvents(item);
+		if (events.length === 0) continue;
+		eventsByScript.set(item.scriptName, [
+			...(eventsByScript.get(item.scriptName) ?? []),
+			...events,
+		]);
+	}
+
+	if (eventsByScript.size === 0) return;
+
+	const authStateId = env.AUTH_STATE.idFromName('global');
+	const authState = env.AUTH_STATE.get(authStateId);
+
+	const resolved = await authState.resolveTailScripts({ scriptNames: [...eventsByScript.keys()] });
+	if (!resolved.ok) {
+		console.error('Tail error:', resolved.error);
+		return;
+	}
+
+	for (const [scriptName, events] of eventsByScript) {
+		const project = resolved.data.projects[scriptName];
+		if (!project) continue;
+
+		try {
+			const projectStateId = env.PROJECT_STATE.idFromName(project.id);
+			const projectState = env.PROJECT_STATE.get(projectStateId);
+			const result = await projectState.ingestBatch({ events });
+
+			if (!result.ok) {
+				console.error('Tail ingest error:', result.error);
+				continue;
+			}
+
+			// Fire webhooks for new issues (non-blocking)
+			if (project.webhookUrl) {
+				for (const r of result.data.results) {
+					if (r.status === 'accepted' && r.isNewIssue && r.title) {
+						const payload = buildWebhookPayload(
+							{ id: project.id, name: project.name, slug: project.slug },
+							{
+								id: r.issueId,
+								title: r.title,
+								level: r.level || 'error',
+								culprit: r.culprit || null,
+							},
+						);
+						ctx.waitUntil(sendWebhook(project.webhookUrl, payload));
+					}
+				}
+			}
+		} catch (error) {
+			console.error('Tail ingest error:', error);
+		}
+	}
+}
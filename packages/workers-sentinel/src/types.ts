@@ -1,7 +1,33 @@
+import type { AuthState } from './durable-objects/auth-state';
+import type { ProjectState } from './durable-objects/project-state';
+
 export interface Env {
-	AUTH_STATE: DurableObjectNamespace;
-	PROJECT_STATE: DurableObjectNamespace;
+	AUTH_STATE: DurableObjectNamespace<AuthState>;
+	PROJECT_STATE: DurableObjectNamespace<ProjectState>;
 	ASSETS?: Fetcher;
+	// Enables queue-backed ingestion when bound
+	INGEST_QUEUE?: Queue<IngestMessage>;
+}
+
+// The items of an envelope, grouped by what ProjectState does with them
+export interface EnvelopeContents {
+	events: SentryEvent[];
+	transactions: SentryTransaction[];
+	attachments: EnvelopeAttachment[];
+	sessions: SessionUpdate[];
+	sessionAggregates: SessionAggregates[];
+	clientOutcomes: OutcomeRecord[];
+	checkIns: SentryCheckIn[];
+	feedback: FeedbackSubmission[];
+	logs: SentryLog[];
+	replays: ReplaySegment[];
+}
+
+// One envelope, waiting on the ingest queue
+export interface IngestMessage {
+	projectId: string;
+	publicKey: string;
+	contents: EnvelopeContents;
 }
 
 // User types
@@ -29,6 +55,7 @@ export interface Project {
 	platform: string;
 	publicKey: string;
 	webhookUrl?: string | null;
+	allowedDomains: string[]; // origins browser SDKs may send events from; ['*'] allows any
 	createdAt: string;
 	createdBy: string;
 }
@@ -41,6 +68,25 @@ export interface ProjectMember {
 	createdAt: string;
 }
 
+// Worker script whose Tail Worker trace events are ingested into a project
+export interface TailScript {
+	scriptName: string;
+	projectId: string;
+	createdAt: string;
+}
+
+// A named DSN key; a project can have several to rotate them independently
+export interface ClientKey {
+	id: string;
+	projectId: string;
+	name: string;
+	publicKey: string;
+	enabled: boolean;
+	rateLimit: number | null; // events and transactions per hour accepted through this key
+	lastUsedAt: string | null;
+	createdAt: string;
+}
+
 // API token types
 export interface ApiToken {
 	id: string;
@@ -80,6 +126,51 @@ export interface ProjectSettings {
 	retentionDays: number; // 0 = keep forever, otherwise number of days
 }
 
+// Data scrubbing applied to events before they are stored
+export interface ScrubbingRules {
+	scrubDefaults: boolean; // default sensitive keys and credit card numbers
+	sensitiveKeys: string[]; // additional keys, matched as case-insensitive substrings
+	customPatterns: string[]; // regular expressions replaced in string values
+	anonymizeIp: boolean;
+	hashEmails: boolean;
+}
+
+// Limits applied when normalizing events before they are stored
+export interface NormalizationLimits {
+	maxStringLength: number;
+	maxBreadcrumbs: number;
+	maxFrames: number; // per stack trace
+	maxDepth: number; // nesting of free-form data such as extra and contexts
+	maxCollectionItems: number; // entries per object or list in free-form data
+}
+
+// Matcher in fingerprinting and stack trace rules
+export interface RuleMatcher {
+	key: string; // canonical matcher key, e.g. error.type or tags.browser
+	pattern: string; // glob pattern, matched case-insensitively
+	negated: boolean;
+}
+
+export interface RuleSyntaxError {
+	line: number;
+	column: number;
+	message: string;
+}
+
+// Server-side fingerprinting rules, parsed from the project's rule text
+export interface FingerprintRule {
+	line: number;
+	matchers: RuleMatcher[];
+	fingerprint: string[]; // values with variables in canonical {{ key }} form
+}
+
+// Stack trace rules: +app/-app override in_app, -group leaves frames out of grouping
+export interface StacktraceRule {
+	line: number;
+	matchers: RuleMatcher[];
+	actions: Array<{ flag: 'app' | 'group'; value: boolean }>;
+}
+
 // Comment and activity types
 export interface IssueComment {
 	id: string;
@@ -110,6 +201,353 @@ export interface Release {
 	newIssueCount: number;
 }
 
+// Release health types
+export type SessionStatus = 'ok' | 'exited' | 'crashed' | 'abnormal' | 'errored';
+
+export interface SessionAttributes {
+	release?: string;
+	environment?: string;
+	ip_address?: string;
+	user_agent?: string;
+}
+
+// Payload of a `session` envelope item
+export interface SessionUpdate {
+	sid: string;
+	did?: string;
+	seq?: number;
+	init?: boolean;
+	started?: string;
+	timestamp?: string;
+	duration?: number;
+	status?: SessionStatus;
+	errors?: number;
+	attrs?: SessionAttributes;
+}
+
+export interface SessionAggregateBucket {
+	started: string;
+	did?: string;
+	exited?: number;
+	errored?: number;
+	abnormal?: number;
+	crashed?: number;
+}
+
+// Payload of a `sessions` envelope item (pre-aggregated by server-mode SDKs)
+export interface SessionAggregates {
+	aggregates: SessionAggregateBucket[];
+	attrs?: SessionAttributes;
+}
+
+export interface ReleaseHealthStats {
+	sessions: {
+		total: number;
+		crashed: number;
+		errored: number;
+		abnormal: number;
+		crashFreeRate: number | null;
+	};
+	users: {
+		total: number;
+		crashed: number;
+		crashFreeRate: number | null;
+	};
+}
+
+export interface ReleaseHealth extends ReleaseHealthStats {
+	environments: Array<ReleaseHealthStats & { environment: string | null }>;
+}
+
+// Performance types
+// Sentry sends span timestamps either as RFC 3339 strings or as Unix seconds
+export type SentryTimestamp = string | number;
+
+export interface SentrySpan {
+	span_id: string;
+	parent_span_id?: string;
+	trace_id?: string;
+	op?: string;
+	description?: string;
+	status?: string;
+	start_timestamp: SentryTimestamp;
+	timestamp: SentryTimestamp;
+	tags?: Record<string, string>;
+	data?: Record<string, unknown>;
+}
+
+export interface TraceContext {
+	trace_id?: string;
+	span_id?: string;
+	parent_span_id?: string;
+	op?: string;
+	status?: string;
+}
+
+export interface SentryTransaction {
+	event_id: string;
+	type?: 'transaction';
+	transaction?: string;
+	start_timestamp: SentryTimestamp;
+	timestamp: SentryTimestamp;
+	platform?: string;
+	release?: string;
+	environment?: string;
+	tags?: Record<string, string>;
+	user?: EventUser;
+	contexts?: { trace?: TraceContext } & Record<string, unknown>;
+	spans?: SentrySpan[];
+	measurements?: Record<string, { value: number; unit?: string }>;
+	sdk?: SdkInfo;
+}
+
+export interface SpanNode {
+	spanId: string;
+	parentSpanId: string | null;
+	op: string | null;
+	description: string | null;
+	status: string | null;
+	startTimestamp: string;
+	duration: number;
+	children: SpanNode[];
+}
+
+export interface TransactionSummary {
+	name: string;
+	count: number;
+	failureCount: number;
+	avgDuration: number;
+	p50: number;
+	p75: number;
+	p95: number;
+	p99: number;
+	lastSeen: string;
+}
+
+export interface TransactionEvent {
+	id: string;
+	traceId: string | null;
+	name: string;
+	op: string | null;
+	status: string | null;
+	startTimestamp: string;
+	duration: number;
+	environment: string | null;
+	release: string | null;
+	spanCount: number;
+	receivedAt: string;
+}
+
+// Outcome types
+// What happened to submitted data: stored, dropped by the server, or dropped by the SDK
+export type Outcome = 'accepted' | 'filtered' | 'rate_limited' | 'invalid' | 'client_discard';
+
+export interface OutcomeRecord {
+	outcome: Outcome;
+	// Data category, e.g. error, transaction, attachment, session
+	category: string;
+	reason?: string;
+	quantity?: number;
+	timestamp?: string;
+}
+
+// Rate limit types
+// Data categories that can be given their own ingestion quota
+export type QuotaCategory = 'error' | 'transaction' | 'session' | 'attachment';
+
+export interface CategoryQuota {
+	hourly: number; // 0 = unlimited
+	daily: number; // 0 = unlimited, counted per UTC day
+}
+
+// A limit as advertised to SDKs in the X-Sentry-Rate-Limits header
+export interface RateLimit {
+	categories: QuotaCategory[];
+	retryAfter: number; // seconds
+	reasonCode: string;
+}
+
+// Spike protection types
+export interface SpikeProtectionConfig {
+	enabled: boolean;
+	multiplier: number; // an hour above multiplier x baseline counts as a spike
+	ceiling: number; // events accepted per hour while a spike is throttled
+}
+
+// An hour in which spike protection dropped events
+export interface Spike {
+	bucket: string;
+	startedAt: string;
+	baseline: number; // average events per hour over the previous 7 days
+	threshold: number;
+	ceiling: number;
+	dropped: number;
+}
+
+// Cron monitor types
+export type MonitorIntervalUnit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export type MonitorSchedule =
+	// timezone is an IANA name such as Europe/Berlin; crontabs are evaluated in UTC without one
+	| { type: 'crontab'; value: string; timezone?: string }
+	| { type: 'interval'; value: number; unit: MonitorIntervalUnit };
+
+export type MonitorStatus = 'active' | 'disabled';
+
+// Outcome of the latest run; pending until the first check-in arrives
+export type MonitorHealth = 'pending' | 'ok' | 'error' | 'missed' | 'timeout';
+
+export type CheckInStatus = 'in_progress' | 'ok' | 'error' | 'missed' | 'timeout';
+
+export interface Monitor {
+	id: string;
+	slug: string;
+	name: string;
+	schedule: MonitorSchedule;
+	checkinMargin: number; // minutes a check-in may arrive late before it is missed
+	maxRuntime: number; // minutes a run may stay in progress before it times out
+	status: MonitorStatus;
+	health: MonitorHealth;
+	lastCheckIn: string | null;
+	nextCheckIn: string | null;
+	createdAt: string;
+}
+
+export interface MonitorCheckIn {
+	id: string;
+	status: CheckInStatus;
+	duration: number | null; // seconds
+	environment: string | null;
+	release: string | null;
+	expectedAt: string | null;
+	issueId: string | null;
+	createdAt: string;
+	updatedAt: string;
+}
+
+// Payload of a `check_in` envelope item
+export interface SentryCheckIn {
+	check_in_id: string;
+	monitor_slug: string;
+	status: 'in_progress' | 'ok' | 'error';
+	duration?: number;
+	release?: string;
+	environment?: string;
+	monitor_config?: {
+		schedule: MonitorSchedule;
+		checkin_margin?: number;
+		max_runtime?: number;
+		timezone?: string;
+	};
+}
+
+// User feedback types
+export type FeedbackStatus = 'new' | 'reviewed' | 'spam';
+
+export interface UserFeedback {
+	id: string;
+	eventId: string | null;
+	issueId: string | null;
+	issueTitle: string | null;
+	name: string | null;
+	email: string | null;
+	message: string;
+	url: string | null;
+	status: FeedbackStatus;
+	createdAt: string;
+}
+
+// Feedback normalized from `feedback` and legacy `user_report` envelope items
+export interface FeedbackSubmission {
+	id: string;
+	eventId: string | null; // the event the user was shown the feedback form for
+	name?: string;
+	email?: string;
+	message: string;
+	url?: string;
+}
+
+// Payload of a legacy `user_report` envelope item
+export interface SentryUserReport {
+	event_id: string;
+	name?: string;
+	email?: string;
+	comments: string;
+}
+
+// `contexts.feedback` of a `feedback` envelope item
+export interface FeedbackContext {
+	message: string;
+	contact_email?: string;
+	name?: string;
+	url?: string;
+	associated_event_id?: string;
+}
+
+// Structured log types
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+// One entry of a `log` envelope item's `items` array
+export interface SentryLog {
+	timestamp: number; // seconds since the epoch
+	trace_id?: string;
+	level: LogLevel;
+	body: string;
+	severity_number?: number;
+	attributes?: Record<string, { value: unknown; type?: string }>;
+}
+
+export interface LogEntry {
+	id: string;
+	timestamp: string;
+	level: LogLevel;
+	body: string;
+	traceId: string | null;
+	attributes: Record<string, unknown>;
+}
+
+// Payload of a `replay_event` envelope item, sent alongside each recording segment
+export interface SentryReplayEvent {
+	type?: 'replay_event';
+	replay_id: string;
+	segment_id: number;
+	timestamp?: SentryTimestamp;
+	replay_start_timestamp?: SentryTimestamp;
+	replay_type?: string;
+	urls?: string[];
+	error_ids?: string[];
+	trace_ids?: string[];
+	environment?: string;
+	release?: string;
+	platform?: string;
+	user?: EventUser;
+}
+
+// One replay segment as received: its metadata and rrweb recording
+export interface ReplaySegment {
+	replayId: string;
+	segmentId: number;
+	event: SentryReplayEvent | null;
+	recording: Uint8Array; // JSON array of rrweb events, zlib-compressed when `compressed`
+	compressed: boolean;
+}
+
+export interface Replay {
+	id: string;
+	startedAt: string;
+	finishedAt: string;
+	replayType: string | null;
+	environment: string | null;
+	release: string | null;
+	platform: string | null;
+	urls: string[];
+	errorIds: string[];
+	traceIds: string[];
+	user: EventUser | null;
+	segmentCount: number;
+	size: number;
+}
+
 // Source map types
 export interface SourceMap {
 	id: string;
@@ -119,6 +557,17 @@ export interface SourceMap {
 	size: number;
 }
 
+// Attachment types
+export interface EventAttachment {
+	id: string;
+	eventId: string;
+	filename: string;
+	contentType: string;
+	attachmentType: string;
+	size: number;
+	createdAt: string;
+}
+
 // Sentry event types
 export interface SentryEvent {
 	event_id: string;
@@ -137,10 +586,15 @@ export interface SentryEvent {
 	contexts?: Record<string, unknown>;
 	request?: RequestContext;
 	exception?: ExceptionInterface;
+	// Stack trace of a message event, sent without an exception
+	stacktrace?: Stacktrace;
+	threads?: ThreadsInterface;
 	breadcrumbs?: Breadcrumb[];
 	sdk?: SdkInfo;
 	fingerprint?: string[];
 	message?: string;
+	// What normalization trimmed or dropped, keyed by field path
+	_meta?: Record<string, unknown>;
 }
 
 export interface EventUser {
@@ -171,6 +625,18 @@ export interface ExceptionValue {
 	mechanism?: Mechanism;
 }
 
+export interface ThreadsInterface {
+	values: Thread[];
+}
+
+export interface Thread {
+	id?: number | string;
+	name?: string;
+	crashed?: boolean;
+	current?: boolean;
+	stacktrace?: Stacktrace;
+}
+
 export interface Stacktrace {
 	frames: StackFrame[];
 }
@@ -186,12 +652,19 @@ export interface StackFrame {
 	pre_context?: string[];
 	post_context?: string[];
 	in_app?: boolean;
+	// Set when a stack trace rule (-group) leaves the frame out of grouping
+	exclude_from_grouping?: boolean;
 }
 
 export interface Mechanism {
 	type: string;
 	handled?: boolean;
 	synthetic?: boolean;
+	// Chained exceptions: where this value came from (e.g. `cause`, `errors[0]`) and its parent
+	source?: string;
+	exception_id?: number;
+	parent_id?: number;
+	is_exception_group?: boolean;
 }
 
 export interface Breadcrumb {
@@ -218,16 +691,83 @@ export interface EnvelopeHeader {
 	sent_at?: string;
 }
 
+export interface EnvelopeItemHeader {
+	type: string;
+	length?: number;
+	content_type?: string;
+	filename?: string;
+	attachment_type?: string;
+}
+
 export interface EnvelopeItem {
-	type: 'event' | 'session' | 'attachment' | 'transaction' | 'client_report';
+	type:
+		| 'event'
+		| 'session'
+		| 'sessions'
+		| 'attachment'
+		| 'transaction'
+		| 'client_report'
+		| 'check_in'
+		| 'feedback'
+		| 'user_report'
+		| 'log'
+		| 'replay_event'
+		| 'replay_recording';
+	headers: EnvelopeItemHeader;
 	payload: unknown;
 }
 
+export interface EnvelopeAttachment {
+	eventId: string;
+	filename: string;
+	contentType: string;
+	attachmentType: string;
+	content: Uint8Array;
+}
+
+// Payload of a `client_report` envelope item
+export interface ClientReport {
+	timestamp?: SentryTimestamp;
+	discarded_events?: Array<{
+		reason: string;
+		category: string;
+		quantity: number;
+	}>;
+}
+
 export interface ParsedEnvelope {
 	header: EnvelopeHeader;
 	items: EnvelopeItem[];
 }
 
+// Per-event result of ProjectState ingestion
+export type IngestResult =
+	| {
+			status: 'accepted';
+			eventId: string;
+			issueId: string;
+			isNewIssue: boolean;
+			title?: string;
+			level: string;
+			culprit: string | null;
+			// The event ID was already stored; nothing was counted again
+			duplicate?: boolean;
+	  }
+	| { status: 'filtered'; eventId: string }
+	| { status: 'sampled'; eventId: string; sampleRate: number }
+	| { status: 'rate_limited'; eventId: string; rateLimit: RateLimit; spike?: Spike };
+
+// Per-transaction result of ProjectState ingestion
+export type TransactionIngestResult =
+	| {
+			status: 'accepted';
+			eventId: string;
+			// The event ID was already stored; nothing was counted again
+			duplicate?: boolean;
+	  }
+	| { status: 'invalid'; eventId: string; message: string }
+	| { status: 'rate_limited'; eventId: string; rateLimit: RateLimit; spike?: Spike };
+
 // API types
 export interface ApiError {
 	error: string;
@@ -254,6 +794,22 @@ export interface InboundFilter {
 	createdAt: string;
 }
 
+// Dynamic sampling types
+export type SamplingConditionType = 'environment' | 'release' | 'level' | 'transaction' | 'tag';
+
+export interface SamplingRule {
+	id: string;
+	conditionType: SamplingConditionType;
+	tagKey: string | null; // only for tag conditions
+	value: string;
+	sampleRate: number; // 0 to 1
+	enabled: boolean;
+	description: string | null;
+	keptCount: number;
+	droppedCount: number;
+	createdAt: string;
+}
+
 export interface MergeIssuesRequest {
 	primaryIssueId: string;
 	issueIds: string[];
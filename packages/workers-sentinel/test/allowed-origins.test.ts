@@ -0,0 +1,178 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { isOriginAllowed, normalizeAllowedDomain } from '../src/lib/origins';
+import {
+	authFetch,
+	createTestEnvelope,
+	createTestProject,
+	createTestUser,
+	postEnvelope,
+} from './utils';
+
+async function sendFromOrigin(
+	project: { id: string; publicKey: string },
+	headers: Record<string, string> = {},
+): Promise<Response> {
+	return postEnvelope(
+		project.id,
+		project.publicKey,
+		createTestEnvelope(project.id, project.publicKey),
+		headers,
+	);
+}
+
+describe('Allowed Origins', () => {
+	describe('isOriginAllowed', () => {
+		it('should allow requests without an origin', () => {
+			expect(isOriginAllowed(null, ['example.com'])).toBe(true);
+		});
+
+		it('should allow any origin with *', () => {
+			expect(isOriginAllowed('https://anything.dev', ['*'])).toBe(true);
+		});
+
+		it('should match exact hosts on any port unless a port is given', () => {
+			expect(isOriginAllowed('https://example.com', ['example.com'])).toBe(true);
+			expect(isOriginAllowed('http://example.com:8080', ['example.com'])).toBe(true);
+			expect(isOriginAllowed('https://www.example.com', ['example.com'])).toBe(false);
+			expect(isOriginAllowed('http://localhost:3000', ['localhost:3000'])).toBe(true);
+			expect(isOriginAllowed('http://localhost:5173', ['localhost:3000'])).toBe(false);
+		});
+
+		it('should match wildcard subdomains and the base domain', () => {
+			expect(isOriginAllowed('https://app.example.com', ['*.example.com'])).toBe(true);
+			expect(isOriginAllowed('https://example.com', ['*.example.com'])).toBe(true);
+			expect(isOriginAllowed('https://notexample.com', ['*.example.com'])).toBe(false);
+		});
+
+		it('should enforce the scheme when one is given', () => {
+			expect(isOriginAllowed('https://example.com', ['https://example.com'])).toBe(true);
+			expect(isOriginAllowed('http://example.com', ['https://example.com'])).toBe(false);
+		});
+
+		it('should match a Referer URL by its origin', () => {
+			expect(isOriginAllowed('https://example.com/checkout?step=2', ['example.com'])).toBe(true);
+		});
+
+		it('should reject opaque origins', () => {
+			expect(isOriginAllowed('null', ['example.com'])).toBe(false);
+		});
+
+		it('should normalize and validate entries', () => {
+			expect(normalizeAllowedDomain(' Example.COM/ ')).toBe('example.com');
+			expect(normalizeAllowedDomain('*.example.com:443')).toBe('*.example.com:443');
+			expect(normalizeAllowedDomain('example.com/path')).toBeNull();
+			expect(normalizeAllowedDomain('ftp://example.com')).toBeNull();
+		});
+	});
+
+	describe('Ingestion', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `origins-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Origins Test User',
+			});
+			project = await createTestProject(testUser.token!, {
+				name: `Origins Project ${Date.now()}`,
+			});
+		});
+
+		it('should accept any origin by default', async () => {
+			const response = await sendFromOrigin(project, { Origin: 'https://anywhere.dev' });
+			expect(response.status).toBe(200);
+		});
+
+		it('should answer CORS preflight for browser SDKs', async () => {
+			const response = await SELF.fetch(`http://localhost/api/${project.id}/envelope/`, {
+				method: 'OPTIONS',
+				headers: {
+					Origin: 'https://app.example.com',
+					'Access-Control-Request-Method': 'POST',
+					'Access-Control-Request-Headers': 'content-type,x-sentry-auth',
+				},
+			});
+
+			expect(response.status).toBe(204);
+			expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+			expect(response.headers.get('Access-Control-Allow-Headers')?.toLowerCase()).toContain(
+				'x-sentry-auth',
+			);
+			expect(response.headers.get('Access-Control-Allow-Methods')).toContain('POST');
+		});
+
+		it('should store allowed domains on the project', async () => {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}`,
+				{
+					method: 'PATCH',
+					body: JSON.stringify({ allowedDomains: ['*.example.com', 'localhost:3000'] }),
+				},
+			);
+			expect(response.status).toBe(200);
+
+			const projectResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}`,
+			);
+			const data = (await projectResponse.json()) as { project: { allowedDomains: string[] } };
+			expect(data.project.allowedDomains).toEqual(['*.example.com', 'localhost:3000']);
+		});
+
+		it('should reject invalid domains', async () => {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}`,
+				{
+					method: 'PATCH',
+					body: JSON.stringify({ allowedDomains: ['not a domain'] }),
+				},
+			);
+			expect(response.status).toBe(400);
+		});
+
+		it('should accept events from an allowed origin', async () => {
+			const response = await sendFromOrigin(project, { Origin: 'https://app.example.com' });
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+		});
+
+		it('should check the Referer when there is no Origin', async () => {
+			const allowed = await sendFromOrigin(project, { Referer: 'http://localhost:3000/page' });
+			expect(allowed.status).toBe(200);
+
+			const denied = await sendFromOrigin(project, { Referer: 'https://evil.test/page' });
+			expect(denied.status).toBe(403);
+		});
+
+		it('should reject events from other origins', async () => {
+			const response = await sendFromOrigin(project, { Origin: 'https://evil.test' });
+			expect(response.status).toBe(403);
+			const data = (await response.json()) as { error: string };
+			expect(data.error).toBe('origin_not_allowed');
+		});
+
+		it('should accept server-side events without an origin', async () => {
+			const response = await sendFromOrigin(project);
+			expect(response.status).toBe(200);
+		});
+
+		it('should return allowed domains from the security endpoint', async () => {
+			const response = await SELF.fetch(
+				`http://localhost/api/${project.id}/security?sentry_key=${project.publicKey}`,
+			);
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as { allowedDomains: string[] };
+			expect(data.allowedDomains).toEqual(['*.example.com', 'localhost:3000']);
+		});
+
+		it('should require a DSN key for the security endpoint', async () => {
+			const response = await SELF.fetch(`http://localhost/api/${project.id}/security`);
+			expect(response.status).toBe(401);
+		});
+	});
+});
@@ -0,0 +1,179 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { authFetch, createTestProject, createTestUser, postEnvelope } from './utils';
+
+function buildEnvelope(
+	projectId: string,
+	publicKey: string,
+	eventId: string,
+	attachment: { filename: string; contentType: string; content: Uint8Array },
+	includeEvent = true,
+): Uint8Array {
+	const encoder = new TextEncoder();
+	const lines: string[] = [
+		JSON.stringify({ event_id: eventId, dsn: `https://${publicKey}@localhost/${projectId}` }),
+	];
+	if (includeEvent) {
+		lines.push(
+			JSON.stringify({ type: 'event' }),
+			JSON.stringify({
+				event_id: eventId,
+				timestamp: new Date().toISOString(),
+				platform: 'native',
+				exception: { values: [{ type: 'Crash', value: 'segfault' }] },
+			}),
+		);
+	}
+	lines.push(
+		JSON.stringify({
+			type: 'attachment',
+			length: attachment.content.length,
+			filename: attachment.filename,
+			content_type: attachment.contentType,
+			attachment_type: 'event.minidump',
+		}),
+	);
+
+	const head = encoder.encode(`${lines.join('\n')}\n`);
+	const body = new Uint8Array(head.length + attachment.content.length + 1);
+	body.set(head, 0);
+	body.set(attachment.content, head.length);
+	body[body.length - 1] = 0x0a;
+	return body;
+}
+
+describe('Event Attachments', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+	let testProject: Awaited<ReturnType<typeof createTestProject>>;
+	const binary = new Uint8Array([0x4d, 0x44, 0x4d, 0x50, 0x0a, 0x00, 0xff, 0x0a, 0x7b, 0x0a]);
+	const eventId = crypto.randomUUID().replace(/-/g, '');
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `attachments-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Attachments Test User',
+		});
+		testProject = await createTestProject(testUser.token!, {
+			name: `Attachments Test Project ${Date.now()}`,
+		});
+
+		const response = await postEnvelope(
+			testProject.id,
+			testProject.publicKey,
+			buildEnvelope(testProject.id, testProject.publicKey, eventId, {
+				filename: 'crash.dmp',
+				contentType: 'application/x-dmp',
+				content: binary,
+			}),
+		);
+		expect(response.status).toBe(200);
+	});
+
+	it('should list attachments stored for an event', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/events/${eventId}/attachments`,
+		);
+
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as {
+			attachments: Array<{
+				id: string;
+				filename: string;
+				contentType: string;
+				attachmentType: string;
+				size: number;
+			}>;
+		};
+		expect(data.attachments.length).toBe(1);
+		expect(data.attachments[0].filename).toBe('crash.dmp');
+		expect(data.attachments[0].contentType).toBe('application/x-dmp');
+		expect(data.attachments[0].attachmentType).toBe('event.minidump');
+		expect(data.attachments[0].size).toBe(binary.length);
+	});
+
+	it('should not store or count a retried attachment again', async () => {
+		const response = await postEnvelope(
+			testProject.id,
+			testProject.publicKey,
+			buildEnvelope(testProject.id, testProject.publicKey, eventId, {
+				filename: 'crash.dmp',
+				contentType: 'application/x-dmp',
+				content: binary,
+			}),
+		);
+		expect(response.status).toBe(200);
+
+		const listResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/events/${eventId}/attachments`,
+		);
+		const { attachments } = (await listResponse.json()) as { attachments: unknown[] };
+		expect(attachments).toHaveLength(1);
+
+		const outcomesResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/stats/outcomes?category=attachment`,
+		);
+		const outcomes = (await outcomesResponse.json()) as { totals: Record<string, number> };
+		expect(outcomes.totals.accepted).toBe(1);
+	});
+
+	it('should download attachment bytes unchanged', async () => {
+		const listResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/events/${eventId}/attachments`,
+		);
+		const { attachments } = (await listResponse.json()) as { attachments: Array<{ id: string }> };
+
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/events/${eventId}/attachments/${attachments[0].id}`,
+		);
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Content-Type')).toBe('application/x-dmp');
+		expect(response.headers.get('Content-Disposition')).toContain('crash.dmp');
+		const bytes = new Uint8Array(await response.arrayBuffer());
+		expect(Array.from(bytes)).toEqual(Array.from(binary));
+	});
+
+	it('should return 404 for an unknown attachment', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/events/${eventId}/attachments/does-not-exist`,
+		);
+		expect(response.status).toBe(404);
+	});
+
+	it('should drop attachments for events that were never stored', async () => {
+		const orphanEventId = crypto.randomUUID().replace(/-/g, '');
+		const response = await postEnvelope(
+			testProject.id,
+			testProject.publicKey,
+			buildEnvelope(
+				testProject.id,
+				testProject.publicKey,
+				orphanEventId,
+				{ filename: 'orphan.txt', contentType: 'text/plain', content: binary },
+				false,
+			),
+		);
+		expect(response.status).toBe(200);
+
+		const listResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/events/${orphanEventId}/attachments`,
+		);
+		const data = (await listResponse.json()) as { attachments: unknown[] };
+		expect(data.attachments).toEqual([]);
+	});
+
+	it('should require authentication', async () => {
+		const response = await SELF.fetch(
+			`http://localhost/api/projects/${testProject.slug}/events/${eventId}/attachments`,
+		);
+		expect(response.status).toBe(401);
+	});
+});
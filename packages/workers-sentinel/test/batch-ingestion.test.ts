@@ -0,0 +1,224 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { authFetch, createTestProject, createTestUser, newEventId, postEnvelope } from './utils';
+
+function createBatchEnvelope(
+	projectId: string,
+	publicKey: string,
+	events: Array<{ event_id: string; message: string; user?: { id: string } }>,
+): string {
+	const lines = [JSON.stringify({ dsn: `https://${publicKey}@localhost/${projectId}` })];
+	for (const event of events) {
+		lines.push(
+			JSON.stringify({ type: 'event' }),
+			JSON.stringify({
+				...event,
+				timestamp: new Date().toISOString(),
+				platform: 'javascript',
+				level: 'error',
+			}),
+		);
+	}
+	return lines.join('\n');
+}
+
+describe('Batch Ingestion', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `batch-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Batch Test User',
+		});
+	});
+
+	it('should ingest every event in a multi-event envelope', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Batch Multi Project' });
+		const ids = [newEventId(), newEventId(), newEventId()];
+
+		const response = await postEnvelope(
+			project.id,
+			project.publicKey,
+			createBatchEnvelope(project.id, project.publicKey, [
+				{ event_id: ids[0], message: 'Batch grouped error', user: { id: 'u1' } },
+				{ event_id: ids[1], message: 'Batch grouped error', user: { id: 'u2' } },
+				{ event_id: ids[2], message: 'Batch distinct error' },
+			]),
+		);
+
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as { id: string };
+		expect(data.id).toBe(ids[0]);
+
+		const issuesResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/issues?sort=date`,
+		);
+		const { issues } = (await issuesResponse.json()) as {
+			issues: Array<{ title: string; count: number; userCount: number }>;
+		};
+
+		expect(issues.length).toBe(2);
+		const grouped = issues.find((i) => i.title === 'Batch grouped error')!;
+		expect(grouped.count).toBe(2);
+		expect(grouped.userCount).toBe(2);
+
+		for (const eventId of ids) {
+			const eventResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/events/${eventId}`,
+			);
+			expect(eventResponse.status).toBe(200);
+		}
+	});
+
+	it('should apply inbound filters per event within a batch', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Batch Filter Project' });
+		await authFetch(testUser.token!, `http://localhost/api/projects/${project.slug}/filters`, {
+			method: 'POST',
+			body: JSON.stringify({ filterType: 'message', pattern: 'drop me' }),
+		});
+
+		const response = await postEnvelope(
+			project.id,
+			project.publicKey,
+			createBatchEnvelope(project.id, project.publicKey, [
+				{ event_id: newEventId(), message: 'please drop me' },
+				{ event_id: newEventId(), message: 'keep me' },
+			]),
+		);
+		expect(response.status).toBe(200);
+
+		const issuesResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/issues`,
+		);
+		const { issues } = (await issuesResponse.json()) as { issues: Array<{ title: string }> };
+		expect(issues.map((i) => i.title)).toEqual(['keep me']);
+	});
+
+	it('should stop at the quota and return 429 for a batch that exceeds it', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Batch Quota Project' });
+		await authFetch(testUser.token!, `http://localhost/api/projects/${project.slug}`, {
+			method: 'PATCH',
+			body: JSON.stringify({ maxEventsPerHour: 2 }),
+		});
+
+		const response = await postEnvelope(
+			project.id,
+			project.publicKey,
+			createBatchEnvelope(project.id, project.publicKey, [
+				{ event_id: newEventId(), message: 'quota one' },
+				{ event_id: newEventId(), message: 'quota two' },
+				{ event_id: newEventId(), message: 'quota three' },
+			]),
+		);
+
+		expect(response.status).toBe(429);
+		expect(response.headers.get('Retry-After')).toBeDefined();
+
+		const statusResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/rate-limit`,
+		);
+		const status = (await statusResponse.json()) as { currentHourCount: number };
+		expect(status.currentHourCount).toBe(2);
+	});
+
+	it('should treat a retried event ID as already stored', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Batch Retry Project' });
+		const eventId = newEventId();
+		const envelope = createBatchEnvelope(project.id, project.publicKey, [
+			{ event_id: eventId, message: 'Retried error', user: { id: 'u1' } },
+		]);
+
+		const first = await postEnvelope(project.id, project.publicKey, envelope);
+		const retry = await postEnvelope(project.id, project.publicKey, envelope);
+		expect(first.status).toBe(200);
+		expect(retry.status).toBe(200);
+		expect(((await retry.json()) as { id: string }).id).toBe(eventId);
+
+		const issuesResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/issues`,
+		);
+		const { issues } = (await issuesResponse.json()) as {
+			issues: Array<{ title: string; count: number; userCount: number }>;
+		};
+		expect(issues).toHaveLength(1);
+		expect(issues[0].count).toBe(1);
+		expect(issues[0].userCount).toBe(1);
+
+		const statusResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/rate-limit`,
+		);
+		const status = (await statusResponse.json()) as { currentHourCount: number };
+		expect(status.currentHourCount).toBe(1);
+	});
+
+	it('should store a duplicated event ID once within a batch', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Batch Duplicate Project' });
+		const eventId = newEventId();
+
+		const response = await postEnvelope(
+			project.id,
+			project.publicKey,
+			createBatchEnvelope(project.id, project.publicKey, [
+				{ event_id: eventId, message: 'Duplicated error' },
+				{ event_id: eventId, message: 'Duplicated error' },
+				{ event_id: newEventId(), message: 'Duplicated error' },
+			]),
+		);
+		expect(response.status).toBe(200);
+
+		const issuesResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/issues`,
+		);
+		const { issues } = (await issuesResponse.json()) as { issues: Array<{ count: number }> };
+		expect(issues[0].count).toBe(2);
+	});
+
+	it('should ingest every transaction in a multi-transaction envelope', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Batch Transaction Project' });
+		const now = Date.now() / 1000;
+		const retriedId = newEventId();
+		const transaction = (eventId: string, name: string) => [
+			JSON.stringify({ type: 'transaction' }),
+			JSON.stringify({
+				event_id: eventId,
+				type: 'transaction',
+				transaction: name,
+				start_timestamp: now - 0.5,
+				timestamp: now,
+				contexts: { trace: { trace_id: newEventId(), span_id: newEventId().slice(0, 16) } },
+			}),
+		];
+
+		const response = await postEnvelope(
+			project.id,
+			project.publicKey,
+			[
+				JSON.stringify({}),
+				...transaction(retriedId, 'GET /batch'),
+				...transaction(retriedId, 'GET /batch'),
+				...transaction(newEventId(), 'GET /batch'),
+				...transaction(newEventId(), 'POST /batch'),
+			].join('\n'),
+		);
+		expect(response.status).toBe(200);
+
+		const performanceResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/performance`,
+		);
+		const { transactions } = (await performanceResponse.json()) as {
+			transactions: Array<{ name: string; count: number }>;
+		};
+		expect(Object.fromEntries(transactions.map((t) => [t.name, t.count]))).toEqual({
+			'GET /batch': 2,
+			'POST /batch': 1,
+		});
+	});
+});
@@ -0,0 +1,152 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+	extractCulprit,
+	extractMetadata,
+	extractTitle,
+	generateFingerprint,
+} from '../src/lib/fingerprint';
+import type { ExceptionValue, Issue, SentryEvent } from '../src/types';
+import { authFetch, createTestProject, createTestUser, postEnvelope } from './utils';
+
+function exception(type: string, value: string, fn?: string, lineno = 10): ExceptionValue {
+	return {
+		type,
+		value,
+		stacktrace: fn
+			? { frames: [{ filename: `${fn}.js`, function: fn, lineno, in_app: true }] }
+			: undefined,
+	};
+}
+
+// Values are ordered innermost cause first, as SDKs send them
+function chainedEvent(values: ExceptionValue[]): SentryEvent {
+	return {
+		event_id: crypto.randomUUID().replace(/-/g, ''),
+		timestamp: new Date().toISOString(),
+		platform: 'javascript',
+		level: 'error',
+		exception: { values },
+	};
+}
+
+describe('Chained Exceptions', () => {
+	describe('title and culprit', () => {
+		it('should come from the outermost exception', () => {
+			const event = chainedEvent([
+				exception('DatabaseError', 'connection refused', 'connect'),
+				exception('CheckoutError', 'could not save order', 'saveOrder', 42),
+			]);
+
+			expect(extractTitle(event)).toBe('CheckoutError: could not save order');
+			expect(extractCulprit(event)).toBe('saveOrder.js in saveOrder at line 42');
+			expect(extractMetadata(event)).toMatchObject({
+				type: 'CheckoutError',
+				function: 'saveOrder',
+			});
+		});
+
+		it('should fall back to the nearest cause with a stack trace', () => {
+			const event = chainedEvent([
+				exception('DatabaseError', 'connection refused', 'connect'),
+				exception('QueryError', 'query failed'),
+				exception('CheckoutError', 'could not save order'),
+			]);
+
+			expect(extractTitle(event)).toBe('CheckoutError: could not save order');
+			expect(extractCulprit(event)).toBe('connect.js in connect at line 10');
+		});
+
+		it('should use the mechanism root of an exception group', () => {
+			const event = chainedEvent([
+				{
+					...exception('AggregateError', '2 requests failed', 'fetchAll'),
+					mechanism: { type: 'generic', exception_id: 0, is_exception_group: true },
+				},
+				{
+					...exception('NetworkError', 'timeout', 'fetchUser'),
+					mechanism: { type: 'chained', source: 'errors[0]', exception_id: 1, parent_id: 0 },
+				},
+				{
+					...exception('NetworkError', 'offline', 'fetchCart'),
+					mechanism: { type: 'chained', source: 'errors[1]', exception_id: 2, parent_id: 0 },
+				},
+			]);
+
+			expect(extractTitle(event)).toBe('AggregateError: 2 requests failed');
+			expect(extractCulprit(event)).toBe('fetchAll.js in fetchAll at line 10');
+		});
+	});
+
+	describe('grouping', () => {
+		it('should keep the fingerprint of a single exception', () => {
+			const single = chainedEvent([exception('TypeError', 'x is undefined', 'render')]);
+			const chained = chainedEvent([
+				exception('RangeError', 'bad index', 'lookup'),
+				exception('TypeError', 'x is undefined', 'render'),
+			]);
+
+			expect(generateFingerprint(single)).toBe(
+				generateFingerprint(chainedEvent([exception('TypeError', 'x is undefined', 'render')])),
+			);
+			expect(generateFingerprint(single)).not.toBe(generateFingerprint(chained));
+		});
+
+		it('should tell apart exceptions with different causes', () => {
+			const outer = exception('CheckoutError', 'could not save order', 'saveOrder');
+			const database = chainedEvent([exception('DatabaseError', 'deadlock', 'query'), outer]);
+			const payment = chainedEvent([exception('PaymentError', 'card declined', 'charge'), outer]);
+
+			expect(generateFingerprint(database)).not.toBe(generateFingerprint(payment));
+			expect(generateFingerprint(database)).toBe(
+				generateFingerprint(chainedEvent([exception('DatabaseError', 'deadlock', 'query'), outer])),
+			);
+		});
+	});
+
+	describe('API', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `chained-exceptions-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Chained Exceptions Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: 'Chained Exceptions Project' });
+		});
+
+		async function sendChainedEvent(values: ExceptionValue[]) {
+			const event = chainedEvent(values);
+			const response = await postEnvelope(
+				project.id,
+				project.publicKey,
+				[
+					JSON.stringify({ event_id: event.event_id }),
+					JSON.stringify({ type: 'event' }),
+					JSON.stringify(event),
+				].join('\n'),
+			);
+			expect(response.status).toBe(200);
+		}
+
+		it('should group by the whole chain and title by the outermost exception', async () => {
+			const outer = exception('CheckoutError', 'could not save order', 'saveOrder');
+			await sendChainedEvent([exception('DatabaseError', 'deadlock', 'query'), outer]);
+			await sendChainedEvent([exception('DatabaseError', 'deadlock', 'query'), outer]);
+			await sendChainedEvent([exception('PaymentError', 'card declined', 'charge'), outer]);
+
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues`,
+			);
+			const { issues } = (await response.json()) as { issues: Issue[] };
+			expect(issues).toHaveLength(2);
+			expect(issues.map((issue) => issue.count).sort()).toEqual([1, 2]);
+			for (const issue of issues) {
+				expect(issue.title).toBe('CheckoutError: could not save order');
+				expect(issue.culprit).toBe('saveOrder.js in saveOrder at line 10');
+			}
+		});
+	});
+});
@@ -0,0 +1,177 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { ClientKey } from '../src/types';
+import {
+	authFetch,
+	createTestEnvelope,
+	createTestProject,
+	createTestUser,
+	postEnvelope,
+	sendEnvelopeItems,
+	sendTestEvent,
+} from './utils';
+
+type KeyWithDsn = ClientKey & { dsn: string };
+
+describe('Client Keys', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `client-keys-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Client Keys Test User',
+		});
+	});
+
+	function keysUrl(slug: string, keyId = ''): string {
+		return `http://localhost/api/projects/${slug}/keys${keyId ? `/${keyId}` : ''}`;
+	}
+
+	async function listKeys(slug: string): Promise<KeyWithDsn[]> {
+		const response = await authFetch(testUser.token!, keysUrl(slug));
+		const data = (await response.json()) as { keys: KeyWithDsn[] };
+		return data.keys;
+	}
+
+	async function createKey(slug: string, body: Record<string, unknown>) {
+		return authFetch(testUser.token!, keysUrl(slug), {
+			method: 'POST',
+			body: JSON.stringify(body),
+		});
+	}
+
+	async function ingest(projectId: string, publicKey: string, message: string) {
+		return postEnvelope(
+			projectId,
+			publicKey,
+			createTestEnvelope(projectId, publicKey, { message }),
+		);
+	}
+
+	it('should list the project key as the default key', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Default Key Project' });
+
+		const keys = await listKeys(project.slug);
+		expect(keys).toHaveLength(1);
+		expect(keys[0]).toMatchObject({
+			name: 'Default',
+			publicKey: project.publicKey,
+			enabled: true,
+			rateLimit: null,
+			lastUsedAt: null,
+			dsn: `https://${project.publicKey}@localhost/${project.id}`,
+		});
+
+		await sendTestEvent(project.id, project.publicKey, { message: 'Default key event' });
+		const [used] = await listKeys(project.slug);
+		expect(used.lastUsedAt).not.toBeNull();
+	});
+
+	it('should accept events for every enabled key and reject disabled ones', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Multiple Keys Project' });
+
+		const created = await createKey(project.slug, { name: 'Browser' });
+		expect(created.status).toBe(201);
+		const { key } = (await created.json()) as { key: KeyWithDsn };
+		expect(key.publicKey).not.toBe(project.publicKey);
+
+		expect((await ingest(project.id, key.publicKey, 'Browser event')).status).toBe(200);
+		expect((await ingest(project.id, project.publicKey, 'Server event')).status).toBe(200);
+
+		const disabled = await authFetch(testUser.token!, keysUrl(project.slug, key.id), {
+			method: 'PATCH',
+			body: JSON.stringify({ enabled: false }),
+		});
+		expect(disabled.status).toBe(200);
+		expect((await ingest(project.id, key.publicKey, 'Browser event')).status).toBe(401);
+		expect((await ingest(project.id, project.publicKey, 'Server event')).status).toBe(200);
+	});
+
+	it('should promote another key when the primary key is revoked', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Rotate Keys Project' });
+		const [original] = await listKeys(project.slug);
+
+		// The last enabled key cannot be revoked
+		const lastKey = await authFetch(testUser.token!, keysUrl(project.slug, original.id), {
+			method: 'DELETE',
+		});
+		expect(lastKey.status).toBe(400);
+
+		const created = await createKey(project.slug, { name: 'Rotated' });
+		const { key: rotated } = (await created.json()) as { key: KeyWithDsn };
+
+		const revoked = await authFetch(testUser.token!, keysUrl(project.slug, original.id), {
+			method: 'DELETE',
+		});
+		expect(revoked.status).toBe(200);
+		expect((await ingest(project.id, original.publicKey, 'Leaked key event')).status).toBe(401);
+		expect((await ingest(project.id, rotated.publicKey, 'Rotated key event')).status).toBe(200);
+
+		const projectResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}`,
+		);
+		const data = (await projectResponse.json()) as { project: { publicKey: string }; dsn: string };
+		expect(data.project.publicKey).toBe(rotated.publicKey);
+		expect(data.dsn).toBe(rotated.dsn);
+	});
+
+	it('should enforce a per-key hourly rate limit', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Key Limit Project' });
+
+		const created = await createKey(project.slug, { name: 'Limited', rateLimit: 2 });
+		const { key } = (await created.json()) as { key: KeyWithDsn };
+		expect(key.rateLimit).toBe(2);
+
+		expect((await ingest(project.id, key.publicKey, 'Limited event')).status).toBe(200);
+		expect((await ingest(project.id, key.publicKey, 'Limited event')).status).toBe(200);
+
+		const limited = await ingest(project.id, key.publicKey, 'Limited event');
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get('X-Sentry-Rate-Limits')).toContain('key_quota');
+
+		// Other keys of the project are not affected
+		expect((await ingest(project.id, project.publicKey, 'Unlimited event')).status).toBe(200);
+	});
+
+	it('should reject other item types once a key is over its limit', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Key Limit Items Project' });
+
+		const created = await createKey(project.slug, { name: 'Limited', rateLimit: 1 });
+		const { key } = (await created.json()) as { key: KeyWithDsn };
+		expect((await ingest(project.id, key.publicKey, 'Limited event')).status).toBe(200);
+
+		const limited = await sendEnvelopeItems(project.id, key.publicKey, [
+			{
+				type: 'log',
+				headers: { item_count: 1 },
+				payload: {
+					items: [{ timestamp: Date.now() / 1000, level: 'info', body: 'Over the limit' }],
+				},
+			},
+		]);
+		expect(limited.status).toBe(429);
+		expect(limited.headers.get('X-Sentry-Rate-Limits')).toContain('key_quota');
+
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/logs`,
+		);
+		const { logs } = (await response.json()) as { logs: unknown[] };
+		expect(logs).toHaveLength(0);
+	});
+
+	it('should validate key input', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Key Validation Project' });
+
+		expect((await createKey(project.slug, { name: '' })).status).toBe(400);
+		expect((await createKey(project.slug, { name: 'Bad limit', rateLimit: -5 })).status).toBe(400);
+		expect((await createKey(project.slug, { name: 'Bad limit', rateLimit: 1.5 })).status).toBe(400);
+
+		const missing = await authFetch(testUser.token!, keysUrl(project.slug, 'nonexistent'), {
+			method: 'PATCH',
+			body: JSON.stringify({ enabled: false }),
+		});
+		expect(missing.status).toBe(404);
+	});
+});
@@ -3,4 +3,4 @@ import { workersSentinel } from '../src/index';
 export { AuthState } from '../src/durable-objects/auth-state';
 export { ProjectState } from '../src/durable-objects/project-state';
 
-export default workersSentinel();
+export default workersSentinel({ queue: true });
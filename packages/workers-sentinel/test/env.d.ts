@@ -1,5 +1,7 @@
-import type { Env } from '../src/types';
+import type { Env, IngestMessage } from '../src/types';
 
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	interface ProvidedEnv extends Env {
+		TEST_INGEST_QUEUE: Queue<IngestMessage>;
+	}
 }
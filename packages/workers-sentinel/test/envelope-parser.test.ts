@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import {
+	extractAttachments,
+	extractClientReports,
+	extractEvents,
+	extractSessionAggregates,
+	extractSessions,
+	extractTransactions,
+	parseEnvelope,
+} from '../src/lib/envelope-parser';
+
+function concatBytes(...parts: Array<string | Uint8Array>): Uint8Array {
+	const encoder = new TextEncoder();
+	const chunks = parts.map((p) => (typeof p === 'string' ? encoder.encode(p) : p));
+	const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		out.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return out;
+}
+
+describe('Envelope Parser', () => {
+	describe('parseEnvelope', () => {
+		it('should parse items without length headers', () => {
+			const envelope = parseEnvelope('{"event_id":"abc"}\n{"type":"event"}\n{"message":"hello"}\n');
+
+			expect(envelope.header.event_id).toBe('abc');
+			expect(envelope.items.length).toBe(1);
+			expect(envelope.items[0].type).toBe('event');
+			expect(envelope.items[0].payload).toEqual({ message: 'hello' });
+		});
+
+		it('should honor length for payloads containing newlines', () => {
+			const payload = '{"message":"line one\\nline two"}\n{"extra":1}';
+			const body = concatBytes(
+				'{"event_id":"abc"}\n',
+				`{"type":"attachment","length":${payload.length},"filename":"log.txt"}\n`,
+				payload,
+				'\n{"type":"event"}\n{"message":"after"}\n',
+			);
+
+			const envelope = parseEnvelope(body);
+
+			expect(envelope.items.length).toBe(2);
+			expect(envelope.items[0].type).toBe('attachment');
+			expect(new TextDecoder().decode(envelope.items[0].payload as Uint8Array)).toBe(payload);
+			expect(envelope.items[1].payload).toEqual({ message: 'after' });
+		});
+
+		it('should count length in bytes rather than characters', () => {
+			const payload = '{"message":"héllo ✓"}';
+			const byteLength = new TextEncoder().encode(payload).length;
+			const body = concatBytes('{}\n', `{"type":"event","length":${byteLength}}\n`, payload, '\n');
+
+			const envelope = parseEnvelope(body);
+
+			expect(envelope.items.length).toBe(1);
+			expect(envelope.items[0].payload).toEqual({ message: 'héllo ✓' });
+		});
+
+		it('should preserve binary attachment bytes exactly', () => {
+			const binary = new Uint8Array([0x00, 0x0a, 0xff, 0x0a, 0x0a, 0x7b, 0x80]);
+			const body = concatBytes(
+				'{"event_id":"abc"}\n',
+				`{"type":"attachment","length":${binary.length},"content_type":"application/x-dmp"}\n`,
+				binary,
+			);
+
+			const envelope = parseEnvelope(body.buffer as ArrayBuffer);
+
+			expect(envelope.items.length).toBe(1);
+			expect(Array.from(envelope.items[0].payload as Uint8Array)).toEqual(Array.from(binary));
+			expect(envelope.items[0].headers.content_type).toBe('application/x-dmp');
+		});
+
+		it('should accept a fixed-length payload without a trailing newline', () => {
+			const body =
+				'{}\n{"type":"event","length":15}\n{"message":"a"}{"type":"event"}\n{"message":"b"}';
+
+			const envelope = parseEnvelope(body);
+
+			expect(envelope.items.map((i) => i.payload)).toEqual([{ message: 'a' }, { message: 'b' }]);
+		});
+
+		it('should reject items whose length exceeds the body', () => {
+			expect(() => parseEnvelope('{}\n{"type":"event","length":500}\n{"message":"a"}')).toThrow(
+				'item length exceeds body size',
+			);
+		});
+
+		it('should reject an empty body', () => {
+			expect(() => parseEnvelope(new Uint8Array(0))).toThrow('empty body');
+		});
+	});
+
+	describe('extractAttachments', () => {
+		it('should link attachments to the envelope event_id', () => {
+			const content = 'stack dump';
+			const envelope = parseEnvelope(
+				`{"event_id":"evt1"}\n{"type":"event"}\n{"event_id":"evt1"}\n{"type":"attachment","length":${content.length},"filename":"dump.txt","content_type":"text/plain"}\n${content}\n`,
+			);
+
+			const attachments = extractAttachments(envelope);
+
+			expect(attachments.length).toBe(1);
+			expect(attachments[0].eventId).toBe('evt1');
+			expect(attachments[0].filename).toBe('dump.txt');
+			expect(attachments[0].contentType).toBe('text/plain');
+			expect(attachments[0].attachmentType).toBe('event.attachment');
+			expect(new TextDecoder().decode(attachments[0].content)).toBe(content);
+			expect(extractEvents(envelope).length).toBe(1);
+		});
+
+		it('should skip attachments when the envelope has no event_id', () => {
+			const envelope = parseEnvelope('{}\n{"type":"attachment","length":3}\nabc\n');
+			expect(extractAttachments(envelope)).toEqual([]);
+		});
+	});
+
+	describe('extractTransactions', () => {
+		it('should separate transactions from error events', () => {
+			const envelope = parseEnvelope(
+				[
+					'{}',
+					'{"type":"event"}',
+					'{"event_id":"e1","message":"boom"}',
+					'{"type":"transaction"}',
+					'{"event_id":"t1","transaction":"GET /","start_timestamp":1,"timestamp":2}',
+					'{"type":"transaction"}',
+					'{"event_id":"t2","transaction":"GET /"}',
+				].join('\n'),
+			);
+
+			expect(extractEvents(envelope).map((e) => e.event_id)).toEqual(['e1']);
+			expect(extractTransactions(envelope).map((t) => t.event_id)).toEqual(['t1']);
+		});
+	});
+
+	describe('extractClientReports', () => {
+		it('should flatten discarded events into client_discard outcomes', () => {
+			const envelope = parseEnvelope(
+				'{}\n{"type":"client_report"}\n{"timestamp":1704067200,"discarded_events":[{"reason":"sample_rate","category":"transaction","quantity":3},{"reason":"network_error","category":"error","quantity":0}]}\n',
+			);
+
+			expect(extractClientReports(envelope)).toEqual([
+				{
+					outcome: 'client_discard',
+					category: 'transaction',
+					reason: 'sample_rate',
+					quantity: 3,
+					timestamp: '2024-01-01T00:00:00.000Z',
+				},
+			]);
+		});
+	});
+
+	describe('extractSessions', () => {
+		it('should extract session updates that carry a release', () => {
+			const envelope = parseEnvelope(
+				[
+					'{}',
+					'{"type":"session"}',
+					'{"sid":"s1","status":"ok","attrs":{"release":"app@1.0.0"}}',
+					'{"type":"session"}',
+					'{"sid":"s2","status":"ok","attrs":{}}',
+				].join('\n'),
+			);
+
+			const sessions = extractSessions(envelope);
+
+			expect(sessions.map((s) => s.sid)).toEqual(['s1']);
+		});
+
+		it('should extract session aggregates', () => {
+			const envelope = parseEnvelope(
+				'{}\n{"type":"sessions"}\n{"aggregates":[{"started":"2024-01-01T00:00:00Z","exited":3}],"attrs":{"release":"app@1.0.0"}}\n',
+			);
+
+			const aggregates = extractSessionAggregates(envelope);
+
+			expect(aggregates.length).toBe(1);
+			expect(aggregates[0].aggregates[0].exited).toBe(3);
+		});
+	});
+});
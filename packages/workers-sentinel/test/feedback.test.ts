@@ -0,0 +1,194 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { extractFeedback, parseEnvelope } from '../src/lib/envelope-parser';
+import type { UserFeedback } from '../src/types';
+import { authFetch, createTestProject, createTestUser, sendEnvelopeItems } from './utils';
+
+function errorEvent(eventId: string) {
+	return {
+		event_id: eventId,
+		timestamp: new Date().toISOString(),
+		platform: 'javascript',
+		level: 'error',
+		exception: {
+			values: [{ type: `FeedbackError${eventId.slice(0, 8)}`, value: 'Feedback test' }],
+		},
+	};
+}
+
+function feedbackItem(message: string, associatedEventId?: string) {
+	return {
+		type: 'feedback',
+		payload: {
+			event_id: crypto.randomUUID().replace(/-/g, ''),
+			timestamp: Date.now() / 1000,
+			platform: 'javascript',
+			contexts: {
+				feedback: {
+					message,
+					contact_email: 'jane@example.com',
+					name: 'Jane',
+					url: 'https://app.example.com/checkout',
+					associated_event_id: associatedEventId,
+				},
+			},
+		},
+	};
+}
+
+describe('User Feedback', () => {
+	describe('extractFeedback', () => {
+		it('should normalize feedback and user_report items', () => {
+			const envelope = parseEnvelope(
+				[
+					'{}',
+					JSON.stringify({ type: 'user_report' }),
+					JSON.stringify({
+						event_id: 'abc',
+						name: 'Bob',
+						email: 'bob@example.com',
+						comments: 'Broke',
+					}),
+					JSON.stringify({ type: 'feedback' }),
+					JSON.stringify(feedbackItem('Button does nothing', 'def').payload),
+					JSON.stringify({ type: 'user_report' }),
+					JSON.stringify({ event_id: 'ghi', comments: '  ' }),
+				].join('\n'),
+			);
+
+			const feedback = extractFeedback(envelope);
+			expect(feedback).toHaveLength(2);
+			expect(feedback[0]).toMatchObject({ eventId: 'abc', name: 'Bob', message: 'Broke' });
+			expect(feedback[1]).toMatchObject({
+				eventId: 'def',
+				email: 'jane@example.com',
+				message: 'Button does nothing',
+				url: 'https://app.example.com/checkout',
+			});
+		});
+	});
+
+	describe('Ingestion and inbox', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `feedback-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Feedback Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: `Feedback ${Date.now()}` });
+		});
+
+		async function listFeedback(query = ''): Promise<UserFeedback[]> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/feedback${query}`,
+			);
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as { feedback: UserFeedback[] };
+			return data.feedback;
+		}
+
+		async function getIssueId(eventId: string): Promise<string> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/events/${eventId}`,
+			);
+			const data = (await response.json()) as { issueId: string };
+			return data.issueId;
+		}
+
+		it('should link feedback to the issue of an existing event', async () => {
+			const eventId = crypto.randomUUID().replace(/-/g, '');
+			await sendEnvelopeItems(project.id, project.publicKey, [
+				{ type: 'event', payload: errorEvent(eventId) },
+			]);
+
+			const response = await sendEnvelopeItems(project.id, project.publicKey, [
+				feedbackItem('The checkout page crashed', eventId),
+			]);
+			expect(response.status).toBe(200);
+
+			const issueId = await getIssueId(eventId);
+			const feedback = await listFeedback(`?issueId=${issueId}`);
+			expect(feedback).toHaveLength(1);
+			expect(feedback[0].message).toBe('The checkout page crashed');
+			expect(feedback[0].status).toBe('new');
+			expect(feedback[0].issueTitle).toContain('FeedbackError');
+		});
+
+		it('should link a user report that arrives before its event', async () => {
+			const eventId = crypto.randomUUID().replace(/-/g, '');
+			await sendEnvelopeItems(project.id, project.publicKey, [
+				{
+					type: 'user_report',
+					payload: { event_id: eventId, name: 'Sam', email: 'sam@example.com', comments: 'Again?' },
+				},
+			]);
+			await sendEnvelopeItems(project.id, project.publicKey, [
+				{ type: 'event', payload: errorEvent(eventId) },
+			]);
+
+			const issueId = await getIssueId(eventId);
+			const feedback = await listFeedback(`?issueId=${issueId}`);
+			expect(feedback).toHaveLength(1);
+			expect(feedback[0].name).toBe('Sam');
+			expect(feedback[0].eventId).toBe(eventId);
+		});
+
+		it('should store feedback that is not tied to an event', async () => {
+			await sendEnvelopeItems(project.id, project.publicKey, [
+				feedbackItem('Love the new dashboard'),
+			]);
+
+			const feedback = await listFeedback();
+			const general = feedback.find((f) => f.message === 'Love the new dashboard');
+			expect(general?.issueId).toBeNull();
+		});
+
+		it('should ignore duplicate deliveries', async () => {
+			const item = feedbackItem('Sent twice');
+			await sendEnvelopeItems(project.id, project.publicKey, [item]);
+			await sendEnvelopeItems(project.id, project.publicKey, [item]);
+
+			const feedback = await listFeedback();
+			expect(feedback.filter((f) => f.message === 'Sent twice')).toHaveLength(1);
+		});
+
+		it('should triage feedback and filter by status', async () => {
+			const [latest] = await listFeedback();
+
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/feedback/${latest.id}`,
+				{ method: 'PATCH', body: JSON.stringify({ status: 'spam' }) },
+			);
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as { feedback: UserFeedback };
+			expect(data.feedback.status).toBe('spam');
+
+			const spam = await listFeedback('?status=spam');
+			expect(spam.map((f) => f.id)).toEqual([latest.id]);
+
+			const fresh = await listFeedback('?status=new');
+			expect(fresh.some((f) => f.id === latest.id)).toBe(false);
+		});
+
+		it('should reject unknown triage states', async () => {
+			const [latest] = await listFeedback();
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/feedback/${latest.id}`,
+				{ method: 'PATCH', body: JSON.stringify({ status: 'archived' }) },
+			);
+			expect(response.status).toBe(400);
+		});
+
+		it('should require authentication', async () => {
+			const response = await SELF.fetch(`http://localhost/api/projects/${project.slug}/feedback`);
+			expect(response.status).toBe(401);
+		});
+	});
+});
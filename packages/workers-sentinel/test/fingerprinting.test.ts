@@ -0,0 +1,194 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { generateFingerprint } from '../src/lib/fingerprint';
+import { parseFingerprintRules } from '../src/lib/fingerprint-rules';
+import type { Issue, RuleSyntaxError, SentryEvent } from '../src/types';
+import { authFetch, createTestProject, createTestUser, sendTestEvent } from './utils';
+
+function exceptionEvent(type: string, value: string, fn = 'query'): SentryEvent {
+	return {
+		event_id: crypto.randomUUID().replace(/-/g, ''),
+		timestamp: new Date().toISOString(),
+		platform: 'javascript',
+		level: 'error',
+		transaction: '/checkout',
+		exception: {
+			values: [
+				{
+					type,
+					value,
+					stacktrace: { frames: [{ filename: 'db.js', function: fn, lineno: 10, in_app: true }] },
+				},
+			],
+		},
+	};
+}
+
+describe('Fingerprinting Rules', () => {
+	describe('parseFingerprintRules', () => {
+		it('should parse matchers, aliases, comments and variables', () => {
+			const { rules, errors } = parseFingerprintRules(
+				[
+					'# Database timeouts',
+					'error.type:DatabaseError message:"*timeout*" -> database-timeout',
+					'',
+					'!type:Ignored function:connect* tags.region:eu-* -> conn, {{ transaction }}, {{type}}',
+				].join('\n'),
+			);
+
+			expect(errors).toEqual([]);
+			expect(rules).toEqual([
+				{
+					line: 2,
+					matchers: [
+						{ key: 'error.type', pattern: 'DatabaseError', negated: false },
+						{ key: 'message', pattern: '*timeout*', negated: false },
+					],
+					fingerprint: ['database-timeout'],
+				},
+				{
+					line: 4,
+					matchers: [
+						{ key: 'error.type', pattern: 'Ignored', negated: true },
+						{ key: 'stack.function', pattern: 'connect*', negated: false },
+						{ key: 'tags.region', pattern: 'eu-*', negated: false },
+					],
+					fingerprint: ['conn', '{{ transaction }}', '{{ error.type }}'],
+				},
+			]);
+		});
+
+		it('should report syntax errors with their position', () => {
+			const { rules, errors } = parseFingerprintRules(
+				[
+					'error.type:Foo',
+					'colour:red -> paint',
+					'-> orphan',
+					'message:"unterminated -> x',
+					'error.type:Foo -> {{ unknown }}',
+					'error.type:Foo -> a,',
+					'error.type:Foo -> ok',
+				].join('\n'),
+			);
+
+			expect(rules.map((r) => r.line)).toEqual([7]);
+			expect(errors).toEqual<RuleSyntaxError[]>([
+				{ line: 1, column: 15, message: "Expected '->' followed by a fingerprint" },
+				{ line: 2, column: 1, message: "Unknown matcher 'colour'" },
+				{ line: 3, column: 1, message: "Expected at least one matcher before '->'" },
+				{ line: 4, column: 9, message: 'Unterminated string' },
+				{ line: 5, column: 19, message: "Unknown variable '{{ unknown }}'" },
+				{ line: 6, column: 21, message: 'Expected a fingerprint value' },
+			]);
+		});
+	});
+
+	describe('generateFingerprint', () => {
+		const { rules } = parseFingerprintRules(
+			[
+				'error.type:DatabaseError message:"*TIMEOUT*" -> database-timeout',
+				'stack.function:render* -> render-error, {{ transaction }}',
+				'error.type:NetworkError !message:*offline* -> network, {{ default }}',
+			].join('\n'),
+		);
+
+		it('should group events matching a rule regardless of the default algorithm', () => {
+			const first = exceptionEvent('DatabaseError', 'query timeout after 5s');
+			const second = exceptionEvent('DatabaseError', 'Connection timeout', 'connect');
+
+			expect(generateFingerprint(first, rules)).toBe(generateFingerprint(second, rules));
+			expect(generateFingerprint(first)).not.toBe(generateFingerprint(second));
+		});
+
+		it('should resolve variables and fall back to the default grouping', () => {
+			const checkout = exceptionEvent('TypeError', 'a', 'renderCart');
+			const profile = {
+				...exceptionEvent('RangeError', 'b', 'renderProfile'),
+				transaction: '/profile',
+			};
+			const otherCheckout = exceptionEvent('RangeError', 'c', 'renderTotals');
+
+			expect(generateFingerprint(checkout, rules)).toBe(generateFingerprint(otherCheckout, rules));
+			expect(generateFingerprint(checkout, rules)).not.toBe(generateFingerprint(profile, rules));
+
+			const network = exceptionEvent('NetworkError', 'request failed');
+			expect(generateFingerprint(network, rules)).not.toBe(generateFingerprint(network));
+
+			// The negated matcher excludes this event, so it keeps the default fingerprint
+			const offline = exceptionEvent('NetworkError', 'browser is offline');
+			expect(generateFingerprint(offline, rules)).toBe(generateFingerprint(offline));
+		});
+	});
+
+	describe('API', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `fingerprinting-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Fingerprinting Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: 'Fingerprinting Project' });
+		});
+
+		function settingsUrl(path = ''): string {
+			return `http://localhost/api/projects/${project.slug}/settings/fingerprinting${path}`;
+		}
+
+		it('should validate rules without saving them', async () => {
+			const response = await authFetch(testUser.token!, settingsUrl('/validate'), {
+				method: 'POST',
+				body: JSON.stringify({ rules: 'error.type:Foo -> ok\nbogus' }),
+			});
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as {
+				valid: boolean;
+				ruleCount: number;
+				errors: RuleSyntaxError[];
+			};
+			expect(data).toMatchObject({ valid: false, ruleCount: 1 });
+			expect(data.errors).toHaveLength(1);
+			expect(data.errors[0].line).toBe(2);
+
+			const stored = await authFetch(testUser.token!, settingsUrl());
+			expect(await stored.json()).toEqual({ rules: '', ruleCount: 0 });
+		});
+
+		it('should reject rules with syntax errors', async () => {
+			const response = await authFetch(testUser.token!, settingsUrl(), {
+				method: 'PUT',
+				body: JSON.stringify({ rules: 'nonsense' }),
+			});
+			expect(response.status).toBe(400);
+			const data = (await response.json()) as { error: string; errors: RuleSyntaxError[] };
+			expect(data.error).toBe('invalid_rules');
+			expect(data.errors).toHaveLength(1);
+		});
+
+		it('should group new events by the saved rules', async () => {
+			const rules = '# Group by exception type only\nerror.type:DatabaseError -> database-error';
+			const saved = await authFetch(testUser.token!, settingsUrl(), {
+				method: 'PUT',
+				body: JSON.stringify({ rules }),
+			});
+			expect(saved.status).toBe(200);
+			expect(await saved.json()).toEqual({ rules, ruleCount: 1 });
+
+			await sendTestEvent(project.id, project.publicKey, {
+				exception: { type: 'DatabaseError', value: 'Deadlock detected' },
+			});
+			await sendTestEvent(project.id, project.publicKey, {
+				exception: { type: 'DatabaseError', value: 'Too many connections' },
+			});
+
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues`,
+			);
+			const { issues } = (await response.json()) as { issues: Issue[] };
+			expect(issues).toHaveLength(1);
+			expect(issues[0].count).toBe(2);
+		});
+	});
+});
@@ -0,0 +1,150 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { extractLogs, parseEnvelope } from '../src/lib/envelope-parser';
+import type { LogEntry } from '../src/types';
+import { authFetch, createTestProject, createTestUser, postEnvelope } from './utils';
+
+const TRACE_ID = '5b8efff798038103d269b633813fc60c';
+
+function logEnvelope(projectId: string, publicKey: string, items: unknown[]): string {
+	const header = { dsn: `https://${publicKey}@localhost/${projectId}` };
+	const itemHeader = {
+		type: 'log',
+		item_count: items.length,
+		content_type: 'application/vnd.sentry.items.log+json',
+	};
+	return [JSON.stringify(header), JSON.stringify(itemHeader), JSON.stringify({ items })].join('\n');
+}
+
+describe('Structured Logs', () => {
+	describe('extractLogs', () => {
+		it('should normalize levels and skip entries without a body', () => {
+			const envelope = parseEnvelope(
+				logEnvelope('1', 'key', [
+					{ timestamp: 1700000000, level: 'warning', body: 'slow query' },
+					{ timestamp: 1700000000, level: 'verbose', body: 'unknown level' },
+					{ timestamp: 1700000000, level: 'info' },
+				]),
+			);
+
+			const logs = extractLogs(envelope);
+			expect(logs.map((l) => [l.level, l.body])).toEqual([
+				['warn', 'slow query'],
+				['info', 'unknown level'],
+			]);
+		});
+	});
+
+	describe('Ingestion and search', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `logs-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Logs Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: `Logs ${Date.now()}` });
+
+			const response = await postEnvelope(
+				project.id,
+				project.publicKey,
+				logEnvelope(project.id, project.publicKey, [
+					{
+						timestamp: 1700000000,
+						trace_id: TRACE_ID,
+						level: 'info',
+						body: 'Loading cart 100%_done',
+						attributes: {
+							'sentry.environment': { value: 'production', type: 'string' },
+							'http.status_code': { value: 200, type: 'integer' },
+						},
+					},
+					{
+						timestamp: 1700000001,
+						trace_id: TRACE_ID,
+						level: 'error',
+						body: 'Payment failed',
+						attributes: {
+							'sentry.environment': { value: 'production', type: 'string' },
+							password: { value: 'hunter2', type: 'string' },
+						},
+					},
+					{
+						timestamp: 1700000002,
+						level: 'debug',
+						body: 'Cache warm',
+						attributes: { 'sentry.environment': { value: 'staging', type: 'string' } },
+					},
+				]),
+			);
+			expect(response.status).toBe(200);
+		});
+
+		async function searchLogs(params: string): Promise<{
+			status: number;
+			data: { logs: LogEntry[]; nextCursor?: string; hasMore: boolean };
+		}> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/logs?${params}`,
+			);
+			return { status: response.status, data: (await response.json()) as never };
+		}
+
+		it('should list logs newest first with flattened, scrubbed attributes', async () => {
+			const { data } = await searchLogs('');
+			expect(data.logs.map((l) => l.body)).toEqual([
+				'Cache warm',
+				'Payment failed',
+				'Loading cart 100%_done',
+			]);
+			expect(data.logs[1]).toMatchObject({
+				level: 'error',
+				traceId: TRACE_ID,
+				timestamp: '2023-11-14T22:13:21.000Z',
+				attributes: { 'sentry.environment': 'production', password: '[Filtered]' },
+			});
+		});
+
+		it('should filter by level, trace and time range', async () => {
+			const byLevel = await searchLogs('level=error,fatal');
+			expect(byLevel.data.logs.map((l) => l.body)).toEqual(['Payment failed']);
+
+			const byTrace = await searchLogs(`traceId=${TRACE_ID}`);
+			expect(byTrace.data.logs).toHaveLength(2);
+
+			const byTime = await searchLogs('from=2023-11-14T22:13:21.000Z&to=2023-11-14T22:13:21.999Z');
+			expect(byTime.data.logs.map((l) => l.body)).toEqual(['Payment failed']);
+		});
+
+		it('should filter by attribute and body text', async () => {
+			const byAttribute = await searchLogs(
+				'attribute=sentry.environment:production&attribute=http.status_code:200',
+			);
+			expect(byAttribute.data.logs.map((l) => l.body)).toEqual(['Loading cart 100%_done']);
+
+			// LIKE wildcards in the query are matched literally
+			const byQuery = await searchLogs(`query=${encodeURIComponent('100%_')}`);
+			expect(byQuery.data.logs.map((l) => l.body)).toEqual(['Loading cart 100%_done']);
+			const wildcard = await searchLogs(`query=${encodeURIComponent('%')}`);
+			expect(wildcard.data.logs).toHaveLength(1);
+		});
+
+		it('should paginate with a cursor', async () => {
+			const first = await searchLogs('limit=2');
+			expect(first.data.hasMore).toBe(true);
+
+			const second = await searchLogs(
+				`limit=2&cursor=${encodeURIComponent(first.data.nextCursor!)}`,
+			);
+			expect(second.data.hasMore).toBe(false);
+			expect(second.data.logs.map((l) => l.body)).toEqual(['Loading cart 100%_done']);
+		});
+
+		it('should reject invalid filters', async () => {
+			expect((await searchLogs('level=loud')).status).toBe(400);
+			expect((await searchLogs('attribute=novalue')).status).toBe(400);
+		});
+	});
+});
@@ -0,0 +1,396 @@
+import { env, runDurableObjectAlarm, runInDurableObject, SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getNextCheckIn, isValidSchedule, parseCrontab } from '../src/lib/cron';
+import type { Monitor, MonitorCheckIn, SentryCheckIn } from '../src/types';
+import { authFetch, createTestProject, createTestUser, postEnvelope } from './utils';
+
+async function sendCheckIn(
+	project: { id: string; publicKey: string },
+	checkIn: Partial<SentryCheckIn> & Pick<SentryCheckIn, 'monitor_slug' | 'status'>,
+): Promise<Response> {
+	const envelope = [
+		JSON.stringify({ dsn: `https://${project.publicKey}@localhost/${project.id}` }),
+		JSON.stringify({ type: 'check_in' }),
+		JSON.stringify({ check_in_id: crypto.randomUUID().replace(/-/g, ''), ...checkIn }),
+	].join('\n');
+
+	return postEnvelope(project.id, project.publicKey, envelope);
+}
+
+// Move a monitor's deadlines into the past so the next alarm treats them as expired
+async function expireDeadlines(projectId: string): Promise<void> {
+	const stub = env.PROJECT_STATE.get(env.PROJECT_STATE.idFromName(projectId));
+	const past = new Date(Date.now() - 60_000).toISOString();
+	await runInDurableObject(stub, (_instance, state) => {
+		state.storage.sql.exec('UPDATE monitors SET next_checkin_latest = ?', past);
+		state.storage.sql.exec(
+			"UPDATE monitor_checkins SET timeout_at = ? WHERE status = 'in_progress'",
+			past,
+		);
+	});
+	await runDurableObjectAlarm(stub);
+}
+
+describe('Cron Monitors', () => {
+	describe('Schedules', () => {
+		const from = new Date('2026-03-02T10:07:30.000Z'); // a Monday
+
+		it('should compute the next crontab run in UTC', () => {
+			const every15 = { type: 'crontab' as const, value: '*/15 * * * *' };
+			expect(getNextCheckIn(every15, from)?.toISOString()).toBe('2026-03-02T10:15:00.000Z');
+
+			const weekly = { type: 'crontab' as const, value: '0 9 * * mon' };
+			expect(getNextCheckIn(weekly, from)?.toISOString()).toBe('2026-03-09T09:00:00.000Z');
+
+			const daily = { type: 'crontab' as const, value: '@daily' };
+			expect(getNextCheckIn(daily, from)?.toISOString()).toBe('2026-03-03T00:00:00.000Z');
+		});
+
+		it('should match either day field when both are restricted', () => {
+			const schedule = { type: 'crontab' as const, value: '0 0 15 * 5' };
+			// Friday 6 March comes before the 15th
+			expect(getNextCheckIn(schedule, from)?.toISOString()).toBe('2026-03-06T00:00:00.000Z');
+		});
+
+		it('should treat day fields that allow every value as unrestricted', () => {
+			// Only Fridays, as 1-31 allows every day of the month
+			const fridays = { type: 'crontab' as const, value: '0 0 1-31 * 5' };
+			expect(getNextCheckIn(fridays, from)?.toISOString()).toBe('2026-03-06T00:00:00.000Z');
+
+			const fifteenth = { type: 'crontab' as const, value: '0 0 15 * */1' };
+			expect(getNextCheckIn(fifteenth, from)?.toISOString()).toBe('2026-03-15T00:00:00.000Z');
+		});
+
+		it('should compute crontab runs in the schedule time zone', () => {
+			const schedule = { type: 'crontab' as const, value: '0 9 * * *', timezone: 'Europe/Berlin' };
+			expect(getNextCheckIn(schedule, from)?.toISOString()).toBe('2026-03-03T08:00:00.000Z');
+
+			// Clocks go forward on 29 March
+			const beforeDst = new Date('2026-03-28T10:00:00.000Z');
+			expect(getNextCheckIn(schedule, beforeDst)?.toISOString()).toBe('2026-03-29T07:00:00.000Z');
+
+			expect(isValidSchedule({ ...schedule, timezone: 'Mars/Olympus' })).toBe(false);
+		});
+
+		it('should add intervals to the last run', () => {
+			const schedule = { type: 'interval' as const, value: 2, unit: 'hour' as const };
+			expect(getNextCheckIn(schedule, from)?.toISOString()).toBe('2026-03-02T12:07:30.000Z');
+		});
+
+		it('should reject invalid schedules', () => {
+			expect(parseCrontab('* * *')).toBeNull();
+			expect(parseCrontab('61 * * * *')).toBeNull();
+			expect(isValidSchedule({ type: 'crontab', value: '0 0 30 2 *' })).toBe(false);
+			expect(isValidSchedule({ type: 'interval', value: 0, unit: 'day' })).toBe(false);
+			expect(isValidSchedule({ type: 'crontab', value: '5 4 * * sun' })).toBe(true);
+		});
+	});
+
+	describe('API', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `monitors-api-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Monitors Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: `Monitors API ${Date.now()}` });
+		});
+
+		function monitorsUrl(path = ''): string {
+			return `http://localhost/api/projects/${project.slug}/monitors${path}`;
+		}
+
+		it('should create a monitor', async () => {
+			const response = await authFetch(testUser.token!, monitorsUrl(), {
+				method: 'POST',
+				body: JSON.stringify({
+					slug: 'nightly-backup',
+					name: 'Nightly backup',
+					schedule: { type: 'crontab', value: '0 3 * * *' },
+					checkinMargin: 5,
+				}),
+			});
+			expect(response.status).toBe(201);
+
+			const data = (await response.json()) as { monitor: Monitor };
+			expect(data.monitor.name).toBe('Nightly backup');
+			expect(data.monitor.checkinMargin).toBe(5);
+			expect(data.monitor.maxRuntime).toBe(30);
+			expect(data.monitor.health).toBe('pending');
+			expect(data.monitor.nextCheckIn).toBeNull();
+		});
+
+		it('should reject duplicate slugs', async () => {
+			const response = await authFetch(testUser.token!, monitorsUrl(), {
+				method: 'POST',
+				body: JSON.stringify({
+					slug: 'nightly-backup',
+					schedule: { type: 'interval', value: 1, unit: 'day' },
+				}),
+			});
+			expect(response.status).toBe(409);
+		});
+
+		it('should reject invalid schedules and limits', async () => {
+			const badSchedule = await authFetch(testUser.token!, monitorsUrl(), {
+				method: 'POST',
+				body: JSON.stringify({ slug: 'bad', schedule: { type: 'crontab', value: 'daily' } }),
+			});
+			expect(badSchedule.status).toBe(400);
+
+			const badRuntime = await authFetch(testUser.token!, monitorsUrl(), {
+				method: 'POST',
+				body: JSON.stringify({
+					slug: 'bad',
+					schedule: { type: 'interval', value: 1, unit: 'hour' },
+					maxRuntime: 0,
+				}),
+			});
+			expect(badRuntime.status).toBe(400);
+
+			const badSlug = await authFetch(testUser.token!, monitorsUrl(), {
+				method: 'POST',
+				body: JSON.stringify({
+					slug: 'Not A Slug',
+					schedule: { type: 'crontab', value: '@hourly' },
+				}),
+			});
+			expect(badSlug.status).toBe(400);
+		});
+
+		it('should list and update monitors', async () => {
+			const patchResponse = await authFetch(testUser.token!, monitorsUrl('/nightly-backup'), {
+				method: 'PATCH',
+				body: JSON.stringify({ status: 'disabled', maxRuntime: 90 }),
+			});
+			expect(patchResponse.status).toBe(200);
+
+			const listResponse = await authFetch(testUser.token!, monitorsUrl());
+			const data = (await listResponse.json()) as { monitors: Monitor[] };
+			expect(data.monitors).toHaveLength(1);
+			expect(data.monitors[0].status).toBe('disabled');
+			expect(data.monitors[0].maxRuntime).toBe(90);
+		});
+
+		it('should delete a monitor', async () => {
+			const response = await authFetch(testUser.token!, monitorsUrl('/nightly-backup'), {
+				method: 'DELETE',
+			});
+			expect(response.status).toBe(200);
+
+			const getResponse = await authFetch(testUser.token!, monitorsUrl('/nightly-backup'));
+			expect(getResponse.status).toBe(404);
+		});
+
+		it('should require authentication', async () => {
+			const response = await SELF.fetch(monitorsUrl());
+			expect(response.status).toBe(401);
+		});
+	});
+
+	describe('Check-ins', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `monitors-checkins-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Check-ins Test User',
+			});
+			project = await createTestProject(testUser.token!, {
+				name: `Monitors Check-ins ${Date.now()}`,
+			});
+		});
+
+		async function getMonitor(
+			monitorSlug: string,
+		): Promise<{ monitor: Monitor; checkIns: MonitorCheckIn[] }> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/monitors/${monitorSlug}`,
+			);
+			expect(response.status).toBe(200);
+			return (await response.json()) as { monitor: Monitor; checkIns: MonitorCheckIn[] };
+		}
+
+		async function getIssueTitles(): Promise<string[]> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues`,
+			);
+			const data = (await response.json()) as { issues: Array<{ title: string }> };
+			return data.issues.map((issue) => issue.title);
+		}
+
+		it('should create a monitor from a check-in with monitor_config', async () => {
+			const response = await sendCheckIn(project, {
+				monitor_slug: 'hourly-sync',
+				status: 'ok',
+				duration: 12.5,
+				monitor_config: {
+					schedule: { type: 'crontab', value: '0 * * * *' },
+					checkin_margin: 5,
+					max_runtime: 10,
+				},
+			});
+			expect(response.status).toBe(200);
+
+			const { monitor, checkIns } = await getMonitor('hourly-sync');
+			expect(monitor.health).toBe('ok');
+			expect(monitor.checkinMargin).toBe(5);
+			expect(new Date(monitor.nextCheckIn!).getUTCMinutes()).toBe(0);
+			expect(checkIns).toHaveLength(1);
+			expect(checkIns[0].duration).toBe(12.5);
+		});
+
+		it('should keep the time zone sent with the monitor config', async () => {
+			const response = await sendCheckIn(project, {
+				monitor_slug: 'berlin-report',
+				status: 'ok',
+				monitor_config: {
+					schedule: { type: 'crontab', value: '0 9 * * *' },
+					timezone: 'Europe/Berlin',
+				},
+			});
+			expect(response.status).toBe(200);
+
+			const { monitor } = await getMonitor('berlin-report');
+			expect(monitor.schedule).toEqual({
+				type: 'crontab',
+				value: '0 9 * * *',
+				timezone: 'Europe/Berlin',
+			});
+			expect(monitor.nextCheckIn).toBe(
+				getNextCheckIn(monitor.schedule, new Date(monitor.lastCheckIn!))?.toISOString(),
+			);
+		});
+
+		it('should ignore check-ins for unknown monitors', async () => {
+			const response = await sendCheckIn(project, { monitor_slug: 'unknown-job', status: 'ok' });
+			expect(response.status).toBe(200);
+
+			const monitorResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/monitors/unknown-job`,
+			);
+			expect(monitorResponse.status).toBe(404);
+		});
+
+		it('should finish an in-progress run with the same check-in id', async () => {
+			const checkInId = crypto.randomUUID().replace(/-/g, '');
+			await sendCheckIn(project, {
+				check_in_id: checkInId,
+				monitor_slug: 'hourly-sync',
+				status: 'in_progress',
+			});
+			await sendCheckIn(project, {
+				check_in_id: checkInId,
+				monitor_slug: 'hourly-sync',
+				status: 'ok',
+				duration: 3,
+			});
+
+			const { checkIns } = await getMonitor('hourly-sync');
+			expect(checkIns).toHaveLength(2);
+			const run = checkIns.find((checkIn) => checkIn.id === checkInId);
+			expect(run?.status).toBe('ok');
+			expect(run?.duration).toBe(3);
+		});
+
+		it('should open an issue for a failed run', async () => {
+			await sendCheckIn(project, { monitor_slug: 'hourly-sync', status: 'error' });
+
+			const { monitor, checkIns } = await getMonitor('hourly-sync');
+			expect(monitor.health).toBe('error');
+			expect(checkIns[0].status).toBe('error');
+			expect(checkIns[0].issueId).toBeTruthy();
+
+			const titles = await getIssueTitles();
+			expect(titles.some((title) => title.startsWith('MonitorCheckInFailure'))).toBe(true);
+		});
+
+		it('should time out runs that exceed their max runtime', async () => {
+			const checkInId = crypto.randomUUID().replace(/-/g, '');
+			await sendCheckIn(project, {
+				check_in_id: checkInId,
+				monitor_slug: 'hourly-sync',
+				status: 'in_progress',
+			});
+			await expireDeadlines(project.id);
+
+			const { checkIns } = await getMonitor('hourly-sync');
+			const run = checkIns.find((checkIn) => checkIn.id === checkInId);
+			expect(run?.status).toBe('timeout');
+			expect(run?.issueId).toBeTruthy();
+
+			const titles = await getIssueTitles();
+			expect(titles.some((title) => title.startsWith('MonitorCheckInTimeout'))).toBe(true);
+
+			// A late completion does not reopen a timed-out run
+			await sendCheckIn(project, {
+				check_in_id: checkInId,
+				monitor_slug: 'hourly-sync',
+				status: 'ok',
+			});
+			const after = await getMonitor('hourly-sync');
+			expect(after.checkIns.find((checkIn) => checkIn.id === checkInId)?.status).toBe('timeout');
+		});
+
+		it('should record a missed check-in when the margin passes', async () => {
+			await expireDeadlines(project.id);
+
+			const { monitor, checkIns } = await getMonitor('hourly-sync');
+			expect(monitor.health).toBe('missed');
+			expect(checkIns[0].status).toBe('missed');
+			expect(checkIns[0].expectedAt).toBeTruthy();
+			expect(new Date(monitor.nextCheckIn!).getTime()).toBeGreaterThan(Date.now());
+
+			const titles = await getIssueTitles();
+			expect(titles.some((title) => title.startsWith('MonitorCheckInMissed'))).toBe(true);
+		});
+
+		it('should not create monitors from check-ins past the project limit', async () => {
+			const full = await createTestProject(testUser.token!, {
+				name: `Monitors Full ${Date.now()}`,
+			});
+			const stub = env.PROJECT_STATE.get(env.PROJECT_STATE.idFromName(full.id));
+			await runInDurableObject(stub, async (instance) => {
+				for (let i = 0; i < 100; i++) {
+					await instance.createMonitor({
+						slug: `job-${i}`,
+						schedule: { type: 'crontab', value: '0 * * * *' },
+					});
+				}
+			});
+
+			const response = await sendCheckIn(full, {
+				monitor_slug: 'one-too-many',
+				status: 'ok',
+				monitor_config: { schedule: { type: 'crontab', value: '0 * * * *' } },
+			});
+			expect(response.status).toBe(200);
+
+			const monitorResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${full.slug}/monitors/one-too-many`,
+			);
+			expect(monitorResponse.status).toBe(404);
+
+			const outcomesResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${full.slug}/stats/outcomes`,
+			);
+			const { reasons } = (await outcomesResponse.json()) as { reasons: unknown[] };
+			expect(reasons).toContainEqual({
+				outcome: 'invalid',
+				category: 'monitor',
+				reason: 'monitor_limit',
+				quantity: 1,
+			});
+		});
+	});
+});
@@ -0,0 +1,225 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_NORMALIZATION_LIMITS, normalizeEvent } from '../src/lib/normalize';
+import type { NormalizationLimits, SentryEvent } from '../src/types';
+import { authFetch, createTestProject, createTestUser, postEnvelope } from './utils';
+
+const LIMITS: NormalizationLimits = {
+	maxStringLength: 20,
+	maxBreadcrumbs: 3,
+	maxFrames: 4,
+	maxDepth: 3,
+	maxCollectionItems: 5,
+};
+
+describe('Event Normalization', () => {
+	describe('normalizeEvent', () => {
+		it('should validate field types and clamp levels', () => {
+			const event = normalizeEvent(
+				{
+					event_id: 'A1B2C3D4-E5F6-4A5B-8C7D-0123456789AB',
+					timestamp: 1700000000.5,
+					level: 'warn',
+					release: 42,
+					environment: { name: 'production' },
+					tags: [
+						['browser', 'Chrome'],
+						['retries', 3],
+					],
+					message: { formatted: 'Checkout failed' },
+					fingerprint: 'not-a-list',
+				},
+				DEFAULT_NORMALIZATION_LIMITS,
+			);
+
+			expect(event).toMatchObject({
+				event_id: 'a1b2c3d4e5f64a5b8c7d0123456789ab',
+				timestamp: '2023-11-14T22:13:20.500Z',
+				level: 'warning',
+				release: '42',
+				tags: { browser: 'Chrome', retries: '3' },
+				message: 'Checkout failed',
+			});
+			expect(event.environment).toBeUndefined();
+			expect(event.fingerprint).toBeUndefined();
+			expect(event._meta).toEqual({
+				environment: { '': { err: [['invalid_data', { reason: 'expected a string' }]] } },
+				fingerprint: { '': { err: [['invalid_data', { reason: 'expected a list of strings' }]] } },
+			});
+
+			const unknownLevel = normalizeEvent({ level: 'catastrophic' }, DEFAULT_NORMALIZATION_LIMITS);
+			expect(unknownLevel.level).toBe('error');
+			expect(unknownLevel.event_id).toMatch(/^[0-9a-f]{32}$/);
+		});
+
+		it('should trim breadcrumbs, frames, strings and nested data', () => {
+			const event = normalizeEvent(
+				{
+					breadcrumbs: {
+						values: Array.from({ length: 10 }, (_, i) => ({ message: `crumb ${i}` })),
+					},
+					exception: {
+						values: [
+							{
+								type: 'RangeError',
+								value: 'Maximum call stack size exceeded',
+								stacktrace: {
+									frames: Array.from({ length: 10 }, (_, i) => ({ function: `f${i}` })),
+								},
+							},
+						],
+					},
+					extra: {
+						deep: { a: { b: { c: 'too deep' } } },
+						list: [1, 2, 3, 4, 5, 6, 7],
+					},
+				},
+				LIMITS,
+			);
+
+			// The most recent breadcrumbs are kept
+			expect(event.breadcrumbs?.map((b) => b.message)).toEqual(['crumb 7', 'crumb 8', 'crumb 9']);
+			// The outermost and innermost frames are kept
+			const exception = event.exception!.values[0];
+			expect(exception.stacktrace?.frames.map((f) => f.function)).toEqual(['f0', 'f1', 'f8', 'f9']);
+			expect(exception.value).toBe('Maximum call stac...');
+			expect(event.extra).toEqual({ deep: { a: { b: null } }, list: [1, 2, 3, 4, 5] });
+
+			expect(event._meta).toEqual({
+				breadcrumbs: { '': { len: 10, rem: [['!limit', 'x']] } },
+				exception: {
+					values: {
+						0: {
+							value: { '': { len: 32, rem: [['!limit', 's']] } },
+							stacktrace: { frames: { '': { len: 10, rem: [['!limit', 'x']] } } },
+						},
+					},
+				},
+				extra: {
+					deep: { a: { b: { '': { len: 1, rem: [['!limit', 'x']] } } } },
+					list: { '': { len: 7, rem: [['!limit', 'x']] } },
+				},
+			});
+		});
+
+		it('should trim the frames of top-level and thread stack traces', () => {
+			const frames = Array.from({ length: 10 }, (_, i) => ({
+				function: `f${i}`,
+				vars: { local: 'a long local variable value' },
+			}));
+			const event = normalizeEvent(
+				{
+					stacktrace: { frames },
+					threads: { values: [{ id: 1, crashed: true, stacktrace: { frames } }] },
+				},
+				LIMITS,
+			);
+
+			expect(event.stacktrace?.frames.map((f) => f.function)).toEqual(['f0', 'f1', 'f8', 'f9']);
+			const thread = event.threads!.values[0];
+			expect(thread).toMatchObject({ id: 1, crashed: true });
+			expect(thread.stacktrace?.frames.map((f) => f.function)).toEqual(['f0', 'f1', 'f8', 'f9']);
+			expect(event.stacktrace?.frames[0]).toMatchObject({
+				vars: { local: 'a long local vari...' },
+			});
+
+			expect(event._meta).toMatchObject({
+				stacktrace: { frames: { '': { len: 10, rem: [['!limit', 'x']] } } },
+				threads: {
+					values: { 0: { stacktrace: { frames: { '': { len: 10, rem: [['!limit', 'x']] } } } } },
+				},
+			});
+		});
+
+		it('should leave well-formed events without _meta', () => {
+			const event = normalizeEvent(
+				{
+					event_id: crypto.randomUUID().replace(/-/g, ''),
+					timestamp: '2024-01-01T00:00:00.000Z',
+					platform: 'javascript',
+					level: 'error',
+					request: {
+						url: 'https://example.com/cart',
+						headers: [['Accept', 'text/html']],
+						query_string: [['page', '2']],
+					},
+				},
+				DEFAULT_NORMALIZATION_LIMITS,
+			);
+
+			expect(event._meta).toBeUndefined();
+			expect(event.request).toEqual({
+				url: 'https://example.com/cart',
+				headers: { Accept: 'text/html' },
+				query_string: 'page=2',
+			});
+		});
+	});
+
+	describe('Ingestion', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `normalize-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Normalize Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: `Normalize ${Date.now()}` });
+		});
+
+		function settingsUrl(): string {
+			return `http://localhost/api/projects/${project.slug}/settings/normalization`;
+		}
+
+		it('should expose and validate the limits', async () => {
+			const response = await authFetch(testUser.token!, settingsUrl());
+			const data = (await response.json()) as { limits: NormalizationLimits };
+			expect(data.limits).toEqual(DEFAULT_NORMALIZATION_LIMITS);
+
+			const invalid = await authFetch(testUser.token!, settingsUrl(), {
+				method: 'PUT',
+				body: JSON.stringify({ maxBreadcrumbs: 0 }),
+			});
+			expect(invalid.status).toBe(400);
+
+			const updated = await authFetch(testUser.token!, settingsUrl(), {
+				method: 'PUT',
+				body: JSON.stringify({ maxBreadcrumbs: 2, maxStringLength: 100 }),
+			});
+			expect(updated.status).toBe(200);
+			const updatedData = (await updated.json()) as { limits: NormalizationLimits };
+			expect(updatedData.limits).toMatchObject({ maxBreadcrumbs: 2, maxStringLength: 100 });
+		});
+
+		it('should store events trimmed to the project limits', async () => {
+			const eventId = crypto.randomUUID().replace(/-/g, '');
+			const envelope = [
+				JSON.stringify({ event_id: eventId }),
+				JSON.stringify({ type: 'event' }),
+				JSON.stringify({
+					event_id: eventId,
+					platform: 'javascript',
+					message: 'Normalized event',
+					breadcrumbs: [{ message: 'one' }, { message: 'two' }, { message: 'three' }],
+					request: { url: 'https://example.com/upload', data: 'x'.repeat(1000) },
+				}),
+			].join('\n');
+
+			const response = await postEnvelope(project.id, project.publicKey, envelope);
+			expect(response.status).toBe(200);
+
+			const eventResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/events/${eventId}`,
+			);
+			const { event } = (await eventResponse.json()) as { event: SentryEvent };
+			expect(event.breadcrumbs?.map((b) => b.message)).toEqual(['two', 'three']);
+			expect(event.request?.data).toHaveLength(100);
+			expect(event._meta).toEqual({
+				breadcrumbs: { '': { len: 3, rem: [['!limit', 'x']] } },
+				request: { data: { '': { len: 1000, rem: [['!limit', 's']] } } },
+			});
+		});
+	});
+});
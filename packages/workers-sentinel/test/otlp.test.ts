@@ -0,0 +1,253 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { otlpLogsToEvents, otlpTracesToEvents, parseOtlpRequest } from '../src/lib/otlp';
+import type { Issue } from '../src/types';
+import { authFetch, createTestProject, createTestUser } from './utils';
+
+// Minimal protobuf encoder for building OTLP payloads
+function varint(value: number | bigint): number[] {
+	let v = BigInt(value);
+	const bytes: number[] = [];
+	do {
+		let byte = Number(v & 0x7fn);
+		v >>= 7n;
+		if (v > 0n) byte |= 0x80;
+		bytes.push(byte);
+	} while (v > 0n);
+	return bytes;
+}
+
+function lengthDelimited(field: number, payload: number[]): number[] {
+	return [...varint((field << 3) | 2), ...varint(payload.length), ...payload];
+}
+
+function str(field: number, value: string): number[] {
+	return lengthDelimited(field, [...new TextEncoder().encode(value)]);
+}
+
+function fixed64(field: number, value: bigint): number[] {
+	const bytes = new Uint8Array(8);
+	new DataView(bytes.buffer).setBigUint64(0, value, true);
+	return [...varint((field << 3) | 1), ...bytes];
+}
+
+function keyValue(field: number, key: string, value: string): number[] {
+	return lengthDelimited(field, [...str(1, key), ...lengthDelimited(2, str(1, value))]);
+}
+
+const RESOURCE_JSON = {
+	attributes: [
+		{ key: 'service.name', value: { stringValue: 'checkout' } },
+		{ key: 'service.version', value: { stringValue: '2.4.1' } },
+		{ key: 'deployment.environment.name', value: { stringValue: 'production' } },
+		{ key: 'telemetry.sdk.language', value: { stringValue: 'python' } },
+		{ key: 'k8s.pod.name', value: { stringValue: 'checkout-7f9c' } },
+	],
+};
+
+const PYTHON_STACK = [
+	'Traceback (most recent call last):',
+	'  File "/app/checkout.py", line 42, in charge',
+	'    gateway.charge(card)',
+	'  File "/app/gateway.py", line 10, in charge',
+	'    raise PaymentDeclined()',
+	'PaymentDeclined: card declined',
+].join('\n');
+
+function spanWithException(type: string, message: string) {
+	return {
+		traceId: '5b8efff798038103d269b633813fc60c',
+		spanId: 'eee19b7ec3c1b174',
+		name: 'POST /checkout',
+		events: [
+			{ name: 'log', timeUnixNano: '1700000000000000000' },
+			{
+				name: 'exception',
+				timeUnixNano: '1700000000000000000',
+				attributes: [
+					{ key: 'exception.type', value: { stringValue: type } },
+					{ key: 'exception.message', value: { stringValue: message } },
+					{ key: 'exception.stacktrace', value: { stringValue: PYTHON_STACK } },
+				],
+			},
+		],
+	};
+}
+
+describe('OTLP Ingestion', () => {
+	describe('Conversion', () => {
+		it('should convert exception span events and map resource attributes', () => {
+			const [event] = otlpTracesToEvents({
+				resourceSpans: [
+					{
+						resource: RESOURCE_JSON,
+						scopeSpans: [{ spans: [spanWithException('PaymentDeclined', 'card declined')] }],
+					},
+				],
+			});
+
+			expect(event.exception?.values[0]).toMatchObject({
+				type: 'PaymentDeclined',
+				value: 'card declined',
+			});
+			expect(event.exception?.values[0].stacktrace?.frames.map((f) => f.function)).toEqual([
+				'charge',
+				'charge',
+			]);
+			expect(event.transaction).toBe('POST /checkout');
+			expect(event.release).toBe('checkout@2.4.1');
+			expect(event.environment).toBe('production');
+			expect(event.platform).toBe('python');
+			expect(event.tags).toEqual({ 'service.name': 'checkout', 'k8s.pod.name': 'checkout-7f9c' });
+			expect(event.contexts?.trace).toEqual({
+				trace_id: '5b8efff798038103d269b633813fc60c',
+				span_id: 'eee19b7ec3c1b174',
+			});
+			expect(event.timestamp).toBe('2023-11-14T22:13:20.000Z');
+		});
+
+		it('should only convert ERROR and FATAL log records', () => {
+			const events = otlpLogsToEvents({
+				resourceLogs: [
+					{
+						resource: RESOURCE_JSON,
+						scopeLogs: [
+							{
+								scope: { name: 'app.billing' },
+								logRecords: [
+									{ severityNumber: 9, body: { stringValue: 'charging card' } },
+									{ severityNumber: 17, body: { stringValue: 'charge failed' } },
+									{ severityText: 'FATAL', body: { stringValue: 'gateway down' } },
+								],
+							},
+						],
+					},
+				],
+			});
+
+			expect(events.map((e) => [e.level, e.message, e.logger])).toEqual([
+				['error', 'charge failed', 'app.billing'],
+				['fatal', 'gateway down', 'app.billing'],
+			]);
+		});
+
+		it('should decode protobuf log requests', () => {
+			const logRecord = [
+				...fixed64(1, 1_700_000_000_000_000_000n),
+				...varint((2 << 3) | 0),
+				...varint(17),
+				...lengthDelimited(5, str(1, 'ignored body')),
+				...keyValue(6, 'exception.type', 'ValueError'),
+				...keyValue(6, 'exception.message', 'bad amount'),
+			];
+			const request = lengthDelimited(1, [
+				...lengthDelimited(1, keyValue(1, 'service.name', 'billing')),
+				...lengthDelimited(2, [
+					...lengthDelimited(1, str(1, 'billing.scope')),
+					...lengthDelimited(2, logRecord),
+				]),
+			]);
+
+			const [event] = parseOtlpRequest('logs', new Uint8Array(request), 'application/x-protobuf');
+			expect(event.exception?.values[0]).toMatchObject({ type: 'ValueError', value: 'bad amount' });
+			expect(event.logger).toBe('billing.scope');
+			expect(event.tags).toEqual({ 'service.name': 'billing' });
+			expect(event.timestamp).toBe('2023-11-14T22:13:20.000Z');
+		});
+
+		it('should reject malformed protobuf', () => {
+			expect(() =>
+				parseOtlpRequest('traces', new Uint8Array([0x0a, 0x10, 0x01]), 'application/x-protobuf'),
+			).toThrow();
+		});
+	});
+
+	describe('Endpoints', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `otlp-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'OTLP Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: `OTLP ${Date.now()}` });
+		});
+
+		function sendOtlp(signal: 'logs' | 'traces', body: BodyInit, contentType: string) {
+			return SELF.fetch(`http://localhost/api/${project.id}/otlp/v1/${signal}`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': contentType,
+					'X-Sentry-Auth': `Sentry sentry_key=${project.publicKey}`,
+				},
+				body,
+			});
+		}
+
+		async function listIssues(): Promise<Issue[]> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues`,
+			);
+			const data = (await response.json()) as { issues: Issue[] };
+			return data.issues;
+		}
+
+		it('should ingest OTLP/JSON traces into issues', async () => {
+			const body = JSON.stringify({
+				resourceSpans: [
+					{
+						resource: RESOURCE_JSON,
+						scopeSpans: [{ spans: [spanWithException('OtlpJsonError', 'from json')] }],
+					},
+				],
+			});
+
+			const response = await sendOtlp('traces', body, 'application/json');
+			expect(response.status).toBe(200);
+			expect(await response.json()).toEqual({ partialSuccess: {} });
+
+			const issues = await listIssues();
+			expect(issues.some((i) => i.title === 'OtlpJsonError: from json')).toBe(true);
+		});
+
+		it('should ingest OTLP/protobuf logs and answer in protobuf', async () => {
+			const logRecord = [
+				...varint((2 << 3) | 0),
+				...varint(17),
+				...lengthDelimited(5, str(1, 'protobuf log failure')),
+			];
+			const request = lengthDelimited(1, lengthDelimited(2, lengthDelimited(2, logRecord)));
+
+			const response = await sendOtlp('logs', new Uint8Array(request), 'application/x-protobuf');
+			expect(response.status).toBe(200);
+			expect(response.headers.get('Content-Type')).toBe('application/x-protobuf');
+
+			const issues = await listIssues();
+			expect(issues.some((i) => i.title === 'protobuf log failure')).toBe(true);
+		});
+
+		it('should accept requests without error records', async () => {
+			const body = JSON.stringify({
+				resourceLogs: [{ scopeLogs: [{ logRecords: [{ severityNumber: 9 }] }] }],
+			});
+			const response = await sendOtlp('logs', body, 'application/json');
+			expect(response.status).toBe(200);
+			expect(await response.json()).toEqual({ partialSuccess: {} });
+		});
+
+		it('should reject unauthenticated and malformed requests', async () => {
+			const unauthenticated = await SELF.fetch(`http://localhost/api/${project.id}/otlp/v1/logs`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: '{}',
+			});
+			expect(unauthenticated.status).toBe(401);
+
+			const malformed = await sendOtlp('logs', 'not json', 'application/json');
+			expect(malformed.status).toBe(400);
+		});
+	});
+});
@@ -0,0 +1,169 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+	authFetch,
+	createTestEnvelope,
+	createTestProject,
+	createTestUser,
+	postEnvelope,
+} from './utils';
+
+interface OutcomesResponse {
+	totals: Record<string, number>;
+	series: Array<{ bucket: string } & Record<string, number | string>>;
+	reasons: Array<{ outcome: string; category: string; reason: string | null; quantity: number }>;
+}
+
+describe('Outcome Stats', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+	let testProject: Awaited<ReturnType<typeof createTestProject>>;
+
+	async function getOutcomes(query = ''): Promise<OutcomesResponse> {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/stats/outcomes${query}`,
+		);
+		expect(response.status).toBe(200);
+		return response.json() as Promise<OutcomesResponse>;
+	}
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `outcomes-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Outcomes Test User',
+		});
+		testProject = await createTestProject(testUser.token!, {
+			name: `Outcomes Test Project ${Date.now()}`,
+		});
+
+		// Two accepted events
+		for (let i = 0; i < 2; i++) {
+			await postEnvelope(
+				testProject.id,
+				testProject.publicKey,
+				createTestEnvelope(testProject.id, testProject.publicKey, { message: `accepted ${i}` }),
+			);
+		}
+
+		// One event dropped by an inbound filter
+		await authFetch(testUser.token!, `http://localhost/api/projects/${testProject.slug}/filters`, {
+			method: 'POST',
+			body: JSON.stringify({ filterType: 'message', pattern: 'noisy' }),
+		});
+		await postEnvelope(
+			testProject.id,
+			testProject.publicKey,
+			createTestEnvelope(testProject.id, testProject.publicKey, { message: 'noisy message' }),
+		);
+
+		// Client report from the SDK
+		await postEnvelope(
+			testProject.id,
+			testProject.publicKey,
+			[
+				'{}',
+				'{"type":"client_report"}',
+				JSON.stringify({
+					timestamp: Date.now() / 1000,
+					discarded_events: [
+						{ reason: 'sample_rate', category: 'transaction', quantity: 7 },
+						{ reason: 'queue_overflow', category: 'error', quantity: 2 },
+						{ reason: 'ratelimit_backoff', category: 'error', quantity: 0 },
+					],
+				}),
+			].join('\n'),
+		);
+
+		// Unparseable envelope
+		await postEnvelope(testProject.id, testProject.publicKey, 'not an envelope');
+
+		// Rate limit the project and send one more event
+		await authFetch(testUser.token!, `http://localhost/api/projects/${testProject.slug}`, {
+			method: 'PATCH',
+			body: JSON.stringify({ maxEventsPerHour: 2 }),
+		});
+		const limited = await postEnvelope(
+			testProject.id,
+			testProject.publicKey,
+			createTestEnvelope(testProject.id, testProject.publicKey, { message: 'over quota' }),
+		);
+		expect(limited.status).toBe(429);
+	});
+
+	it('should total each outcome', async () => {
+		const data = await getOutcomes();
+
+		expect(data.totals).toEqual({
+			accepted: 2,
+			filtered: 1,
+			rate_limited: 1,
+			invalid: 1,
+			client_discard: 9,
+		});
+	});
+
+	it('should break down drops by outcome, category and reason', async () => {
+		const data = await getOutcomes();
+
+		expect(data.reasons).toContainEqual({
+			outcome: 'filtered',
+			category: 'error',
+			reason: 'filter:message',
+			quantity: 1,
+		});
+		expect(data.reasons).toContainEqual({
+			outcome: 'rate_limited',
+			category: 'error',
+			reason: 'project_quota',
+			quantity: 1,
+		});
+		expect(data.reasons).toContainEqual({
+			outcome: 'invalid',
+			category: 'default',
+			reason: 'parse_failed',
+			quantity: 1,
+		});
+		expect(data.reasons).toContainEqual({
+			outcome: 'client_discard',
+			category: 'transaction',
+			reason: 'sample_rate',
+			quantity: 7,
+		});
+		expect(data.reasons.some((r) => r.outcome === 'accepted')).toBe(false);
+	});
+
+	it('should return an hourly series', async () => {
+		const data = await getOutcomes();
+
+		expect(data.series.length).toBeGreaterThan(0);
+		const currentBucket = data.series[data.series.length - 1];
+		expect(currentBucket.bucket).toMatch(/T\d{2}:00:00\.000Z$/);
+		expect(currentBucket.accepted).toBe(2);
+	});
+
+	it('should filter by category', async () => {
+		const data = await getOutcomes('?category=transaction');
+
+		expect(data.totals.client_discard).toBe(7);
+		expect(data.totals.accepted).toBe(0);
+	});
+
+	it('should reject invalid dates', async () => {
+		for (const path of ['stats', 'stats/outcomes']) {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${testProject.slug}/${path}?start=foo`,
+			);
+			expect(response.status).toBe(400);
+			expect(await response.json()).toMatchObject({ error: 'invalid_date' });
+		}
+	});
+
+	it('should require authentication', async () => {
+		const response = await SELF.fetch(
+			`http://localhost/api/projects/${testProject.slug}/stats/outcomes`,
+		);
+		expect(response.status).toBe(401);
+	});
+});
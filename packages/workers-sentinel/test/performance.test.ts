@@ -0,0 +1,294 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+	authFetch,
+	createTestProject,
+	createTestTransaction,
+	createTestUser,
+	postEnvelope,
+} from './utils';
+
+interface TransactionSummary {
+	name: string;
+	count: number;
+	failureCount: number;
+	avgDuration: number;
+	p50: number;
+	p75: number;
+	p95: number;
+	p99: number;
+}
+
+interface SpanNode {
+	spanId: string;
+	op: string | null;
+	duration: number;
+	children: SpanNode[];
+}
+
+async function sendTransaction(
+	projectId: string,
+	publicKey: string,
+	transaction: ReturnType<typeof createTestTransaction>,
+): Promise<Response> {
+	const envelope = [
+		JSON.stringify({
+			event_id: transaction.event_id,
+			dsn: `https://${publicKey}@localhost/${projectId}`,
+		}),
+		JSON.stringify({ type: 'transaction' }),
+		JSON.stringify(transaction),
+	].join('\n');
+
+	return postEnvelope(projectId, publicKey, envelope);
+}
+
+describe('Performance Monitoring', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+	let testProject: Awaited<ReturnType<typeof createTestProject>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `performance-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Performance Test User',
+		});
+		testProject = await createTestProject(testUser.token!, {
+			name: `Performance Test Project ${Date.now()}`,
+		});
+
+		// 20 samples for GET /api/users: 10ms, 20ms, ..., 200ms
+		for (let i = 1; i <= 20; i++) {
+			await sendTransaction(
+				testProject.id,
+				testProject.publicKey,
+				createTestTransaction('GET /api/users', i * 10, {
+					status: i === 20 ? 'internal_error' : 'ok',
+				}),
+			);
+		}
+		await sendTransaction(
+			testProject.id,
+			testProject.publicKey,
+			createTestTransaction('GET /api/slow', 5000),
+		);
+	});
+
+	it('should not create issues for transactions', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/issues`,
+		);
+		const data = (await response.json()) as { issues: unknown[] };
+
+		expect(data.issues).toEqual([]);
+	});
+
+	it('should compute duration percentiles per transaction name', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance`,
+		);
+
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as { transactions: TransactionSummary[] };
+
+		const users = data.transactions.find((t) => t.name === 'GET /api/users')!;
+		expect(users.count).toBe(20);
+		expect(users.failureCount).toBe(1);
+		expect(users.avgDuration).toBeCloseTo(105, 0);
+		expect(users.p50).toBeCloseTo(100, 0);
+		expect(users.p75).toBeCloseTo(150, 0);
+		expect(users.p95).toBeCloseTo(190, 0);
+		expect(users.p99).toBeCloseTo(200, 0);
+	});
+
+	it('should order endpoints by p95 descending by default', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance`,
+		);
+		const data = (await response.json()) as { transactions: TransactionSummary[] };
+
+		expect(data.transactions.map((t) => t.name)).toEqual(['GET /api/slow', 'GET /api/users']);
+	});
+
+	it('should support sorting by throughput', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance?sort=count`,
+		);
+		const data = (await response.json()) as { transactions: TransactionSummary[] };
+
+		expect(data.transactions[0].name).toBe('GET /api/users');
+	});
+
+	it('should filter by environment', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance?environment=staging`,
+		);
+		const data = (await response.json()) as { transactions: TransactionSummary[] };
+
+		expect(data.transactions).toEqual([]);
+	});
+
+	it('should list the slowest samples for a transaction', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance/transactions?name=${encodeURIComponent('GET /api/users')}&limit=3`,
+		);
+
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as {
+			transactions: Array<{ duration: number; status: string }>;
+		};
+		expect(data.transactions.length).toBe(3);
+		expect(data.transactions[0].duration).toBeCloseTo(200, 0);
+		expect(data.transactions[0].status).toBe('internal_error');
+		expect(data.transactions[1].duration).toBeCloseTo(190, 0);
+	});
+
+	it('should require a name when listing samples', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance/transactions`,
+		);
+
+		expect(response.status).toBe(400);
+	});
+
+	it('should return a transaction with its span tree', async () => {
+		const eventId = crypto.randomUUID().replace(/-/g, '');
+		const start = Date.now() / 1000 - 30;
+		const transaction = createTestTransaction('POST /api/orders', 300, {
+			eventId,
+			spans: [
+				{
+					span_id: 'db00000000000000',
+					parent_span_id: 'root000000000000',
+					op: 'db.query',
+					start_timestamp: start + 0.01,
+					timestamp: start + 0.11,
+				},
+				{
+					span_id: 'http000000000000',
+					parent_span_id: 'root000000000000',
+					op: 'http.client',
+					start_timestamp: new Date((start + 0.12) * 1000).toISOString(),
+					timestamp: new Date((start + 0.28) * 1000).toISOString(),
+				},
+				{
+					span_id: 'dns0000000000000',
+					parent_span_id: 'http000000000000',
+					op: 'dns',
+					start_timestamp: start + 0.12,
+					timestamp: start + 0.13,
+				},
+				{
+					span_id: 'orphan0000000000',
+					parent_span_id: 'missing000000000',
+					op: 'cache.get',
+					start_timestamp: start + 0.29,
+					timestamp: start + 0.295,
+				},
+			],
+		});
+		await sendTransaction(testProject.id, testProject.publicKey, transaction);
+
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance/transactions/${eventId}`,
+		);
+
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as {
+			transaction: { name: string; spanCount: number };
+			spanTree: SpanNode;
+		};
+		expect(data.transaction.name).toBe('POST /api/orders');
+		expect(data.transaction.spanCount).toBe(4);
+
+		const root = data.spanTree;
+		expect(root.op).toBe('http.server');
+		expect(root.children.map((c) => c.op)).toEqual(['db.query', 'http.client', 'cache.get']);
+		expect(root.children[0].duration).toBeCloseTo(100, 0);
+		expect(root.children[1].children.map((c) => c.op)).toEqual(['dns']);
+	});
+
+	it('should count a retried transaction once', async () => {
+		const project = await createTestProject(testUser.token!, {
+			name: `Performance Retry Project ${Date.now()}`,
+		});
+		const transaction = createTestTransaction('GET /api/retried', 50);
+		for (let i = 0; i < 2; i++) {
+			const response = await sendTransaction(project.id, project.publicKey, transaction);
+			expect(response.status).toBe(200);
+		}
+
+		const performance = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/performance`,
+		);
+		const { transactions } = (await performance.json()) as { transactions: TransactionSummary[] };
+		expect(transactions.map((t) => [t.name, t.count])).toEqual([['GET /api/retried', 1]]);
+
+		const rateLimit = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/rate-limit`,
+		);
+		expect(((await rateLimit.json()) as { currentHourCount: number }).currentHourCount).toBe(1);
+
+		const outcomes = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/stats/outcomes`,
+		);
+		expect(((await outcomes.json()) as { totals: { accepted: number } }).totals.accepted).toBe(1);
+	});
+
+	it('should drop transactions with out-of-range timestamps and keep ones with such spans', async () => {
+		const invalid = createTestTransaction('GET /far-future', 100);
+		const response = await sendTransaction(testProject.id, testProject.publicKey, {
+			...invalid,
+			start_timestamp: 1e20,
+		});
+		expect(response.status).toBe(200);
+
+		const withSpan = createTestTransaction('GET /far-future-span', 100, {
+			spans: [{ span_id: 'future0000000000', op: 'db', start_timestamp: 1e20, timestamp: 1e20 }],
+		});
+		await sendTransaction(testProject.id, testProject.publicKey, withSpan);
+
+		const summaries = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance`,
+		);
+		const { transactions } = (await summaries.json()) as { transactions: TransactionSummary[] };
+		const names = transactions.map((t) => t.name);
+		expect(names).not.toContain('GET /far-future');
+		expect(names).toContain('GET /far-future-span');
+
+		const detail = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance/transactions/${withSpan.event_id}`,
+		);
+		expect(detail.status).toBe(200);
+	});
+
+	it('should return 404 for unknown transactions', async () => {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${testProject.slug}/performance/transactions/nonexistent`,
+		);
+
+		expect(response.status).toBe(404);
+	});
+
+	it('should require authentication', async () => {
+		const response = await SELF.fetch(
+			`http://localhost/api/projects/${testProject.slug}/performance`,
+		);
+
+		expect(response.status).toBe(401);
+	});
+});
@@ -0,0 +1,366 @@
+import {
+	createExecutionContext,
+	createMessageBatch,
+	env,
+	getQueueResult,
+	waitOnExecutionContext,
+} from 'cloudflare:test';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { workersSentinel } from '../src/index';
+import { emptyEnvelopeContents } from '../src/ingest';
+import { handleQueue } from '../src/queue';
+import type { ClientKey, Env, IngestMessage, Issue, SentryEvent } from '../src/types';
+import {
+	authFetch,
+	createTestEnvelope,
+	createTestProject,
+	createTestUser,
+	seedSpikeHistory,
+	waitFor,
+} from './utils';
+
+function queueEvent(message: string): SentryEvent {
+	return {
+		event_id: crypto.randomUUID().replace(/-/g, ''),
+		timestamp: new Date().toISOString(),
+		platform: 'javascript',
+		level: 'error',
+		message,
+	};
+}
+
+describe('Queue Ingestion', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+	let project: Awaited<ReturnType<typeof createTestProject>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `queue-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Queue Test User',
+		});
+		project = await createTestProject(testUser.token!, { name: `Queue ${Date.now()}` });
+	});
+
+	async function listIssues(): Promise<Issue[]> {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/issues`,
+		);
+		const data = (await response.json()) as { issues: Issue[] };
+		return data.issues;
+	}
+
+	function message(body: IngestMessage) {
+		return { id: crypto.randomUUID(), timestamp: new Date(), attempts: 1, body };
+	}
+
+	function eventsMessage(events: SentryEvent[], publicKey = project.publicKey) {
+		return message({
+			projectId: project.id,
+			publicKey,
+			contents: { ...emptyEnvelopeContents(), events },
+		});
+	}
+
+	it('should enqueue envelope events and ingest them in the consumer', async () => {
+		const worker = workersSentinel({ queue: true });
+		const sent: IngestMessage[] = [];
+		const queue = {
+			send(body: IngestMessage) {
+				sent.push(body);
+				return env.TEST_INGEST_QUEUE.send(body);
+			},
+		} as Queue<IngestMessage>;
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new Request(`http://localhost/api/${project.id}/envelope/`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/x-sentry-envelope',
+					'X-Sentry-Auth': `Sentry sentry_key=${project.publicKey}`,
+				},
+				body: createTestEnvelope(project.id, project.publicKey, { message: 'Queued error' }),
+			}),
+			{ ...env, INGEST_QUEUE: queue },
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as { id: string };
+		expect(sent).toHaveLength(1);
+		expect(sent[0]).toMatchObject({
+			projectId: project.id,
+			contents: { events: [{ event_id: data.id }] },
+		});
+
+		// The local queue delivers the message to the exported queue() handler
+		await waitFor(async () => (await listIssues()).some((i) => i.title === 'Queued error'));
+	});
+
+	it('should store queued attachments once their event is written', async () => {
+		const worker = workersSentinel({ queue: true });
+		const sent: IngestMessage[] = [];
+		const queue = {
+			async send(body: IngestMessage) {
+				sent.push(body);
+			},
+		} as Queue<IngestMessage>;
+		const eventId = crypto.randomUUID().replace(/-/g, '');
+		const content = 'queued log line';
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new Request(`http://localhost/api/${project.id}/envelope/`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/x-sentry-envelope',
+					'X-Sentry-Auth': `Sentry sentry_key=${project.publicKey}`,
+				},
+				body: [
+					JSON.stringify({ event_id: eventId }),
+					JSON.stringify({ type: 'event' }),
+					JSON.stringify({ ...queueEvent('Queued error with attachment'), event_id: eventId }),
+					JSON.stringify({
+						type: 'attachment',
+						length: content.length,
+						filename: 'queued.txt',
+						content_type: 'text/plain',
+					}),
+					content,
+				].join('\n'),
+			}),
+			{ ...env, INGEST_QUEUE: queue },
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		expect(response.status).toBe(200);
+		expect(sent[0].contents.attachments).toMatchObject([{ eventId, filename: 'queued.txt' }]);
+
+		const batch = createMessageBatch<IngestMessage>('sentinel-ingest', sent.map(message));
+		const consumerCtx = createExecutionContext();
+		await handleQueue(batch, env, consumerCtx);
+		await getQueueResult(batch, consumerCtx);
+
+		const attachments = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/events/${eventId}/attachments`,
+		);
+		const data = (await attachments.json()) as { attachments: Array<{ filename: string }> };
+		expect(data.attachments.map((a) => a.filename)).toEqual(['queued.txt']);
+	});
+
+	it('should send the spike webhook from the consumer', async () => {
+		const spiking = await createTestProject(testUser.token!, { name: `Queue Spike ${Date.now()}` });
+		await authFetch(testUser.token!, `http://localhost/api/projects/${spiking.slug}`, {
+			method: 'PATCH',
+			body: JSON.stringify({
+				webhookUrl: 'https://hooks.example.com/spike',
+				spikeProtection: { enabled: true, multiplier: 10, ceiling: 2 },
+			}),
+		});
+
+		// Spike protection only applies once the project has a day of history
+		await seedSpikeHistory(spiking.id, 1);
+
+		const fetchSpy = vi
+			.spyOn(globalThis, 'fetch')
+			.mockImplementation(async () => new Response('ok'));
+		try {
+			const ctx = createExecutionContext();
+			const batch = createMessageBatch<IngestMessage>('sentinel-ingest', [
+				message({
+					projectId: spiking.id,
+					publicKey: spiking.publicKey,
+					contents: {
+						...emptyEnvelopeContents(),
+						events: Array.from({ length: 4 }, () => queueEvent('Spiking error')),
+					},
+				}),
+			]);
+			await handleQueue(batch, env, ctx);
+			await waitOnExecutionContext(ctx);
+
+			const spikePayloads = fetchSpy.mock.calls
+				.map(([, init]) => JSON.parse(init?.body as string))
+				.filter((payload) => payload.spike);
+			expect(fetchSpy).toHaveBeenCalledWith('https://hooks.example.com/spike', expect.anything());
+			expect(spikePayloads).toHaveLength(1);
+			expect(spikePayloads[0].spike).toMatchObject({ ceiling: 2 });
+		} finally {
+			fetchSpy.mockRestore();
+		}
+	});
+
+	it('should batch-write messages per project and ack them', async () => {
+		const ctx = createExecutionContext();
+		const first = eventsMessage([queueEvent('Consumer batch error')]);
+		const second = eventsMessage([
+			queueEvent('Consumer batch error'),
+			queueEvent('Consumer batch error'),
+		]);
+		const batch = createMessageBatch<IngestMessage>('sentinel-ingest', [first, second]);
+
+		await handleQueue(batch, env, ctx);
+		const result = await getQueueResult(batch, ctx);
+
+		expect(result.explicitAcks.sort()).toEqual([first.id, second.id].sort());
+		expect(result.retryMessages).toEqual([]);
+
+		const issue = (await listIssues()).find((i) => i.title === 'Consumer batch error');
+		expect(issue?.count).toBe(3);
+	});
+
+	it('should drop messages for unknown projects', async () => {
+		const ctx = createExecutionContext();
+		const unknown = message({
+			projectId: 'missing-project',
+			publicKey: 'missing-key',
+			contents: { ...emptyEnvelopeContents(), events: [queueEvent('Never stored')] },
+		});
+		const batch = createMessageBatch<IngestMessage>('sentinel-ingest', [unknown]);
+
+		await handleQueue(batch, env, ctx);
+		const result = await getQueueResult(batch, ctx);
+
+		expect(result.explicitAcks).toEqual([unknown.id]);
+		expect(result.retryMessages).toEqual([]);
+	});
+
+	it('should drop messages sent through a revoked key', async () => {
+		const keysUrl = `http://localhost/api/projects/${project.slug}/keys`;
+		async function createKey(name: string): Promise<ClientKey> {
+			const response = await authFetch(testUser.token!, keysUrl, {
+				method: 'POST',
+				body: JSON.stringify({ name }),
+			});
+			return ((await response.json()) as { key: ClientKey }).key;
+		}
+		const valid = await createKey('Queue valid');
+		const revoked = await createKey('Queue revoked');
+		await authFetch(testUser.token!, `${keysUrl}/${revoked.id}`, { method: 'DELETE' });
+
+		const ctx = createExecutionContext();
+		const kept = eventsMessage([queueEvent('Valid key error')], valid.publicKey);
+		const leaked = eventsMessage([queueEvent('Revoked key error')], revoked.publicKey);
+		const batch = createMessageBatch<IngestMessage>('sentinel-ingest', [leaked, kept]);
+
+		await handleQueue(batch, env, ctx);
+		const result = await getQueueResult(batch, ctx);
+
+		expect(result.explicitAcks.sort()).toEqual([kept.id, leaked.id].sort());
+		expect(result.retryMessages).toEqual([]);
+
+		const titles = (await listIssues()).map((i) => i.title);
+		expect(titles).toContain('Valid key error');
+		expect(titles).not.toContain('Revoked key error');
+
+		// Re-checking the key in the consumer does not count as using it
+		const response = await authFetch(testUser.token!, keysUrl);
+		const { keys } = (await response.json()) as { keys: ClientKey[] };
+		expect(keys.find((k) => k.id === valid.id)?.lastUsedAt).toBeNull();
+	});
+
+	it('should retry messages when the write fails', async () => {
+		const ctx = createExecutionContext();
+		const failing = eventsMessage([queueEvent('Retried later')]);
+		const batch = createMessageBatch<IngestMessage>('sentinel-ingest', [failing]);
+		const unavailable = {
+			...env,
+			PROJECT_STATE: {
+				idFromName() {
+					throw new Error('ProjectState unavailable');
+				},
+			},
+		} as unknown as Env;
+
+		await handleQueue(batch, unavailable, ctx);
+		const result = await getQueueResult(batch, ctx);
+
+		expect(result.explicitAcks).toEqual([]);
+		expect(result.retryMessages).toEqual([{ msgId: failing.id }]);
+	});
+
+	it('should answer queued envelopes without calling ProjectState', async () => {
+		const worker = workersSentinel({ queue: true });
+		const sent: IngestMessage[] = [];
+		const queue = {
+			async send(body: IngestMessage) {
+				sent.push(body);
+			},
+		} as Queue<IngestMessage>;
+		const unavailable = {
+			...env,
+			PROJECT_STATE: {
+				idFromName: () => 'project',
+				get: () =>
+					new Proxy(
+						{},
+						{
+							get() {
+								throw new Error('ProjectState called on the request path');
+							},
+						},
+					),
+			},
+			INGEST_QUEUE: queue,
+		} as unknown as Env;
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(
+			new Request(`http://localhost/api/${project.id}/envelope/`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/x-sentry-envelope',
+					'X-Sentry-Auth': `Sentry sentry_key=${project.publicKey}`,
+				},
+				body: [
+					JSON.stringify({}),
+					JSON.stringify({ type: 'log', item_count: 1 }),
+					JSON.stringify({
+						items: [{ timestamp: Date.now() / 1000, level: 'info', body: 'Queued log line' }],
+					}),
+				].join('\n'),
+			}),
+			unavailable,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+		expect(response.status).toBe(200);
+		expect(sent).toHaveLength(1);
+		expect(sent[0].contents.logs).toHaveLength(1);
+
+		const batch = createMessageBatch<IngestMessage>('sentinel-ingest', sent.map(message));
+		const consumerCtx = createExecutionContext();
+		await handleQueue(batch, env, consumerCtx);
+		const result = await getQueueResult(batch, consumerCtx);
+		expect(result.retryMessages).toEqual([]);
+
+		const logs = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/logs`,
+		);
+		const data = (await logs.json()) as { logs: Array<{ body: string }> };
+		expect(data.logs.map((l) => l.body)).toContain('Queued log line');
+	});
+
+	it('should retry messages without acking them when the batch is rejected', async () => {
+		const ctx = createExecutionContext();
+		const rejected = eventsMessage([queueEvent('Rejected batch')]);
+		const batch = createMessageBatch<IngestMessage>('sentinel-ingest', [rejected]);
+		const failing = {
+			...env,
+			PROJECT_STATE: {
+				idFromName: () => 'project',
+				get: () => ({
+					ingestBatch: async () => ({ ok: false, status: 500, error: { error: 'unavailable' } }),
+				}),
+			},
+		} as unknown as Env;
+
+		await handleQueue(batch, failing, ctx);
+		const result = await getQueueResult(batch, ctx);
+
+		expect(result.explicitAcks).toEqual([]);
+		expect(result.retryMessages).toEqual([{ msgId: rejected.id }]);
+	});
+});
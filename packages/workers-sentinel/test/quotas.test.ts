@@ -0,0 +1,267 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { formatRateLimits, rateLimitHeaders } from '../src/lib/rate-limits';
+import {
+	authFetch,
+	createTestProject,
+	createTestSession,
+	createTestTransaction,
+	createTestUser,
+	newEventId,
+	sendEnvelopeItems,
+	sendTestEvent,
+	waitFor,
+} from './utils';
+
+interface QuotaStatus {
+	category: string;
+	hourly: { limit: number; used: number };
+	daily: { limit: number; used: number };
+}
+
+describe('Rate limit headers', () => {
+	it('should format limits in the X-Sentry-Rate-Limits syntax', () => {
+		expect(
+			formatRateLimits([
+				{ categories: ['error', 'transaction'], retryAfter: 60, reasonCode: 'project_quota' },
+				{ categories: ['session'], retryAfter: 3600, reasonCode: 'daily_quota' },
+			]),
+		).toBe('60:error;transaction:project:project_quota, 3600:session:project:daily_quota');
+	});
+
+	it('should drop duplicate limits', () => {
+		const limit = {
+			categories: ['attachment' as const],
+			retryAfter: 30,
+			reasonCode: 'hourly_quota',
+		};
+		expect(formatRateLimits([limit, limit])).toBe('30:attachment:project:hourly_quota');
+	});
+
+	it('should use the longest wait for Retry-After', () => {
+		const headers = rateLimitHeaders([
+			{ categories: ['error'], retryAfter: 10, reasonCode: 'hourly_quota' },
+			{ categories: ['session'], retryAfter: 90, reasonCode: 'daily_quota' },
+		]);
+		expect(headers['Retry-After']).toBe('90');
+		expect(rateLimitHeaders([])).toEqual({});
+	});
+});
+
+describe('Per-category quotas', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `quota-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Quota Test User',
+		});
+	});
+
+	async function setQuotas(slug: string, quotas: unknown): Promise<Response> {
+		return authFetch(testUser.token!, `http://localhost/api/projects/${slug}`, {
+			method: 'PATCH',
+			body: JSON.stringify({ quotas }),
+		});
+	}
+
+	async function getQuotas(slug: string): Promise<QuotaStatus[]> {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${slug}/rate-limit`,
+		);
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as { quotas: QuotaStatus[] };
+		return data.quotas;
+	}
+
+	describe('Config', () => {
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			project = await createTestProject(testUser.token!, { name: `Quota Config ${Date.now()}` });
+		});
+
+		it('should default every category to unlimited', async () => {
+			const quotas = await getQuotas(project.slug);
+			expect(quotas.map((q) => q.category)).toEqual([
+				'error',
+				'transaction',
+				'session',
+				'attachment',
+			]);
+			for (const quota of quotas) {
+				expect(quota.hourly.limit).toBe(0);
+				expect(quota.daily.limit).toBe(0);
+			}
+		});
+
+		it('should store hourly and daily quotas separately', async () => {
+			const response = await setQuotas(project.slug, {
+				transaction: { hourly: 100 },
+				session: { daily: 5000 },
+			});
+			expect(response.status).toBe(200);
+
+			const quotas = await getQuotas(project.slug);
+			const transaction = quotas.find((q) => q.category === 'transaction')!;
+			const sessionQuota = quotas.find((q) => q.category === 'session')!;
+			expect(transaction.hourly.limit).toBe(100);
+			expect(transaction.daily.limit).toBe(0);
+			expect(sessionQuota.daily.limit).toBe(5000);
+		});
+
+		it('should reject unknown categories', async () => {
+			const response = await setQuotas(project.slug, { replay: { hourly: 10 } });
+			expect(response.status).toBe(400);
+			const data = (await response.json()) as { error: string };
+			expect(data.error).toBe('invalid_category');
+		});
+
+		it('should reject negative values without applying any change', async () => {
+			const response = await setQuotas(project.slug, {
+				error: { hourly: 10 },
+				attachment: { daily: -1 },
+			});
+			expect(response.status).toBe(400);
+
+			const quotas = await getQuotas(project.slug);
+			expect(quotas.find((q) => q.category === 'error')!.hourly.limit).toBe(0);
+		});
+	});
+
+	describe('Enforcement', () => {
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			project = await createTestProject(testUser.token!, { name: `Quota Enforce ${Date.now()}` });
+			await setQuotas(project.slug, {
+				transaction: { hourly: 1 },
+				session: { daily: 1 },
+			});
+		});
+
+		it('should reject transactions over the hourly quota with rate limit headers', async () => {
+			const first = await sendEnvelopeItems(project.id, project.publicKey, [
+				{ type: 'transaction', payload: createTestTransaction('GET /quota') },
+			]);
+			expect(first.status).toBe(200);
+
+			const second = await sendEnvelopeItems(project.id, project.publicKey, [
+				{ type: 'transaction', payload: createTestTransaction('GET /quota') },
+			]);
+			expect(second.status).toBe(429);
+			expect(Number(second.headers.get('Retry-After'))).toBeGreaterThan(0);
+			expect(second.headers.get('X-Sentry-Rate-Limits')).toMatch(
+				/^\d+:transaction:project:hourly_quota$/,
+			);
+		});
+
+		it('should still accept errors when only transactions are limited', async () => {
+			const result = await sendTestEvent(project.id, project.publicKey, {
+				exception: { type: 'QuotaError', value: 'errors are not limited' },
+			});
+			expect(result.id).toBeTruthy();
+		});
+
+		it('should advertise exhausted session quotas on an accepted request', async () => {
+			const first = await sendEnvelopeItems(project.id, project.publicKey, [
+				{ type: 'session', payload: createTestSession({ release: 'quota@1.0.0' }) },
+			]);
+			expect(first.status).toBe(200);
+			expect(first.headers.get('X-Sentry-Rate-Limits')).toBeNull();
+
+			const second = await sendEnvelopeItems(project.id, project.publicKey, [
+				{ type: 'session', payload: createTestSession({ release: 'quota@1.0.0' }) },
+			]);
+			expect(second.status).toBe(200);
+			expect(second.headers.get('X-Sentry-Rate-Limits')).toMatch(
+				/^\d+:session:project:daily_quota$/,
+			);
+		});
+
+		it('should report quota usage', async () => {
+			const quotas = await getQuotas(project.slug);
+			expect(quotas.find((q) => q.category === 'transaction')!.hourly.used).toBe(1);
+			expect(quotas.find((q) => q.category === 'session')!.daily.used).toBe(1);
+		});
+
+		it('should record quota drops as rate limited outcomes', async () => {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/stats/outcomes`,
+			);
+			expect(response.status).toBe(200);
+			const body = await response.text();
+			expect(body).toContain('hourly_quota');
+			expect(body).toContain('daily_quota');
+		});
+	});
+
+	describe('Partially limited envelopes', () => {
+		it('should store the rest of an envelope whose events are over the quota', async () => {
+			const project = await createTestProject(testUser.token!, {
+				name: `Quota Partial ${Date.now()}`,
+			});
+			await setQuotas(project.slug, { error: { hourly: 1 } });
+			await authFetch(testUser.token!, `http://localhost/api/projects/${project.slug}`, {
+				method: 'PATCH',
+				body: JSON.stringify({ webhookUrl: 'https://hooks.example.com/partial' }),
+			});
+
+			const limitedEventId = newEventId();
+			const event = (eventId: string, message: string) => ({
+				event_id: eventId,
+				timestamp: new Date().toISOString(),
+				level: 'error',
+				message,
+			});
+
+			const fetchSpy = vi
+				.spyOn(globalThis, 'fetch')
+				.mockImplementation(async () => new Response('ok'));
+			try {
+				const response = await sendEnvelopeItems(
+					project.id,
+					project.publicKey,
+					[
+						{ type: 'event', payload: event(newEventId(), 'Accepted partial error') },
+						{ type: 'event', payload: event(limitedEventId, 'Limited partial error') },
+						{ type: 'transaction', payload: createTestTransaction('GET /partial') },
+						{ type: 'attachment', headers: { filename: 'limited.txt' }, payload: 'dropped' },
+					],
+					{ event_id: limitedEventId },
+				);
+				expect(response.status).toBe(429);
+				expect(response.headers.get('X-Sentry-Rate-Limits')).toMatch(
+					/^\d+:error:project:hourly_quota$/,
+				);
+
+				// The accepted event still opens its issue and sends the new issue webhook
+				await waitFor(async () =>
+					fetchSpy.mock.calls.some(([url]) => url === 'https://hooks.example.com/partial'),
+				);
+			} finally {
+				fetchSpy.mockRestore();
+			}
+
+			const quotas = await getQuotas(project.slug);
+			expect(quotas.find((q) => q.category === 'transaction')!.hourly.used).toBe(1);
+
+			const outcomes = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/stats/outcomes`,
+			);
+			const { reasons } = (await outcomes.json()) as {
+				reasons: Array<{ outcome: string; category: string; reason: string | null }>;
+			};
+			expect(reasons).toContainEqual(
+				expect.objectContaining({
+					outcome: 'rate_limited',
+					category: 'attachment',
+					reason: 'hourly_quota',
+				}),
+			);
+		});
+	});
+});
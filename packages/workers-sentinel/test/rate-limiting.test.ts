@@ -131,6 +131,9 @@ describe('Rate Limiting', () => {
 
 			expect(response.status).toBe(429);
 			expect(response.headers.get('Retry-After')).toBeTruthy();
+			expect(response.headers.get('X-Sentry-Rate-Limits')).toMatch(
+				/^\d+:error;transaction:project:project_quota$/,
+			);
 			const data = (await response.json()) as { error: string };
 			expect(data.error).toBe('rate_limited');
 		});
@@ -0,0 +1,169 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+	authFetch,
+	createTestProject,
+	createTestSession,
+	createTestUser,
+	sendEnvelopeItems,
+	sendTestEvent,
+} from './utils';
+
+interface HealthStats {
+	sessions: {
+		total: number;
+		crashed: number;
+		errored: number;
+		abnormal: number;
+		crashFreeRate: number | null;
+	};
+	users: { total: number; crashed: number; crashFreeRate: number | null };
+}
+
+interface ReleaseHealthResponse {
+	release: { version: string; eventCount: number };
+	health: HealthStats & { environments: Array<HealthStats & { environment: string | null }> };
+}
+
+describe('Release Health', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `release-health-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Release Health Test User',
+		});
+	});
+
+	async function getRelease(slug: string, version: string): Promise<ReleaseHealthResponse> {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${slug}/releases/${encodeURIComponent(version)}`,
+		);
+		expect(response.status).toBe(200);
+		return response.json() as Promise<ReleaseHealthResponse>;
+	}
+
+	it('should compute crash-free session and user rates from session updates', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Health Sessions Project' });
+
+		const response = await sendEnvelopeItems(project.id, project.publicKey, [
+			{ type: 'session', payload: createTestSession({ did: 'user-a', status: 'exited' }) },
+			{
+				type: 'session',
+				payload: createTestSession({ did: 'user-a', status: 'exited', errors: 2 }),
+			},
+			{
+				type: 'session',
+				payload: createTestSession({ did: 'user-b', status: 'crashed', errors: 1 }),
+			},
+			{ type: 'session', payload: createTestSession({ did: 'user-c', status: 'abnormal' }) },
+		]);
+		expect(response.status).toBe(200);
+
+		const data = await getRelease(project.slug, 'app@1.0.0');
+
+		expect(data.release.eventCount).toBe(0);
+		expect(data.health.sessions.total).toBe(4);
+		expect(data.health.sessions.crashed).toBe(1);
+		expect(data.health.sessions.errored).toBe(1);
+		expect(data.health.sessions.abnormal).toBe(1);
+		expect(data.health.sessions.crashFreeRate).toBe(75);
+		expect(data.health.users.total).toBe(3);
+		expect(data.health.users.crashed).toBe(1);
+		expect(data.health.users.crashFreeRate).toBe(66.67);
+	});
+
+	it('should apply session updates by sequence number', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Health Seq Project' });
+		const sid = crypto.randomUUID();
+
+		await sendEnvelopeItems(project.id, project.publicKey, [
+			{ type: 'session', payload: createTestSession({ sid, seq: 1 }) },
+		]);
+		await sendEnvelopeItems(project.id, project.publicKey, [
+			{ type: 'session', payload: createTestSession({ sid, seq: 3, status: 'crashed' }) },
+		]);
+		// Stale update arriving late must not overwrite the crash
+		await sendEnvelopeItems(project.id, project.publicKey, [
+			{ type: 'session', payload: createTestSession({ sid, seq: 2, status: 'ok' }) },
+		]);
+
+		const data = await getRelease(project.slug, 'app@1.0.0');
+
+		expect(data.health.sessions.total).toBe(1);
+		expect(data.health.sessions.crashed).toBe(1);
+		expect(data.health.sessions.crashFreeRate).toBe(0);
+	});
+
+	it('should combine aggregated sessions with per-environment breakdown', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Health Aggregates Project' });
+		const started = new Date().toISOString();
+
+		await sendEnvelopeItems(project.id, project.publicKey, [
+			{
+				type: 'sessions',
+				payload: {
+					aggregates: [
+						{ started, exited: 90, errored: 5, crashed: 5 },
+						{ started, did: 'user-x', crashed: 1 },
+					],
+					attrs: { release: 'api@2.0.0', environment: 'production' },
+				},
+			},
+			{
+				type: 'sessions',
+				payload: {
+					aggregates: [{ started, exited: 10 }],
+					attrs: { release: 'api@2.0.0', environment: 'staging' },
+				},
+			},
+		]);
+
+		const data = await getRelease(project.slug, 'api@2.0.0');
+
+		expect(data.health.sessions.total).toBe(111);
+		expect(data.health.sessions.crashed).toBe(6);
+		expect(data.health.users.total).toBe(1);
+		expect(data.health.users.crashed).toBe(1);
+
+		const production = data.health.environments.find((e) => e.environment === 'production');
+		const staging = data.health.environments.find((e) => e.environment === 'staging');
+		expect(production?.sessions.total).toBe(101);
+		expect(production?.sessions.crashed).toBe(6);
+		expect(staging?.sessions.total).toBe(10);
+		expect(staging?.sessions.crashFreeRate).toBe(100);
+	});
+
+	it('should report null rates for a release without sessions', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Health Empty Project' });
+
+		await sendTestEvent(project.id, project.publicKey, {
+			exception: { type: 'Error', value: 'no sessions here' },
+			release: 'web@3.0.0',
+		});
+
+		const data = await getRelease(project.slug, 'web@3.0.0');
+
+		expect(data.health.sessions.total).toBe(0);
+		expect(data.health.sessions.crashFreeRate).toBeNull();
+		expect(data.health.users.crashFreeRate).toBeNull();
+		expect(data.health.environments).toEqual([]);
+	});
+
+	it('should ignore sessions without a release', async () => {
+		const project = await createTestProject(testUser.token!, { name: 'Health No Release Project' });
+
+		const response = await sendEnvelopeItems(project.id, project.publicKey, [
+			{ type: 'session', payload: { sid: crypto.randomUUID(), status: 'ok', attrs: {} } },
+		]);
+		expect(response.status).toBe(200);
+
+		const releasesResponse = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}/releases`,
+		);
+		const data = (await releasesResponse.json()) as { releases: unknown[] };
+		expect(data.releases).toEqual([]);
+	});
+});
@@ -0,0 +1,140 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { Replay } from '../src/types';
+import { authFetch, createTestProject, createTestUser, postEnvelope } from './utils';
+
+const encoder = new TextEncoder();
+
+function rrwebEvents(offset: number) {
+	const timestamp = Date.now() + offset;
+	return [
+		{ type: 4, data: { href: 'https://example.com/', width: 800, height: 600 }, timestamp },
+		{ type: 3, data: { source: 1, positions: [] }, timestamp: timestamp + 100 },
+	];
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+	const stream = new Response(bytes).body!.pipeThrough(new CompressionStream('deflate'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function createReplayEnvelope(
+	projectId: string,
+	publicKey: string,
+	options: { replayId: string; segmentId: number; events: unknown[]; compress?: boolean },
+): Promise<Uint8Array> {
+	const now = Date.now() / 1000;
+	const replayEvent = {
+		type: 'replay_event',
+		replay_id: options.replayId,
+		segment_id: options.segmentId,
+		timestamp: now,
+		replay_start_timestamp: now - 5,
+		replay_type: 'session',
+		urls: ['https://example.com/'],
+		error_ids: options.segmentId === 0 ? ['abc123'] : [],
+		trace_ids: [],
+		environment: 'production',
+		platform: 'javascript',
+	};
+
+	let recording = encoder.encode(JSON.stringify(options.events));
+	if (options.compress) {
+		recording = await deflate(recording);
+	}
+	const payload = new Uint8Array([
+		...encoder.encode(`${JSON.stringify({ segment_id: options.segmentId })}\n`),
+		...recording,
+	]);
+
+	const head = [
+		JSON.stringify({
+			event_id: options.replayId,
+			dsn: `https://${publicKey}@localhost/${projectId}`,
+		}),
+		JSON.stringify({ type: 'replay_event' }),
+		JSON.stringify(replayEvent),
+		JSON.stringify({ type: 'replay_recording', length: payload.length }),
+	].join('\n');
+
+	return new Uint8Array([...encoder.encode(`${head}\n`), ...payload, ...encoder.encode('\n')]);
+}
+
+describe('Session Replays', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+	let project: Awaited<ReturnType<typeof createTestProject>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `replays-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Replays Test User',
+		});
+		project = await createTestProject(testUser.token!, { name: 'Replays Project' });
+	});
+
+	async function sendReplay(options: Parameters<typeof createReplayEnvelope>[2]) {
+		return postEnvelope(
+			project.id,
+			project.publicKey,
+			await createReplayEnvelope(project.id, project.publicKey, options),
+		);
+	}
+
+	function replayUrl(replayId: string, path = ''): string {
+		return `http://localhost/api/projects/${project.slug}/replays/${replayId}${path}`;
+	}
+
+	it('should store replay segments and return their metadata', async () => {
+		const replayId = crypto.randomUUID().replace(/-/g, '');
+
+		expect((await sendReplay({ replayId, segmentId: 0, events: rrwebEvents(0) })).status).toBe(200);
+		expect((await sendReplay({ replayId, segmentId: 1, events: rrwebEvents(1000) })).status).toBe(
+			200,
+		);
+
+		const response = await authFetch(testUser.token!, replayUrl(replayId));
+		expect(response.status).toBe(200);
+		const { replay } = (await response.json()) as { replay: Replay };
+		expect(replay).toMatchObject({
+			id: replayId,
+			replayType: 'session',
+			environment: 'production',
+			urls: ['https://example.com/'],
+			errorIds: ['abc123'],
+			segmentCount: 2,
+		});
+	});
+
+	it('should decode uncompressed and compressed recordings in segment order', async () => {
+		const replayId = crypto.randomUUID().replace(/-/g, '');
+		const first = rrwebEvents(0);
+		const second = rrwebEvents(1000);
+
+		// Segments may arrive out of order
+		await sendReplay({ replayId, segmentId: 1, events: second, compress: true });
+		await sendReplay({ replayId, segmentId: 0, events: first });
+
+		const response = await authFetch(testUser.token!, replayUrl(replayId, '/recording'));
+		expect(response.status).toBe(200);
+		const { events } = (await response.json()) as { events: unknown[] };
+		expect(events).toEqual([...first, ...second]);
+	});
+
+	it('should accept replay IDs with dashes', async () => {
+		const replayId = crypto.randomUUID();
+		await sendReplay({ replayId, segmentId: 0, events: rrwebEvents(0) });
+
+		const response = await authFetch(testUser.token!, replayUrl(replayId));
+		expect(response.status).toBe(200);
+		const { replay } = (await response.json()) as { replay: Replay };
+		expect(replay.id).toBe(replayId.replace(/-/g, ''));
+	});
+
+	it('should return 404 for unknown replays', async () => {
+		const response = await authFetch(testUser.token!, replayUrl('nonexistent'));
+		expect(response.status).toBe(404);
+
+		const recording = await authFetch(testUser.token!, replayUrl('nonexistent', '/recording'));
+		expect(recording.status).toBe(404);
+	});
+});
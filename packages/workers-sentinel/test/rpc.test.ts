@@ -0,0 +1,228 @@
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { SentinelRpc } from '../src/rpc';
+import { authFetch, createTestProject, createTestUser, newEventId } from './utils';
+
+type EnvelopeItem = [Record<string, unknown>, unknown];
+
+describe('RPC Ingestion', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+	let project: Awaited<ReturnType<typeof createTestProject>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `rpc-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'RPC Test User',
+		});
+		project = await createTestProject(testUser.token!, { name: 'RPC Project' });
+	});
+
+	async function capture(items: EnvelopeItem[], header: Record<string, unknown> = {}) {
+		const ctx = createExecutionContext();
+		const rpc = new SentinelRpc(ctx, env);
+		const dsn = `https://${project.publicKey}@localhost/${project.id}`;
+		const result = await rpc.captureEnvelope(dsn, [header, items]);
+		await waitOnExecutionContext(ctx);
+		return result;
+	}
+
+	async function get<T>(path: string): Promise<T> {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${project.slug}${path}`,
+		);
+		expect(response.status).toBe(200);
+		return response.json() as Promise<T>;
+	}
+
+	it('should reject an unknown DSN', async () => {
+		const rpc = new SentinelRpc(createExecutionContext(), env);
+		const result = await rpc.captureEnvelope(`https://unknown@localhost/${project.id}`, [{}, []]);
+		expect(result.status).toBe(401);
+	});
+
+	it('should ingest events', async () => {
+		const eventId = newEventId();
+		const result = await capture([
+			[{ type: 'event' }, { event_id: eventId, message: 'RPC event', level: 'error' }],
+		]);
+		expect(result).toMatchObject({ status: 200, eventId });
+
+		const { event } = await get<{ event: { event_id: string } }>(`/events/${eventId}`);
+		expect(event.event_id).toBe(eventId);
+	});
+
+	it('should ingest transactions', async () => {
+		const eventId = newEventId();
+		const now = Date.now() / 1000;
+		const result = await capture([
+			[
+				{ type: 'transaction' },
+				{
+					event_id: eventId,
+					type: 'transaction',
+					transaction: 'GET /rpc',
+					start_timestamp: now - 0.25,
+					timestamp: now,
+					contexts: {
+						trace: { trace_id: newEventId(), span_id: newEventId().slice(0, 16), op: 'http' },
+					},
+				},
+			],
+		]);
+		expect(result.status).toBe(200);
+
+		await get(`/performance/transactions/${eventId}`);
+	});
+
+	it('should store attachments with their event', async () => {
+		const eventId = newEventId();
+		await capture(
+			[
+				[{ type: 'event' }, { event_id: eventId, message: 'RPC event with attachment' }],
+				[
+					{ type: 'attachment', filename: 'log.txt', content_type: 'text/plain' },
+					'attached log line',
+				],
+			],
+			{ event_id: eventId },
+		);
+
+		const { attachments } = await get<{ attachments: Array<{ filename: string }> }>(
+			`/events/${eventId}/attachments`,
+		);
+		expect(attachments.map((a) => a.filename)).toEqual(['log.txt']);
+	});
+
+	it('should record sessions', async () => {
+		const result = await capture([
+			[
+				{ type: 'session' },
+				{
+					sid: newEventId(),
+					did: 'rpc-user',
+					init: true,
+					started: new Date().toISOString(),
+					status: 'exited',
+					errors: 0,
+					attrs: { release: 'rpc@1.0.0' },
+				},
+			],
+		]);
+		expect(result.status).toBe(200);
+
+		const data = await get<{ health: { sessions: { total: number } } }>('/releases/rpc%401.0.0');
+		expect(data.health.sessions.total).toBe(1);
+	});
+
+	it('should record client reports', async () => {
+		await capture([
+			[
+				{ type: 'client_report' },
+				{
+					timestamp: Date.now() / 1000,
+					discarded_events: [{ reason: 'queue_overflow', category: 'error', quantity: 3 }],
+				},
+			],
+		]);
+
+		const data = await get<{ reasons: unknown[] }>('/stats/outcomes');
+		expect(data.reasons).toContainEqual({
+			outcome: 'client_discard',
+			category: 'error',
+			reason: 'queue_overflow',
+			quantity: 3,
+		});
+	});
+
+	it('should record cron check-ins', async () => {
+		const result = await capture([
+			[
+				{ type: 'check_in' },
+				{
+					check_in_id: newEventId(),
+					monitor_slug: 'rpc-job',
+					status: 'ok',
+					monitor_config: { schedule: { type: 'crontab', value: '0 * * * *' } },
+				},
+			],
+		]);
+		expect(result.status).toBe(200);
+
+		const { checkIns } = await get<{ checkIns: Array<{ status: string }> }>('/monitors/rpc-job');
+		expect(checkIns.map((c) => c.status)).toEqual(['ok']);
+	});
+
+	it('should store feedback and user reports', async () => {
+		await capture([
+			[
+				{ type: 'feedback' },
+				{
+					event_id: newEventId(),
+					contexts: { feedback: { message: 'Sent from the widget over RPC' } },
+				},
+			],
+			[
+				{ type: 'user_report' },
+				{
+					event_id: newEventId(),
+					name: 'Ada',
+					email: 'ada@example.com',
+					comments: 'Legacy RPC report',
+				},
+			],
+		]);
+
+		const { feedback } = await get<{ feedback: Array<{ message: string }> }>('/feedback');
+		expect(feedback.map((f) => f.message).sort()).toEqual([
+			'Legacy RPC report',
+			'Sent from the widget over RPC',
+		]);
+	});
+
+	it('should store logs', async () => {
+		await capture([
+			[
+				{ type: 'log', item_count: 1 },
+				{ items: [{ timestamp: Date.now() / 1000, level: 'info', body: 'RPC log line' }] },
+			],
+		]);
+
+		const { logs } = await get<{ logs: Array<{ body: string }> }>('/logs');
+		expect(logs.map((l) => l.body)).toContain('RPC log line');
+	});
+
+	it('should store replay segments', async () => {
+		const replayId = newEventId();
+		const timestamp = Date.now() / 1000;
+		const recording = `${JSON.stringify({ segment_id: 0 })}\n${JSON.stringify([
+			{
+				type: 4,
+				timestamp: timestamp * 1000,
+				data: { href: 'https://example.com', width: 1, height: 1 },
+			},
+		])}`;
+
+		await capture(
+			[
+				[
+					{ type: 'replay_event' },
+					{
+						type: 'replay_event',
+						replay_id: replayId,
+						segment_id: 0,
+						timestamp,
+						replay_start_timestamp: timestamp,
+						urls: ['https://example.com'],
+					},
+				],
+				[{ type: 'replay_recording' }, recording],
+			],
+			{ event_id: replayId },
+		);
+
+		const { replay } = await get<{ replay: { id: string } }>(`/replays/${replayId}`);
+		expect(replay.id).toBe(replayId);
+	});
+});
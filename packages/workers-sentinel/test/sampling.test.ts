@@ -0,0 +1,259 @@
+import { env, runDurableObjectAlarm } from 'cloudflare:test';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Issue, SamplingRule } from '../src/types';
+import { authFetch, createTestProject, createTestUser, sendTestEvent } from './utils';
+
+describe('Dynamic Sampling', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `sampling-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Sampling Test User',
+		});
+	});
+
+	async function createRule(slug: string, rule: Record<string, unknown>) {
+		return authFetch(testUser.token!, `http://localhost/api/projects/${slug}/sampling-rules`, {
+			method: 'POST',
+			body: JSON.stringify(rule),
+		});
+	}
+
+	async function getRules(slug: string) {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${slug}/sampling-rules`,
+		);
+		return (await response.json()) as {
+			rules: SamplingRule[];
+			effectiveSampleRate: number | null;
+		};
+	}
+
+	async function listIssues(slug: string): Promise<Issue[]> {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${slug}/issues`,
+		);
+		const data = (await response.json()) as { issues: Issue[] };
+		return data.issues;
+	}
+
+	describe('Rule CRUD', () => {
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			project = await createTestProject(testUser.token!, { name: 'Sampling CRUD Project' });
+		});
+
+		it('should create, update and delete a rule', async () => {
+			const created = await createRule(project.slug, {
+				conditionType: 'tag',
+				tagKey: 'browser',
+				value: 'Chrome',
+				sampleRate: 0.25,
+			});
+			expect(created.status).toBe(201);
+			const { rule } = (await created.json()) as { rule: SamplingRule };
+			expect(rule).toMatchObject({
+				conditionType: 'tag',
+				tagKey: 'browser',
+				value: 'Chrome',
+				sampleRate: 0.25,
+				enabled: true,
+				keptCount: 0,
+				droppedCount: 0,
+			});
+
+			const updated = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/sampling-rules/${rule.id}`,
+				{ method: 'PATCH', body: JSON.stringify({ sampleRate: 0.5, enabled: false }) },
+			);
+			expect(updated.status).toBe(200);
+			const updatedData = (await updated.json()) as { rule: SamplingRule };
+			expect(updatedData.rule).toMatchObject({ sampleRate: 0.5, enabled: false });
+
+			const deleted = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/sampling-rules/${rule.id}`,
+				{ method: 'DELETE' },
+			);
+			expect(deleted.status).toBe(200);
+			expect((await getRules(project.slug)).rules).toEqual([]);
+		});
+
+		it('should reject invalid rules', async () => {
+			const invalidRate = await createRule(project.slug, {
+				conditionType: 'environment',
+				value: 'staging',
+				sampleRate: 1.5,
+			});
+			expect(invalidRate.status).toBe(400);
+
+			const invalidType = await createRule(project.slug, {
+				conditionType: 'platform',
+				value: 'javascript',
+				sampleRate: 0.5,
+			});
+			expect(invalidType.status).toBe(400);
+
+			const missingTagKey = await createRule(project.slug, {
+				conditionType: 'tag',
+				value: 'Chrome',
+				sampleRate: 0.5,
+			});
+			expect(missingTagKey.status).toBe(400);
+
+			const missingRule = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/sampling-rules/nonexistent`,
+				{ method: 'DELETE' },
+			);
+			expect(missingRule.status).toBe(404);
+		});
+	});
+
+	describe('Sampling during ingestion', () => {
+		it('should drop matching events at a rate of 0 and keep unmatched ones', async () => {
+			const project = await createTestProject(testUser.token!, { name: 'Sampling Drop Project' });
+			await createRule(project.slug, {
+				conditionType: 'environment',
+				value: 'Staging',
+				sampleRate: 0,
+			});
+
+			// The SDK still gets an event ID for sampled-out events
+			const result = await sendTestEvent(project.id, project.publicKey, {
+				message: 'Staging noise',
+				environment: 'staging',
+			});
+			expect(result.id).toBeDefined();
+			await sendTestEvent(project.id, project.publicKey, {
+				message: 'Production error',
+				environment: 'production',
+			});
+
+			const issues = await listIssues(project.slug);
+			expect(issues.map((i) => i.title)).toEqual(['Production error']);
+			expect(issues[0].count).toBe(1);
+
+			const { rules, effectiveSampleRate } = await getRules(project.slug);
+			expect(rules[0]).toMatchObject({ keptCount: 0, droppedCount: 1 });
+			expect(effectiveSampleRate).toBe(0.5);
+		});
+
+		it('should match tags and use the first matching rule', async () => {
+			const project = await createTestProject(testUser.token!, { name: 'Sampling Tag Project' });
+			await createRule(project.slug, {
+				conditionType: 'tag',
+				tagKey: 'browser',
+				value: 'Chrome',
+				sampleRate: 1,
+			});
+			await createRule(project.slug, { conditionType: 'level', value: 'error', sampleRate: 0 });
+
+			await sendTestEvent(project.id, project.publicKey, {
+				message: 'Chrome error',
+				tags: { browser: 'Chrome' },
+			});
+			await sendTestEvent(project.id, project.publicKey, {
+				message: 'Firefox error',
+				tags: { browser: 'Firefox' },
+			});
+
+			const issues = await listIssues(project.slug);
+			expect(issues.map((i) => i.title)).toEqual(['Chrome error']);
+
+			const { rules } = await getRules(project.slug);
+			expect(rules.map((r) => [r.keptCount, r.droppedCount])).toEqual([
+				[1, 0],
+				[0, 1],
+			]);
+		});
+
+		it('should extrapolate issue counts from kept events', async () => {
+			const project = await createTestProject(testUser.token!, {
+				name: 'Sampling Extrapolation Project',
+			});
+			await createRule(project.slug, {
+				conditionType: 'release',
+				value: 'web@1.0.0',
+				sampleRate: 0.5,
+			});
+
+			for (let i = 0; i < 4; i++) {
+				await sendTestEvent(project.id, project.publicKey, {
+					message: 'Sampled error',
+					release: 'web@1.0.0',
+				});
+			}
+
+			const [rule] = (await getRules(project.slug)).rules;
+			expect(rule.keptCount + rule.droppedCount).toBe(4);
+
+			// Each event kept at 50% stands for two events
+			const issue = (await listIssues(project.slug)).find((i) => i.title === 'Sampled error');
+			expect(issue?.count ?? 0).toBe(rule.keptCount * 2);
+		});
+
+		it('should keep extrapolated counts in releases, merges and retention runs', async () => {
+			const project = await createTestProject(testUser.token!, {
+				name: 'Sampling Weighted Counts Project',
+			});
+			await createRule(project.slug, {
+				conditionType: 'release',
+				value: 'web@2.0.0',
+				sampleRate: 0.5,
+			});
+
+			// Keep every event, so each one stands for exactly two
+			const random = vi.spyOn(Math, 'random').mockReturnValue(0);
+			try {
+				for (const message of ['Weighted error A', 'Weighted error A', 'Weighted error B']) {
+					await sendTestEvent(project.id, project.publicKey, { message, release: 'web@2.0.0' });
+				}
+			} finally {
+				random.mockRestore();
+			}
+
+			const releaseResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/releases/web%402.0.0`,
+			);
+			const release = (await releaseResponse.json()) as {
+				release: { eventCount: number };
+				issues: Array<{ title: string; releaseEventCount: number }>;
+			};
+			expect(release.release.eventCount).toBe(6);
+			expect(release.issues.map((i) => [i.title, i.releaseEventCount]).sort()).toEqual([
+				['Weighted error A', 4],
+				['Weighted error B', 2],
+			]);
+
+			const issues = await listIssues(project.slug);
+			const merged = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues/merge`,
+				{
+					method: 'POST',
+					body: JSON.stringify({
+						primaryIssueId: issues[0].id,
+						issueIds: issues.map((i) => i.id),
+					}),
+				},
+			);
+			const { issue } = (await merged.json()) as { issue: Issue };
+			expect(issue.count).toBe(6);
+
+			await authFetch(testUser.token!, `http://localhost/api/projects/${project.slug}`, {
+				method: 'PATCH',
+				body: JSON.stringify({ retentionDays: 90 }),
+			});
+			await runDurableObjectAlarm(env.PROJECT_STATE.get(env.PROJECT_STATE.idFromName(project.id)));
+			expect((await listIssues(project.slug)).map((i) => i.count)).toEqual([6]);
+		});
+	});
+});
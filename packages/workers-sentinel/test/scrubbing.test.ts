@@ -0,0 +1,268 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { anonymizeIp, DEFAULT_SCRUBBING_RULES, FILTERED, scrubEvent } from '../src/lib/scrubbing';
+import type { SentryEvent } from '../src/types';
+import { authFetch, createTestProject, createTestUser, postEnvelope } from './utils';
+
+function buildEvent(overrides: Partial<SentryEvent> = {}): SentryEvent {
+	return {
+		event_id: crypto.randomUUID().replace(/-/g, ''),
+		timestamp: new Date().toISOString(),
+		platform: 'javascript',
+		level: 'error',
+		exception: {
+			values: [{ type: 'ScrubError', value: `Scrub test ${crypto.randomUUID()}` }],
+		},
+		...overrides,
+	};
+}
+
+async function sendEvent(projectId: string, publicKey: string, event: SentryEvent) {
+	const envelope = [
+		JSON.stringify({
+			event_id: event.event_id,
+			dsn: `https://${publicKey}@localhost/${projectId}`,
+		}),
+		JSON.stringify({ type: 'event' }),
+		JSON.stringify(event),
+	].join('\n');
+
+	const response = await postEnvelope(projectId, publicKey, envelope);
+	expect(response.status).toBe(200);
+}
+
+describe('Data Scrubbing', () => {
+	describe('scrubEvent', () => {
+		it('should filter default sensitive keys at any depth', async () => {
+			const event = await scrubEvent(
+				buildEvent({
+					request: {
+						url: 'https://example.com/login',
+						headers: { Authorization: 'Bearer abc', Cookie: 'sid=1', 'X-Api-Key': 'k' },
+						data: { username: 'jane', password: 'hunter2' },
+					},
+					extra: { nested: { client_secret: 's3cr3t', count: 3 } },
+				}),
+				DEFAULT_SCRUBBING_RULES,
+			);
+
+			expect(event.request?.headers).toEqual({
+				Authorization: FILTERED,
+				Cookie: FILTERED,
+				'X-Api-Key': FILTERED,
+			});
+			expect(event.request?.data).toEqual({ username: 'jane', password: FILTERED });
+			expect(event.extra).toEqual({ nested: { client_secret: FILTERED, count: 3 } });
+		});
+
+		it('should scrub sensitive query string parameters', async () => {
+			const event = await scrubEvent(
+				buildEvent({ request: { query_string: 'page=2&access_token=xyz' } }),
+				DEFAULT_SCRUBBING_RULES,
+			);
+			expect(event.request?.query_string).toBe(`page=2&access_token=${FILTERED}`);
+		});
+
+		it('should replace credit card numbers in string values', async () => {
+			const event = await scrubEvent(
+				buildEvent({ message: 'Charge failed for 4111 1111 1111 1111' }),
+				DEFAULT_SCRUBBING_RULES,
+			);
+			expect(event.message).toBe(`Charge failed for ${FILTERED}`);
+		});
+
+		it('should keep numbers that fail the Luhn check', async () => {
+			const event = await scrubEvent(
+				buildEvent({ message: 'Job 1700000000123 failed after 4111 1111 1111 1112' }),
+				DEFAULT_SCRUBBING_RULES,
+			);
+			expect(event.message).toBe('Job 1700000000123 failed after 4111 1111 1111 1112');
+		});
+
+		it('should keep identifiers untouched', async () => {
+			const original = buildEvent({ release: '1234567890123456' });
+			const event = await scrubEvent(original, DEFAULT_SCRUBBING_RULES);
+			expect(event.event_id).toBe(original.event_id);
+			expect(event.release).toBe('1234567890123456');
+		});
+
+		it('should apply custom keys and patterns', async () => {
+			const event = await scrubEvent(
+				buildEvent({
+					message: 'Order placed by jane@example.com',
+					tags: { customer_ref: 'C-42', browser: 'Chrome' },
+				}),
+				{
+					...DEFAULT_SCRUBBING_RULES,
+					sensitiveKeys: ['customer_ref'],
+					customPatterns: ['[\\w.+-]+@[\\w-]+\\.[\\w.]+'],
+				},
+			);
+			expect(event.message).toBe(`Order placed by ${FILTERED}`);
+			expect(event.tags).toEqual({ customer_ref: FILTERED, browser: 'Chrome' });
+		});
+
+		it('should leave everything but custom rules when defaults are disabled', async () => {
+			const event = await scrubEvent(buildEvent({ extra: { password: 'hunter2' } }), {
+				...DEFAULT_SCRUBBING_RULES,
+				scrubDefaults: false,
+			});
+			expect(event.extra).toEqual({ password: 'hunter2' });
+		});
+
+		it('should anonymize IPs and hash emails when enabled', async () => {
+			const event = await scrubEvent(
+				buildEvent({ user: { id: 'u1', email: 'Jane@Example.com', ip_address: '203.0.113.42' } }),
+				{ ...DEFAULT_SCRUBBING_RULES, anonymizeIp: true, hashEmails: true },
+			);
+			expect(event.user?.id).toBe('u1');
+			expect(event.user?.ip_address).toBe('203.0.113.0');
+			expect(event.user?.email).toMatch(/^[0-9a-f]{32}$/);
+
+			const again = await scrubEvent(buildEvent({ user: { email: 'jane@example.com' } }), {
+				...DEFAULT_SCRUBBING_RULES,
+				hashEmails: true,
+			});
+			expect(again.user?.email).toBe(event.user?.email);
+		});
+
+		it('should anonymize IPv6 addresses', () => {
+			expect(anonymizeIp('2001:db8:85a3::8a2e:370:7334')).toBe('2001:db8:85a3::');
+			expect(anonymizeIp('::1')).toBe('0:0:0::');
+			expect(anonymizeIp('not-an-ip')).toBe('not-an-ip');
+		});
+	});
+
+	describe('Ingestion', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `scrubbing-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Scrubbing Test User',
+			});
+			project = await createTestProject(testUser.token!, {
+				name: `Scrubbing Project ${Date.now()}`,
+			});
+		});
+
+		async function getEvent(eventId: string): Promise<SentryEvent> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/events/${eventId}`,
+			);
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as { event: SentryEvent };
+			return data.event;
+		}
+
+		async function updateRules(rules: unknown): Promise<Response> {
+			return authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/settings/scrubbing`,
+				{ method: 'PUT', body: JSON.stringify(rules) },
+			);
+		}
+
+		it('should return the default rules', async () => {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/settings/scrubbing`,
+			);
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as { rules: typeof DEFAULT_SCRUBBING_RULES };
+			expect(data.rules).toEqual(DEFAULT_SCRUBBING_RULES);
+		});
+
+		it('should scrub stored events by default', async () => {
+			const event = buildEvent({
+				request: { headers: { Authorization: 'Bearer secret-token', Accept: 'text/html' } },
+				extra: { password: 'hunter2' },
+			});
+			await sendEvent(project.id, project.publicKey, event);
+
+			const stored = await getEvent(event.event_id);
+			expect(stored.request?.headers).toEqual({ Authorization: FILTERED, Accept: 'text/html' });
+			expect(stored.extra).toEqual({ password: FILTERED });
+			expect(JSON.stringify(stored)).not.toContain('hunter2');
+		});
+
+		it('should scrub tags before they are indexed', async () => {
+			const event = buildEvent({ tags: { session_id: 'abc123', browser: 'Firefox' } });
+			await sendEvent(project.id, project.publicKey, event);
+
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/tags/session_id/values`,
+			);
+			expect(response.status).toBe(200);
+			const body = await response.text();
+			expect(body).not.toContain('abc123');
+			expect(body).toContain(FILTERED);
+		});
+
+		it('should apply updated rules to new events', async () => {
+			const response = await updateRules({
+				anonymizeIp: true,
+				hashEmails: true,
+				customPatterns: ['order-\\d+'],
+			});
+			expect(response.status).toBe(200);
+
+			const event = buildEvent({
+				message: 'Payment failed for order-991',
+				user: { email: 'buyer@example.com', ip_address: '198.51.100.7' },
+			});
+			await sendEvent(project.id, project.publicKey, event);
+
+			const stored = await getEvent(event.event_id);
+			expect(stored.message).toBe(`Payment failed for ${FILTERED}`);
+			expect(stored.user?.ip_address).toBe('198.51.100.0');
+			expect(stored.user?.email).not.toContain('@');
+		});
+
+		it('should group events by their unscrubbed content', async () => {
+			const first = buildEvent({
+				message: 'Card 4111 1111 1111 1111 declined',
+				exception: undefined,
+			});
+			const second = buildEvent({
+				message: 'Card 5500 0000 0000 0004 declined',
+				exception: undefined,
+			});
+			await sendEvent(project.id, project.publicKey, first);
+			await sendEvent(project.id, project.publicKey, second);
+
+			async function getIssueId(eventId: string): Promise<string> {
+				const response = await authFetch(
+					testUser.token!,
+					`http://localhost/api/projects/${project.slug}/events/${eventId}`,
+				);
+				return ((await response.json()) as { issueId: string }).issueId;
+			}
+			expect(await getIssueId(first.event_id)).not.toBe(await getIssueId(second.event_id));
+			expect((await getEvent(first.event_id)).message).toBe(`Card ${FILTERED} declined`);
+		});
+
+		it('should reject invalid regular expressions', async () => {
+			const response = await updateRules({ customPatterns: ['(unclosed'] });
+			expect(response.status).toBe(400);
+			const data = (await response.json()) as { error: string };
+			expect(data.error).toBe('invalid_pattern');
+		});
+
+		it('should reject non-boolean options', async () => {
+			const response = await updateRules({ hashEmails: 'yes' });
+			expect(response.status).toBe(400);
+		});
+
+		it('should require authentication', async () => {
+			const response = await SELF.fetch(
+				`http://localhost/api/projects/${project.slug}/settings/scrubbing`,
+			);
+			expect(response.status).toBe(401);
+		});
+	});
+});
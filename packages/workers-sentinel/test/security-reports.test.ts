@@ -0,0 +1,203 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { parseSecurityReports } from '../src/lib/security-reports';
+import type { Issue } from '../src/types';
+import { authFetch, createTestProject, createTestUser } from './utils';
+
+function cspReport(blockedUri: string, directive = 'script-src-elem') {
+	return {
+		'csp-report': {
+			'document-uri': 'https://app.example.com/checkout',
+			referrer: '',
+			'violated-directive': directive,
+			'effective-directive': directive,
+			'original-policy': "default-src 'self'; report-uri /csp",
+			disposition: 'enforce',
+			'blocked-uri': blockedUri,
+			'status-code': 200,
+		},
+	};
+}
+
+async function sendReport(
+	project: { id: string; publicKey: string },
+	body: unknown,
+	contentType = 'application/csp-report',
+	query = '',
+): Promise<Response> {
+	return SELF.fetch(
+		`http://localhost/api/${project.id}/security/?sentry_key=${project.publicKey}${query}`,
+		{
+			method: 'POST',
+			headers: { 'Content-Type': contentType },
+			body: JSON.stringify(body),
+		},
+	);
+}
+
+describe('Security Reports', () => {
+	describe('parseSecurityReports', () => {
+		it('should normalize a legacy csp-report body', () => {
+			const [event] = parseSecurityReports(
+				JSON.stringify(cspReport('https://evil.example.net/track.js?id=1')),
+			);
+
+			expect(event.message).toBe("Blocked 'script-src-elem' from 'evil.example.net'");
+			expect(event.fingerprint).toEqual(['csp', 'script-src-elem', 'evil.example.net']);
+			expect(event.logger).toBe('csp');
+			expect(event.request?.url).toBe('https://app.example.com/checkout');
+		});
+
+		it('should group inline and data violations by keyword and scheme', () => {
+			const inline = parseSecurityReports(JSON.stringify(cspReport('')))[0];
+			const data = parseSecurityReports(JSON.stringify(cspReport('data:image/png;base64,AA')))[0];
+
+			expect(inline.fingerprint).toEqual(['csp', 'script-src-elem', 'inline']);
+			expect(data.fingerprint).toEqual(['csp', 'script-src-elem', 'data']);
+		});
+
+		it('should take the directive name from violated-directive when needed', () => {
+			const body = cspReport('https://cdn.example.org/a.css');
+			body['csp-report']['effective-directive'] = '';
+			body['csp-report']['violated-directive'] = "style-src 'self'";
+
+			const [event] = parseSecurityReports(JSON.stringify(body));
+			expect(event.fingerprint).toEqual(['csp', 'style-src', 'cdn.example.org']);
+		});
+
+		it('should normalize Reporting API csp-violation and network-error reports', () => {
+			const events = parseSecurityReports(
+				JSON.stringify([
+					{
+						type: 'csp-violation',
+						age: 10,
+						url: 'https://app.example.com/',
+						user_agent: 'Mozilla/5.0',
+						body: {
+							documentURL: 'https://app.example.com/',
+							blockedURL: 'https://ads.example.io/pixel',
+							effectiveDirective: 'img-src',
+							disposition: 'report',
+						},
+					},
+					{
+						type: 'network-error',
+						url: 'https://api.example.com/v1',
+						body: { type: 'dns.name_not_resolved', phase: 'dns' },
+					},
+					{ type: 'deprecation', body: { id: 'Foo' } },
+				]),
+			);
+
+			expect(events).toHaveLength(2);
+			expect(events[0].fingerprint).toEqual(['csp', 'img-src', 'ads.example.io']);
+			expect(events[0].level).toBe('warning');
+			expect(events[0].request?.headers?.['User-Agent']).toBe('Mozilla/5.0');
+			expect(events[1].fingerprint).toEqual(['nel', 'dns.name_not_resolved', 'api.example.com']);
+		});
+
+		it('should normalize expect-ct reports', () => {
+			const [event] = parseSecurityReports(
+				JSON.stringify({ 'expect-ct-report': { hostname: 'shop.example.com', port: 443 } }),
+			);
+			expect(event.message).toBe("Expect-CT failed for 'shop.example.com'");
+			expect(event.fingerprint).toEqual(['expect-ct', 'shop.example.com']);
+		});
+	});
+
+	describe('Ingestion', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `security-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Security Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: `Security ${Date.now()}` });
+		});
+
+		async function listIssues(): Promise<Issue[]> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues`,
+			);
+			const data = (await response.json()) as { issues: Issue[] };
+			return data.issues;
+		}
+
+		it('should group CSP violations by blocked host and directive', async () => {
+			for (const path of ['/a.js', '/b.js']) {
+				const response = await sendReport(project, cspReport(`https://evil.example.net${path}`));
+				expect(response.status).toBe(200);
+			}
+			await sendReport(project, cspReport('https://evil.example.net/c.css', 'style-src-elem'));
+
+			const issues = await listIssues();
+			const scripts = issues.find(
+				(i) => i.title === "Blocked 'script-src-elem' from 'evil.example.net'",
+			);
+			const styles = issues.find(
+				(i) => i.title === "Blocked 'style-src-elem' from 'evil.example.net'",
+			);
+			expect(scripts?.count).toBe(2);
+			expect(styles?.count).toBe(1);
+		});
+
+		it('should accept Reporting API deliveries', async () => {
+			const response = await sendReport(
+				project,
+				[
+					{
+						type: 'csp-violation',
+						url: 'https://app.example.com/',
+						body: { blockedURL: 'https://reports.example.io/x', effectiveDirective: 'connect-src' },
+					},
+				],
+				'application/reports+json',
+			);
+			expect(response.status).toBe(200);
+
+			const issues = await listIssues();
+			expect(
+				issues.some((i) => i.title === "Blocked 'connect-src' from 'reports.example.io'"),
+			).toBe(true);
+		});
+
+		it('should apply the environment from the query string', async () => {
+			await sendReport(
+				project,
+				cspReport('https://env.example.net/x.js'),
+				'application/csp-report',
+				'&sentry_environment=staging',
+			);
+
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues?environment=staging`,
+			);
+			const data = (await response.json()) as { issues: Issue[] };
+			expect(data.issues.map((i) => i.title)).toContain(
+				"Blocked 'script-src-elem' from 'env.example.net'",
+			);
+		});
+
+		it('should reject reports without a valid key', async () => {
+			const response = await SELF.fetch(`http://localhost/api/${project.id}/security/`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/csp-report' },
+				body: JSON.stringify(cspReport('https://evil.example.net/a.js')),
+			});
+			expect(response.status).toBe(401);
+		});
+
+		it('should reject bodies that are not JSON', async () => {
+			const response = await SELF.fetch(
+				`http://localhost/api/${project.id}/security/?sentry_key=${project.publicKey}`,
+				{ method: 'POST', headers: { 'Content-Type': 'application/csp-report' }, body: 'nope' },
+			);
+			expect(response.status).toBe(400);
+		});
+	});
+});
@@ -256,13 +256,7 @@ describe('Issue Snooze', () => {
 			const projectState = env.PROJECT_STATE.get(projectStateId);
 
 			const pastTime = new Date(Date.now() - 60 * 1000).toISOString();
-			await projectState.fetch(
-				new Request('http://internal/issue/snooze', {
-					method: 'POST',
-					headers: { 'Content-Type': 'application/json' },
-					body: JSON.stringify({ issueId: testIssueId, duration: pastTime }),
-				}),
-			);
+			await projectState.snoozeIssue({ issueId: testIssueId, duration: pastTime });
 
 			// Verify snoozedUntil is set (even though expired, it's still non-null)
 			const beforeResponse = await authFetch(
@@ -0,0 +1,260 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { buildSpikeWebhookPayload } from '../src/lib/webhook';
+import {
+	authFetch,
+	createTestEnvelope,
+	createTestProject,
+	createTestUser,
+	postEnvelope,
+	seedSpikeHistory,
+} from './utils';
+
+interface SpikeStatus {
+	enabled: boolean;
+	multiplier: number;
+	ceiling: number;
+	baseline: number;
+	threshold: number;
+	isActive: boolean;
+}
+
+interface SpikeEntry {
+	bucket: string;
+	baseline: number;
+	threshold: number;
+	ceiling: number;
+	dropped: number;
+}
+
+// An event whose timestamp lies in an earlier hour, so it counts towards the baseline
+function pastEventEnvelope(projectId: string, publicKey: string, hoursAgo: number): string {
+	const [header, itemHeader, payload] = createTestEnvelope(projectId, publicKey).split('\n');
+	const event = JSON.parse(payload);
+	event.timestamp = new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
+	return [header, itemHeader, JSON.stringify(event)].join('\n');
+}
+
+describe('Spike Protection', () => {
+	let testUser: Awaited<ReturnType<typeof createTestUser>>;
+
+	beforeAll(async () => {
+		testUser = await createTestUser({
+			email: `spike-test-${Date.now()}@example.com`,
+			password: 'testpassword123',
+			name: 'Spike Test User',
+		});
+	});
+
+	async function configure(slug: string, spikeProtection: unknown): Promise<Response> {
+		return authFetch(testUser.token!, `http://localhost/api/projects/${slug}`, {
+			method: 'PATCH',
+			body: JSON.stringify({ spikeProtection }),
+		});
+	}
+
+	async function getStatus(slug: string): Promise<SpikeStatus> {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${slug}/rate-limit`,
+		);
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as { spikeProtection: SpikeStatus };
+		return data.spikeProtection;
+	}
+
+	async function getSpikes(slug: string): Promise<SpikeEntry[]> {
+		const response = await authFetch(
+			testUser.token!,
+			`http://localhost/api/projects/${slug}/spikes`,
+		);
+		expect(response.status).toBe(200);
+		const data = (await response.json()) as { spikes: SpikeEntry[] };
+		return data.spikes;
+	}
+
+	describe('Config', () => {
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			project = await createTestProject(testUser.token!, { name: `Spike Config ${Date.now()}` });
+		});
+
+		it('should be disabled by default', async () => {
+			const status = await getStatus(project.slug);
+			expect(status.enabled).toBe(false);
+			expect(status.multiplier).toBe(10);
+			expect(status.ceiling).toBe(1000);
+			expect(status.isActive).toBe(false);
+		});
+
+		it('should update spike protection settings', async () => {
+			const response = await configure(project.slug, {
+				enabled: true,
+				multiplier: 5,
+				ceiling: 200,
+			});
+			expect(response.status).toBe(200);
+
+			const status = await getStatus(project.slug);
+			expect(status.enabled).toBe(true);
+			expect(status.multiplier).toBe(5);
+			expect(status.ceiling).toBe(200);
+		});
+
+		it('should reject a multiplier below 1', async () => {
+			const response = await configure(project.slug, { multiplier: 0.5 });
+			expect(response.status).toBe(400);
+		});
+
+		it('should reject a negative ceiling', async () => {
+			const response = await configure(project.slug, { ceiling: -10 });
+			expect(response.status).toBe(400);
+		});
+
+		it('should require authentication for spike history', async () => {
+			const response = await SELF.fetch(`http://localhost/api/projects/${project.slug}/spikes`);
+			expect(response.status).toBe(401);
+		});
+	});
+
+	describe('Throttling', () => {
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			project = await createTestProject(testUser.token!, { name: `Spike Throttle ${Date.now()}` });
+			await seedSpikeHistory(project.id, 1);
+			await configure(project.slug, { enabled: true, multiplier: 10, ceiling: 2 });
+		});
+
+		it('should accept events up to the ceiling', async () => {
+			for (let i = 0; i < 2; i++) {
+				const response = await postEnvelope(
+					project.id,
+					project.publicKey,
+					createTestEnvelope(project.id, project.publicKey),
+				);
+				expect(response.status).toBe(200);
+			}
+		});
+
+		it('should drop events above the ceiling during a spike', async () => {
+			const response = await postEnvelope(
+				project.id,
+				project.publicKey,
+				createTestEnvelope(project.id, project.publicKey),
+			);
+
+			expect(response.status).toBe(429);
+			expect(response.headers.get('X-Sentry-Rate-Limits')).toMatch(
+				/^\d+:error;transaction:project:spike_protection$/,
+			);
+		});
+
+		it('should record one spike entry per hour with the dropped count', async () => {
+			await postEnvelope(
+				project.id,
+				project.publicKey,
+				createTestEnvelope(project.id, project.publicKey),
+			);
+
+			const spikes = await getSpikes(project.slug);
+			expect(spikes).toHaveLength(1);
+			expect(spikes[0].ceiling).toBe(2);
+			expect(spikes[0].dropped).toBe(2);
+		});
+
+		it('should report the spike as active', async () => {
+			const status = await getStatus(project.slug);
+			expect(status.isActive).toBe(true);
+		});
+	});
+
+	describe('Baseline', () => {
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			project = await createTestProject(testUser.token!, { name: `Spike Baseline ${Date.now()}` });
+
+			// Two events from two days ago give a baseline of 2 / 168 events per hour
+			for (let i = 0; i < 2; i++) {
+				await postEnvelope(
+					project.id,
+					project.publicKey,
+					pastEventEnvelope(project.id, project.publicKey, 48),
+				);
+			}
+			await configure(project.slug, { enabled: true, multiplier: 200, ceiling: 0 });
+		});
+
+		it('should derive the threshold from historical volume', async () => {
+			const status = await getStatus(project.slug);
+			expect(status.baseline).toBe(0.01);
+			expect(status.threshold).toBe(2);
+		});
+
+		it('should accept events while the hour stays within the threshold', async () => {
+			const response = await postEnvelope(
+				project.id,
+				project.publicKey,
+				createTestEnvelope(project.id, project.publicKey),
+			);
+			expect(response.status).toBe(200);
+		});
+
+		it('should throttle once the hour exceeds the threshold', async () => {
+			const response = await postEnvelope(
+				project.id,
+				project.publicKey,
+				createTestEnvelope(project.id, project.publicKey),
+			);
+			expect(response.status).toBe(429);
+
+			const spikes = await getSpikes(project.slug);
+			expect(spikes[0].threshold).toBe(2);
+		});
+	});
+
+	describe('Without history', () => {
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			project = await createTestProject(testUser.token!, { name: `Spike New ${Date.now()}` });
+			await configure(project.slug, { enabled: true, multiplier: 10, ceiling: 2 });
+		});
+
+		it('should not throttle a project with no baseline yet', async () => {
+			for (let i = 0; i < 4; i++) {
+				const response = await postEnvelope(
+					project.id,
+					project.publicKey,
+					createTestEnvelope(project.id, project.publicKey),
+				);
+				expect(response.status).toBe(200);
+			}
+
+			expect(await getSpikes(project.slug)).toEqual([]);
+		});
+	});
+
+	describe('Notification payload', () => {
+		it('should describe the spike', () => {
+			const payload = buildSpikeWebhookPayload(
+				{ id: 'p1', name: 'My App', slug: 'my-app' },
+				{
+					bucket: '2026-01-01T10:00:00.000Z',
+					startedAt: '2026-01-01T10:20:00.000Z',
+					baseline: 12.5,
+					threshold: 125,
+					ceiling: 500,
+					dropped: 1,
+				},
+			);
+
+			expect(payload.text).toContain('[My App] Spike protection activated');
+			expect(payload.text).toContain('11:00 UTC');
+			expect(payload.spike.ceiling).toBe(500);
+			expect(payload.project.slug).toBe('my-app');
+		});
+	});
+});
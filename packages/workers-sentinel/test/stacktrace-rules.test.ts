@@ -0,0 +1,199 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { extractCulprit, generateFingerprint } from '../src/lib/fingerprint';
+import { applyStacktraceRules, parseStacktraceRules } from '../src/lib/stacktrace-rules';
+import type { Issue, RuleSyntaxError, SentryEvent, StackFrame } from '../src/types';
+import { authFetch, createTestProject, createTestUser, sendTestEvent } from './utils';
+
+// Frames are ordered oldest first, as SDKs send them
+function eventWithFrames(frames: StackFrame[]): SentryEvent {
+	return {
+		event_id: crypto.randomUUID().replace(/-/g, ''),
+		timestamp: new Date().toISOString(),
+		platform: 'javascript',
+		level: 'error',
+		exception: { values: [{ type: 'TypeError', value: 'x is undefined', stacktrace: { frames } }] },
+	};
+}
+
+describe('Stack Trace Rules', () => {
+	describe('parseStacktraceRules', () => {
+		it('should parse matchers and actions', () => {
+			const { rules, errors } = parseStacktraceRules(
+				[
+					'# Vendored code',
+					'path:node_modules/** -app',
+					'function:__wrap* -group',
+					'module:vendor/* !function:main +app +group',
+				].join('\n'),
+			);
+
+			expect(errors).toEqual([]);
+			expect(rules).toEqual([
+				{
+					line: 2,
+					matchers: [{ key: 'stack.abs_path', pattern: 'node_modules/**', negated: false }],
+					actions: [{ flag: 'app', value: false }],
+				},
+				{
+					line: 3,
+					matchers: [{ key: 'stack.function', pattern: '__wrap*', negated: false }],
+					actions: [{ flag: 'group', value: false }],
+				},
+				{
+					line: 4,
+					matchers: [
+						{ key: 'stack.module', pattern: 'vendor/*', negated: false },
+						{ key: 'stack.function', pattern: 'main', negated: true },
+					],
+					actions: [
+						{ flag: 'app', value: true },
+						{ flag: 'group', value: true },
+					],
+				},
+			]);
+		});
+
+		it('should report syntax errors with their position', () => {
+			const { rules, errors } = parseStacktraceRules(
+				[
+					'path:node_modules/**',
+					'-app',
+					'error.type:Foo -app',
+					'function:foo +inapp',
+					'function:foo -> bar',
+				].join('\n'),
+			);
+
+			expect(rules).toEqual([]);
+			expect(errors).toEqual<RuleSyntaxError[]>([
+				{ line: 1, column: 21, message: 'Expected an action: +app, -app, +group or -group' },
+				{ line: 2, column: 1, message: 'Expected at least one matcher before the actions' },
+				{ line: 3, column: 1, message: "Unknown matcher 'error.type'" },
+				{ line: 4, column: 14, message: 'Expected an action: +app, -app, +group or -group' },
+				{ line: 5, column: 14, message: 'Expected an action: +app, -app, +group or -group' },
+			]);
+		});
+	});
+
+	describe('applyStacktraceRules', () => {
+		it('should apply rules in order with later rules winning', () => {
+			const { rules } = parseStacktraceRules(
+				['path:node_modules/** -app', 'path:**/node_modules/@acme/** +app'].join('\n'),
+			);
+
+			const frames = applyStacktraceRules(
+				[
+					{ abs_path: '/srv/app/node_modules/lodash/index.js', in_app: true },
+					{ abs_path: '/srv/app/node_modules/@acme/ui/button.js', in_app: false },
+					{ filename: 'C:\\app\\src\\index.js', in_app: true },
+				],
+				rules,
+			);
+
+			expect(frames.map((f) => f.in_app)).toEqual([false, true, true]);
+		});
+	});
+
+	describe('grouping', () => {
+		const app = { filename: 'src/checkout.js', function: 'submit', lineno: 10, in_app: true };
+
+		it('should pick top frames after in-app rules', () => {
+			const { rules } = parseStacktraceRules('path:node_modules/** -app');
+			const first = eventWithFrames([
+				app,
+				{ filename: 'node_modules/lib/a.js', function: 'call', lineno: 1, in_app: true },
+			]);
+			const second = eventWithFrames([
+				app,
+				{ filename: 'node_modules/lib/b.js', function: 'call', lineno: 2, in_app: true },
+			]);
+
+			expect(generateFingerprint(first)).not.toBe(generateFingerprint(second));
+			expect(generateFingerprint(first, [], rules)).toBe(generateFingerprint(second, [], rules));
+			expect(extractCulprit(first, rules)).toBe('src/checkout.js in submit at line 10');
+		});
+
+		it('should leave -group frames out of the fingerprint', () => {
+			const { rules } = parseStacktraceRules('function:__wrap* -group');
+			const first = eventWithFrames([app, { filename: 'src/wrap.js', function: '__wrapA' }]);
+			const second = eventWithFrames([app, { filename: 'src/wrap.js', function: '__wrapB' }]);
+
+			expect(generateFingerprint(first)).not.toBe(generateFingerprint(second));
+			expect(generateFingerprint(first, [], rules)).toBe(generateFingerprint(second, [], rules));
+		});
+	});
+
+	describe('API', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `stacktrace-rules-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Stack Trace Rules Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: 'Stack Trace Rules Project' });
+		});
+
+		function settingsUrl(path = ''): string {
+			return `http://localhost/api/projects/${project.slug}/settings/stacktrace${path}`;
+		}
+
+		it('should validate and reject invalid rules', async () => {
+			const validated = await authFetch(testUser.token!, settingsUrl('/validate'), {
+				method: 'POST',
+				body: JSON.stringify({ rules: 'path:vendor/** -app\nfunction:foo' }),
+			});
+			expect(await validated.json()).toMatchObject({ valid: false, ruleCount: 1 });
+
+			const saved = await authFetch(testUser.token!, settingsUrl(), {
+				method: 'PUT',
+				body: JSON.stringify({ rules: 'function:foo' }),
+			});
+			expect(saved.status).toBe(400);
+			expect(await saved.json()).toMatchObject({ error: 'invalid_rules' });
+		});
+
+		it('should group by the rules and show them in stack traces', async () => {
+			const saved = await authFetch(testUser.token!, settingsUrl(), {
+				method: 'PUT',
+				body: JSON.stringify({ rules: 'function:__wrap* -group\npath:vendor/** -app' }),
+			});
+			expect(saved.status).toBe(200);
+
+			for (const wrapper of ['__wrapFetch', '__wrapTimer']) {
+				await sendTestEvent(project.id, project.publicKey, {
+					exception: {
+						type: 'TypeError',
+						value: 'Cannot read properties of undefined',
+						stacktrace: {
+							frames: [
+								{ filename: 'src/app.js', function: 'main', lineno: 3, in_app: true },
+								{ filename: 'vendor/sdk.js', function: wrapper, lineno: 7, in_app: true },
+							],
+						},
+					},
+				});
+			}
+
+			const issuesResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues`,
+			);
+			const { issues } = (await issuesResponse.json()) as { issues: Issue[] };
+			expect(issues).toHaveLength(1);
+			expect(issues[0].count).toBe(2);
+			expect(issues[0].culprit).toBe('src/app.js in main at line 3');
+
+			const eventsResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues/${issues[0].id}/events`,
+			);
+			const { events } = (await eventsResponse.json()) as { events: SentryEvent[] };
+			const frames = events[0].exception!.values[0].stacktrace!.frames;
+			expect(frames[0]).toMatchObject({ function: 'main', in_app: true });
+			expect(frames[1]).toMatchObject({ in_app: false, exclude_from_grouping: true });
+		});
+	});
+});
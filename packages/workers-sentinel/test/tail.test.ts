@@ -0,0 +1,204 @@
+import { createExecutionContext, env, waitOnExecutionContext } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { workersSentinel } from '../src/index';
+import { traceItemToEvents } from '../src/lib/trace-items';
+import { handleTail } from '../src/tail';
+import type { Issue, TailScript } from '../src/types';
+import { authFetch, createTestProject, createTestUser } from './utils';
+
+function traceItem(overrides: Partial<TraceItem> = {}): TraceItem {
+	return {
+		event: {
+			request: {
+				url: 'https://api.example.com/orders/42?x=1',
+				method: 'POST',
+				headers: {},
+				getUnredacted() {
+					return this;
+				},
+			},
+			response: { status: 500 },
+		},
+		eventTimestamp: Date.now(),
+		logs: [],
+		exceptions: [],
+		diagnosticsChannelEvents: [],
+		scriptName: 'orders-api',
+		outcome: 'exception',
+		executionModel: 'stateless',
+		truncated: false,
+		cpuTime: 3,
+		wallTime: 12,
+		...overrides,
+	};
+}
+
+const STACK = [
+	'TypeError: Cannot read properties of undefined',
+	'    at handleOrder (index.js:120:15)',
+	'    at Object.fetch (index.js:30:10)',
+].join('\n');
+
+describe('Tail Worker', () => {
+	describe('traceItemToEvents', () => {
+		it('should convert uncaught exceptions with their stack trace', () => {
+			const [event] = traceItemToEvents(
+				traceItem({
+					exceptions: [
+						{
+							name: 'TypeError',
+							message: 'Cannot read properties of undefined',
+							timestamp: Date.now(),
+							stack: STACK,
+						},
+					],
+				}),
+			);
+
+			const exception = event.exception!.values[0];
+			expect(exception.type).toBe('TypeError');
+			expect(exception.mechanism).toEqual({ type: 'cloudflare.tail', handled: false });
+			// Sentry orders frames oldest call first
+			expect(exception.stacktrace!.frames.map((f) => f.function)).toEqual([
+				'Object.fetch',
+				'handleOrder',
+			]);
+			expect(event.transaction).toBe('POST /orders/42');
+			expect(event.server_name).toBe('orders-api');
+		});
+
+		it('should convert console.error and keep other logs as breadcrumbs', () => {
+			const events = traceItemToEvents(
+				traceItem({
+					outcome: 'ok',
+					logs: [
+						{ timestamp: Date.now(), level: 'log', message: ['loading order', 42] },
+						{ timestamp: Date.now(), level: 'error', message: ['payment failed', { code: 402 }] },
+					],
+				}),
+			);
+
+			expect(events).toHaveLength(1);
+			expect(events[0].message).toBe('payment failed {"code":402}');
+			expect(events[0].breadcrumbs).toEqual([
+				expect.objectContaining({ category: 'console', message: 'loading order 42' }),
+			]);
+		});
+
+		it('should produce nothing for clean invocations', () => {
+			const events = traceItemToEvents(
+				traceItem({
+					outcome: 'ok',
+					logs: [{ timestamp: Date.now(), level: 'info', message: ['fine'] }],
+				}),
+			);
+			expect(events).toEqual([]);
+		});
+	});
+
+	describe('Tail scripts and ingestion', () => {
+		let testUser: Awaited<ReturnType<typeof createTestUser>>;
+		let project: Awaited<ReturnType<typeof createTestProject>>;
+		const scriptName = `orders-api-${Date.now()}`;
+
+		beforeAll(async () => {
+			testUser = await createTestUser({
+				email: `tail-test-${Date.now()}@example.com`,
+				password: 'testpassword123',
+				name: 'Tail Test User',
+			});
+			project = await createTestProject(testUser.token!, { name: `Tail ${Date.now()}` });
+		});
+
+		async function runTail(items: TraceItem[]): Promise<void> {
+			const ctx = createExecutionContext();
+			await handleTail(items, env, ctx);
+			await waitOnExecutionContext(ctx);
+		}
+
+		async function listIssues(): Promise<Issue[]> {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/issues`,
+			);
+			const data = (await response.json()) as { issues: Issue[] };
+			return data.issues;
+		}
+
+		it('should map a script name to the project', async () => {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/tail-scripts`,
+				{ method: 'POST', body: JSON.stringify({ scriptName }) },
+			);
+			expect(response.status).toBe(201);
+
+			const listResponse = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/tail-scripts`,
+			);
+			const data = (await listResponse.json()) as { scripts: TailScript[] };
+			expect(data.scripts.map((s) => s.scriptName)).toEqual([scriptName]);
+		});
+
+		it('should reject invalid and duplicate script names', async () => {
+			const invalid = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/tail-scripts`,
+				{ method: 'POST', body: JSON.stringify({ scriptName: 'not a script' }) },
+			);
+			expect(invalid.status).toBe(400);
+
+			const other = await createTestProject(testUser.token!, { name: `Tail other ${Date.now()}` });
+			const duplicate = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${other.slug}/tail-scripts`,
+				{ method: 'POST', body: JSON.stringify({ scriptName }) },
+			);
+			expect(duplicate.status).toBe(409);
+		});
+
+		it('should ingest trace events from mapped scripts into issues', async () => {
+			const exception = {
+				name: 'TailError',
+				message: 'Order not found',
+				timestamp: Date.now(),
+				stack: STACK,
+			};
+			await runTail([
+				traceItem({ scriptName, exceptions: [exception] }),
+				traceItem({ scriptName, exceptions: [exception] }),
+				traceItem({ scriptName: 'unmapped-script', exceptions: [exception] }),
+			]);
+
+			const issues = await listIssues();
+			const issue = issues.find((i) => i.title === 'TailError: Order not found');
+			expect(issue?.count).toBe(2);
+		});
+
+		it('should stop ingesting once the mapping is removed', async () => {
+			const response = await authFetch(
+				testUser.token!,
+				`http://localhost/api/projects/${project.slug}/tail-scripts/${scriptName}`,
+				{ method: 'DELETE' },
+			);
+			expect(response.status).toBe(200);
+
+			await runTail([
+				traceItem({
+					scriptName,
+					logs: [{ timestamp: Date.now(), level: 'error', message: ['after unmapping'] }],
+				}),
+			]);
+
+			const issues = await listIssues();
+			expect(issues.some((i) => i.title === 'after unmapping')).toBe(false);
+		});
+
+		it('should export a tail handler only when enabled', () => {
+			expect('tail' in workersSentinel()).toBe(false);
+			const handler = workersSentinel({ tail: true });
+			expect('tail' in handler && handler.tail).toBe(handleTail);
+		});
+	});
+});
@@ -1,4 +1,4 @@
-import { SELF } from 'cloudflare:test';
+import { env, runInDurableObject, SELF } from 'cloudflare:test';
 
 export interface TestUser {
 	email: string;
@@ -217,6 +217,68 @@ export function createTestEnvelope(
 	].join('\n');
 }
 
+/**
+ * Generate an event ID in the format SDKs send
+ */
+export function newEventId(): string {
+	return crypto.randomUUID().replace(/-/g, '');
+}
+
+/**
+ * Create a transaction event that started a minute ago and ran for `durationMs`
+ */
+export function createTestTransaction(
+	name: string,
+	durationMs = 250,
+	options: { status?: string; spans?: unknown[]; eventId?: string; environment?: string } = {},
+) {
+	const start = Date.now() / 1000 - 60;
+	return {
+		event_id: options.eventId || newEventId(),
+		type: 'transaction',
+		transaction: name,
+		start_timestamp: start,
+		timestamp: start + durationMs / 1000,
+		platform: 'javascript',
+		environment: options.environment || 'production',
+		contexts: {
+			trace: {
+				trace_id: newEventId(),
+				span_id: 'root000000000000',
+				op: 'http.server',
+				status: options.status || 'ok',
+			},
+		},
+		spans: options.spans || [],
+	};
+}
+
+/**
+ * Create a release health session update
+ */
+export function createTestSession(
+	overrides: Partial<{
+		sid: string;
+		did: string;
+		seq: number;
+		status: string;
+		errors: number;
+		release: string;
+		environment: string;
+	}> = {},
+) {
+	const { release = 'app@1.0.0', environment = 'production', ...rest } = overrides;
+	return {
+		sid: crypto.randomUUID(),
+		init: true,
+		started: new Date().toISOString(),
+		status: 'ok',
+		errors: 0,
+		...rest,
+		attrs: { release, environment },
+	};
+}
+
 /**
  * Send an event to the ingestion endpoint
  */
@@ -244,6 +306,62 @@ export async function sendTestEvent(
 	return response.json() as Promise<{ id: string }>;
 }
 
+/**
+ * Post a raw envelope body to the ingestion endpoint
+ */
+export async function postEnvelope(
+	projectId: string,
+	publicKey: string,
+	body: BodyInit,
+	headers: Record<string, string> = {},
+): Promise<Response> {
+	return SELF.fetch(`http://localhost/api/${projectId}/envelope/`, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-sentry-envelope',
+			'X-Sentry-Auth': `Sentry sentry_version=7, sentry_key=${publicKey}`,
+			...headers,
+		},
+		body,
+	});
+}
+
+/**
+ * Send an envelope made of JSON items, each with its item type and optional extra headers
+ */
+export async function sendEnvelopeItems(
+	projectId: string,
+	publicKey: string,
+	items: Array<{ type: string; payload: unknown; headers?: Record<string, unknown> }>,
+	header: Record<string, unknown> = {},
+): Promise<Response> {
+	const lines = [JSON.stringify({ dsn: `https://${publicKey}@localhost/${projectId}`, ...header })];
+	for (const item of items) {
+		lines.push(
+			JSON.stringify({ type: item.type, ...item.headers }),
+			typeof item.payload === 'string' ? item.payload : JSON.stringify(item.payload),
+		);
+	}
+
+	return postEnvelope(projectId, publicKey, lines.join('\n'));
+}
+
+/**
+ * Give a project traffic history from two days ago, enough for spike protection to apply
+ */
+export async function seedSpikeHistory(projectId: string, count: number): Promise<void> {
+	const stub = env.PROJECT_STATE.get(env.PROJECT_STATE.idFromName(projectId));
+	const bucket = new Date(Date.now() - 48 * 60 * 60 * 1000);
+	bucket.setUTCMinutes(0, 0, 0);
+	await runInDurableObject(stub, (_instance, state) => {
+		state.storage.sql.exec(
+			'INSERT INTO rate_limit_counters (bucket, count) VALUES (?, ?)',
+			bucket.toISOString(),
+			count,
+		);
+	});
+}
+
 /**
  * Make an authenticated request
  */
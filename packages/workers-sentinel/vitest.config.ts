@@ -8,6 +8,11 @@ export default defineWorkersConfig({
 				singleWorker: true,
 				main: './test/entry.ts',
 				wrangler: { configPath: './wrangler.jsonc' },
+				// Queue-backed ingestion is opted into per test by passing this binding as INGEST_QUEUE
+				miniflare: {
+					queueProducers: { TEST_INGEST_QUEUE: 'sentinel-ingest-test' },
+					queueConsumers: { 'sentinel-ingest-test': { maxBatchTimeout: 0.05 } },
+				},
 			},
 		},
 	},